@@ -0,0 +1,122 @@
+/**
+ * User accounts: every user owns a personal vault named after them, signs in to the dashboard
+ * with that vault's password and is limited to a storage quota. Admins (and whoever holds the
+ * default vault's password) manage users, sessions and the server.
+ * A new user's vault is initialized by the user, with a one-time setup code from the admin,
+ * so the admin never learns the password that encrypts it.
+ */
+
+import crypto from "crypto";
+import type { ServerConfig } from "./config";
+import { createMetadataStore } from "./metadata-store";
+import type { MetadataStore } from "./metadata-store";
+
+export type UserRole = "admin" | "user";
+
+export interface UserAccount {
+  username: string;
+  role: UserRole;
+  /** Upper limit for the user's vault in bytes (0 = unlimited), see Storage.setQuota. */
+  quotaBytes: number;
+  createdAt: number;
+  /** True until the user initializes their vault with the setup code. */
+  pendingSetup: boolean;
+}
+
+/** Who a dashboard token belongs to: a user, or the holder of the default vault's password (username null). */
+export interface DashboardUser {
+  username: string | null;
+  admin: boolean;
+}
+
+/** Setup codes are 15 characters from an alphabet without look-alikes (I, L, O, 0, 1), about 73 bits. */
+const SETUP_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const SETUP_CODE_LENGTH = 15;
+
+export class Accounts {
+  private db: MetadataStore;
+
+  private constructor(db: MetadataStore) {
+    this.db = db;
+  }
+
+  static async open(config: ServerConfig): Promise<Accounts> {
+    const db = createMetadataStore(config, config.dataDir, "accounts");
+    await db.lock("schema", () => db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        username TEXT PRIMARY KEY,
+        role TEXT NOT NULL DEFAULT 'user',
+        quota_bytes INTEGER NOT NULL DEFAULT 0,
+        setup_code_hash TEXT,
+        created_at INTEGER NOT NULL
+      );
+    `));
+    return new Accounts(db);
+  }
+
+  async getUser(username: string): Promise<UserAccount | null> {
+    const row = await this.db.prepare("SELECT username, role, quota_bytes, setup_code_hash, created_at FROM users WHERE username = ?").get(username) as UserRow | undefined;
+    return row ? toAccount(row) : null;
+  }
+
+  async listUsers(): Promise<UserAccount[]> {
+    const rows = await this.db.prepare("SELECT username, role, quota_bytes, setup_code_hash, created_at FROM users ORDER BY username").all() as UserRow[];
+    return rows.map(toAccount);
+  }
+
+  /** Create a user. Returns the setup code the user initializes their vault with. */
+  async createUser(username: string, role: UserRole, quotaBytes: number): Promise<string> {
+    const code = Array.from(crypto.randomBytes(SETUP_CODE_LENGTH), (b) => SETUP_CODE_ALPHABET[b % SETUP_CODE_ALPHABET.length]).join("");
+    await this.db.prepare("INSERT INTO users (username, role, quota_bytes, setup_code_hash, created_at) VALUES (?, ?, ?, ?, ?)").run(username, role, quotaBytes, hashSetupCode(code), Date.now());
+    return code.match(/.{5}/g)!.join("-");
+  }
+
+  async updateUser(username: string, role: UserRole, quotaBytes: number): Promise<boolean> {
+    return (await this.db.prepare("UPDATE users SET role = ?, quota_bytes = ? WHERE username = ?").run(role, quotaBytes, username)).changes > 0;
+  }
+
+  async deleteUser(username: string): Promise<void> {
+    await this.db.prepare("DELETE FROM users WHERE username = ?").run(username);
+  }
+
+  /** Whether a setup code is the one of this user's uninitialized vault (dashes and case are ignored). */
+  async checkSetupCode(username: string, code: unknown): Promise<boolean> {
+    const row = await this.db.prepare("SELECT setup_code_hash FROM users WHERE username = ?").get(username) as { setup_code_hash: string | null } | undefined;
+    if (!row?.setup_code_hash || typeof code !== "string") return false;
+    return crypto.timingSafeEqual(Buffer.from(row.setup_code_hash, "hex"), Buffer.from(hashSetupCode(code), "hex"));
+  }
+
+  /** The setup code is used up once the vault has a password. */
+  async clearSetupCode(username: string): Promise<void> {
+    await this.db.prepare("UPDATE users SET setup_code_hash = NULL WHERE username = ?").run(username);
+  }
+
+  /** Delete every user (full server reset). */
+  async wipe(): Promise<void> {
+    await this.db.exec("DELETE FROM users");
+  }
+
+  close(): Promise<void> { return this.db.close(); }
+}
+
+interface UserRow {
+  username: string;
+  role: string;
+  quota_bytes: number;
+  setup_code_hash: string | null;
+  created_at: number;
+}
+
+function toAccount(row: UserRow): UserAccount {
+  return {
+    username: row.username,
+    role: row.role === "admin" ? "admin" : "user",
+    quotaBytes: row.quota_bytes,
+    createdAt: row.created_at,
+    pendingSetup: row.setup_code_hash !== null,
+  };
+}
+
+function hashSetupCode(code: string): string {
+  return crypto.createHash("sha256").update(code.replace(/[-\s]/g, "").toUpperCase()).digest("hex");
+}
@@ -1,8 +1,11 @@
 /**
  * Server authentication: password verification, token management, rate limiting.
+ * The password and recovery proofs are read from the Storage on every check, so a change
+ * made through another server instance applies right away; rate limits are per instance.
  */
 
 import crypto from "crypto";
+import { isValidVaultSalt, isValidKdfParams } from "../../shared/protocol";
 import type { Storage } from "./storage";
 
 interface RateLimitEntry {
@@ -14,34 +17,39 @@ const MAX_FAILURES = 5;
 const WINDOW_MS = 60_000; // 1 minute
 
 export class Auth {
-  private passwordHash: string | null;
+  private storage: Storage;
   private rateLimits: Map<string, RateLimitEntry> = new Map();
 
   constructor(storage: Storage) {
-    const persisted = storage.getServerPasswordHash();
-    this.passwordHash = persisted;
+    this.storage = storage;
   }
 
-  isInitialized(): boolean {
-    return !!this.passwordHash;
+  async isInitialized(): Promise<boolean> {
+    return !!(await this.storage.getServerPasswordHash());
   }
 
-  /** Reload auth state from persisted storage (used after full wipe). */
-  reload(storage: Storage): void {
-    this.passwordHash = storage.getServerPasswordHash();
+  /** Forget failed attempts (used after full wipe). */
+  clearRateLimits(): void {
     this.rateLimits.clear();
   }
 
-  /** One-time initialization. Stores the password hash and enables auth. */
-  initialize(passwordHash: string, storage: Storage): { ok: boolean; reason?: string } {
-    if (this.passwordHash) {
+  /**
+   * One-time initialization. Stores the password's sign-in proof with the salt and KDF
+   * parameters it was derived with, and enables auth.
+   */
+  async initialize(passwordHash: string, vaultSalt: unknown, kdf: unknown): Promise<{ ok: boolean; reason?: string }> {
+    if (await this.isInitialized()) {
       return { ok: false, reason: "Already initialized" };
     }
     if (!Auth.isValidHexSha256(passwordHash)) {
       return { ok: false, reason: "Invalid passwordHash" };
     }
-    storage.setServerPasswordHash(passwordHash);
-    this.passwordHash = passwordHash;
+    if (!isValidVaultSalt(vaultSalt) || !isValidKdfParams(kdf)) {
+      return { ok: false, reason: "Invalid vaultSalt or kdf" };
+    }
+    if (!(await this.storage.initPassword(passwordHash, vaultSalt, kdf))) {
+      return { ok: false, reason: "Already initialized" };
+    }
     this.rateLimits.clear();
     return { ok: true };
   }
@@ -50,17 +58,35 @@ export class Auth {
     return /^[a-f0-9]{64}$/i.test(hash);
   }
 
+  /** Whether a client-supplied hash (new password hash or recovery proof) is well-formed. */
+  isValidPasswordHash(hash: string): boolean {
+    return Auth.isValidHexSha256(hash);
+  }
+
   /**
-   * Verify a client's password hash.
-   * @param clientHash - SHA-256 hash provided by the client
+   * Verify a client's password sign-in proof.
+   * @param clientHash - Proof provided by the client (see InitStatus)
    * @param ip - Client IP for rate limiting
    * @returns true if authenticated, false if wrong password or rate limited
    */
-  verify(clientHash: string, ip: string): { ok: boolean; reason?: string } {
-    if (!this.passwordHash) {
+  async verify(clientHash: string, ip: string): Promise<{ ok: boolean; reason?: string }> {
+    const passwordHash = await this.storage.getServerPasswordHash();
+    if (!passwordHash) {
       return { ok: false, reason: "Server not initialized" };
     }
+    return this.verifyRateLimited(passwordHash, clientHash, ip, "Invalid password.");
+  }
+
+  /** Verify a recovery-phrase proof, rate limited together with password attempts. */
+  async verifyRecovery(clientHash: string, ip: string): Promise<{ ok: boolean; reason?: string }> {
+    const recoveryHash = await this.storage.getRecoveryHash();
+    if (!recoveryHash) {
+      return { ok: false, reason: "No recovery key has been set up for this vault." };
+    }
+    return this.verifyRateLimited(recoveryHash, clientHash, ip, "Invalid recovery phrase.");
+  }
 
+  private verifyRateLimited(storedHash: string, clientHash: string, ip: string, failReason: string): { ok: boolean; reason?: string } {
     // Check rate limit
     const limit = this.rateLimits.get(ip);
     if (limit) {
@@ -72,7 +98,7 @@ export class Auth {
     }
 
     // Compare hashes (constant-time comparison)
-    const expected = Buffer.from(this.passwordHash, "hex");
+    const expected = Buffer.from(storedHash, "hex");
     const provided = Buffer.from(clientHash, "hex");
 
     if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
@@ -81,7 +107,7 @@ export class Auth {
       entry.failures++;
       entry.resetAt = Date.now() + WINDOW_MS;
       this.rateLimits.set(ip, entry);
-      return { ok: false, reason: "Invalid password." };
+      return { ok: false, reason: failReason };
     }
 
     // Success — clear any rate limit entries for this IP
@@ -93,10 +119,11 @@ export class Auth {
    * Constant-time hash check without rate limiting.
    * Used by dashboard middleware to validate the stored session token.
    */
-  checkHash(hash: string): boolean {
+  async checkHash(hash: string): Promise<boolean> {
+    const passwordHash = await this.storage.getServerPasswordHash();
     try {
-      if (!this.passwordHash) return false;
-      const expected = Buffer.from(this.passwordHash, "hex");
+      if (!passwordHash) return false;
+      const expected = Buffer.from(passwordHash, "hex");
       const provided = Buffer.from(hash, "hex");
       if (expected.length !== provided.length) return false;
       return crypto.timingSafeEqual(expected, provided);
@@ -111,15 +138,15 @@ export class Auth {
   }
 
   /** Validate a session token against the database. Returns the session or null. */
-  validateToken(token: string, storage: Storage): { clientId: string; deviceName: string } | null {
-    const session = storage.getToken(token);
+  async validateToken(token: string): Promise<{ clientId: string; deviceName: string; readOnly: boolean } | null> {
+    const session = await this.storage.getToken(token);
     if (!session) return null;
-    storage.updateTokenLastUsed(token);
-    return { clientId: session.clientId, deviceName: session.deviceName };
+    await this.storage.updateTokenLastUsed(token);
+    return { clientId: session.clientId, deviceName: session.deviceName, readOnly: session.readOnly };
   }
 
   /** Revoke all tokens for a given clientId. */
-  revokeToken(clientId: string, storage: Storage): void {
-    storage.revokeTokenByClientId(clientId);
+  revokeToken(clientId: string): Promise<void> {
+    return this.storage.revokeTokenByClientId(clientId);
   }
 }
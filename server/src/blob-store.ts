@@ -0,0 +1,101 @@
+/**
+ * Where Storage keeps file contents. The metadata is in a MetadataStore (see metadata-store.ts);
+ * the blobs (live files, versions, trash, blocks and staged rotation files) go to a BlobStore:
+ * the data directory itself by default, or an S3-compatible object store (see S3BlobStore).
+ *
+ * Keys are slash-separated paths like `blobs/ab/<fileId>`, the same layout as on disk.
+ */
+
+import path from "path";
+import fsp from "fs/promises";
+import type { ServerConfig } from "./config";
+import { S3BlobStore } from "./s3-blob-store";
+
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  /** Move a local file into the store (it no longer exists at `filePath` afterwards). */
+  putFile(key: string, filePath: string): Promise<void>;
+  /** The blob, or null if it does not exist. */
+  get(key: string): Promise<Buffer | null>;
+  /** Up to `length` bytes starting at `offset`, or null if the blob does not exist. */
+  getRange(key: string, offset: number, length: number): Promise<Buffer | null>;
+  /** Size in bytes, or null if the blob does not exist. */
+  size(key: string): Promise<number | null>;
+  /** Rename a blob. Fails if it does not exist. */
+  move(from: string, to: string): Promise<void>;
+  /** Delete a blob; deleting one that does not exist is not an error. */
+  delete(key: string): Promise<void>;
+  /** Delete every blob whose key starts with `prefix/`. */
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+/**
+ * The blob store of a Storage whose database lives in `dataDir`. In an object store the
+ * keys are prefixed with that directory relative to the data directory (e.g. `vaults/work`).
+ */
+export function createBlobStore(config: ServerConfig, dataDir: string): BlobStore {
+  if (!config.s3) return new FsBlobStore(dataDir);
+  const prefix = path.relative(config.dataDir, dataDir).split(path.sep).filter(Boolean).join("/");
+  return new S3BlobStore(config.s3, prefix);
+}
+
+/** Blobs as files below a directory. */
+export class FsBlobStore implements BlobStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = await this.prepare(key);
+    await fsp.writeFile(filePath, data);
+  }
+
+  async putFile(key: string, filePath: string): Promise<void> {
+    await fsp.rename(filePath, await this.prepare(key));
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try { return await fsp.readFile(this.getPath(key)); } catch { return null; }
+  }
+
+  async getRange(key: string, offset: number, length: number): Promise<Buffer | null> {
+    let handle: fsp.FileHandle;
+    try { handle = await fsp.open(this.getPath(key), "r"); } catch { return null; }
+    try {
+      const buf = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buf, 0, length, offset);
+      return buf.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async size(key: string): Promise<number | null> {
+    try { return (await fsp.stat(this.getPath(key))).size; } catch { return null; }
+  }
+
+  async move(from: string, to: string): Promise<void> {
+    await fsp.rename(this.getPath(from), await this.prepare(to));
+  }
+
+  async delete(key: string): Promise<void> {
+    try { await fsp.unlink(this.getPath(key)); } catch {}
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fsp.rm(this.getPath(prefix), { recursive: true, force: true });
+  }
+
+  /** Path of a key, with its parent directory created. */
+  private async prepare(key: string): Promise<string> {
+    const filePath = this.getPath(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    return filePath;
+  }
+
+  private getPath(key: string): string {
+    return path.join(this.root, ...key.split("/"));
+  }
+}
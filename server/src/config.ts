@@ -3,18 +3,31 @@
  */
 
 import path from "path";
+import { DEFAULT_VAULT_ID, isValidVaultId } from "../../shared/protocol";
+import type { S3Config } from "./s3-blob-store";
+import type { PostgresConfig } from "./postgres-metadata-store";
 
 export interface ServerConfig {
   /** HTTPS port for WebSocket and Web UI. */
   port: number;
   /** UDP discovery broadcast port. */
   discoveryPort: number;
-  /** Data directory for blobs, SQLite DB, and TLS certs. */
+  /** Data directory for TLS certs and partial uploads, for the SQLite DBs unless `postgres` is set and for blobs unless `s3` is set. */
   dataDir: string;
   /** Hostname for TLS certificate and discovery broadcasts. */
   hostname: string;
   /** Unique server identifier. */
   serverId: string;
+  /** Previous versions kept per file (0 disables version history). */
+  maxVersions: number;
+  /** Days a deleted file stays in the trash before it is purged (0 deletes immediately). */
+  trashRetentionDays: number;
+  /** Named vaults hosted next to the default vault, each with its own password, files and blobs. */
+  vaults: string[];
+  /** S3-compatible object store for file contents; null keeps them in the data directory. */
+  s3: S3Config | null;
+  /** PostgreSQL database for the metadata; null keeps it in SQLite files in the data directory. */
+  postgres: PostgresConfig | null;
 }
 
 function getEnv(key: string, fallback: string): string {
@@ -30,9 +43,62 @@ export function loadConfig(): ServerConfig {
     dataDir,
     hostname: getEnv("HOSTNAME", require("os").hostname()),
     serverId: getEnv("SERVER_ID", generateServerId(dataDir)),
+    maxVersions: Math.max(0, parseInt(getEnv("MAX_VERSIONS", "10"), 10) || 0),
+    trashRetentionDays: Math.max(0, parseInt(getEnv("TRASH_RETENTION_DAYS", "30"), 10) || 0),
+    vaults: parseVaults(getEnv("VAULTS", "")),
+    s3: loadS3Config(),
+    postgres: loadPostgresConfig(),
   };
 }
 
+/** Object store settings from the S3_* variables; only used when S3_BUCKET is set. */
+function loadS3Config(): S3Config | null {
+  const bucket = getEnv("S3_BUCKET", "");
+  if (!bucket) return null;
+  const region = getEnv("S3_REGION", "us-east-1");
+  const endpoint = getEnv("S3_ENDPOINT", "").replace(/\/+$/, "");
+  const config: S3Config = {
+    endpoint: endpoint || `https://s3.${region}.amazonaws.com`,
+    region,
+    bucket,
+    accessKeyId: getEnv("S3_ACCESS_KEY_ID", process.env.AWS_ACCESS_KEY_ID ?? ""),
+    secretAccessKey: getEnv("S3_SECRET_ACCESS_KEY", process.env.AWS_SECRET_ACCESS_KEY ?? ""),
+    // Custom endpoints are mostly self-hosted stores, which expect the bucket in the path
+    pathStyle: getEnv("S3_PATH_STYLE", endpoint ? "true" : "false") === "true",
+    prefix: getEnv("S3_PREFIX", "").replace(/^\/+|\/+$/g, ""),
+  };
+  if (!config.accessKeyId || !config.secretAccessKey) {
+    console.warn("[Server] S3_BUCKET is set without S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY; requests to the store will be refused.");
+  }
+  return config;
+}
+
+/** Metadata database settings; only used when DATABASE_URL is set. */
+function loadPostgresConfig(): PostgresConfig | null {
+  const url = getEnv("DATABASE_URL", "");
+  if (!url) return null;
+  let schema = getEnv("POSTGRES_SCHEMA", "advanced_sync").toLowerCase();
+  // Vault and shared folder ids are appended, and PostgreSQL cuts names off at 63 characters
+  if (!/^[a-z_][a-z0-9_]{0,22}$/.test(schema)) {
+    console.warn(`[Server] Ignoring invalid POSTGRES_SCHEMA "${schema}" (use a-z, 0-9 and _, up to 23 characters).`);
+    schema = "advanced_sync";
+  }
+  return { url, schema };
+}
+
+/** Parse the comma-separated VAULTS list, skipping invalid and duplicate ids. */
+function parseVaults(value: string): string[] {
+  const vaults: string[] = [];
+  for (const id of value.split(",").map((v) => v.trim().toLowerCase()).filter(Boolean)) {
+    if (!isValidVaultId(id)) {
+      console.warn(`[Server] Ignoring invalid vault id "${id}" (use a-z, 0-9, - and _, up to 32 characters).`);
+    } else if (id !== DEFAULT_VAULT_ID && !vaults.includes(id)) {
+      vaults.push(id);
+    }
+  }
+  return vaults;
+}
+
 function generateServerId(dataDir: string): string {
   const fs = require("fs");
   const idPath = path.join(dataDir, "server-id");
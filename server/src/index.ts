@@ -8,9 +8,14 @@ import https from "https";
 import path from "path";
 import express from "express";
 import type { Request, Response, NextFunction } from "express";
+import { isValidVaultId } from "../../shared/protocol";
+import type { InitStatus } from "../../shared/protocol";
 import { loadConfig } from "./config";
-import { Storage } from "./storage";
-import { Auth } from "./auth";
+import { Accounts } from "./accounts";
+import type { DashboardUser, UserRole } from "./accounts";
+import { VaultRegistry } from "./vaults";
+import type { Vault } from "./vaults";
+import type { Auth } from "./auth";
 import { SyncWebSocketServer } from "./websocket";
 import { DiscoveryServer } from "./discovery";
 import { ensureTlsCerts } from "./tls";
@@ -20,19 +25,18 @@ const useTls = process.env.USE_TLS === "true";
 
 console.log(`[Server] Starting Advanced Sync Server...`);
 console.log(`[Server] Data directory: ${config.dataDir}`);
+if (config.s3) console.log(`[Server] Blob storage: bucket "${config.s3.bucket}" at ${config.s3.endpoint}`);
+if (config.postgres) console.log(`[Server] Metadata: PostgreSQL, schemas "${config.postgres.schema}*"`);
 console.log(`[Server] Port: ${config.port}`);
 console.log(`[Server] TLS: ${useTls ? "enabled" : "disabled (data is E2E encrypted)"}`);
 console.log(`[Server] Discovery port: ${config.discoveryPort}`);
+if (config.vaults.length > 0) console.log(`[Server] Named vaults: ${config.vaults.join(", ")}`);
 
-const storage = new Storage(config);
-console.log("[Server] Storage initialized.");
-
-const auth = new Auth(storage);
-if (!auth.isInitialized()) {
-  console.warn("[Server] Server is not initialized yet.");
-  console.warn("[Server] First device to run setup will set the server password.");
-  console.warn("[Server] Do not expose the server to the public internet before initialization.");
-}
+// Opened in main(), before the server accepts requests
+let accounts: Accounts;
+let vaults: VaultRegistry;
+// The default vault's password signs in to the dashboard as admin; users sign in with their own vault's
+let auth: Auth;
 
 const app = express();
 app.use(express.json({ limit: "64kb" }));
@@ -52,58 +56,114 @@ app.use((_req, res, next) => {
 // Static Web UI
 app.use("/", express.static(path.join(__dirname, "web-ui")));
 
+/** An async route handler or middleware; Express 4 ignores rejected promises, so errors go to next(). */
+function route(handler: (req: Request, res: Response, next: NextFunction) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, next).catch(next);
+  };
+}
+
 // ---- Auth middleware ----
 
-/** Validates the dashboard session token (password hash) from the Authorization header. */
-function requireAuth(req: Request, res: Response, next: NextFunction): void {
-  if (!auth.isInitialized()) {
+/**
+ * Validates the dashboard session token from the Authorization header: the default vault's
+ * password hash, or `<username>:<hash>` with the user's own vault password. Sets res.locals.user.
+ */
+const requireAuth = route(async (req, res, next) => {
+  const header = (req.headers.authorization ?? "") as string;
+  const token = header.replace(/^Bearer\s+/i, "").trim();
+  if (!token.includes(":") && !(await auth.isInitialized())) {
     res.status(428).json({ error: "Server not initialized" });
     return;
   }
-  const header = (req.headers.authorization ?? "") as string;
-  const token = header.replace(/^Bearer\s+/i, "").trim();
-  if (!auth.checkHash(token)) {
+  const user = await vaults.checkDashboardToken(token);
+  if (!user) {
     res.status(401).json({ error: "Unauthorized" });
     return;
   }
+  res.locals.user = user;
+  next();
+});
+
+/** Only admins may manage users, sessions and the server. Use after requireAuth. */
+function requireAdmin(_req: Request, res: Response, next: NextFunction): void {
+  if (!(res.locals.user as DashboardUser).admin) {
+    res.status(403).json({ error: "Admin role required" });
+    return;
+  }
   next();
 }
 
+/** The vault a request names in ?vault= or its body (default vault if none); answers 404 if unknown. */
+async function requireVault(id: unknown, res: Response): Promise<Vault | null> {
+  const vault = typeof id === "string" || id === undefined ? await vaults.get(id) : null;
+  if (!vault) res.status(404).json({ error: "Unknown vault" });
+  return vault;
+}
+
 // ---- Public endpoints ----
 
 // Health check (public — used for uptime polling, no sensitive data)
-app.get("/health", (_req, res) => {
-  res.json({ status: "ok", uptime: process.uptime(), initialized: auth.isInitialized() });
-});
-
-// Initialization status (public)
-app.get("/api/init-status", (_req, res) => {
-  res.json({ initialized: auth.isInitialized() });
-});
-
-// One-time initialization (public): set server password hash
-app.post("/api/init", (req, res) => {
-  if (auth.isInitialized()) {
+app.get("/health", route(async (_req, res) => {
+  res.json({ status: "ok", uptime: process.uptime(), initialized: await auth.isInitialized(), vaults: await vaults.getInfo() });
+}));
+
+// Initialization status and the salt and KDF a password sign-in proof is derived with (public)
+app.get("/api/init-status", route(async (req, res) => {
+  const vault = await requireVault(req.query.vault, res);
+  if (!vault) return;
+  const status: InitStatus = {
+    initialized: await vault.auth.isInitialized(),
+    vaultSalt: await vault.storage.getVaultSalt(),
+    kdf: await vault.storage.getKdfParams(),
+  };
+  res.json(status);
+}));
+
+// One-time initialization (public): set the password's sign-in proof, salt and KDF
+app.post("/api/init", route(async (req, res) => {
+  const { vault: vaultId, passwordHash, vaultSalt, kdf, setupCode } =
+    (req.body ?? {}) as { vault?: unknown; passwordHash?: string; vaultSalt?: unknown; kdf?: unknown; setupCode?: unknown };
+  const vault = await requireVault(vaultId, res);
+  if (!vault) return;
+  if (await vault.auth.isInitialized()) {
     res.status(409).json({ error: "Already initialized" });
     return;
   }
-  const { passwordHash } = (req.body ?? {}) as { passwordHash?: string };
   if (!passwordHash) {
     res.status(400).json({ error: "Missing passwordHash" });
     return;
   }
-  const result = auth.initialize(passwordHash, storage);
+  // A user's vault is initialized by the user, with the setup code the admin handed them
+  const owner = await accounts.getUser(vault.id);
+  if (owner?.pendingSetup && !(await accounts.checkSetupCode(owner.username, setupCode))) {
+    res.status(403).json({ error: "Invalid setup code" });
+    return;
+  }
+  const result = await vault.auth.initialize(passwordHash, vaultSalt, kdf);
   if (!result.ok) {
     res.status(400).json({ error: result.reason ?? "Initialization failed" });
     return;
   }
-  console.log("[Server] Server initialized via /api/init.");
+  if (owner) await accounts.clearSetupCode(owner.username);
+  console.log(vault === vaults.defaultVault ? "[Server] Server initialized via /api/init." : `[Server] Vault "${vault.id}" initialized via /api/init.`);
   res.json({ ok: true });
-});
-
-// Dashboard login: validate password, return ok so client can store the hash as session token
-app.post("/api/ui-auth", (req, res) => {
-  if (!auth.isInitialized()) {
+}));
+
+// Dashboard login: validate password, return ok so client can store the hash as session token.
+// Users sign in with their username and their vault's password. The setup wizard also checks
+// a named vault's password here; those don't open the dashboard.
+app.post("/api/ui-auth", route(async (req, res) => {
+  const { vault: vaultId, username, passwordHash } =
+    (req.body ?? {}) as { vault?: unknown; username?: unknown; passwordHash?: string };
+  const user = typeof username === "string" ? await accounts.getUser(username) : null;
+  if (username !== undefined && !user) {
+    res.status(401).json({ error: "Unknown user" });
+    return;
+  }
+  const vault = await requireVault(username ?? vaultId, res);
+  if (!vault) return;
+  if (!(await vault.auth.isInitialized())) {
     res.status(428).json({ error: "Server not initialized" });
     return;
   }
@@ -111,18 +171,21 @@ app.post("/api/ui-auth", (req, res) => {
     ((req.headers["x-forwarded-for"] ?? "") as string).split(",")[0].trim() ||
     req.socket.remoteAddress ||
     "unknown";
-  const { passwordHash } = (req.body ?? {}) as { passwordHash?: string };
   if (!passwordHash) {
     res.status(400).json({ error: "Missing passwordHash" });
     return;
   }
-  const result = auth.verify(passwordHash, ip);
+  const result = await vault.auth.verify(passwordHash, ip);
   if (!result.ok) {
     res.status(401).json({ error: result.reason ?? "Invalid password" });
     return;
   }
-  res.json({ ok: true });
-});
+  if (user) {
+    res.json({ ok: true, username: user.username, admin: user.role === "admin" });
+  } else {
+    res.json({ ok: true, username: null, admin: vault === vaults.defaultVault });
+  }
+}));
 
 // Obsidian theme variables — kept unauthenticated so the plugin can POST
 // without needing to send credentials over REST (plugin authenticates via WS).
@@ -140,45 +203,68 @@ app.post("/api/theme", (req, res) => {
 
 // ---- Protected endpoints ----
 
-app.get("/api/stats", requireAuth, (_req, res) => {
-  res.json(storage.getStats());
-});
+app.get("/api/stats", requireAuth, route(async (_req, res) => {
+  res.json(await vaults.getStats(res.locals.user));
+}));
 
-app.get("/api/clients", requireAuth, (_req, res) => {
-  const sessions = storage.getClientSessions();
+app.get("/api/clients", requireAuth, requireAdmin, route(async (_req, res) => {
+  const sessions = await vaults.getClientSessions();
   res.json({
     online:  sessions.filter((s) => s.isOnline),
     offline: sessions.filter((s) => !s.isOnline),
   });
-});
+}));
 
 // Session management endpoints
-app.get("/api/sessions", requireAuth, (_req, res) => {
-  const sessions = storage.getClientSessions();
+app.get("/api/sessions", requireAuth, requireAdmin, route(async (_req, res) => {
+  const sessions = await vaults.getClientSessions();
   res.json(sessions);
-});
+}));
 
-app.post("/api/sessions/:clientId/revoke", requireAuth, (req, res) => {
+app.post("/api/sessions/:clientId/revoke", requireAuth, requireAdmin, route(async (req, res) => {
+  const vault = await requireVault(req.query.vault, res);
+  if (!vault) return;
   const { clientId } = req.params;
-  wsServer?.disconnectClient(clientId);
+  await wsServer?.disconnectClient(vault, clientId);
   res.json({ ok: true });
-});
-
-app.get("/api/log", requireAuth, (_req, res) => {
-  res.json(storage.getLog(2000));
-});
+}));
 
-app.post("/api/log/clear", requireAuth, (_req, res) => {
-  storage.clearLog();
+app.post("/api/sessions/:clientId/read-only", requireAuth, requireAdmin, route(async (req, res) => {
+  const vault = await requireVault(req.query.vault, res);
+  if (!vault) return;
+  if (typeof req.body?.readOnly !== "boolean") {
+    res.status(400).json({ error: "readOnly must be true or false" });
+    return;
+  }
+  if (!(await wsServer?.setClientReadOnly(vault, req.params.clientId, req.body.readOnly))) {
+    res.status(404).json({ error: "This device has no session" });
+    return;
+  }
   res.json({ ok: true });
-});
+}));
+
+app.get("/api/log", requireAuth, route(async (_req, res) => {
+  res.json(await vaults.getLog(2000, res.locals.user));
+}));
 
-app.post("/api/reset", requireAuth, (_req, res) => {
-  // Full wipe: this removes all files, salts, tokens, sessions, logs, password,
-  // TLS certs, and server-id.
-  wsServer?.beginReset();
-  const newServerId = storage.wipeAll();
-  auth.reload(storage);
+app.post("/api/log/clear", requireAuth, requireAdmin, route(async (_req, res) => {
+  await vaults.clearLog();
+  res.json({ ok: true });
+}));
+
+app.post("/api/reset", requireAuth, requireAdmin, route(async (_req, res) => {
+  // Full wipe: this removes all files, salts, tokens, sessions, logs, passwords,
+  // TLS certs, and server-id, in every vault, and deletes every user account.
+  let newServerId: string;
+  try {
+    await wsServer?.beginReset();
+    newServerId = await vaults.wipeAll();
+  } catch (err: any) {
+    wsServer?.endReset();
+    console.error("[Server] Reset failed:", err.message);
+    res.status(500).json({ error: "Reset failed: " + err.message });
+    return;
+  }
   currentTheme = {};
   // Update server id for WS AUTH_OK + discovery broadcasts.
   config.serverId = newServerId;
@@ -186,40 +272,156 @@ app.post("/api/reset", requireAuth, (_req, res) => {
   discovery.start();
   wsServer?.endReset();
   console.log("[Server] Full reset performed via web UI.");
-  res.json({ ok: true, initialized: auth.isInitialized() });
-});
-
-// Create HTTP/HTTPS server
-let server: http.Server | https.Server;
-if (useTls) {
-  const tls = ensureTlsCerts(config);
-  server = https.createServer({ cert: tls.cert, key: tls.key }, app);
-} else {
-  server = http.createServer(app);
+  res.json({ ok: true, initialized: await auth.isInitialized() });
+}));
+
+// ---- User management (admin) ----
+
+/** Parses a user's role and quota from a request body; answers 400 if they are invalid. */
+function parseUserFields(body: any, res: Response): { role: UserRole; quotaBytes: number } | null {
+  const role = body?.role ?? "user";
+  const quotaBytes = body?.quotaBytes ?? 0;
+  if ((role !== "user" && role !== "admin") || !Number.isSafeInteger(quotaBytes) || quotaBytes < 0) {
+    res.status(400).json({ error: "Invalid role or quota" });
+    return null;
+  }
+  return { role, quotaBytes };
 }
 
+app.get("/api/users", requireAuth, requireAdmin, route(async (_req, res) => {
+  res.json(await Promise.all((await accounts.listUsers()).map(async (u) => {
+    const vault = await vaults.get(u.username);
+    return { ...u, initialized: (await vault?.auth.isInitialized()) ?? false, usage: (await vault?.storage.getUsage()) ?? 0 };
+  })));
+}));
+
+// Create a user and their vault; the setup code is shown to the admin once
+app.post("/api/users", requireAuth, requireAdmin, route(async (req, res) => {
+  const username = typeof req.body?.username === "string" ? req.body.username.trim().toLowerCase() : "";
+  if (!isValidVaultId(username)) {
+    res.status(400).json({ error: "Usernames are 1-32 lowercase letters, digits, - or _" });
+    return;
+  }
+  if (await vaults.get(username)) {
+    res.status(409).json({ error: "A user or vault with this name already exists" });
+    return;
+  }
+  const fields = parseUserFields(req.body, res);
+  if (!fields) return;
+  const setupCode = await accounts.createUser(username, fields.role, fields.quotaBytes);
+  await vaults.add(username, fields.quotaBytes);
+  console.log(`[Server] User "${username}" created (${fields.role}).`);
+  res.json({ ok: true, username, setupCode });
+}));
+
+app.post("/api/users/:username", requireAuth, requireAdmin, route(async (req, res) => {
+  const fields = parseUserFields(req.body, res);
+  if (!fields) return;
+  const { username } = req.params;
+  if (!(await accounts.updateUser(username, fields.role, fields.quotaBytes))) {
+    res.status(404).json({ error: "Unknown user" });
+    return;
+  }
+  (await vaults.get(username))?.storage.setQuota(fields.quotaBytes);
+  res.json({ ok: true });
+}));
+
+// Delete a user together with their vault and all its data
+app.delete("/api/users/:username", requireAuth, requireAdmin, route(async (req, res) => {
+  const { username } = req.params;
+  if (!(await accounts.getUser(username))) {
+    res.status(404).json({ error: "Unknown user" });
+    return;
+  }
+  const vault = await vaults.get(username);
+  if (vault) await wsServer?.closeVault(vault);
+  let affected: string[];
+  try {
+    affected = await vaults.remove(username);
+  } catch (err: any) {
+    console.error(`[Server] Deleting the vault of user "${username}" failed:`, err.message);
+    res.status(500).json({ error: "Deleting the vault failed: " + err.message });
+    return;
+  }
+  // Members of the folders the user shared lose them
+  await wsServer?.pushShareLists(affected);
+  await accounts.deleteUser(username);
+  console.log(`[Server] User "${username}" and their vault deleted.`);
+  res.json({ ok: true });
+}));
+
+let server: http.Server | https.Server;
 let wsServer: SyncWebSocketServer;
-wsServer = new SyncWebSocketServer(server, storage, auth, config);
+let discovery: DiscoveryServer;
+let purgeInterval: NodeJS.Timeout;
+
+async function main(): Promise<void> {
+  accounts = await Accounts.open(config);
+  vaults = await VaultRegistry.open(config, accounts);
+  ({ auth } = vaults.defaultVault);
+  console.log("[Server] Storage initialized.");
+
+  // Purge expired trash, abandoned partial uploads and unused blocks now and every hour
+  const purgeExpired = () => vaults.purgeExpired().catch((err) => console.error("[Server] Purge failed:", err.message));
+  purgeExpired();
+  purgeInterval = setInterval(purgeExpired, 60 * 60 * 1000);
+
+  const uninitialized: string[] = [];
+  for (const v of vaults.list()) {
+    if (!(await v.auth.isInitialized())) uninitialized.push(v.id);
+  }
+  if (uninitialized.length > 0) {
+    console.warn(config.vaults.length > 0
+      ? `[Server] Vaults not initialized yet: ${uninitialized.join(", ")}.`
+      : "[Server] Server is not initialized yet.");
+    console.warn("[Server] First device to run setup will set the server password.");
+    console.warn("[Server] Do not expose the server to the public internet before initialization.");
+  }
 
-const discovery = new DiscoveryServer(config);
-discovery.start();
+  // Create HTTP/HTTPS server
+  if (useTls) {
+    const tls = ensureTlsCerts(config);
+    server = https.createServer({ cert: tls.cert, key: tls.key }, app);
+  } else {
+    server = http.createServer(app);
+  }
 
-const protocol = useTls ? "https" : "http";
-const wsProtocol = useTls ? "wss" : "ws";
+  wsServer = new SyncWebSocketServer(server, vaults, config);
 
-server.listen(config.port, () => {
-  console.log(`[Server] ${protocol.toUpperCase()} server listening on port ${config.port}`);
-  console.log(`[Server] Web UI: ${protocol}://localhost:${config.port}`);
-  console.log(`[Server] WebSocket: ${wsProtocol}://localhost:${config.port}/sync`);
-});
+  discovery = new DiscoveryServer(config);
+  discovery.start();
+
+  const protocol = useTls ? "https" : "http";
+  const wsProtocol = useTls ? "wss" : "ws";
+
+  server.listen(config.port, () => {
+    console.log(`[Server] ${protocol.toUpperCase()} server listening on port ${config.port}`);
+    console.log(`[Server] Web UI: ${protocol}://localhost:${config.port}`);
+    console.log(`[Server] WebSocket: ${wsProtocol}://localhost:${config.port}/sync`);
+  });
+}
 
 function shutdown(): void {
   console.log("\n[Server] Shutting down...");
-  discovery.stop();
-  wsServer.stop();
-  storage.close();
-  server.close(() => { console.log("[Server] Goodbye."); process.exit(0); });
+  clearInterval(purgeInterval);
+  discovery?.stop();
+  wsServer?.stop();
+  const close = () => vaults ? vaults.close() : Promise.resolve();
+  if (!server) {
+    close().finally(() => process.exit(0));
+    return;
+  }
+  server.close(() => {
+    close()
+      .catch((err) => console.error("[Server] Closing storage failed:", err.message))
+      .finally(() => { console.log("[Server] Goodbye."); process.exit(0); });
+  });
 }
 
 process.on("SIGINT", shutdown);
 process.on("SIGTERM", shutdown);
+
+main().catch((err) => {
+  console.error("[Server] Startup failed:", err.message);
+  process.exit(1);
+});
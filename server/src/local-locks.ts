@@ -0,0 +1,32 @@
+/**
+ * Locks within this process, by name: whoever asks first gets a lock first. The SQLite
+ * metadata store's locks, and the queue in front of PostgreSQL's advisory locks.
+ */
+export class LocalLocks {
+  /** The end of each lock's queue: resolves once the last holder released it. */
+  private tails: Map<string, Promise<void>> = new Map();
+
+  /** Wait for the lock; resolves to the function that releases it. */
+  async acquire(name: string): Promise<() => void> {
+    const previous = this.tails.get(name) ?? Promise.resolve();
+    const release = this.enqueue(name, previous);
+    await previous;
+    return release;
+  }
+
+  /** Take the lock if nobody holds or waits for it. */
+  tryAcquire(name: string): (() => void) | null {
+    return this.tails.has(name) ? null : this.enqueue(name, Promise.resolve());
+  }
+
+  private enqueue(name: string, previous: Promise<void>): () => void {
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => { release = resolve; });
+    const tail = previous.then(() => held);
+    this.tails.set(name, tail);
+    return () => {
+      release();
+      if (this.tails.get(name) === tail) this.tails.delete(name);
+    };
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Where Storage, Accounts and Shares keep their tables. A MetadataStore runs prepared
+ * statements, scripts and transactions, all asynchronous, and holds named locks.
+ * SQLite files in the data directory are the default; with DATABASE_URL the tables go to a
+ * PostgreSQL database instead (see PostgresMetadataStore), so the server can run against a
+ * managed database, with several server instances sharing it. SQL written for a store must
+ * run on both: upserts use ON CONFLICT, and camelCase column aliases are quoted.
+ */
+
+import path from "path";
+import fs from "fs";
+import Database from "better-sqlite3";
+import type { ServerConfig } from "./config";
+import { PostgresMetadataStore } from "./postgres-metadata-store";
+import { LocalLocks } from "./local-locks";
+
+export interface Statement {
+  /** The first row, or undefined if there is none. */
+  get(...params: unknown[]): Promise<unknown>;
+  all(...params: unknown[]): Promise<unknown[]>;
+  run(...params: unknown[]): Promise<{ changes: number }>;
+}
+
+/** What statements run on: a store, or one of its transactions. */
+export interface Queryable {
+  prepare(sql: string): Statement;
+  /** Run one or more statements without parameters, e.g. a schema. */
+  exec(sql: string): Promise<void>;
+}
+
+/** A lock taken with tryLock, held until it is released. */
+export interface Lock {
+  release(): Promise<void>;
+}
+
+export interface MetadataStore extends Queryable {
+  /**
+   * Run `fn` in a transaction, committed when it resolves and rolled back if it throws.
+   * Its statements must go through `tx`: statements on the store itself may wait for the
+   * transaction to end.
+   */
+  transaction<T>(fn: (tx: Queryable) => Promise<T>): Promise<T>;
+  /**
+   * Run `fn` holding the lock `name`, once whoever holds it released it — in PostgreSQL also
+   * other server instances. A lock may be taken while holding another, as long as nobody
+   * takes the two the other way round.
+   */
+  lock<T>(name: string, fn: () => Promise<T>): Promise<T>;
+  /** Take the lock `name` until it is released, or null if someone else holds or waits for it. */
+  tryLock(name: string): Promise<Lock | null>;
+  /** Names of a table's columns, for migrations. */
+  columns(table: string): Promise<string[]>;
+  /** Delete every table; the store stays open and empty. */
+  wipe(): Promise<void>;
+  /** Delete every table and close the store. */
+  drop(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * The metadata store of the Storage whose data directory is `dataDir`, or of another database
+ * in that directory if `name` is set (e.g. `accounts`). In SQLite that is `<name>.db`
+ * (`vault-sync.db` for the Storage); in PostgreSQL a schema named after the directory
+ * relative to the data directory and `name`, e.g. `advanced_sync_vaults_work`.
+ */
+export function createMetadataStore(config: ServerConfig, dataDir: string, name?: string): MetadataStore {
+  if (!config.postgres) return new SqliteMetadataStore(path.join(dataDir, `${name ?? "vault-sync"}.db`));
+  const parts = path.relative(config.dataDir, dataDir).split(path.sep).filter(Boolean);
+  return new PostgresMetadataStore(config.postgres, [config.postgres.schema, ...parts, name].filter(Boolean).join("_"));
+}
+
+/** Tables in a SQLite database file. Only this process uses it, so its locks are LocalLocks. */
+export class SqliteMetadataStore implements MetadataStore {
+  private db: Database.Database;
+  private dbPath: string;
+  private locks = new LocalLocks();
+  /** Resolves when the open transaction ends; statements outside it wait for that. */
+  private inTransaction: Promise<void> | null = null;
+  /** Runs statements right away, for the open transaction. */
+  private tx: Queryable;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+    this.db = this.open();
+    this.tx = {
+      prepare: (sql) => this.statement(sql, false),
+      exec: async (sql) => { this.db.exec(sql); },
+    };
+  }
+
+  prepare(sql: string): Statement {
+    return this.statement(sql, true);
+  }
+
+  async exec(sql: string): Promise<void> {
+    while (this.inTransaction) await this.inTransaction;
+    this.db.exec(sql);
+  }
+
+  async transaction<T>(fn: (tx: Queryable) => Promise<T>): Promise<T> {
+    while (this.inTransaction) await this.inTransaction;
+    let end!: () => void;
+    this.inTransaction = new Promise((resolve) => { end = resolve; });
+    this.db.exec("BEGIN");
+    try {
+      const result = await fn(this.tx);
+      this.db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      if (this.db.inTransaction) this.db.exec("ROLLBACK");
+      throw err;
+    } finally {
+      this.inTransaction = null;
+      end();
+    }
+  }
+
+  async lock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    const release = await this.locks.acquire(name);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  async tryLock(name: string): Promise<Lock | null> {
+    const release = this.locks.tryAcquire(name);
+    return release ? { release: async () => release() } : null;
+  }
+
+  async columns(table: string): Promise<string[]> {
+    return ((await this.prepare(`PRAGMA table_info(${table})`).all()) as Array<{ name: string }>).map((c) => c.name);
+  }
+
+  async wipe(): Promise<void> {
+    await this.drop();
+    this.db = this.open();
+  }
+
+  async drop(): Promise<void> {
+    while (this.inTransaction) await this.inTransaction;
+    this.db.close();
+    // The database and its WAL/shm sidecars
+    for (const suffix of ["", "-wal", "-shm"]) {
+      try { fs.rmSync(this.dbPath + suffix, { force: true }); } catch {}
+    }
+  }
+
+  async close(): Promise<void> { this.db.close(); }
+
+  /** A statement that waits for the open transaction to end first, unless `wait` is false. */
+  private statement(sql: string, wait: boolean): Statement {
+    const run = async <T>(fn: (stmt: Database.Statement) => T): Promise<T> => {
+      while (wait && this.inTransaction) await this.inTransaction;
+      return fn(this.db.prepare(sql));
+    };
+    return {
+      get: (...params) => run((stmt) => stmt.get(...params)),
+      all: (...params) => run((stmt) => stmt.all(...params)),
+      run: (...params) => run((stmt) => ({ changes: stmt.run(...params).changes })),
+    };
+  }
+
+  private open(): Database.Database {
+    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+    const db = new Database(this.dbPath);
+    db.pragma("journal_mode = WAL");
+    db.pragma("foreign_keys = ON");
+    return db;
+  }
+}
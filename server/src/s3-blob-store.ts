@@ -0,0 +1,216 @@
+/**
+ * Blobs in an S3-compatible object store (AWS S3, MinIO, Backblaze B2, Cloudflare R2, ...).
+ * Requests are signed with AWS Signature Version 4, so no SDK is needed. Blobs stay as
+ * encrypted as on disk; the store only sees the same opaque keys and bytes.
+ * Renames are a server-side copy followed by a delete.
+ */
+
+import http from "http";
+import https from "https";
+import crypto from "crypto";
+import fs from "fs";
+import fsp from "fs/promises";
+import type { BlobStore } from "./blob-store";
+
+export interface S3Config {
+  /** Base URL of the store, e.g. https://s3.eu-central-1.amazonaws.com or http://minio:9000. */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Address the bucket in the path (MinIO and most self-hosted stores) instead of the host name. */
+  pathStyle: boolean;
+  /** Prepended to every key, so the server can share a bucket with other data. */
+  prefix: string;
+}
+
+interface S3Request {
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  /** A buffer, or a file stream of `size` bytes. */
+  body?: Buffer | fs.ReadStream;
+  size?: number;
+}
+
+interface S3Response {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+/** Idle time after which a request to the store is given up. */
+const REQUEST_TIMEOUT = 60 * 1000;
+
+const EMPTY_PAYLOAD_HASH = sha256("");
+
+export class S3BlobStore implements BlobStore {
+  private config: S3Config;
+  private prefix: string;
+
+  /** `prefix` is added after the configured prefix (the Storage's directory, see createBlobStore). */
+  constructor(config: S3Config, prefix: string) {
+    this.config = config;
+    this.prefix = [config.prefix, prefix].filter(Boolean).join("/");
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    this.check(await this.request("PUT", this.objectKey(key), { body: data }), "PUT", key);
+  }
+
+  async putFile(key: string, filePath: string): Promise<void> {
+    const { size } = await fsp.stat(filePath);
+    this.check(await this.request("PUT", this.objectKey(key), { body: fs.createReadStream(filePath), size }), "PUT", key);
+    await fsp.unlink(filePath);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const res = await this.request("GET", this.objectKey(key));
+    if (res.status === 404) return null;
+    return this.check(res, "GET", key).body;
+  }
+
+  async getRange(key: string, offset: number, length: number): Promise<Buffer | null> {
+    if (length <= 0) return Buffer.alloc(0);
+    const res = await this.request("GET", this.objectKey(key), { headers: { range: `bytes=${offset}-${offset + length - 1}` } });
+    if (res.status === 404) return null;
+    // Past the end of the blob
+    if (res.status === 416) return Buffer.alloc(0);
+    this.check(res, "GET", key);
+    // Stores that ignore Range send the whole blob
+    return res.status === 200 ? res.body.subarray(offset, offset + length) : res.body;
+  }
+
+  async size(key: string): Promise<number | null> {
+    const res = await this.request("HEAD", this.objectKey(key));
+    if (res.status === 404) return null;
+    return Number(this.check(res, "HEAD", key).headers["content-length"]);
+  }
+
+  async move(from: string, to: string): Promise<void> {
+    const source = `/${this.config.bucket}/${encodePath(this.objectKey(from))}`;
+    const res = await this.request("PUT", this.objectKey(to), { headers: { "x-amz-copy-source": source } });
+    // A copy can fail after the store has answered 200; the error is then in the body
+    if (res.status === 200 && res.body.includes("<Error>")) res.status = 500;
+    this.check(res, "COPY", from);
+    await this.delete(from);
+  }
+
+  async delete(key: string): Promise<void> {
+    const res = await this.request("DELETE", this.objectKey(key));
+    if (res.status !== 404) this.check(res, "DELETE", key);
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    let token: string | null = null;
+    do {
+      const query: Record<string, string> = { "list-type": "2", prefix: `${this.objectKey(prefix)}/` };
+      if (token) query["continuation-token"] = token;
+      const xml = this.check(await this.request("GET", "", { query }), "LIST", prefix).body.toString("utf-8");
+      for (const objectKey of xmlValues(xml, "Key")) {
+        const res = await this.request("DELETE", objectKey);
+        if (res.status !== 404) this.check(res, "DELETE", objectKey);
+      }
+      token = xml.includes("<IsTruncated>true</IsTruncated>") ? xmlValues(xml, "NextContinuationToken")[0] ?? null : null;
+    } while (token);
+  }
+
+  private objectKey(key: string): string {
+    return this.prefix ? `${this.prefix}/${key}` : key;
+  }
+
+  /** Throw unless the store answered with success. */
+  private check(res: S3Response, action: string, key: string): S3Response {
+    if (res.status >= 200 && res.status < 300) return res;
+    const code = xmlValues(res.body.toString("utf-8"), "Code")[0] ?? "";
+    throw new Error(`S3 ${action} ${key} failed: HTTP ${res.status}${code ? ` (${code})` : ""}`);
+  }
+
+  /** Send a signed request for an object (or for the bucket itself if `objectKey` is empty). */
+  private request(method: string, objectKey: string, options: S3Request = {}): Promise<S3Response> {
+    const endpoint = new URL(this.config.endpoint);
+    const host = this.config.pathStyle ? endpoint.host : `${this.config.bucket}.${endpoint.host}`;
+    const pathname = this.config.pathStyle
+      ? `/${this.config.bucket}${objectKey ? `/${encodePath(objectKey)}` : ""}`
+      : `/${encodePath(objectKey)}`;
+    const query = Object.keys(options.query ?? {}).sort()
+      .map((name) => `${encodeSegment(name)}=${encodeSegment(options.query![name])}`)
+      .join("&");
+
+    const { body } = options;
+    const headers: Record<string, string> = {
+      ...options.headers,
+      host,
+      // Streamed bodies are not hashed up front; TLS protects them in transit
+      "x-amz-content-sha256": Buffer.isBuffer(body) ? sha256(body) : body ? "UNSIGNED-PAYLOAD" : EMPTY_PAYLOAD_HASH,
+      "x-amz-date": new Date().toISOString().replace(/[-:]|\.\d{3}/g, ""),
+    };
+    if (body) headers["content-length"] = String(Buffer.isBuffer(body) ? body.length : options.size ?? 0);
+    headers.authorization = this.sign(method, pathname, query, headers);
+
+    const url = `${endpoint.protocol}//${host}${pathname}${query ? `?${query}` : ""}`;
+    const transport = endpoint.protocol === "https:" ? https : http;
+    return new Promise((resolve, reject) => {
+      const req = transport.request(url, { method, headers }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks) }));
+        res.on("error", reject);
+      });
+      req.setTimeout(REQUEST_TIMEOUT, () => req.destroy(new Error(`S3 ${method} ${objectKey} timed out`)));
+      req.on("error", reject);
+      if (body instanceof fs.ReadStream) {
+        body.on("error", (err) => req.destroy(err));
+        body.pipe(req);
+      } else {
+        req.end(body);
+      }
+    });
+  }
+
+  /** The Authorization header of a request, signing every header in `headers`. */
+  private sign(method: string, pathname: string, query: string, headers: Record<string, string>): string {
+    const amzDate = headers["x-amz-date"];
+    const scope = `${amzDate.slice(0, 8)}/${this.config.region}/s3/aws4_request`;
+    const names = Object.keys(headers).map((name) => name.toLowerCase()).sort();
+    const lowered = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+    const canonicalRequest = [
+      method,
+      pathname,
+      query,
+      names.map((name) => `${name}:${lowered[name].trim()}\n`).join(""),
+      names.join(";"),
+      lowered["x-amz-content-sha256"],
+    ].join("\n");
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+
+    let key: Buffer = Buffer.from(`AWS4${this.config.secretAccessKey}`);
+    for (const part of [amzDate.slice(0, 8), this.config.region, "s3", "aws4_request"]) key = hmac(key, part);
+    const signature = hmac(key, stringToSign).toString("hex");
+    return `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`;
+  }
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+/** URI-encode a key the way SigV4 expects: every byte except unreserved characters, keeping `/`. */
+function encodePath(key: string): string {
+  return key.split("/").map(encodeSegment).join("/");
+}
+
+function encodeSegment(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/** Text of every `<tag>` element in an S3 XML response. */
+function xmlValues(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${tag}>([^<]*)</${tag}>`, "g"))].map((m) =>
+    m[1].replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, "&")
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * Shared folders: a vault shares one of its folders with other vaults without sharing its
+ * vault key. The folder's files are encrypted with a folder key of their own and live in a
+ * Storage of their own (shares/<shareId>); their size counts towards the owner's quota.
+ * The owner invites a vault with the folder key encrypted to each of its trusted devices; when
+ * one of them accepts, it stores the folder key wrapped with its vault's data key instead, so
+ * every device of that vault can open it. Members may read, or read and write, the folder.
+ */
+
+import path from "path";
+import fs from "fs";
+import type { ShareInfo, ShareRole } from "../../shared/types";
+import type { ShareRewrap } from "../../shared/protocol";
+import { Storage } from "./storage";
+import { createBlobStore } from "./blob-store";
+import { createMetadataStore } from "./metadata-store";
+import type { MetadataStore } from "./metadata-store";
+import type { ServerConfig } from "./config";
+
+export class Shares {
+  private db: MetadataStore;
+  private config: ServerConfig;
+  /** Storages of the shared folders opened so far, by shareId. */
+  private storages: Map<string, Promise<Storage>> = new Map();
+
+  private constructor(config: ServerConfig, db: MetadataStore) {
+    this.config = config;
+    this.db = db;
+  }
+
+  static async open(config: ServerConfig): Promise<Shares> {
+    const db = createMetadataStore(config, config.dataDir, "shares");
+    await db.lock("schema", () => db.exec(`
+      CREATE TABLE IF NOT EXISTS shares (
+        share_id TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        encrypted_name TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS share_members (
+        share_id TEXT NOT NULL,
+        vault_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        vault_key TEXT,
+        device_keys TEXT,
+        encrypted_mount TEXT,
+        PRIMARY KEY (share_id, vault_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_share_members_vault ON share_members(vault_id);
+    `));
+    return new Shares(config, db);
+  }
+
+  /** Create a shared folder owned by a vault. False if the id is taken. */
+  create(shareId: string, owner: string, encryptedName: string, vaultKey: string, encryptedMount: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const created = (await tx.prepare("INSERT INTO shares (share_id, owner, encrypted_name, created_at) VALUES (?, ?, ?, ?) ON CONFLICT (share_id) DO NOTHING").run(shareId, owner, encryptedName, Date.now())).changes > 0;
+      if (created) await tx.prepare("INSERT INTO share_members (share_id, vault_id, role, vault_key, encrypted_mount) VALUES (?, ?, 'owner', ?, ?)").run(shareId, owner, vaultKey, encryptedMount);
+      return created;
+    });
+  }
+
+  async getOwner(shareId: string): Promise<string | null> {
+    const row = await this.db.prepare("SELECT owner FROM shares WHERE share_id = ?").get(shareId) as { owner: string } | undefined;
+    return row?.owner ?? null;
+  }
+
+  /** The shared folders a vault owns or was invited to, as listed to one of its devices. */
+  async listFor(vaultId: string, devicePublicKey: string | null): Promise<ShareInfo[]> {
+    const rows = await this.db.prepare("SELECT s.share_id, s.owner, s.encrypted_name, m.role, m.vault_key, m.device_keys, m.encrypted_mount FROM share_members m JOIN shares s ON s.share_id = m.share_id WHERE m.vault_id = ? ORDER BY s.created_at").all(vaultId) as Array<{ share_id: string; owner: string; encrypted_name: string; role: string; vault_key: string | null; device_keys: string | null; encrypted_mount: string | null }>;
+    return Promise.all(rows.map(async (r) => {
+      const info: ShareInfo = { shareId: r.share_id, owner: r.owner, role: toRole(r.role), encryptedName: r.encrypted_name };
+      if (r.vault_key) info.vaultKey = r.vault_key;
+      if (r.encrypted_mount) info.encryptedMount = r.encrypted_mount;
+      if (r.device_keys && devicePublicKey) {
+        const deviceKey = (JSON.parse(r.device_keys) as Record<string, string>)[devicePublicKey];
+        if (deviceKey) info.deviceKey = deviceKey;
+      }
+      if (info.role === "owner") {
+        const members = await this.db.prepare("SELECT vault_id, role, vault_key FROM share_members WHERE share_id = ? AND role != 'owner' ORDER BY vault_id").all(r.share_id) as Array<{ vault_id: string; role: string; vault_key: string | null }>;
+        info.members = members.map((m) => ({ vaultId: m.vault_id, role: toRole(m.role), accepted: m.vault_key !== null }));
+      }
+      return info;
+    }));
+  }
+
+  /**
+   * Invite a vault with the folder key encrypted to its devices, or change a member's role.
+   * An accepted member keeps its wrapped key; only its role changes.
+   */
+  async invite(shareId: string, vaultId: string, role: ShareRole, deviceKeys: Record<string, string>): Promise<void> {
+    const updated = (await this.db.prepare("UPDATE share_members SET role = ? WHERE share_id = ? AND vault_id = ? AND vault_key IS NOT NULL").run(role, shareId, vaultId)).changes > 0;
+    if (updated) return;
+    await this.db
+      .prepare("INSERT INTO share_members (share_id, vault_id, role, vault_key, device_keys, encrypted_mount) VALUES (?, ?, ?, NULL, ?, NULL) ON CONFLICT (share_id, vault_id) DO UPDATE SET role = excluded.role, vault_key = NULL, device_keys = excluded.device_keys, encrypted_mount = NULL")
+      .run(shareId, vaultId, role, JSON.stringify(deviceKeys));
+  }
+
+  /** Accept an invitation. False if the vault is not a member. */
+  async accept(shareId: string, vaultId: string, vaultKey: string, encryptedMount: string): Promise<boolean> {
+    return (await this.db.prepare("UPDATE share_members SET vault_key = ?, encrypted_mount = ?, device_keys = NULL WHERE share_id = ? AND vault_id = ?").run(vaultKey, encryptedMount, shareId, vaultId)).changes > 0;
+  }
+
+  /** The shared folders whose key is wrapped with a vault's data key: those it owns or accepted. */
+  async acceptedBy(vaultId: string): Promise<string[]> {
+    const rows = await this.db.prepare("SELECT share_id FROM share_members WHERE vault_id = ? AND vault_key IS NOT NULL").all(vaultId) as Array<{ share_id: string }>;
+    return rows.map((r) => r.share_id);
+  }
+
+  /** Swap in the folder keys and mounts a vault wrapped with its new data key after a key rotation, all at once. */
+  rewrap(vaultId: string, shares: ShareRewrap[]): Promise<void> {
+    return this.db.transaction(async (tx) => {
+      const update = tx.prepare("UPDATE share_members SET vault_key = ?, encrypted_mount = ? WHERE share_id = ? AND vault_id = ? AND vault_key IS NOT NULL");
+      for (const share of shares) await update.run(share.vaultKey, share.encryptedMount, share.shareId, vaultId);
+    });
+  }
+
+  /** What a vault may do with a shared folder; null unless it owns it or accepted an invitation. */
+  async access(shareId: string, vaultId: string): Promise<ShareRole | null> {
+    const row = await this.db.prepare("SELECT role FROM share_members WHERE share_id = ? AND vault_id = ? AND vault_key IS NOT NULL").get(shareId, vaultId) as { role: string } | undefined;
+    return row ? toRole(row.role) : null;
+  }
+
+  /** Every vault a shared folder is listed to: the owner, members and open invitations. */
+  async memberVaultIds(shareId: string): Promise<string[]> {
+    const rows = await this.db.prepare("SELECT vault_id FROM share_members WHERE share_id = ?").all(shareId) as Array<{ vault_id: string }>;
+    return rows.map((r) => r.vault_id);
+  }
+
+  async removeMember(shareId: string, vaultId: string): Promise<void> {
+    await this.db.prepare("DELETE FROM share_members WHERE share_id = ? AND vault_id = ?").run(shareId, vaultId);
+  }
+
+  /** Delete a shared folder with its files. */
+  async deleteShare(shareId: string): Promise<void> {
+    const storage = await this.getStorage(shareId);
+    this.storages.delete(shareId);
+    await this.db.prepare("DELETE FROM share_members WHERE share_id = ?").run(shareId);
+    await this.db.prepare("DELETE FROM shares WHERE share_id = ?").run(shareId);
+    await storage.destroy();
+    try { fs.rmSync(this.getDataDir(shareId), { recursive: true, force: true }); } catch {}
+  }
+
+  /** Storage of a shared folder's files, opened on first use. */
+  getStorage(shareId: string): Promise<Storage> {
+    let storage = this.storages.get(shareId);
+    if (!storage) {
+      const dataDir = this.getDataDir(shareId);
+      storage = Storage.open({ ...this.config, dataDir }, createBlobStore(this.config, dataDir), createMetadataStore(this.config, dataDir));
+      // A failed open is retried on next use
+      storage.catch(() => this.storages.delete(shareId));
+      this.storages.set(shareId, storage);
+    }
+    return storage;
+  }
+
+  /** Size of the shared folders a vault owns (counts towards its quota). */
+  async usageOwnedBy(owner: string): Promise<number> {
+    let usage = 0;
+    for (const shareId of await this.ownedBy(owner)) usage += await (await this.getStorage(shareId)).getOwnUsage();
+    return usage;
+  }
+
+  /**
+   * A vault was deleted: delete the folders it owns and leave the ones it was a member of.
+   * Returns the other vaults whose shared folders changed.
+   */
+  async removeVault(vaultId: string): Promise<string[]> {
+    const shareIds = ((await this.db.prepare("SELECT share_id FROM share_members WHERE vault_id = ?").all(vaultId)) as Array<{ share_id: string }>).map((r) => r.share_id);
+    const affected = new Set<string>();
+    for (const shareId of shareIds) for (const id of await this.memberVaultIds(shareId)) affected.add(id);
+    for (const shareId of await this.ownedBy(vaultId)) await this.deleteShare(shareId);
+    await this.db.prepare("DELETE FROM share_members WHERE vault_id = ?").run(vaultId);
+    affected.delete(vaultId);
+    return [...affected];
+  }
+
+  /** Purge expired trash and abandoned uploads of every shared folder. */
+  async purgeExpired(): Promise<void> {
+    const rows = await this.db.prepare("SELECT share_id FROM shares").all() as Array<{ share_id: string }>;
+    for (const { share_id } of rows) {
+      const storage = await this.getStorage(share_id);
+      await storage.purgeTrash();
+      storage.purgeStaleUploads();
+    }
+  }
+
+  /** Delete every shared folder (full server reset). */
+  async wipe(): Promise<void> {
+    const rows = await this.db.prepare("SELECT share_id FROM shares").all() as Array<{ share_id: string }>;
+    for (const { share_id } of rows) await this.deleteShare(share_id);
+    try { fs.rmSync(path.join(this.config.dataDir, "shares"), { recursive: true, force: true }); } catch {}
+  }
+
+  async close(): Promise<void> {
+    for (const storage of this.storages.values()) await (await storage).close();
+    this.storages.clear();
+    await this.db.close();
+  }
+
+  private async ownedBy(owner: string): Promise<string[]> {
+    const rows = await this.db.prepare("SELECT share_id FROM shares WHERE owner = ?").all(owner) as Array<{ share_id: string }>;
+    return rows.map((r) => r.share_id);
+  }
+
+  private getDataDir(shareId: string): string {
+    return path.join(this.config.dataDir, "shares", shareId);
+  }
+}
+
+function toRole(role: string): ShareRole {
+  return role === "owner" || role === "write" ? role : "read";
+}
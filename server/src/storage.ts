@@ -1,34 +1,83 @@
 /**
- * Server storage: SQLite for metadata + blob files on disk.
+ * Server storage: metadata in a MetadataStore (SQLite in the data directory, or PostgreSQL)
+ * + blobs in a BlobStore (files in the data directory, or an S3-compatible object store).
+ * Blob changes run one at a time, across server instances sharing the metadata (see exclusive).
+ * Overwritten blobs are moved to versions/ and pruned to the newest N per file.
+ * Deleted blobs are moved to trash/ and purged after the retention period.
+ * Chunked uploads are assembled in uploads/ on local disk and moved into blobs/ when complete.
+ * Large files are stored as lists of deduplicated blocks (blocks/); block_refs records
+ * which blob (live, version or trashed) uses which block, so unused blocks can be swept.
+ * During a key rotation, uploads are staged in rotation/ and swapped in all at once; the
+ * server instance the rotating client is connected to holds the `rotation` lock meanwhile.
+ * Sequence numbers are handed out by the database (the `sequences` table), in the transaction
+ * that records the change.
+ * The wrapped vault data keys live in vault_meta as `wrapped_key:<name>` rows, next to the
+ * salt (`vault_salt`) and KDF parameters (`kdf_params`, JSON) of the password key.
+ * Each device registers a public key in devices; once the first device is trusted
+ * (`devices_enrolled`), new devices stay pending until a trusted device approves them.
+ * A vault owned by a user account has a quota on the total size of its live files, versions
+ * and trash, plus the shared folders it owns; uploads that would exceed it are refused.
  */
 
 import path from "path";
 import fs from "fs";
 import crypto from "crypto";
-import Database from "better-sqlite3";
-import type { EncryptedFileEntry, ChangeRecord, SyncManifest, ClientSession } from "../../shared/types";
+import type { EncryptedFileEntry, ChangeRecord, SyncManifest, ClientSession, FileVersionEntry, TrashEntry } from "../../shared/types";
+import { BLOB_OVERHEAD } from "../../shared/protocol";
+import type { KdfParams } from "../../shared/protocol";
 import type { ServerConfig } from "./config";
+import type { BlobStore } from "./blob-store";
+import type { MetadataStore, Queryable, Lock } from "./metadata-store";
+
+/** Key prefixes in the blob store: live files, versions, trash, blocks and staged rotation files. */
+const BLOB_PREFIXES = ["blobs", "versions", "trash", "blocks", "rotation"];
 
 export class Storage {
-  private db: Database.Database;
-  private blobDir: string;
+  private db: MetadataStore;
+  private blobs: BlobStore;
+  /** Partial chunked uploads stay on local disk: they are appended to, which object stores can't do. */
+  private uploadDir: string;
   private dataDir: string;
-  private dbPath: string;
+  private maxVersions: number;
+  private trashRetentionDays: number;
+  /** The key rotation a client of this server instance runs, between beginRotation and commitRotation/abortRotation. */
+  private rotation: { lock: Lock; clientId: string; wrappedKey: string } | null = null;
+  /** Upper limit for getUsage() in bytes (0 = unlimited). */
+  private quotaBytes = 0;
+  /** Usage stored elsewhere that counts towards the quota (the shared folders this vault owns). */
+  private externalUsage: () => Promise<number> = async () => 0;
 
-  constructor(config: ServerConfig) {
+  private constructor(config: ServerConfig, blobs: BlobStore, db: MetadataStore) {
     this.dataDir = config.dataDir;
-    this.dbPath = path.join(this.dataDir, "vault-sync.db");
-    this.blobDir = path.join(this.dataDir, "blobs");
+    this.blobs = blobs;
+    this.db = db;
+    this.uploadDir = path.join(this.dataDir, "uploads");
+    this.maxVersions = config.maxVersions;
+    this.trashRetentionDays = config.trashRetentionDays;
     fs.mkdirSync(this.dataDir, { recursive: true });
-    fs.mkdirSync(this.blobDir, { recursive: true });
-    this.db = new Database(this.dbPath);
-    this.db.pragma("journal_mode = WAL");
-    this.db.pragma("foreign_keys = ON");
-    this.initSchema();
+    fs.mkdirSync(this.uploadDir, { recursive: true });
+  }
+
+  /** Open a Storage, creating or migrating its tables first. */
+  static async open(config: ServerConfig, blobs: BlobStore, db: MetadataStore): Promise<Storage> {
+    const storage = new Storage(config, blobs, db);
+    await db.lock("schema", () => storage.initSchema());
+    // A rotation whose server instance stopped can never be committed
+    await storage.isRotating();
+    return storage;
   }
 
-  private initSchema(): void {
-    this.db.exec(`
+  /**
+   * Run a change to the stored blobs once the changes queued before it are done, holding the
+   * `blobs` lock of the metadata store: blob I/O is asynchronous, and other server instances
+   * may share the blobs, so without it two requests could move the blobs of the same file at once.
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    return this.db.lock("blobs", task);
+  }
+
+  private async initSchema(): Promise<void> {
+    await this.db.exec(`
       CREATE TABLE IF NOT EXISTS files (
         file_id TEXT PRIMARY KEY,
         encrypted_meta TEXT NOT NULL,
@@ -49,6 +98,13 @@ export class Storage {
         last_seen INTEGER NOT NULL,
         is_online INTEGER NOT NULL DEFAULT 0
       );
+      CREATE TABLE IF NOT EXISTS devices (
+        client_id TEXT PRIMARY KEY,
+        public_key TEXT NOT NULL,
+        trusted INTEGER NOT NULL DEFAULT 0,
+        device_key TEXT,
+        created_at INTEGER NOT NULL
+      );
       CREATE INDEX IF NOT EXISTS idx_files_sequence ON files(sequence);
       CREATE TABLE IF NOT EXISTS activity_log (
         id        INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -62,53 +118,214 @@ export class Storage {
         device_name TEXT NOT NULL,
         ip TEXT NOT NULL,
         created_at INTEGER NOT NULL,
-        last_used INTEGER NOT NULL
+        last_used INTEGER NOT NULL,
+        read_only INTEGER NOT NULL DEFAULT 0
       );
       CREATE INDEX IF NOT EXISTS idx_auth_tokens_client ON auth_tokens(client_id);
+      CREATE TABLE IF NOT EXISTS file_versions (
+        version_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_id TEXT NOT NULL,
+        encrypted_meta TEXT NOT NULL,
+        mtime INTEGER NOT NULL,
+        size INTEGER NOT NULL,
+        archived_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_file_versions_file ON file_versions(file_id);
+      CREATE TABLE IF NOT EXISTS trash (
+        file_id TEXT PRIMARY KEY,
+        encrypted_meta TEXT NOT NULL,
+        mtime INTEGER NOT NULL,
+        size INTEGER NOT NULL,
+        deleted_by TEXT NOT NULL DEFAULT '',
+        deleted_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS blocks (
+        block_id TEXT PRIMARY KEY,
+        size INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS block_refs (
+        owner TEXT NOT NULL,
+        idx INTEGER NOT NULL,
+        block_id TEXT NOT NULL,
+        PRIMARY KEY (owner, idx)
+      );
+      CREATE INDEX IF NOT EXISTS idx_block_refs_block ON block_refs(block_id);
+      CREATE TABLE IF NOT EXISTS rotation_files (
+        file_id TEXT PRIMARY KEY,
+        encrypted_meta TEXT NOT NULL,
+        mtime INTEGER NOT NULL,
+        size INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS sequences (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS pairings (
+        pairing_hash TEXT PRIMARY KEY,
+        client_id TEXT NOT NULL,
+        read_only INTEGER NOT NULL DEFAULT 0,
+        expires_at INTEGER NOT NULL,
+        claimed INTEGER NOT NULL DEFAULT 0,
+        claim TEXT
+      );
     `);
+    // Tokens from before read-only devices are read-write
+    if (!(await this.db.columns("auth_tokens")).includes("read_only")) {
+      await this.db.exec("ALTER TABLE auth_tokens ADD COLUMN read_only INTEGER NOT NULL DEFAULT 0");
+    }
+    // Bytes of the blob on disk; NULL for block lists and files stored before it was recorded
+    const fileColumns = await this.db.columns("files");
+    if (!fileColumns.includes("stored_size")) {
+      await this.db.exec("ALTER TABLE files ADD COLUMN stored_size INTEGER");
+    }
+    // Tag a client chose for the stored version, so it can upload deltas against it
+    if (!fileColumns.includes("version_tag")) {
+      await this.db.exec("ALTER TABLE files ADD COLUMN version_tag TEXT");
+    }
+    // Bytes of the entry's blob in the blob store, block lists included: what counts towards the
+    // quota. NULL for entries stored before it was recorded, which count their file size instead
+    for (const table of ["files", "file_versions", "trash"]) {
+      if (!(await this.db.columns(table)).includes("blob_size")) {
+        await this.db.exec(`ALTER TABLE ${table} ADD COLUMN blob_size INTEGER`);
+      }
+    }
+    // Read-only set by an admin or inherited from a read-only device, whatever the device signs in with
+    if (!(await this.db.columns("devices")).includes("read_only")) {
+      await this.db.exec("ALTER TABLE devices ADD COLUMN read_only INTEGER NOT NULL DEFAULT 0");
+    }
+    // File sequences continue from the last one recorded before they were kept here
+    await this.db.exec("INSERT INTO sequences (name, value) SELECT 'files', COALESCE(MAX(sequence), 0) FROM files WHERE true ON CONFLICT (name) DO NOTHING");
   }
 
-  getVaultSalt(): string | null {
-    const row = this.db.prepare("SELECT value FROM vault_meta WHERE key = 'vault_salt'").get() as { value: string } | undefined;
+  private async getMeta(key: string, db: Queryable = this.db): Promise<string | null> {
+    const row = await db.prepare("SELECT value FROM vault_meta WHERE key = ?").get(key) as { value: string } | undefined;
     return row?.value ?? null;
   }
 
-  setVaultSalt(salt: string): void {
-    this.db.prepare("INSERT OR REPLACE INTO vault_meta (key, value) VALUES ('vault_salt', ?)").run(salt);
+  private async setMeta(key: string, value: string, db: Queryable = this.db): Promise<void> {
+    await db.prepare("INSERT INTO vault_meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value").run(key, value);
+  }
+
+  /**
+   * Take the next `count` file sequence numbers; resolves to the last one. In PostgreSQL the
+   * row stays locked until `tx` ends, so changes commit in the order of their sequences.
+   */
+  private async nextSequence(tx: Queryable, count = 1): Promise<number> {
+    const row = await tx.prepare("UPDATE sequences SET value = value + ? WHERE name = 'files' RETURNING value").get(count) as { value: number };
+    return row.value;
+  }
+
+  getVaultSalt(): Promise<string | null> {
+    return this.getMeta("vault_salt");
+  }
+
+  setVaultSalt(salt: string): Promise<void> {
+    return this.setMeta("vault_salt", salt);
+  }
+
+  /** How the password key is derived; null for vaults created before KDF parameters were stored. */
+  async getKdfParams(): Promise<KdfParams | null> {
+    const value = await this.getMeta("kdf_params");
+    return value ? JSON.parse(value) : null;
+  }
+
+  // ---- Vault data key ----
+
+  /** The vault data key wrapped by each wrapping key, keyed by the wrapping key's name. */
+  async getWrappedKeys(db: Queryable = this.db): Promise<Record<string, string>> {
+    const rows = await db.prepare("SELECT key, value FROM vault_meta WHERE key LIKE 'wrapped_key:%'").all() as Array<{ key: string; value: string }>;
+    const keys: Record<string, string> = {};
+    for (const r of rows) keys[r.key.slice("wrapped_key:".length)] = r.value;
+    return keys;
+  }
+
+  /** Store the first password's proof, salt and KDF parameters, and its wrapped data key if given. */
+  private async setPassword(tx: Queryable, passwordHash: string, vaultSalt: string, kdf: KdfParams, wrappedKey?: string): Promise<void> {
+    await this.setMeta("server_password_hash", passwordHash, tx);
+    await this.setMeta("vault_salt", vaultSalt, tx);
+    await this.setMeta("kdf_params", JSON.stringify(kdf), tx);
+    if (wrappedKey !== undefined) await this.setMeta("wrapped_key:password", wrappedKey, tx);
+  }
+
+  /**
+   * Store the first data key of the vault together with the salt and KDF parameters of the
+   * password key that wraps it, and the sign-in proof derived from that key.
+   * Returns false (and changes nothing) if the vault already has one.
+   */
+  initDataKey(vaultSalt: string, kdf: KdfParams, wrappedKey: string, passwordHash: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Other wrappings are only ever added next to the password one
+      if ((await tx.prepare("INSERT INTO vault_meta (key, value) VALUES ('wrapped_key:password', ?) ON CONFLICT (key) DO NOTHING").run(wrappedKey)).changes === 0) return false;
+      await this.setPassword(tx, passwordHash, vaultSalt, kdf);
+      return true;
+    });
+  }
+
+  /** Whether any live, versioned or trashed file exists — i.e. the vault holds encrypted data. */
+  async hasEncryptedData(): Promise<boolean> {
+    return !!(await this.db.prepare("SELECT 1 FROM files UNION ALL SELECT 1 FROM file_versions UNION ALL SELECT 1 FROM trash LIMIT 1").get());
+  }
+
+  getRecoveryHash(): Promise<string | null> {
+    return this.getMeta("recovery_hash");
+  }
+
+  /** Store a recovery key: the phrase's sign-in proof and the data key wrapped by it. */
+  setRecoveryKey(recoveryHash: string, wrappedKey: string): Promise<void> {
+    return this.db.transaction(async (tx) => {
+      await this.setMeta("recovery_hash", recoveryHash, tx);
+      await this.setMeta("wrapped_key:recovery", wrappedKey, tx);
+    });
+  }
+
+  /**
+   * Switch to a new password: its hash, the salt and KDF parameters of its password key and
+   * the data key re-wrapped by it. Every session token is revoked unless `keepSessions` is set
+   * (the password itself is unchanged, only its key derivation is upgraded).
+   */
+  changePassword(passwordHash: string, vaultSalt: string, kdf: KdfParams, wrappedKey: string, keepSessions = false): Promise<void> {
+    return this.db.transaction(async (tx) => {
+      if (!keepSessions) await tx.exec("DELETE FROM auth_tokens");
+      await this.setPassword(tx, passwordHash, vaultSalt, kdf, wrappedKey);
+    });
   }
 
   // ---- Server initialization (password) ----
 
-  getServerPasswordHash(): string | null {
-    const row = this.db
-      .prepare("SELECT value FROM vault_meta WHERE key = 'server_password_hash'")
-      .get() as { value: string } | undefined;
-    return row?.value ?? null;
+  /**
+   * Set the first password: its sign-in proof and the salt and KDF parameters it was derived
+   * with. False (and nothing changes) if the vault has a password already.
+   */
+  initPassword(passwordHash: string, vaultSalt: string, kdf: KdfParams): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      if ((await tx.prepare("INSERT INTO vault_meta (key, value) VALUES ('server_password_hash', ?) ON CONFLICT (key) DO NOTHING").run(passwordHash)).changes === 0) return false;
+      await this.setPassword(tx, passwordHash, vaultSalt, kdf);
+      return true;
+    });
   }
 
-  setServerPasswordHash(passwordHash: string): void {
-    this.db
-      .prepare(
-        "INSERT OR REPLACE INTO vault_meta (key, value) VALUES ('server_password_hash', ?)"
-      )
-      .run(passwordHash);
+  getServerPasswordHash(): Promise<string | null> {
+    return this.getMeta("server_password_hash");
   }
 
-  getCurrentSequence(): number {
-    const row = this.db.prepare("SELECT MAX(sequence) as seq FROM files").get() as { seq: number | null };
-    return row?.seq ?? 0;
+  async getCurrentSequence(): Promise<number> {
+    const row = await this.db.prepare("SELECT value FROM sequences WHERE name = 'files'").get() as { value: number } | undefined;
+    return row?.value ?? 0;
   }
 
-  getManifest(): SyncManifest {
-    const entries = this.db.prepare("SELECT file_id, encrypted_meta, mtime, size FROM files WHERE deleted = 0").all() as Array<{ file_id: string; encrypted_meta: string; mtime: number; size: number }>;
+  async getManifest(): Promise<SyncManifest> {
+    // The sequence first: changes committed in between are sent again rather than missed
+    const sequence = await this.getCurrentSequence();
+    const entries = await this.db.prepare("SELECT file_id, encrypted_meta, mtime, size FROM files WHERE deleted = 0").all() as Array<{ file_id: string; encrypted_meta: string; mtime: number; size: number }>;
     return {
       entries: entries.map((r) => ({ fileId: r.file_id, encryptedMeta: r.encrypted_meta, mtime: r.mtime, size: r.size })),
-      sequence: this.getCurrentSequence(),
+      sequence,
     };
   }
 
-  getChangesSince(sequence: number): ChangeRecord[] {
-    const rows = this.db.prepare("SELECT file_id, encrypted_meta, mtime, size, deleted, sequence FROM files WHERE sequence > ? ORDER BY sequence").all(sequence) as Array<{ file_id: string; encrypted_meta: string; mtime: number; size: number; deleted: number; sequence: number }>;
+  async getChangesSince(sequence: number): Promise<ChangeRecord[]> {
+    const rows = await this.db.prepare("SELECT file_id, encrypted_meta, mtime, size, deleted, sequence FROM files WHERE sequence > ? ORDER BY sequence").all(sequence) as Array<{ file_id: string; encrypted_meta: string; mtime: number; size: number; deleted: number; sequence: number }>;
     return rows.map((r) => ({ fileId: r.file_id, encryptedMeta: r.encrypted_meta, mtime: r.mtime, size: r.size, deleted: r.deleted === 1, sequence: r.sequence }));
   }
 
@@ -118,129 +335,727 @@ export class Storage {
     mtime: number,
     size: number,
     blobData: Buffer
-  ): { sequence: number; isNew: boolean } {
-    const existing = this.db
-      .prepare("SELECT deleted FROM files WHERE file_id = ?")
-      .get(fileId) as { deleted: number } | undefined;
-    const isNew = !existing || existing.deleted === 1;
-    const nextSeq = this.getCurrentSequence() + 1;
-    this.db.prepare("INSERT OR REPLACE INTO files (file_id, encrypted_meta, mtime, size, deleted, sequence) VALUES (?, ?, ?, ?, 0, ?)").run(fileId, encryptedMeta, mtime, size, nextSeq);
-    const blobPath = this.getBlobPath(fileId);
-    fs.mkdirSync(path.dirname(blobPath), { recursive: true });
-    fs.writeFileSync(blobPath, blobData);
-    return { sequence: nextSeq, isNew };
+  ): Promise<{ sequence: number; isNew: boolean } | null> {
+    return this.storeFile(fileId, encryptedMeta, mtime, size, blobData.length, (blobKey) => this.blobs.put(blobKey, blobData));
+  }
+
+  /** `blobSize` is the length of the blob `writeBlob` stores, checked against the quota. */
+  private storeFile(
+    fileId: string,
+    encryptedMeta: string,
+    mtime: number,
+    size: number,
+    blobSize: number,
+    writeBlob: (blobKey: string) => Promise<void>,
+    versionTag: string | null = null
+  ): Promise<{ sequence: number; isNew: boolean } | null> {
+    return this.exclusive(async () => {
+      if ((await this.getMeta("rotation")) !== null) return this.stageFile(fileId, encryptedMeta, mtime, size, writeBlob);
+      if (!(await this.fitsQuota(blobSize - (await this.getLiveBytes(fileId))))) return null;
+
+      const existing = await this.db
+        .prepare("SELECT encrypted_meta, mtime, size, deleted, blob_size FROM files WHERE file_id = ?")
+        .get(fileId) as { encrypted_meta: string; mtime: number; size: number; deleted: number; blob_size: number | null } | undefined;
+      const isNew = !existing || existing.deleted === 1;
+      if (existing && !isNew) {
+        await this.archiveVersion(fileId, existing.encrypted_meta, existing.mtime, existing.size, existing.blob_size);
+      } else if (existing) {
+        // Re-created while the old copy is still in the trash: keep that copy as a version
+        const trashed = await this.takeFromTrash(fileId);
+        if (trashed) await this.archiveVersion(fileId, trashed.encryptedMeta, trashed.mtime, trashed.size, trashed.blobSize);
+      }
+      const blobKey = this.getBlobKey(fileId);
+      // The previous blob was archived or is being overwritten — its block list no longer applies
+      await this.db.prepare("DELETE FROM block_refs WHERE owner = ?").run(blobKey);
+      await writeBlob(blobKey);
+      const storedSize = await this.getStoredSize(fileId);
+      // The new sequence is only handed out once the blob is stored
+      const sequence = await this.db.transaction(async (tx) => {
+        const next = await this.nextSequence(tx);
+        await this.setLiveFile(tx, fileId, encryptedMeta, mtime, size, next, versionTag, storedSize, blobSize);
+        return next;
+      });
+      return { sequence, isNew };
+    });
+  }
+
+  /** Insert or overwrite the row of a live file. */
+  private async setLiveFile(tx: Queryable, fileId: string, encryptedMeta: string, mtime: number, size: number, sequence: number, versionTag: string | null, storedSize: number | null, blobSize: number | null): Promise<void> {
+    await tx
+      .prepare("INSERT INTO files (file_id, encrypted_meta, mtime, size, deleted, sequence, version_tag, stored_size, blob_size) VALUES (?, ?, ?, ?, 0, ?, ?, ?, ?) ON CONFLICT (file_id) DO UPDATE SET encrypted_meta = excluded.encrypted_meta, mtime = excluded.mtime, size = excluded.size, deleted = 0, sequence = excluded.sequence, version_tag = excluded.version_tag, stored_size = excluded.stored_size, blob_size = excluded.blob_size")
+      .run(fileId, encryptedMeta, mtime, size, sequence, versionTag, storedSize, blobSize);
+  }
+
+  /** The versionTag of a live file, or null if its uploader set none. */
+  async getVersionTag(fileId: string): Promise<string | null> {
+    const row = await this.db.prepare("SELECT version_tag FROM files WHERE file_id = ? AND deleted = 0").get(fileId) as { version_tag: string | null } | undefined;
+    return row?.version_tag ?? null;
+  }
+
+  getFile(fileId: string): Promise<Buffer | null> {
+    return this.blobs.get(this.getBlobKey(fileId));
+  }
+
+  /** Size of a stored blob in bytes, or null if it does not exist. */
+  getFileSize(fileId: string): Promise<number | null> {
+    return this.blobs.size(this.getBlobKey(fileId));
+  }
+
+  /**
+   * Bytes a file's blob takes in the blob store, or null if it is stored as blocks: those may be
+   * shared with other files, and clients never compress them.
+   */
+  private async getStoredSize(fileId: string): Promise<number | null> {
+    return (await this.getBlockList(fileId)) ? null : this.getFileSize(fileId);
+  }
+
+  /** Read up to `length` bytes of a blob starting at `offset`. */
+  getFileRange(fileId: string, offset: number, length: number): Promise<Buffer | null> {
+    return this.blobs.getRange(this.getBlobKey(fileId), offset, length);
+  }
+
+  // ---- Deduplicated blocks ----
+
+  /** Which of these blocks are not stored yet. */
+  async getMissingBlocks(blockIds: string[]): Promise<string[]> {
+    const exists = this.db.prepare("SELECT 1 FROM blocks WHERE block_id = ?");
+    const missing: string[] = [];
+    for (const id of new Set(blockIds)) {
+      if (!(await exists.get(id))) missing.push(id);
+    }
+    return missing;
+  }
+
+  putBlock(blockId: string, data: Buffer): Promise<void> {
+    return this.exclusive(async () => {
+      if (await this.db.prepare("SELECT 1 FROM blocks WHERE block_id = ?").get(blockId)) return;
+      await this.blobs.put(this.getBlockKey(blockId), data);
+      await this.db.prepare("INSERT INTO blocks (block_id, size, created_at) VALUES (?, ?, ?)").run(blockId, data.length, Date.now());
+    });
+  }
+
+  getBlock(blockId: string): Promise<Buffer | null> {
+    return this.blobs.get(this.getBlockKey(blockId));
+  }
+
+  /**
+   * Store a file made of already uploaded blocks. Its blob is a small JSON block list;
+   * the references go into block_refs. Returns null if any block is missing or the quota is full.
+   */
+  async putBlockFile(
+    fileId: string,
+    encryptedMeta: string,
+    mtime: number,
+    size: number,
+    blockIds: string[],
+    versionTag: string | null = null
+  ): Promise<{ sequence: number; isNew: boolean } | null> {
+    if ((await this.getMissingBlocks(blockIds)).length > 0) return null;
+    const blockList = Buffer.from(JSON.stringify({ blocks: blockIds }));
+    return this.storeFile(fileId, encryptedMeta, mtime, size, blockList.length, async (blobKey) => {
+      await this.blobs.put(blobKey, blockList);
+      await this.db.transaction(async (tx) => {
+        const insert = tx.prepare("INSERT INTO block_refs (owner, idx, block_id) VALUES (?, ?, ?)");
+        for (const [idx, id] of blockIds.entries()) await insert.run(blobKey, idx, id);
+      });
+    }, versionTag);
+  }
+
+  /** Block list of a file stored as blocks, or null if it is a regular blob. */
+  getBlockList(fileId: string): Promise<string[] | null> {
+    return this.readBlockRefs(this.getBlobKey(fileId));
+  }
+
+  getVersionBlockList(fileId: string, versionId: number): Promise<string[] | null> {
+    return this.readBlockRefs(this.getVersionKey(fileId, versionId));
+  }
+
+  /**
+   * Delete blocks that no live file, version or trashed file refers to. Blocks younger
+   * than an hour are kept: a client may still be uploading the rest of their file.
+   */
+  purgeOrphanBlocks(): Promise<number> {
+    return this.exclusive(async () => {
+      const cutoff = Date.now() - 60 * 60 * 1000;
+      const orphans = await this.db
+        .prepare("SELECT block_id FROM blocks WHERE created_at < ? AND block_id NOT IN (SELECT block_id FROM block_refs)")
+        .all(cutoff) as Array<{ block_id: string }>;
+      for (const { block_id } of orphans) {
+        await this.db.prepare("DELETE FROM blocks WHERE block_id = ?").run(block_id);
+        await this.blobs.delete(this.getBlockKey(block_id));
+      }
+      if (orphans.length > 0) console.log(`[Storage] Purged ${orphans.length} unused block(s).`);
+      return orphans.length;
+    });
+  }
+
+  private async readBlockRefs(owner: string): Promise<string[] | null> {
+    const rows = await this.db.prepare("SELECT block_id FROM block_refs WHERE owner = ? ORDER BY idx").all(owner) as Array<{ block_id: string }>;
+    return rows.length > 0 ? rows.map((r) => r.block_id) : null;
+  }
+
+  /** Rename a stored blob, carrying its block references along. */
+  private async moveBlob(from: string, to: string): Promise<void> {
+    await this.blobs.move(from, to);
+    await this.db.prepare("UPDATE block_refs SET owner = ? WHERE owner = ?").run(to, from);
   }
 
-  getFile(fileId: string): Buffer | null {
-    try { return fs.readFileSync(this.getBlobPath(fileId)); } catch { return null; }
+  /** Delete a stored blob and its block references (the blocks are swept by purgeOrphanBlocks). */
+  private async removeBlob(blobKey: string): Promise<void> {
+    await this.db.prepare("DELETE FROM block_refs WHERE owner = ?").run(blobKey);
+    await this.blobs.delete(blobKey);
   }
 
-  getFileMeta(fileId: string): EncryptedFileEntry | null {
-    const row = this.db.prepare("SELECT file_id, encrypted_meta, mtime, size, deleted FROM files WHERE file_id = ?").get(fileId) as { file_id: string; encrypted_meta: string; mtime: number; size: number; deleted: number } | undefined;
+  // ---- Key rotation ----
+
+  /**
+   * Start a key rotation for a client of this server instance: until commitRotation or
+   * abortRotation, every stored file goes to rotation/ instead of replacing the live copy, and
+   * `wrappedKey` (the new data key wrapped by the password key) waits for the commit.
+   * False if a rotation is running already.
+   */
+  async beginRotation(clientId: string, wrappedKey: string): Promise<boolean> {
+    const lock = await this.db.tryLock("rotation");
+    if (!lock) return false;
+    try {
+      await this.exclusive(async () => {
+        await this.discardStaged();
+        await this.setMeta("rotation", clientId);
+      });
+    } catch (err) {
+      await lock.release();
+      throw err;
+    }
+    this.rotation = { lock, clientId, wrappedKey };
+    return true;
+  }
+
+  /**
+   * Whether a key rotation is running, on this server instance or another. A rotation whose
+   * instance stopped no longer holds the `rotation` lock; its staged files are discarded here.
+   */
+  async isRotating(): Promise<boolean> {
+    if (this.rotation) return true;
+    if ((await this.getMeta("rotation")) === null) return false;
+    const lock = await this.db.tryLock("rotation");
+    if (!lock) return true;
+    try {
+      await this.exclusive(() => this.discardStaged());
+    } finally {
+      await lock.release();
+    }
+    return false;
+  }
+
+  /** The client running a key rotation on this server instance, or null. */
+  rotatingClientId(): string | null {
+    return this.rotation?.clientId ?? null;
+  }
+
+  async getStagedFileIds(): Promise<string[]> {
+    const rows = await this.db.prepare("SELECT file_id FROM rotation_files").all() as Array<{ file_id: string }>;
+    return rows.map((r) => r.file_id);
+  }
+
+  /**
+   * Replace all live files with their staged copies and switch to the data key wrapped at
+   * beginRotation; other wrappings of the old data key (and the recovery proof) are dropped. Versions and trashed files are
+   * encrypted with the old key and are dropped too, as are the copies handed to approved
+   * devices; every session token is revoked.
+   * `replacedFileIds` are the live files the client re-encrypted; unless they are exactly the
+   * live files and each has a staged copy, nothing changes and null is returned, as a file
+   * left out would be lost with its versions. Otherwise returns how many files were swapped in.
+   */
+  async commitRotation(replacedFileIds: string[]): Promise<number | null> {
+    const rotation = this.rotation;
+    if (!rotation) throw new Error("No key rotation in progress");
+    const count = await this.exclusive(async () => {
+      const staged = await this.db.prepare("SELECT file_id, encrypted_meta, mtime, size FROM rotation_files").all() as Array<{ file_id: string; encrypted_meta: string; mtime: number; size: number }>;
+      const live = await this.db.prepare("SELECT file_id FROM files").all() as Array<{ file_id: string }>;
+      const present = new Set((await this.db.prepare("SELECT file_id FROM files WHERE deleted = 0").all() as Array<{ file_id: string }>).map((r) => r.file_id));
+      const replaced = new Set(replacedFileIds);
+      if (replaced.size !== present.size || staged.length !== replaced.size || ![...present].every((id) => replaced.has(id))) return null;
+      const versions = await this.db.prepare("SELECT file_id, version_id FROM file_versions").all() as Array<{ file_id: string; version_id: number }>;
+      const trashed = await this.db.prepare("SELECT file_id FROM trash").all() as Array<{ file_id: string }>;
+
+      // Swap the blobs first; the rows follow in one transaction
+      for (const { file_id } of live) await this.removeBlob(this.getBlobKey(file_id));
+      const storedSizes: Array<number | null> = [];
+      const blobSizes: Array<number | null> = [];
+      for (const r of staged) {
+        await this.moveBlob(this.getStagedKey(r.file_id), this.getBlobKey(r.file_id));
+        storedSizes.push(await this.getStoredSize(r.file_id));
+        blobSizes.push(await this.getFileSize(r.file_id));
+      }
+      for (const { file_id, version_id } of versions) await this.removeBlob(this.getVersionKey(file_id, version_id));
+      for (const { file_id } of trashed) await this.removeBlob(this.getTrashKey(file_id));
+
+      await this.db.transaction(async (tx) => {
+        // Sequences continue from the old ones so clients never mistake them for known changes
+        const firstSeq = (await this.nextSequence(tx, staged.length)) - staged.length + 1;
+        const insert = tx.prepare("INSERT INTO files (file_id, encrypted_meta, mtime, size, deleted, sequence, stored_size, blob_size) VALUES (?, ?, ?, ?, 0, ?, ?, ?)");
+        await tx.exec("DELETE FROM files");
+        for (const [i, r] of staged.entries()) await insert.run(r.file_id, r.encrypted_meta, r.mtime, r.size, firstSeq + i, storedSizes[i], blobSizes[i]);
+        await tx.exec("DELETE FROM file_versions");
+        await tx.exec("DELETE FROM trash");
+        await tx.exec("DELETE FROM rotation_files");
+        await tx.exec("DELETE FROM auth_tokens");
+        await tx.exec("DELETE FROM vault_meta WHERE key LIKE 'wrapped_key:%' OR key = 'recovery_hash' OR key = 'rotation'");
+        await tx.exec("UPDATE devices SET device_key = NULL");
+        await this.setMeta("wrapped_key:password", rotation.wrappedKey, tx);
+      });
+      return staged.length;
+    });
+    if (count === null) return null;
+    this.rotation = null;
+    await rotation.lock.release();
+    return count;
+  }
+
+  /** Drop the staged files of this server instance's key rotation. */
+  async abortRotation(): Promise<void> {
+    const rotation = this.rotation;
+    if (!rotation) return;
+    this.rotation = null;
+    try {
+      await this.exclusive(() => this.discardStaged());
+    } finally {
+      await rotation.lock.release();
+    }
+  }
+
+  /** Write a file to the rotation staging area instead of the live vault. */
+  private async stageFile(
+    fileId: string,
+    encryptedMeta: string,
+    mtime: number,
+    size: number,
+    writeBlob: (blobKey: string) => Promise<void>
+  ): Promise<{ sequence: number; isNew: boolean }> {
+    const stagedKey = this.getStagedKey(fileId);
+    await this.db.prepare("DELETE FROM block_refs WHERE owner = ?").run(stagedKey);
+    await writeBlob(stagedKey);
+    await this.db
+      .prepare("INSERT INTO rotation_files (file_id, encrypted_meta, mtime, size) VALUES (?, ?, ?, ?) ON CONFLICT (file_id) DO UPDATE SET encrypted_meta = excluded.encrypted_meta, mtime = excluded.mtime, size = excluded.size")
+      .run(fileId, encryptedMeta, mtime, size);
+    return { sequence: 0, isNew: true };
+  }
+
+  /** Remove the staged files and the `rotation` row; the caller holds the `rotation` lock. */
+  private async discardStaged(): Promise<void> {
+    for (const fileId of await this.getStagedFileIds()) await this.removeBlob(this.getStagedKey(fileId));
+    await this.db.exec("DELETE FROM rotation_files");
+    await this.db.exec("DELETE FROM vault_meta WHERE key = 'rotation'");
+  }
+
+  // ---- Pairing codes ----
+
+  /** Open a pairing code shown by a device, replacing the codes it opened before; expired codes go too. */
+  openPairing(pairingHash: string, clientId: string, readOnly: boolean, expiresAt: number): Promise<void> {
+    return this.db.transaction(async (tx) => {
+      await tx.prepare("DELETE FROM pairings WHERE client_id = ? OR expires_at <= ?").run(clientId, Date.now());
+      await tx
+        .prepare("INSERT INTO pairings (pairing_hash, client_id, read_only, expires_at) VALUES (?, ?, ?, ?) ON CONFLICT (pairing_hash) DO UPDATE SET client_id = excluded.client_id, read_only = excluded.read_only, expires_at = excluded.expires_at, claimed = 0, claim = NULL")
+        .run(pairingHash, clientId, readOnly ? 1 : 0, expiresAt);
+    });
+  }
+
+  /**
+   * Use up a pairing code: the device that showed it, whether that device is read-only, or null
+   * if the code is unknown, expired or used already.
+   */
+  async claimPairing(pairingHash: string): Promise<{ clientId: string; readOnly: boolean } | null> {
+    const row = await this.db
+      .prepare("UPDATE pairings SET claimed = 1 WHERE pairing_hash = ? AND claimed = 0 AND expires_at > ? RETURNING client_id, read_only")
+      .get(pairingHash, Date.now()) as { client_id: string; read_only: number } | undefined;
+    return row ? { clientId: row.client_id, readOnly: row.read_only === 1 } : null;
+  }
+
+  /** Leave the claim of a pairing code (e.g. a PAIRING_CLAIMED message) for the device that showed it. */
+  async setPairingClaim(pairingHash: string, claim: string): Promise<void> {
+    await this.db.prepare("UPDATE pairings SET claim = ? WHERE pairing_hash = ?").run(claim, pairingHash);
+  }
+
+  /** Pairing codes whose claim waits for the device that showed them. */
+  async getPairingClaims(): Promise<Array<{ pairingHash: string; clientId: string }>> {
+    const rows = await this.db.prepare("SELECT pairing_hash, client_id FROM pairings WHERE claim IS NOT NULL").all() as Array<{ pairing_hash: string; client_id: string }>;
+    return rows.map((r) => ({ pairingHash: r.pairing_hash, clientId: r.client_id }));
+  }
+
+  /** Remove a claimed pairing code and return its claim, or null if it was taken already. */
+  async takePairingClaim(pairingHash: string): Promise<string | null> {
+    const row = await this.db.prepare("DELETE FROM pairings WHERE pairing_hash = ? AND claim IS NOT NULL RETURNING claim").get(pairingHash) as { claim: string } | undefined;
+    return row?.claim ?? null;
+  }
+
+  /** Close the pairing codes a device opened (or just `pairingHash`), and any that expired. */
+  async dropPairings(clientId: string, pairingHash?: string): Promise<void> {
+    await this.db
+      .prepare("DELETE FROM pairings WHERE (client_id = ? AND pairing_hash = COALESCE(?, pairing_hash)) OR expires_at <= ?")
+      .run(clientId, pairingHash ?? null, Date.now());
+  }
+
+  // ---- Chunked uploads ----
+
+  /** Bytes received so far for a chunked upload (0 if it has not started). */
+  getUploadOffset(uploadId: string): number {
+    try { return fs.statSync(this.getUploadPath(uploadId)).size; } catch { return 0; }
+  }
+
+  /**
+   * Append a chunk to a partial upload if it starts where the partial file ends.
+   * Returns the partial file size afterwards, so a mismatched offset tells the
+   * client where to continue instead of corrupting the blob.
+   */
+  appendUploadChunk(uploadId: string, offset: number, data: Buffer): number {
+    const current = this.getUploadOffset(uploadId);
+    if (offset !== current) return current;
+    fs.appendFileSync(this.getUploadPath(uploadId), data);
+    return current + data.length;
+  }
+
+  /** Move a completed chunked upload into the blob store as the file's blob. Returns null if the quota is full. */
+  commitUpload(
+    uploadId: string,
+    fileId: string,
+    encryptedMeta: string,
+    mtime: number,
+    size: number
+  ): Promise<{ sequence: number; isNew: boolean } | null> {
+    return this.storeFile(fileId, encryptedMeta, mtime, size, this.getUploadOffset(uploadId), (blobKey) => this.blobs.putFile(blobKey, this.getUploadPath(uploadId)));
+  }
+
+  discardUpload(uploadId: string): void {
+    try { fs.unlinkSync(this.getUploadPath(uploadId)); } catch {}
+  }
+
+  /** Remove partial uploads nobody has resumed for a day. */
+  purgeStaleUploads(): void {
+    const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+    for (const name of fs.readdirSync(this.uploadDir)) {
+      const partPath = path.join(this.uploadDir, name);
+      try {
+        if (fs.statSync(partPath).mtimeMs < cutoff) fs.unlinkSync(partPath);
+      } catch {}
+    }
+  }
+
+  async getFileMeta(fileId: string): Promise<EncryptedFileEntry | null> {
+    const row = await this.db.prepare("SELECT file_id, encrypted_meta, mtime, size, deleted FROM files WHERE file_id = ?").get(fileId) as { file_id: string; encrypted_meta: string; mtime: number; size: number; deleted: number } | undefined;
     if (!row) return null;
     return { fileId: row.file_id, encryptedMeta: row.encrypted_meta, mtime: row.mtime, size: row.size, deleted: row.deleted === 1 };
   }
 
-  deleteFile(fileId: string): number {
-    const nextSeq = this.getCurrentSequence() + 1;
-    this.db.prepare("UPDATE files SET deleted = 1, sequence = ? WHERE file_id = ?").run(nextSeq, fileId);
-    try { fs.unlinkSync(this.getBlobPath(fileId)); } catch {}
-    return nextSeq;
+  deleteFile(fileId: string, deletedBy = ""): Promise<number> {
+    return this.exclusive(async () => {
+      const existing = await this.db
+        .prepare("SELECT encrypted_meta, mtime, size, deleted, blob_size FROM files WHERE file_id = ?")
+        .get(fileId) as { encrypted_meta: string; mtime: number; size: number; deleted: number; blob_size: number | null } | undefined;
+
+      const blobKey = this.getBlobKey(fileId);
+      const trashed = !!existing && existing.deleted === 0 && this.trashRetentionDays > 0 && (await this.blobs.size(blobKey)) !== null;
+      if (trashed) {
+        await this.moveBlob(blobKey, this.getTrashKey(fileId));
+      } else {
+        await this.removeBlob(blobKey);
+      }
+      return this.db.transaction(async (tx) => {
+        if (trashed) {
+          await tx
+            .prepare("INSERT INTO trash (file_id, encrypted_meta, mtime, size, deleted_by, deleted_at, blob_size) VALUES (?, ?, ?, ?, ?, ?, ?) ON CONFLICT (file_id) DO UPDATE SET encrypted_meta = excluded.encrypted_meta, mtime = excluded.mtime, size = excluded.size, deleted_by = excluded.deleted_by, deleted_at = excluded.deleted_at, blob_size = excluded.blob_size")
+            .run(fileId, existing!.encrypted_meta, existing!.mtime, existing!.size, deletedBy, Date.now(), existing!.blob_size);
+        }
+        const next = await this.nextSequence(tx);
+        await tx.prepare("UPDATE files SET deleted = 1, sequence = ? WHERE file_id = ?").run(next, fileId);
+        return next;
+      });
+    });
+  }
+
+  // ---- Trash ----
+
+  /** Files in the trash, most recently deleted first. */
+  async getTrash(): Promise<TrashEntry[]> {
+    const rows = await this.db.prepare("SELECT file_id, encrypted_meta, mtime, size, deleted_by, deleted_at FROM trash ORDER BY deleted_at DESC").all() as Array<{ file_id: string; encrypted_meta: string; mtime: number; size: number; deleted_by: string; deleted_at: number }>;
+    return rows.map((r) => ({ fileId: r.file_id, encryptedMeta: r.encrypted_meta, mtime: r.mtime, size: r.size, deletedBy: r.deleted_by, deletedAt: r.deleted_at }));
+  }
+
+  /**
+   * Bring a trashed file back as the live version.
+   * Returns null if the file is not in the trash (purged, or already re-created).
+   */
+  restoreFromTrash(fileId: string): Promise<{ sequence: number; entry: EncryptedFileEntry } | null> {
+    return this.exclusive(async () => {
+      const trashed = await this.takeFromTrash(fileId);
+      if (!trashed) return null;
+      const storedSize = await this.getStoredSize(fileId);
+      const sequence = await this.db.transaction(async (tx) => {
+        const next = await this.nextSequence(tx);
+        await this.setLiveFile(tx, fileId, trashed.encryptedMeta, trashed.mtime, trashed.size, next, null, storedSize, trashed.blobSize);
+        return next;
+      });
+      return { sequence, entry: { fileId, encryptedMeta: trashed.encryptedMeta, mtime: trashed.mtime, size: trashed.size } };
+    });
+  }
+
+  /** Permanently remove trashed files older than the retention period. Returns how many were purged. */
+  purgeTrash(): Promise<number> {
+    return this.exclusive(async () => {
+      const cutoff = Date.now() - this.trashRetentionDays * 24 * 60 * 60 * 1000;
+      const expired = await this.db.prepare("SELECT file_id FROM trash WHERE deleted_at < ?").all(cutoff) as Array<{ file_id: string }>;
+      for (const { file_id } of expired) {
+        await this.db.prepare("DELETE FROM trash WHERE file_id = ?").run(file_id);
+        await this.removeBlob(this.getTrashKey(file_id));
+      }
+      if (expired.length > 0) console.log(`[Storage] Purged ${expired.length} file(s) from trash.`);
+      return expired.length;
+    });
+  }
+
+  /** Remove a file from the trash and move its blob back into blobs/. */
+  private async takeFromTrash(fileId: string): Promise<(TrashEntry & { blobSize: number | null }) | null> {
+    const row = await this.db.prepare("SELECT encrypted_meta, mtime, size, deleted_by, deleted_at, blob_size FROM trash WHERE file_id = ?").get(fileId) as { encrypted_meta: string; mtime: number; size: number; deleted_by: string; deleted_at: number; blob_size: number | null } | undefined;
+    if (!row) return null;
+    await this.db.prepare("DELETE FROM trash WHERE file_id = ?").run(fileId);
+    try {
+      await this.moveBlob(this.getTrashKey(fileId), this.getBlobKey(fileId));
+    } catch {
+      return null;
+    }
+    return { fileId, encryptedMeta: row.encrypted_meta, mtime: row.mtime, size: row.size, deletedBy: row.deleted_by, deletedAt: row.deleted_at, blobSize: row.blob_size };
   }
 
-  getStats(): { totalFiles: number; totalSize: number; totalBlobs: number } {
-    const row = this.db.prepare("SELECT COUNT(*) as count, COALESCE(SUM(size), 0) as totalSize FROM files WHERE deleted = 0").get() as { count: number; totalSize: number };
-    return { totalFiles: row.count, totalSize: row.totalSize, totalBlobs: row.count };
+  // ---- Version history ----
+
+  /** Move the current blob of a file into version history, then prune old versions. */
+  private async archiveVersion(fileId: string, encryptedMeta: string, mtime: number, size: number, blobSize: number | null): Promise<void> {
+    if (this.maxVersions <= 0) return;
+    const blobKey = this.getBlobKey(fileId);
+    if ((await this.blobs.size(blobKey)) === null) return;
+
+    const { version_id: versionId } = await this.db
+      .prepare("INSERT INTO file_versions (file_id, encrypted_meta, mtime, size, archived_at, blob_size) VALUES (?, ?, ?, ?, ?, ?) RETURNING version_id")
+      .get(fileId, encryptedMeta, mtime, size, Date.now(), blobSize) as { version_id: number };
+    await this.moveBlob(blobKey, this.getVersionKey(fileId, versionId));
+
+    const stale = await this.db
+      .prepare("SELECT version_id FROM file_versions WHERE file_id = ? AND version_id NOT IN (SELECT version_id FROM file_versions WHERE file_id = ? ORDER BY version_id DESC LIMIT ?)")
+      .all(fileId, fileId, this.maxVersions) as Array<{ version_id: number }>;
+    for (const { version_id } of stale) {
+      await this.db.prepare("DELETE FROM file_versions WHERE version_id = ?").run(version_id);
+      await this.removeBlob(this.getVersionKey(fileId, version_id));
+    }
+  }
+
+  /** Archived versions of a file, newest first. */
+  async getVersions(fileId: string): Promise<FileVersionEntry[]> {
+    const rows = await this.db.prepare("SELECT version_id, encrypted_meta, mtime, size, archived_at FROM file_versions WHERE file_id = ? ORDER BY version_id DESC").all(fileId) as Array<{ version_id: number; encrypted_meta: string; mtime: number; size: number; archived_at: number }>;
+    return rows.map((r) => ({ versionId: r.version_id, encryptedMeta: r.encrypted_meta, mtime: r.mtime, size: r.size, archivedAt: r.archived_at }));
+  }
+
+  async getVersion(fileId: string, versionId: number): Promise<{ entry: FileVersionEntry; blob: Buffer } | null> {
+    const row = await this.db.prepare("SELECT version_id, encrypted_meta, mtime, size, archived_at FROM file_versions WHERE file_id = ? AND version_id = ?").get(fileId, versionId) as { version_id: number; encrypted_meta: string; mtime: number; size: number; archived_at: number } | undefined;
+    if (!row) return null;
+    const blob = await this.blobs.get(this.getVersionKey(fileId, versionId));
+    if (!blob) return null;
+    return { entry: { versionId: row.version_id, encryptedMeta: row.encrypted_meta, mtime: row.mtime, size: row.size, archivedAt: row.archived_at }, blob };
+  }
+
+  setQuota(bytes: number): void {
+    this.quotaBytes = bytes;
+  }
+
+  getQuota(): number {
+    return this.quotaBytes;
+  }
+
+  setExternalUsage(source: () => Promise<number>): void {
+    this.externalUsage = source;
+  }
+
+  /** Bytes the live files, versions, trash and blocks take in the blob store; they count towards the quota. */
+  async getUsage(): Promise<number> {
+    return (await this.getOwnUsage()) + (await this.externalUsage());
+  }
+
+  /** getUsage() without external usage: what this storage itself holds. */
+  async getOwnUsage(): Promise<number> {
+    const blobSize = "COALESCE(blob_size, size)";
+    const row = await this.db.prepare(`SELECT
+      (SELECT COALESCE(SUM(${blobSize}), 0) FROM files WHERE deleted = 0) +
+      (SELECT COALESCE(SUM(${blobSize}), 0) FROM file_versions) +
+      (SELECT COALESCE(SUM(${blobSize}), 0) FROM trash) +
+      (SELECT COALESCE(SUM(size), 0) FROM blocks) AS total`).get() as { total: number };
+    return row.total;
+  }
+
+  /** Bytes the live copy of a file holds (0 if there is none), which an upload of it replaces. */
+  async getLiveBytes(fileId: string): Promise<number> {
+    const row = await this.db.prepare("SELECT COALESCE(blob_size, size) as bytes FROM files WHERE file_id = ? AND deleted = 0").get(fileId) as { bytes: number } | undefined;
+    return row?.bytes ?? 0;
+  }
+
+  /** Whether `bytes` more still fit into the quota; negative when an upload replaces a larger copy. */
+  async fitsQuota(bytes: number): Promise<boolean> {
+    return !this.quotaBytes || (await this.getUsage()) + bytes <= this.quotaBytes;
+  }
+
+  /**
+   * `compressionSaved` is how much smaller the stored blobs of live files are than the files:
+   * clients compress before they encrypt, so the server only sees the sizes.
+   */
+  async getStats(): Promise<{ totalFiles: number; totalSize: number; totalBlobs: number; compressionSaved: number }> {
+    const row = await this.db.prepare("SELECT COUNT(*) as count, COALESCE(SUM(size), 0) as \"totalSize\", COALESCE(SUM(CASE WHEN size + ? > stored_size THEN size + ? - stored_size ELSE 0 END), 0) as saved FROM files WHERE deleted = 0").get(BLOB_OVERHEAD, BLOB_OVERHEAD) as { count: number; totalSize: number; saved: number };
+    return { totalFiles: row.count, totalSize: row.totalSize, totalBlobs: row.count, compressionSaved: row.saved };
   }
 
   // ---- Client sessions ----
 
-  upsertClientSession(clientId: string, deviceName: string, ip: string): void {
+  async upsertClientSession(clientId: string, deviceName: string, ip: string): Promise<void> {
     const now = Date.now();
-    const existing = this.db.prepare("SELECT first_seen FROM client_sessions WHERE client_id = ?").get(clientId) as { first_seen: number } | undefined;
-    const firstSeen = existing?.first_seen ?? now;
-    this.db.prepare("INSERT OR REPLACE INTO client_sessions (client_id, device_name, ip, first_seen, last_seen, is_online) VALUES (?, ?, ?, ?, ?, 1)").run(clientId, deviceName, ip, firstSeen, now);
+    await this.db
+      .prepare("INSERT INTO client_sessions (client_id, device_name, ip, first_seen, last_seen, is_online) VALUES (?, ?, ?, ?, ?, 1) ON CONFLICT (client_id) DO UPDATE SET device_name = excluded.device_name, ip = excluded.ip, last_seen = excluded.last_seen, is_online = 1")
+      .run(clientId, deviceName, ip, now, now);
   }
 
-  setClientOffline(clientId: string): void {
-    this.db.prepare("UPDATE client_sessions SET is_online = 0, last_seen = ? WHERE client_id = ?").run(Date.now(), clientId);
+  async setClientOffline(clientId: string): Promise<void> {
+    await this.db.prepare("UPDATE client_sessions SET is_online = 0, last_seen = ? WHERE client_id = ?").run(Date.now(), clientId);
   }
 
-  deleteClientSession(clientId: string): void {
-    this.db.prepare("DELETE FROM client_sessions WHERE client_id = ?").run(clientId);
+  /** Forget a device: its session and its device key, so it has to be approved again. */
+  deleteClientSession(clientId: string): Promise<void> {
+    return this.db.transaction(async (tx) => {
+      await tx.prepare("DELETE FROM client_sessions WHERE client_id = ?").run(clientId);
+      await tx.prepare("DELETE FROM devices WHERE client_id = ?").run(clientId);
+    });
   }
 
-  getClientSessions(): ClientSession[] {
-    const rows = this.db.prepare("SELECT client_id, device_name, ip, first_seen, last_seen, is_online FROM client_sessions ORDER BY last_seen DESC").all() as Array<{ client_id: string; device_name: string; ip: string; first_seen: number; last_seen: number; is_online: number }>;
-    return rows.map((r) => ({ clientId: r.client_id, deviceName: r.device_name, ip: r.ip, firstSeen: r.first_seen, lastSeen: r.last_seen, isOnline: r.is_online === 1 }));
+  /** Sessions without a device row predate device keys; they count as trusted until they register. */
+  async getClientSessions(): Promise<ClientSession[]> {
+    const rows = await this.db.prepare("SELECT s.client_id, s.device_name, s.ip, s.first_seen, s.last_seen, s.is_online, d.public_key, d.trusted, CASE WHEN d.read_only = 1 OR EXISTS (SELECT 1 FROM auth_tokens t WHERE t.client_id = s.client_id AND t.read_only = 1) THEN 1 ELSE 0 END AS read_only FROM client_sessions s LEFT JOIN devices d ON d.client_id = s.client_id ORDER BY s.last_seen DESC").all() as Array<{ client_id: string; device_name: string; ip: string; first_seen: number; last_seen: number; is_online: number; public_key: string | null; trusted: number | null; read_only: number }>;
+    return rows.map((r) => ({ clientId: r.client_id, deviceName: r.device_name, ip: r.ip, firstSeen: r.first_seen, lastSeen: r.last_seen, isOnline: r.is_online === 1, trusted: r.trusted !== 0, publicKey: r.public_key, readOnly: r.read_only === 1 }));
+  }
+
+  // ---- Devices ----
+
+  async getDevice(clientId: string): Promise<{ publicKey: string; trusted: boolean; deviceKey: string | null; readOnly: boolean } | null> {
+    const row = await this.db.prepare("SELECT public_key, trusted, device_key, read_only FROM devices WHERE client_id = ?").get(clientId) as { public_key: string; trusted: number; device_key: string | null; read_only: number } | undefined;
+    if (!row) return null;
+    return { publicKey: row.public_key, trusted: row.trusted === 1, deviceKey: row.device_key, readOnly: row.read_only === 1 };
+  }
+
+  /** Public keys of the trusted devices, e.g. to encrypt a shared folder's key to. */
+  async getTrustedDeviceKeys(): Promise<string[]> {
+    const rows = await this.db.prepare("SELECT public_key FROM devices WHERE trusted = 1").all() as Array<{ public_key: string }>;
+    return rows.map((r) => r.public_key);
+  }
+
+  /** Whether a device has been trusted yet; until then, password sign-ins are trusted right away. */
+  async hasEnrolledDevices(): Promise<boolean> {
+    return (await this.getMeta("devices_enrolled")) !== null;
+  }
+
+  /** A read-only device stays read-only whatever it signs in with, until setDeviceReadOnly lifts it. */
+  registerDevice(clientId: string, publicKey: string, trusted: boolean, readOnly = false): Promise<void> {
+    return this.db.transaction(async (tx) => {
+      await tx
+        .prepare("INSERT INTO devices (client_id, public_key, trusted, device_key, created_at, read_only) VALUES (?, ?, ?, NULL, ?, ?) ON CONFLICT (client_id) DO UPDATE SET public_key = excluded.public_key, trusted = excluded.trusted, device_key = NULL, created_at = excluded.created_at, read_only = excluded.read_only")
+        .run(clientId, publicKey, trusted ? 1 : 0, Date.now(), readOnly ? 1 : 0);
+      if (trusted) await this.setMeta("devices_enrolled", "1", tx);
+    });
+  }
+
+  /**
+   * Trust a pending device and store the data key encrypted to it; `readOnly` makes it and its
+   * tokens read-only as well. False if no such device is pending.
+   */
+  approveDevice(clientId: string, deviceKey: string | null, readOnly = false): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      if ((await tx.prepare("UPDATE devices SET trusted = 1, device_key = ? WHERE client_id = ? AND trusted = 0").run(deviceKey, clientId)).changes === 0) return false;
+      if (readOnly) await this.updateReadOnly(tx, clientId, true);
+      return true;
+    });
   }
 
   // ---- Auth tokens ----
 
-  createToken(token: string, clientId: string, deviceName: string, ip: string): void {
+  /** A read-only token lets its device download but never change files (see SyncWebSocketServer). */
+  async createToken(token: string, clientId: string, deviceName: string, ip: string, readOnly = false): Promise<void> {
     const now = Date.now();
-    this.db.prepare("INSERT OR REPLACE INTO auth_tokens (token, client_id, device_name, ip, created_at, last_used) VALUES (?, ?, ?, ?, ?, ?)").run(token, clientId, deviceName, ip, now, now);
+    await this.db.prepare("INSERT INTO auth_tokens (token, client_id, device_name, ip, created_at, last_used, read_only) VALUES (?, ?, ?, ?, ?, ?, ?)").run(token, clientId, deviceName, ip, now, now, readOnly ? 1 : 0);
   }
 
-  getToken(token: string): { clientId: string; deviceName: string; ip: string; createdAt: number; lastUsed: number } | null {
-    const row = this.db.prepare("SELECT client_id, device_name, ip, created_at, last_used FROM auth_tokens WHERE token = ?").get(token) as { client_id: string; device_name: string; ip: string; created_at: number; last_used: number } | undefined;
+  async getToken(token: string): Promise<{ clientId: string; deviceName: string; ip: string; createdAt: number; lastUsed: number; readOnly: boolean } | null> {
+    const row = await this.db.prepare("SELECT client_id, device_name, ip, created_at, last_used, read_only FROM auth_tokens WHERE token = ?").get(token) as { client_id: string; device_name: string; ip: string; created_at: number; last_used: number; read_only: number } | undefined;
     if (!row) return null;
-    return { clientId: row.client_id, deviceName: row.device_name, ip: row.ip, createdAt: row.created_at, lastUsed: row.last_used };
+    return { clientId: row.client_id, deviceName: row.device_name, ip: row.ip, createdAt: row.created_at, lastUsed: row.last_used, readOnly: row.read_only === 1 };
+  }
+
+  async revokeTokenByClientId(clientId: string): Promise<void> {
+    await this.db.prepare("DELETE FROM auth_tokens WHERE client_id = ?").run(clientId);
   }
 
-  revokeTokenByClientId(clientId: string): void {
-    this.db.prepare("DELETE FROM auth_tokens WHERE client_id = ?").run(clientId);
+  /** Make a device and its tokens read-only or read-write. False if it has neither. */
+  setDeviceReadOnly(clientId: string, readOnly: boolean): Promise<boolean> {
+    return this.db.transaction((tx) => this.updateReadOnly(tx, clientId, readOnly));
   }
 
-  updateTokenLastUsed(token: string): void {
-    this.db.prepare("UPDATE auth_tokens SET last_used = ? WHERE token = ?").run(Date.now(), token);
+  private async updateReadOnly(tx: Queryable, clientId: string, readOnly: boolean): Promise<boolean> {
+    const devices = (await tx.prepare("UPDATE devices SET read_only = ? WHERE client_id = ?").run(readOnly ? 1 : 0, clientId)).changes;
+    const tokens = (await tx.prepare("UPDATE auth_tokens SET read_only = ? WHERE client_id = ?").run(readOnly ? 1 : 0, clientId)).changes;
+    return devices + tokens > 0;
   }
 
-  getAllTokens(): Array<{ token: string; clientId: string; deviceName: string; ip: string; createdAt: number; lastUsed: number }> {
-    const rows = this.db.prepare("SELECT token, client_id, device_name, ip, created_at, last_used FROM auth_tokens ORDER BY last_used DESC").all() as Array<{ token: string; client_id: string; device_name: string; ip: string; created_at: number; last_used: number }>;
-    return rows.map((r) => ({ token: r.token, clientId: r.client_id, deviceName: r.device_name, ip: r.ip, createdAt: r.created_at, lastUsed: r.last_used }));
+  async updateTokenLastUsed(token: string): Promise<void> {
+    await this.db.prepare("UPDATE auth_tokens SET last_used = ? WHERE token = ?").run(Date.now(), token);
+  }
+
+  async getAllTokens(): Promise<Array<{ token: string; clientId: string; deviceName: string; ip: string; createdAt: number; lastUsed: number; readOnly: boolean }>> {
+    const rows = await this.db.prepare("SELECT token, client_id, device_name, ip, created_at, last_used, read_only FROM auth_tokens ORDER BY last_used DESC").all() as Array<{ token: string; client_id: string; device_name: string; ip: string; created_at: number; last_used: number; read_only: number }>;
+    return rows.map((r) => ({ token: r.token, clientId: r.client_id, deviceName: r.device_name, ip: r.ip, createdAt: r.created_at, lastUsed: r.last_used, readOnly: r.read_only === 1 }));
   }
 
   // ---- Activity log ----
 
-  appendLog(type: string, text: string, timestamp: number): void {
-    this.db.prepare("INSERT INTO activity_log (type, text, timestamp) VALUES (?, ?, ?)").run(type, text, timestamp);
+  async appendLog(type: string, text: string, timestamp: number): Promise<void> {
+    await this.db.prepare("INSERT INTO activity_log (type, text, timestamp) VALUES (?, ?, ?)").run(type, text, timestamp);
     // Trim to 2000 entries
-    const { count } = this.db.prepare("SELECT COUNT(*) as count FROM activity_log").get() as { count: number };
+    const { count } = await this.db.prepare("SELECT COUNT(*) as count FROM activity_log").get() as { count: number };
     if (count > 2200) {
-      this.db.prepare("DELETE FROM activity_log WHERE id NOT IN (SELECT id FROM activity_log ORDER BY id DESC LIMIT 2000)").run();
+      await this.db.prepare("DELETE FROM activity_log WHERE id NOT IN (SELECT id FROM activity_log ORDER BY id DESC LIMIT 2000)").run();
     }
   }
 
-  getLog(limit = 1000): Array<{ type: string; text: string; timestamp: number }> {
-    return this.db.prepare("SELECT type, text, timestamp FROM activity_log ORDER BY id DESC LIMIT ?").all(limit) as Array<{ type: string; text: string; timestamp: number }>;
+  async getLog(limit = 1000): Promise<Array<{ type: string; text: string; timestamp: number }>> {
+    return await this.db.prepare("SELECT type, text, timestamp FROM activity_log ORDER BY id DESC LIMIT ?").all(limit) as Array<{ type: string; text: string; timestamp: number }>;
   }
 
-  clearLog(): void {
-    this.db.exec("DELETE FROM activity_log");
+  async clearLog(): Promise<void> {
+    await this.db.exec("DELETE FROM activity_log");
   }
 
-  reset(): void {
-    this.db.exec("DELETE FROM files");
-    this.db.exec("DELETE FROM vault_meta");
-    this.db.exec("DELETE FROM client_sessions");
-    this.db.exec("DELETE FROM activity_log");
-    this.db.exec("DELETE FROM auth_tokens");
-    try { fs.rmSync(this.blobDir, { recursive: true, force: true }); fs.mkdirSync(this.blobDir, { recursive: true }); } catch {}
-    console.log("[Storage] Reset complete.");
+  reset(): Promise<void> {
+    return this.exclusive(async () => {
+      await this.db.transaction(async (tx) => {
+        for (const table of ["files", "vault_meta", "client_sessions", "devices", "activity_log", "auth_tokens", "file_versions", "trash", "blocks", "block_refs", "rotation_files", "pairings"]) {
+          await tx.exec(`DELETE FROM ${table}`);
+        }
+        await tx.exec("UPDATE sequences SET value = 0");
+      });
+      await this.removeAllBlobs();
+      try { fs.rmSync(this.uploadDir, { recursive: true, force: true }); fs.mkdirSync(this.uploadDir, { recursive: true }); } catch {}
+      console.log("[Storage] Reset complete.");
+    });
   }
 
-  /** Completely wipe all server data on disk, including password, TLS certs, and server-id. */
-  wipeAll(): string {
-    this.db.close();
+  /** Completely wipe all server data, including password, TLS certs, and server-id. */
+  async wipeAll(): Promise<string> {
+    // Blobs first, then the metadata
+    await this.deleteBlobs();
+    await this.db.wipe();
 
-    // Remove SQLite database (and WAL/shm sidecars)
-    try { fs.rmSync(this.dbPath, { force: true }); } catch {}
-    try { fs.rmSync(this.dbPath + "-wal", { force: true }); } catch {}
-    try { fs.rmSync(this.dbPath + "-shm", { force: true }); } catch {}
-
-    // Remove blobs and TLS certs
-    try { fs.rmSync(this.blobDir, { recursive: true, force: true }); } catch {}
+    // Remove partial uploads and TLS certs
+    try { fs.rmSync(this.uploadDir, { recursive: true, force: true }); } catch {}
     try { fs.rmSync(path.join(this.dataDir, "tls"), { recursive: true, force: true }); } catch {}
 
     // Remove server id so a new one is generated on next start
@@ -248,24 +1063,58 @@ export class Storage {
 
     // Recreate base directories
     fs.mkdirSync(this.dataDir, { recursive: true });
-    fs.mkdirSync(this.blobDir, { recursive: true });
+    fs.mkdirSync(this.uploadDir, { recursive: true });
 
     // Persist a new server id immediately
     const newServerId = crypto.randomUUID();
     fs.writeFileSync(path.join(this.dataDir, "server-id"), newServerId);
 
-    this.db = new Database(this.dbPath);
-    this.db.pragma("journal_mode = WAL");
-    this.db.pragma("foreign_keys = ON");
-    this.initSchema();
+    await this.db.lock("schema", () => this.initSchema());
 
     console.log("[Storage] Full wipe complete.");
     return newServerId;
   }
 
-  private getBlobPath(fileId: string): string {
-    return path.join(this.blobDir, fileId.substring(0, 2), fileId);
+  /** Delete every blob (live files, versions, trash, blocks and staged files) from the blob store. */
+  deleteBlobs(): Promise<void> {
+    return this.exclusive(() => this.removeAllBlobs());
+  }
+
+  /** Delete the blobs and the metadata for good (a removed vault or shared folder) and close. */
+  async destroy(): Promise<void> {
+    await this.deleteBlobs();
+    await this.db.drop();
+  }
+
+  private async removeAllBlobs(): Promise<void> {
+    for (const prefix of BLOB_PREFIXES) await this.blobs.deletePrefix(prefix);
   }
 
-  close(): void { this.db.close(); }
+  private getBlobKey(fileId: string): string {
+    return `blobs/${fileId.substring(0, 2)}/${fileId}`;
+  }
+
+  private getVersionKey(fileId: string, versionId: number): string {
+    return `versions/${fileId.substring(0, 2)}/${fileId}.${versionId}`;
+  }
+
+  private getTrashKey(fileId: string): string {
+    return `trash/${fileId.substring(0, 2)}/${fileId}`;
+  }
+
+  private getStagedKey(fileId: string): string {
+    return `rotation/${fileId.substring(0, 2)}/${fileId}`;
+  }
+
+  private getBlockKey(blockId: string): string {
+    return `blocks/${blockId.substring(0, 2)}/${blockId}`;
+  }
+
+  private getUploadPath(uploadId: string): string {
+    return path.join(this.uploadDir, `${uploadId}.part`);
+  }
+
+  close(): Promise<void> {
+    return this.db.close();
+  }
 }
@@ -0,0 +1,253 @@
+/**
+ * Vault registry: one server hosts the default vault, the named vaults listed in VAULTS and
+ * the personal vault of every user account (named after the user, limited to their quota).
+ * Every vault has its own Storage (database, salt, devices, sequence and blob directories)
+ * and Auth (password, sessions, rate limits). The default vault lives in the data directory
+ * itself, so servers from before named vaults keep their data; named vaults live in vaults/<id>.
+ * The registry also holds the folders vaults share with each other (see Shares).
+ * Server instances sharing a PostgreSQL database open the vaults of users created through
+ * another instance on first use (see get).
+ */
+
+import path from "path";
+import fs from "fs";
+import { DEFAULT_VAULT_ID } from "../../shared/protocol";
+import type { VaultInfo } from "../../shared/protocol";
+import type { ClientSession } from "../../shared/types";
+import { Storage } from "./storage";
+import { createBlobStore } from "./blob-store";
+import { createMetadataStore } from "./metadata-store";
+import { Auth } from "./auth";
+import { Shares } from "./shares";
+import type { Accounts, DashboardUser } from "./accounts";
+import type { ServerConfig } from "./config";
+
+export interface Vault {
+  id: string;
+  storage: Storage;
+  auth: Auth;
+}
+
+/** Stats of one vault for the dashboard. */
+export interface VaultStats extends VaultInfo {
+  totalFiles: number;
+  totalSize: number;
+  totalBlobs: number;
+  /** Bytes saved by clients compressing files before upload. */
+  compressionSaved: number;
+  /** Size counted towards the quota (live files, versions and trash). */
+  usage: number;
+  /** 0 = unlimited. */
+  quotaBytes: number;
+}
+
+export class VaultRegistry {
+  private vaults: Map<string, Vault> = new Map();
+  /** Vaults being opened, so that two requests for one vault open it once. */
+  private opening: Map<string, Promise<Vault>> = new Map();
+  private config: ServerConfig;
+  private accounts: Accounts;
+  readonly shares: Shares;
+
+  private constructor(config: ServerConfig, accounts: Accounts, shares: Shares) {
+    this.config = config;
+    this.accounts = accounts;
+    this.shares = shares;
+  }
+
+  /** Open the default vault, the vaults from VAULTS and every user's vault. */
+  static async open(config: ServerConfig, accounts: Accounts): Promise<VaultRegistry> {
+    const registry = new VaultRegistry(config, accounts, await Shares.open(config));
+    for (const id of [DEFAULT_VAULT_ID, ...config.vaults]) await registry.open(id);
+    for (const user of await accounts.listUsers()) {
+      if (registry.vaults.has(user.username)) {
+        console.warn(`[Server] User "${user.username}" has the name of a vault from VAULTS; that vault is theirs now.`);
+      }
+      (await registry.open(user.username)).storage.setQuota(user.quotaBytes);
+    }
+    return registry;
+  }
+
+  private getDataDir(id: string): string {
+    return id === DEFAULT_VAULT_ID ? this.config.dataDir : path.join(this.config.dataDir, "vaults", id);
+  }
+
+  private open(id: string): Promise<Vault> {
+    const existing = this.vaults.get(id);
+    if (existing) return Promise.resolve(existing);
+    let opening = this.opening.get(id);
+    if (!opening) {
+      const dataDir = this.getDataDir(id);
+      opening = Storage.open({ ...this.config, dataDir }, createBlobStore(this.config, dataDir), createMetadataStore(this.config, dataDir))
+        .then((storage) => {
+          storage.setExternalUsage(() => this.shares.usageOwnedBy(id));
+          const vault = { id, storage, auth: new Auth(storage) };
+          this.vaults.set(id, vault);
+          return vault;
+        })
+        .finally(() => this.opening.delete(id));
+      this.opening.set(id, opening);
+    }
+    return opening;
+  }
+
+  /**
+   * The vault a client names in AUTH or a request; the default vault when it names none.
+   * A user's vault is looked up in the accounts, so vaults of users another server instance
+   * created or removed, and their quotas, are up to date.
+   */
+  async get(id?: string | null): Promise<Vault | null> {
+    id ||= DEFAULT_VAULT_ID;
+    if (id === DEFAULT_VAULT_ID) return this.defaultVault;
+    const user = await this.accounts.getUser(id);
+    if (user) {
+      const vault = await this.open(id);
+      vault.storage.setQuota(user.quotaBytes);
+      return vault;
+    }
+    if (this.config.vaults.includes(id)) return this.vaults.get(id) ?? null;
+    // Removed through another server instance
+    const stale = this.vaults.get(id);
+    if (stale) {
+      this.vaults.delete(id);
+      await stale.storage.close();
+    }
+    return null;
+  }
+
+  /** The default vault; its password also signs in to the dashboard as admin. */
+  get defaultVault(): Vault {
+    return this.vaults.get(DEFAULT_VAULT_ID)!;
+  }
+
+  list(): Vault[] {
+    return Array.from(this.vaults.values());
+  }
+
+  /** Create the personal vault of a new user account. */
+  async add(id: string, quotaBytes: number): Promise<Vault> {
+    const vault = await this.open(id);
+    vault.storage.setQuota(quotaBytes);
+    return vault;
+  }
+
+  /**
+   * Close a user's vault and delete its data, with the folders it shares. Sync clients of the
+   * vault must be disconnected first. Returns the other vaults whose shared folders changed.
+   */
+  async remove(id: string): Promise<string[]> {
+    const vault = this.vaults.get(id);
+    if (!vault || id === DEFAULT_VAULT_ID) return [];
+    this.vaults.delete(id);
+    const affected = await this.shares.removeVault(id);
+    await vault.storage.destroy();
+    try { fs.rmSync(this.getDataDir(id), { recursive: true, force: true }); } catch {}
+    return affected;
+  }
+
+  getInfo(): Promise<VaultInfo[]> {
+    return Promise.all(this.list().map(async (v) => {
+      const info: VaultInfo = { id: v.id, initialized: await v.auth.isInitialized() };
+      if (!info.initialized && (await this.accounts.getUser(v.id))?.pendingSetup) info.needsSetupCode = true;
+      return info;
+    }));
+  }
+
+  /**
+   * Who a dashboard token belongs to: the default vault's password proof (admin), or
+   * `<username>:<proof>` with the password proof of the user's vault. Null if it is invalid.
+   */
+  async checkDashboardToken(token: string): Promise<DashboardUser | null> {
+    const sep = token.indexOf(":");
+    if (sep < 0) return (await this.defaultVault.auth.checkHash(token)) ? { username: null, admin: true } : null;
+    const username = token.slice(0, sep);
+    const user = await this.accounts.getUser(username);
+    const vault = user ? await this.get(username) : null;
+    if (!user || !vault || !(await vault.auth.checkHash(token.slice(sep + 1)))) return null;
+    return { username, admin: user.role === "admin" };
+  }
+
+  /** Whether a dashboard user may see a vault: admins see all, users their own. */
+  canSee(user: DashboardUser, vaultId: string): boolean {
+    return user.admin || vaultId === user.username;
+  }
+
+  /** Totals over the vaults a dashboard user may see, plus each vault's own stats. */
+  async getStats(user?: DashboardUser): Promise<{ totalFiles: number; totalSize: number; totalBlobs: number; compressionSaved: number; vaults: VaultStats[] }> {
+    const vaults = await Promise.all(this.list()
+      .filter((v) => !user || this.canSee(user, v.id))
+      .map(async (v) => ({
+        id: v.id,
+        initialized: await v.auth.isInitialized(),
+        ...(await v.storage.getStats()),
+        usage: await v.storage.getUsage(),
+        quotaBytes: v.storage.getQuota(),
+      })));
+    return {
+      totalFiles: vaults.reduce((sum, v) => sum + v.totalFiles, 0),
+      totalSize: vaults.reduce((sum, v) => sum + v.totalSize, 0),
+      totalBlobs: vaults.reduce((sum, v) => sum + v.totalBlobs, 0),
+      compressionSaved: vaults.reduce((sum, v) => sum + v.compressionSaved, 0),
+      vaults,
+    };
+  }
+
+  /** Sessions of every vault, each tagged with its vault. */
+  async getClientSessions(): Promise<Array<ClientSession & { vaultId: string }>> {
+    const sessions = await Promise.all(this.list().map(async (v) => (await v.storage.getClientSessions()).map((s) => ({ ...s, vaultId: v.id }))));
+    return sessions.flat();
+  }
+
+  /**
+   * The newest log entries of the vaults a dashboard user may see; entries of named vaults
+   * are prefixed with their id.
+   */
+  async getLog(limit = 1000, user?: DashboardUser): Promise<Array<{ type: string; text: string; timestamp: number }>> {
+    const logs = await Promise.all(this.list()
+      .filter((v) => !user || this.canSee(user, v.id))
+      .map(async (v) => (await v.storage.getLog(limit)).map((e) => (v.id === DEFAULT_VAULT_ID ? e : { ...e, text: `[${v.id}] ${e.text}` }))));
+    return logs
+      .flat()
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit);
+  }
+
+  async clearLog(): Promise<void> {
+    for (const v of this.list()) await v.storage.clearLog();
+  }
+
+  /** Purge expired trash, abandoned partial uploads and unused blocks in every vault. */
+  async purgeExpired(): Promise<void> {
+    for (const v of this.list()) {
+      await v.storage.purgeTrash();
+      v.storage.purgeStaleUploads();
+      await v.storage.purgeOrphanBlocks();
+    }
+    await this.shares.purgeExpired();
+  }
+
+  /**
+   * Wipe every vault and delete every user account with their vaults and every shared folder;
+   * the default vault also drops the TLS certs and server id. Returns the new server id.
+   */
+  async wipeAll(): Promise<string> {
+    for (const user of await this.accounts.listUsers()) await this.remove(user.username);
+    await this.accounts.wipe();
+    await this.shares.wipe();
+    for (const v of this.list()) {
+      if (v.id === DEFAULT_VAULT_ID) continue;
+      await v.storage.reset();
+      v.auth.clearRateLimits();
+    }
+    const vault = this.defaultVault;
+    const newServerId = await vault.storage.wipeAll();
+    vault.auth.clearRateLimits();
+    return newServerId;
+  }
+
+  async close(): Promise<void> {
+    for (const v of this.list()) await v.storage.close();
+    await this.shares.close();
+    await this.accounts.close();
+  }
+}
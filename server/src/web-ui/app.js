@@ -3,13 +3,14 @@
 
 var MAX_LOG=2000, MAX_DASH=20;
 var AUTH_KEY="vs_auth";
-var authHash=null, ws=null, reconnectTimer=null, onlineClients=[], logInit=false;
+var authHash=null, isAdmin=false, ws=null, reconnectTimer=null, onlineClients=[], vaultStats=[], logInit=false;
 
 // ---- DOM refs ----
 var loginOverlay=document.getElementById("login-overlay");
 var initPanel=document.getElementById("init-panel");
 var loginPanel=document.getElementById("login-panel");
 var loginForm=document.getElementById("login-form");
+var loginUsernameInput=document.getElementById("login-username");
 var loginPasswordInput=document.getElementById("login-password");
 var loginErrorEl=document.getElementById("login-error");
 var loginSubmitBtn=document.getElementById("login-submit");
@@ -20,7 +21,10 @@ var statusDot=document.getElementById("server-status-dot");
 var statusText=document.getElementById("server-status-text");
 var statFiles=document.getElementById("stat-files");
 var statSize=document.getElementById("stat-size");
+var statSaved=document.getElementById("stat-saved");
 var statOnline=document.getElementById("stat-online");
+var vaultsSection=document.getElementById("vaults-section");
+var vaultListEl=document.getElementById("vault-list");
 var clientsOnEl=document.getElementById("clients-online");
 var clientsOffEl=document.getElementById("clients-offline");
 var changeLogEl=document.getElementById("change-log");
@@ -29,6 +33,10 @@ var modalOverlay=document.getElementById("modal-overlay");
 var modalCount=document.getElementById("modal-file-count");
 var settingsStatus=document.getElementById("settings-status-text");
 var settingsUptime=document.getElementById("settings-uptime");
+var userForm=document.getElementById("user-form");
+var userErrorEl=document.getElementById("user-error");
+var userSetupEl=document.getElementById("user-setup");
+var userListEl=document.getElementById("user-list");
 
 // ---- SHA-256 (with pure-JS fallback for plain HTTP) ----
 function sha256hex(str) {
@@ -79,6 +87,183 @@ function jsSha256(data) {
   return [h0,h1,h2,h3,h4,h5,h6,h7].map(function(v){return (v>>>0).toString(16).padStart(8,"0");}).join("");
 }
 
+// ---- Sign-in proof (same derivation as the plugin's crypto/key-management.ts) ----
+// HKDF-SHA256 of the password key, which is derived with the salt and KDF from /api/init-status.
+// Vaults without KDF parameters still sign in with a plain SHA-256 of the password.
+function hexToBytes(hex){var b=new Uint8Array(hex.length/2);for(var i=0;i<b.length;i++)b[i]=parseInt(hex.substr(i*2,2),16);return b;}
+function bytesToHex(b){return Array.from(b).map(function(x){return x.toString(16).padStart(2,"0");}).join("");}
+function concatBytes(parts){
+  var n=0,i,off=0;for(i=0;i<parts.length;i++)n+=parts[i].length;
+  var out=new Uint8Array(n);for(i=0;i<parts.length;i++){out.set(parts[i],off);off+=parts[i].length;}
+  return out;
+}
+function le32(x){var b=new Uint8Array(4);new DataView(b.buffer).setUint32(0,x,true);return b;}
+
+function hmacSha256(key, data) {
+  var ipad=new Uint8Array(64),opad=new Uint8Array(64);
+  for(var i=0;i<64;i++){ipad[i]=(key[i]||0)^0x36;opad[i]=(key[i]||0)^0x5c;}
+  var inner=hexToBytes(jsSha256(concatBytes([ipad,data])));
+  return hexToBytes(jsSha256(concatBytes([opad,inner])));
+}
+function hkdfAuthHex(ikm) {
+  var prk=hmacSha256(new Uint8Array(32), ikm);
+  return bytesToHex(hmacSha256(prk, concatBytes([new TextEncoder().encode("advanced-sync password auth"), new Uint8Array([1])])));
+}
+
+// BLAKE2b and Argon2id (RFC 9106); 64-bit words are (lo, hi) pairs in Uint32Arrays
+var B2_IV=new Uint32Array([0xf3bcc908,0x6a09e667,0x84caa73b,0xbb67ae85,0xfe94f82b,0x3c6ef372,0x5f1d36f1,0xa54ff53a,
+  0xade682d1,0x510e527f,0x2b3e6c1f,0x9b05688c,0xfb41bd6b,0x1f83d9ab,0x137e2179,0x5be0cd19]);
+var B2_SIGMA=[[0,1,2,3,4,5,6,7,8,9,10,11,12,13,14,15],[14,10,4,8,9,15,13,6,1,12,0,2,11,7,5,3],
+  [11,8,12,0,5,2,15,13,10,14,3,6,7,1,9,4],[7,9,3,1,13,12,11,14,2,6,5,10,4,0,15,8],
+  [9,0,5,7,2,4,10,15,14,1,11,12,6,8,3,13],[2,12,6,10,0,11,8,3,4,13,7,5,15,14,1,9],
+  [12,5,1,15,14,13,4,10,0,7,6,3,9,2,8,11],[13,11,7,14,12,1,3,9,5,0,15,4,8,6,2,10],
+  [6,15,14,9,11,3,0,8,12,2,13,7,1,4,10,5],[10,2,8,4,7,6,1,5,15,11,9,14,3,12,13,0]];
+/** Word indices (x2) of the a, b, c, d inputs of the 8 G calls of a round: columns, then diagonals. */
+var G_WORDS=[];
+for(var gi=0;gi<8;gi++){
+  G_WORDS.push(gi<4?[gi,gi+4,gi+8,gi+12]:[gi-4,4+((gi-3)&3),8+((gi-2)&3),12+((gi-1)&3)]);
+}
+
+function add64(v,a,lo,hi){var s=v[a]+lo;v[a+1]=v[a+1]+hi+(s>0xffffffff?1:0);v[a]=s;}
+function xorRotr(v,d,a,n){
+  var lo=v[d]^v[a],hi=v[d+1]^v[a+1];
+  if(n===32){v[d]=hi;v[d+1]=lo;}
+  else if(n===63){v[d]=(lo<<1)|(hi>>>31);v[d+1]=(hi<<1)|(lo>>>31);}
+  else{v[d]=(lo>>>n)|(hi<<(32-n));v[d+1]=(hi>>>n)|(lo<<(32-n));}
+}
+function blake2b(input, outLen) {
+  var h=new Uint32Array(B2_IV),v=new Uint32Array(32),m=new Uint32Array(32);
+  var block=new Uint8Array(128),dv=new DataView(block.buffer),off=0,i;
+  h[0]^=0x01010000^outLen;
+  do{
+    var len=Math.min(128,input.length-off);
+    block.fill(0);block.set(input.subarray(off,off+len));off+=len;
+    for(i=0;i<32;i++) m[i]=dv.getUint32(4*i,true);
+    v.set(h,0);v.set(B2_IV,16);v[24]^=off;
+    if(off===input.length){v[28]=~v[28];v[29]=~v[29];}
+    for(var round=0;round<12;round++){
+      var s=B2_SIGMA[round%10];
+      for(i=0;i<8;i++){
+        var w=G_WORDS[i],a=2*w[0],b=2*w[1],c=2*w[2],d=2*w[3],x=2*s[2*i],y=2*s[2*i+1];
+        add64(v,a,v[b],v[b+1]);add64(v,a,m[x],m[x+1]);xorRotr(v,d,a,32);
+        add64(v,c,v[d],v[d+1]);xorRotr(v,b,c,24);
+        add64(v,a,v[b],v[b+1]);add64(v,a,m[y],m[y+1]);xorRotr(v,d,a,16);
+        add64(v,c,v[d],v[d+1]);xorRotr(v,b,c,63);
+      }
+    }
+    for(i=0;i<16;i++) h[i]^=v[i]^v[i+16];
+  }while(off<input.length);
+  var out=new Uint8Array(64),odv=new DataView(out.buffer);
+  for(i=0;i<16;i++) odv.setUint32(4*i,h[i],true);
+  return out.slice(0,outLen);
+}
+function hashLong(input, outLen) {
+  var pre=concatBytes([le32(outLen),input]);
+  if(outLen<=64) return blake2b(pre,outLen);
+  var out=new Uint8Array(outLen),v=blake2b(pre,64),off=32;
+  out.set(v.subarray(0,32),0);
+  while(outLen-off>64){v=blake2b(v,64);out.set(v.subarray(0,32),off);off+=32;}
+  out.set(blake2b(v,outLen-off),off);
+  return out;
+}
+// v[a] += v[b] + 2 * lo32(v[a]) * lo32(v[b]), with the 64-bit product built from 16-bit halves
+function blaMka(v,a,b){
+  var x=v[a],y=v[b],xl=x&0xffff,xh=x>>>16,yl=y&0xffff,yh=y>>>16,cross=xl*yh+xh*yl;
+  var lo=xl*yl+(cross%0x10000)*0x10000;
+  var hi=xh*yh+Math.floor(cross/0x10000)+Math.floor(lo/0x100000000);
+  lo%=0x100000000;
+  hi=hi*2+(lo>=0x80000000?1:0);lo=(lo*2)%0x100000000;
+  var sum=x+y+lo;
+  v[a+1]=v[a+1]+v[b+1]+hi+Math.floor(sum/0x100000000);v[a]=sum;
+}
+var A2_ROWS=[],A2_COLS=[];
+for(var ri=0;ri<8;ri++){
+  var row=[],col=[];
+  for(var rj=0;rj<16;rj++){row.push(2*(16*ri+rj));col.push(2*(2*ri+16*(rj>>1)+(rj&1)));}
+  A2_ROWS.push(row);A2_COLS.push(col);
+}
+function permute(v,idx){
+  for(var i=0;i<8;i++){
+    var w=G_WORDS[i],a=idx[w[0]],b=idx[w[1]],c=idx[w[2]],d=idx[w[3]];
+    blaMka(v,a,b);xorRotr(v,d,a,32);blaMka(v,c,d);xorRotr(v,b,c,24);
+    blaMka(v,a,b);xorRotr(v,d,a,16);blaMka(v,c,d);xorRotr(v,b,c,63);
+  }
+}
+function a2Compress(out,x,y,r,q,xor){
+  var i;
+  for(i=0;i<256;i++) r[i]=x[i]^y[i];
+  q.set(r);
+  for(i=0;i<8;i++) permute(q,A2_ROWS[i]);
+  for(i=0;i<8;i++) permute(q,A2_COLS[i]);
+  if(xor) for(i=0;i<256;i++) out[i]^=q[i]^r[i];
+  else for(i=0;i<256;i++) out[i]=q[i]^r[i];
+}
+function mulHigh(a,b){return Math.floor((a*(b>>>16)+Math.floor(a*(b&0xffff)/0x10000))/0x10000);}
+function argon2id(password, salt, memoryKiB, passes, lanes, outLen) {
+  var h0=blake2b(concatBytes([le32(lanes),le32(outLen),le32(memoryKiB),le32(passes),le32(0x13),le32(2),
+    le32(password.length),password,le32(salt.length),salt,le32(0),le32(0)]),64);
+  var segLen=Math.floor(memoryKiB/(4*lanes)),laneLen=segLen*4;
+  var mem=new Uint32Array(laneLen*lanes*256);
+  function blk(lane,i){var o=(lane*laneLen+i)*256;return mem.subarray(o,o+256);}
+  var lane,i,dv;
+  for(lane=0;lane<lanes;lane++){
+    for(i=0;i<2;i++){
+      var bytes=hashLong(concatBytes([h0,le32(i),le32(lane)]),1024),dst=blk(lane,i);
+      dv=new DataView(bytes.buffer);
+      for(var k=0;k<256;k++) dst[k]=dv.getUint32(4*k,true);
+    }
+  }
+  var r=new Uint32Array(256),q=new Uint32Array(256),zero=new Uint32Array(256);
+  var input=new Uint32Array(256),addr=new Uint32Array(256);
+  for(var pass=0;pass<passes;pass++){
+    for(var slice=0;slice<4;slice++){
+      for(lane=0;lane<lanes;lane++){
+        var indep=pass===0&&slice<2;
+        if(indep){input.fill(0);input[0]=pass;input[2]=lane;input[4]=slice;input[6]=laneLen*lanes;input[8]=passes;input[10]=2;}
+        var first=pass===0&&slice===0?2:0;
+        for(i=first;i<segLen;i++){
+          var index=slice*segLen+i,prevIndex=index===0?laneLen-1:index-1,j1,j2;
+          if(indep){
+            if(i%128===0||i===first){input[12]++;a2Compress(addr,zero,input,r,q,false);a2Compress(addr,zero,addr,r,q,false);}
+            j1=addr[2*(i%128)];j2=addr[2*(i%128)+1];
+          } else {
+            var prev=blk(lane,prevIndex);j1=prev[0];j2=prev[1];
+          }
+          var refLane=pass===0&&slice===0?lane:j2%lanes,area;
+          if(pass===0) area=refLane===lane?index-1:slice*segLen-(i===0?1:0);
+          else area=refLane===lane?laneLen-segLen+i-1:laneLen-segLen-(i===0?1:0);
+          var rel=area-1-mulHigh(area,mulHigh(j1,j1));
+          var start=pass===0||slice===3?0:(slice+1)*segLen;
+          a2Compress(blk(lane,index),blk(lane,prevIndex),blk(refLane,(start+rel)%laneLen),r,q,pass>0);
+        }
+      }
+    }
+  }
+  var fin=new Uint32Array(blk(0,laneLen-1));
+  for(lane=1;lane<lanes;lane++){var last=blk(lane,laneLen-1);for(i=0;i<256;i++) fin[i]^=last[i];}
+  var finBytes=new Uint8Array(1024);dv=new DataView(finBytes.buffer);
+  for(i=0;i<256;i++) dv.setUint32(4*i,fin[i],true);
+  return hashLong(finBytes,outLen);
+}
+
+/** Resolve to the sign-in proof of a password, given /api/init-status. */
+function passwordProof(password, status) {
+  var kdf=status&&status.kdf;
+  if(!kdf||!status.vaultSalt) return sha256hex(password);
+  var pw=new TextEncoder().encode(password);
+  var salt=Uint8Array.from(atob(status.vaultSalt),function(ch){return ch.charCodeAt(0);});
+  if(kdf.algorithm==="argon2id"){
+    // Synchronous and slow: give the "Signing in" label a frame to render first
+    return new Promise(function(resolve){setTimeout(resolve,50);}).then(function(){
+      return hkdfAuthHex(argon2id(pw,salt,kdf.memoryKiB,kdf.iterations,kdf.parallelism,32));
+    });
+  }
+  if(!(window.crypto&&window.crypto.subtle)) return Promise.reject(new Error("Open the dashboard over HTTPS to sign in"));
+  return window.crypto.subtle.importKey("raw",pw,"PBKDF2",false,["deriveBits"]).then(function(material){
+    return window.crypto.subtle.deriveBits({name:"PBKDF2",salt:salt,iterations:kdf.iterations,hash:"SHA-512"},material,256);
+  }).then(function(bits){return hkdfAuthHex(new Uint8Array(bits));});
+}
+
 // ---- Auth-aware fetch ----
 function apiFetch(url, options) {
   options=options||{};
@@ -128,13 +313,14 @@ function showInit() {
   if(loginSubmitBtn){loginSubmitBtn.disabled=true;loginSubmitBtn.textContent="Sign In";}
 }
 
-function fetchInitStatus() {
-  return fetch("/api/init-status").then(function(r){return r.json();}).catch(function(){return {initialized:false};});
+function fetchInitStatus(vault) {
+  return fetch("/api/init-status"+(vault?"?vault="+encodeURIComponent(vault):"")).then(function(r){return r.json();}).catch(function(){return {initialized:false};});
 }
 
 loginForm.addEventListener("submit", function(e) {
   e.preventDefault();
   if(initPanel && !initPanel.classList.contains("hidden")) return;
+  var username=loginUsernameInput.value.trim().toLowerCase();
   var password=loginPasswordInput.value;
   if(!password) return;
   loginSubmitBtn.disabled=true;
@@ -142,12 +328,15 @@ loginForm.addEventListener("submit", function(e) {
   loginErrorEl.classList.add("hidden");
 
   var capturedHash;
-  sha256hex(password).then(function(hash) {
-    capturedHash=hash;
+  // A user's password is the one of their own vault, so its salt and KDF are the vault's
+  fetchInitStatus(username).then(function(status) {
+    return passwordProof(password, status);
+  }).then(function(hash) {
+    capturedHash=username?username+":"+hash:hash;
     return fetch("/api/ui-auth", {
       method:"POST",
       headers:{"Content-Type":"application/json"},
-      body:JSON.stringify({passwordHash:hash})
+      body:JSON.stringify(authBody(capturedHash))
     });
   }).then(function(res) {
     if(res.status===428){
@@ -158,8 +347,9 @@ loginForm.addEventListener("submit", function(e) {
     }
     if(!res.ok) return res.json().then(function(d){throw new Error(d.error||"Invalid password");});
     return res.json();
-  }).then(function() {
+  }).then(function(d) {
     authHash=capturedHash;
+    setRole(d.admin);
     sessionStorage.setItem(AUTH_KEY, capturedHash);
     loginOverlay.classList.add("hidden");
     initDashboard();
@@ -172,6 +362,18 @@ loginForm.addEventListener("submit", function(e) {
   });
 });
 
+/** Body of /api/ui-auth for a session token: the server password hash, or "<username>:<hash>". */
+function authBody(token) {
+  var sep=token.indexOf(":");
+  return sep<0?{passwordHash:token}:{username:token.slice(0,sep),passwordHash:token.slice(sep+1)};
+}
+
+/** Users see only their own vault; devices, users, the log reset and the server reset are for admins. */
+function setRole(admin) {
+  isAdmin=!!admin;
+  document.body.classList.toggle("not-admin",!isAdmin);
+}
+
 // ---- Theme: only apply accent color ----
 function applyTheme(vars) {
   var accent=vars["--interactive-accent"];
@@ -198,6 +400,7 @@ function initDashboard() {
       item.classList.add("active");
       document.getElementById("tab-"+tab).classList.add("active");
       if(tab==="devices") loadOfflineClients();
+      if(tab==="users") loadUsers();
     });
   });
 
@@ -209,7 +412,7 @@ function initDashboard() {
   document.getElementById("btn-modal-confirm").addEventListener("click", function(){
     modalOverlay.classList.add("hidden");
     apiFetch("/api/reset",{method:"POST"}).then(function(){
-      statFiles.textContent="0"; statSize.textContent="0 B";
+      statFiles.textContent="0"; statSize.textContent="0 B"; statSaved.textContent="0 B";
       onlineClients=[]; renderOnlineClients();
       clearLogUI(); addEntry("connect","Server data reset");
     }).catch(function(){alert("Reset failed.");});
@@ -228,6 +431,7 @@ function initDashboard() {
 
   connect();
   loadOfflineClients();
+  if(isAdmin) loadUsers();
 }
 
 // ---- WebSocket ----
@@ -285,22 +489,22 @@ function handleEvent(event,data){
       if(data.log) loadLogHistory(data.log);
       break;
     case"client_connected":
-      onlineClients.push({clientId:data.clientId,deviceName:data.deviceName,ip:data.ip,connectedAt:Date.now()});
+      onlineClients.push({vaultId:data.vaultId,clientId:data.clientId,deviceName:data.deviceName,ip:data.ip,connectedAt:Date.now(),readOnly:!!data.readOnly});
       renderOnlineClients();
-      addEntry("connect",data.deviceName+" connected from "+data.ip);
+      addEntry("connect",vaultPrefix(data.vaultId)+data.deviceName+" connected from "+data.ip);
       break;
     case"client_disconnected":
-      onlineClients=onlineClients.filter(function(c){return c.clientId!==data.clientId;});
+      onlineClients=onlineClients.filter(function(c){return c.clientId!==data.clientId||c.vaultId!==data.vaultId;});
       renderOnlineClients();
-      addEntry("connect",data.deviceName+" disconnected");
+      addEntry("connect",vaultPrefix(data.vaultId)+data.deviceName+" disconnected");
       if(document.getElementById("tab-devices").classList.contains("active")) loadOfflineClients();
       break;
     case"file_changed":
-      addEntry(data.isNew?"create":"upload",(data.deviceName||"Device")+" synced "+data.fileId.substring(0,8)+"... ("+fmtSize(data.size)+")");
+      addEntry(data.isNew?"create":"upload",vaultPrefix(data.vaultId)+(data.deviceName||"Device")+" synced "+data.fileId.substring(0,8)+"... ("+fmtSize(data.size)+")");
       refreshStats();
       break;
     case"file_removed":
-      addEntry("remove","File "+data.fileId.substring(0,8)+"... deleted by "+(data.deviceName||"device"));
+      addEntry("remove",vaultPrefix(data.vaultId)+"File "+data.fileId.substring(0,8)+"... deleted by "+(data.deviceName||"device"));
       refreshStats();
       break;
     case"theme":
@@ -312,13 +516,39 @@ function handleEvent(event,data){
 
 // ---- Stats ----
 function refreshStats(){
-  apiFetch("/api/stats").then(function(r){return r.json();}).then(function(s){
-    statFiles.textContent=s.totalFiles; statSize.textContent=fmtSize(s.totalSize);
-  }).catch(function(){});
+  apiFetch("/api/stats").then(function(r){return r.json();}).then(updateStats).catch(function(){});
 }
 function updateStats(stats){
   statFiles.textContent=stats.totalFiles; statSize.textContent=fmtSize(stats.totalSize);
+  statSaved.textContent=fmtSize(stats.compressionSaved||0);
+  vaultStats=stats.vaults||[];
+  renderVaults();
+}
+
+// ---- Vaults (listed when the server hosts named vaults besides the default one) ----
+function renderVaults(){
+  vaultsSection.hidden=vaultStats.length<2&&!vaultStats.some(function(v){return v.quotaBytes>0;});
+  vaultListEl.innerHTML="";
+  vaultStats.forEach(function(v){
+    var online=onlineClients.filter(function(c){return (c.vaultId||"default")===v.id;}).length;
+    var el=document.createElement("div"); el.className="client-item";
+    el.innerHTML=
+      '<div class="client-left">'+
+        '<div class="client-avatar">'+esc(v.id[0].toUpperCase())+'</div>'+
+        '<div class="client-info">'+
+          '<span class="client-name">'+esc(v.id)+'</span>'+
+          '<span class="client-meta">'+v.totalFiles+' files &middot; '+fmtSize(v.totalSize)+
+            (v.compressionSaved>0?' &middot; '+fmtSize(v.compressionSaved)+' saved by compression':'')+
+            (v.quotaBytes>0?' &middot; '+fmtSize(v.usage)+' of '+fmtSize(v.quotaBytes)+' quota':'')+' &middot; '+online+' online</span>'+
+        '</div>'+
+      '</div>'+
+      '<div class="client-right">'+
+        (v.initialized?'':'<span class="client-badge-offline">Not set up</span>')+
+      '</div>';
+    vaultListEl.appendChild(el);
+  });
 }
+function vaultPrefix(vaultId){return vaultId&&vaultId!=="default"?"["+vaultId+"] ":"";}
 
 // ---- Clients ----
 function renderOnlineClients(){
@@ -326,12 +556,13 @@ function renderOnlineClients(){
   if(onlineClients.length===0){clientsOnEl.innerHTML='<div class="empty-state">No devices online</div>';return;}
   clientsOnEl.innerHTML="";
   onlineClients.forEach(function(c){
-    clientsOnEl.appendChild(makeClientEl(c.clientId,c.deviceName,c.ip,"since "+fmtTime(c.connectedAt||Date.now()),true));
+    clientsOnEl.appendChild(makeClientEl(c.vaultId,c.clientId,c.deviceName,c.ip,"since "+fmtTime(c.connectedAt||Date.now()),true,!!c.readOnly));
   });
+  renderVaults();
 }
 
 function loadOfflineClients(){
-  if(!authHash) return;
+  if(!authHash||!isAdmin) return;
   apiFetch("/api/sessions").then(function(r){return r.json();}).then(function(data){
     var sessions=Array.isArray(data)?data:[];
     var offline=sessions.filter(function(s){return !s.isOnline;});
@@ -339,12 +570,12 @@ function loadOfflineClients(){
     clientsOffEl.innerHTML="";
     offline.forEach(function(c){
       var ts=c.lastUsed||c.lastSeen||0;
-      clientsOffEl.appendChild(makeClientEl(c.clientId,c.deviceName,c.ip,"last seen "+fmtTimeAgo(ts),false));
+      clientsOffEl.appendChild(makeClientEl(c.vaultId,c.clientId,c.deviceName,c.ip,"last seen "+fmtTimeAgo(ts),false,!!c.readOnly));
     });
   }).catch(function(){});
 }
 
-function makeClientEl(clientId,name,ip,meta,online){
+function makeClientEl(vaultId,clientId,name,ip,meta,online,readOnly){
   var el=document.createElement("div"); el.className="client-item";
   var initial=(name||"?")[0].toUpperCase();
   var badgeCls=online?"client-badge-online":"client-badge-offline";
@@ -356,28 +587,56 @@ function makeClientEl(clientId,name,ip,meta,online){
       '<div class="client-avatar">'+esc(initial)+'</div>'+
       '<div class="client-info">'+
         '<span class="client-name">'+esc(name)+'</span>'+
-        '<span class="client-meta">'+esc(ip)+' &middot; '+esc(meta)+'</span>'+
+        '<span class="client-meta">'+esc(vaultPrefix(vaultId)+ip)+' &middot; '+esc(meta)+'</span>'+
       '</div>'+
     '</div>'+
     '<div class="client-right">'+
+      (readOnly?'<span class="client-badge-offline">Read-only</span>':'')+
       '<span class="'+badgeCls+'">'+badgeText+'</span>'+
+      '<button class="btn btn-sm btn-ghost client-access-btn">'+(readOnly?"Allow changes":"Make read-only")+'</button>'+
       '<button class="btn btn-sm btn-danger client-kick-btn">'+kickLabel+'</button>'+
     '</div>';
 
+  el.querySelector(".client-access-btn").addEventListener("click",function(){
+    setClientReadOnly(vaultId,clientId,el,online,!readOnly);
+  });
   el.querySelector(".client-kick-btn").addEventListener("click",function(){
-    kickClient(clientId,el,online);
+    kickClient(vaultId,clientId,el,online);
   });
   return el;
 }
 
-function kickClient(clientId,el,online){
+// A read-only device may download but not upload, delete or restore files
+function setClientReadOnly(vaultId,clientId,el,online,readOnly){
+  var btn=el.querySelector(".client-access-btn");
+  if(btn){btn.disabled=true;btn.textContent="\u2026";}
+  apiFetch("/api/sessions/"+encodeURIComponent(clientId)+"/read-only?vault="+encodeURIComponent(vaultId||"default"),{
+    method:"POST",headers:{"Content-Type":"application/json"},body:JSON.stringify({readOnly:readOnly})
+  })
+    .then(function(res){
+      if(!res.ok) return res.json().then(function(d){throw new Error(d.error||"Update failed");});
+      return res.json();
+    })
+    .then(function(){
+      if(online){
+        onlineClients.forEach(function(c){if(c.clientId===clientId&&c.vaultId===vaultId) c.readOnly=readOnly;});
+        renderOnlineClients();
+      } else loadOfflineClients();
+    })
+    .catch(function(e){
+      alert(e.message||"Failed to change the device's access.");
+      if(btn){btn.disabled=false;btn.textContent=readOnly?"Make read-only":"Allow changes";}
+    });
+}
+
+function kickClient(vaultId,clientId,el,online){
   var msg=online
     ? "Disconnect and revoke this device's session? It will need to re-enter the password to reconnect."
     : "Revoke this device's saved session? It will need to re-enter the password to reconnect.";
   if(!confirm(msg)) return;
   var btn=el.querySelector(".client-kick-btn");
   if(btn){btn.disabled=true;btn.textContent="\u2026";}
-  apiFetch("/api/sessions/"+encodeURIComponent(clientId)+"/revoke",{method:"POST"})
+  apiFetch("/api/sessions/"+encodeURIComponent(clientId)+"/revoke?vault="+encodeURIComponent(vaultId||"default"),{method:"POST"})
     .then(function(res){
       if(!res.ok) return res.json().then(function(d){throw new Error(d.error||"Revoke failed");});
       return res.json();
@@ -388,7 +647,7 @@ function kickClient(clientId,el,online){
       setTimeout(function(){
         el.remove();
         if(online){
-          onlineClients=onlineClients.filter(function(c){return c.clientId!==clientId;});
+          onlineClients=onlineClients.filter(function(c){return c.clientId!==clientId||c.vaultId!==vaultId;});
           statOnline.textContent=onlineClients.length;
           if(clientsOnEl.children.length===0)
             clientsOnEl.innerHTML='<div class="empty-state">No devices online</div>';
@@ -404,6 +663,89 @@ function kickClient(clientId,el,online){
     });
 }
 
+// ---- Users (admin) ----
+function loadUsers(){
+  apiFetch("/api/users").then(function(r){return r.json();}).then(function(users){
+    users=Array.isArray(users)?users:[];
+    if(users.length===0){userListEl.innerHTML='<div class="empty-state">No users yet</div>';return;}
+    userListEl.innerHTML="";
+    users.forEach(function(u){userListEl.appendChild(makeUserEl(u));});
+  }).catch(function(){});
+}
+
+function makeUserEl(u){
+  var el=document.createElement("div"); el.className="client-item";
+  var quota=u.quotaBytes>0?fmtSize(u.usage)+" of "+fmtSize(u.quotaBytes):fmtSize(u.usage)+", no quota";
+  el.innerHTML=
+    '<div class="client-left">'+
+      '<div class="client-avatar">'+esc(u.username[0].toUpperCase())+'</div>'+
+      '<div class="client-info">'+
+        '<span class="client-name">'+esc(u.username)+'</span>'+
+        '<span class="client-meta">'+(u.role==="admin"?"Admin":"User")+' &middot; '+esc(quota)+'</span>'+
+      '</div>'+
+    '</div>'+
+    '<div class="client-right">'+
+      (u.initialized?'':'<span class="client-badge-offline">Not set up</span>')+
+      '<button class="btn btn-sm btn-ghost user-quota-btn">Quota</button>'+
+      '<button class="btn btn-sm btn-ghost user-role-btn">'+(u.role==="admin"?"Make user":"Make admin")+'</button>'+
+      '<button class="btn btn-sm btn-danger user-delete-btn">Delete</button>'+
+    '</div>';
+
+  el.querySelector(".user-quota-btn").addEventListener("click",function(){
+    var mb=prompt("Quota of "+u.username+" in MB (0 = unlimited):",String(Math.round(u.quotaBytes/1048576)));
+    if(mb===null) return;
+    if(!/^\d+$/.test(mb.trim())){alert("Enter a whole number of MB.");return;}
+    updateUser(u.username,u.role,parseInt(mb,10)*1048576);
+  });
+  el.querySelector(".user-role-btn").addEventListener("click",function(){
+    updateUser(u.username,u.role==="admin"?"user":"admin",u.quotaBytes);
+  });
+  el.querySelector(".user-delete-btn").addEventListener("click",function(){
+    if(!confirm("Delete "+u.username+" and their vault with all its files? This cannot be undone.")) return;
+    apiFetch("/api/users/"+encodeURIComponent(u.username),{method:"DELETE"}).then(function(res){
+      if(!res.ok) throw new Error();
+      loadUsers(); refreshStats();
+    }).catch(function(){alert("Failed to delete user.");});
+  });
+  return el;
+}
+
+function updateUser(username,role,quotaBytes){
+  apiFetch("/api/users/"+encodeURIComponent(username),{
+    method:"POST",
+    headers:{"Content-Type":"application/json"},
+    body:JSON.stringify({role:role,quotaBytes:quotaBytes})
+  }).then(function(res){
+    if(!res.ok) throw new Error();
+    loadUsers(); refreshStats();
+  }).catch(function(){alert("Failed to update user.");});
+}
+
+userForm.addEventListener("submit", function(e) {
+  e.preventDefault();
+  var username=document.getElementById("user-name").value.trim().toLowerCase();
+  var quotaMb=parseInt(document.getElementById("user-quota").value,10)||0;
+  if(!username) return;
+  userErrorEl.classList.add("hidden");
+  userSetupEl.classList.add("hidden");
+  apiFetch("/api/users",{
+    method:"POST",
+    headers:{"Content-Type":"application/json"},
+    body:JSON.stringify({username:username,role:document.getElementById("user-role").value,quotaBytes:Math.max(0,quotaMb)*1048576})
+  }).then(function(res){
+    return res.json().then(function(d){if(!res.ok) throw new Error(d.error||"Failed to create user"); return d;});
+  }).then(function(d){
+    document.getElementById("user-setup-name").textContent=d.username;
+    document.getElementById("user-setup-code").textContent=d.setupCode;
+    userSetupEl.classList.remove("hidden");
+    userForm.reset();
+    loadUsers(); refreshStats();
+  }).catch(function(err){
+    userErrorEl.textContent=err.message;
+    userErrorEl.classList.remove("hidden");
+  });
+});
+
 // ---- Log ----
 function loadLogHistory(entries) {
   logInit=true;
@@ -487,16 +829,15 @@ fetchInitStatus().then(function(s){
     fetch("/api/ui-auth", {
       method:"POST",
       headers:{"Content-Type":"application/json"},
-      body:JSON.stringify({passwordHash:stored})
+      body:JSON.stringify(authBody(stored))
     }).then(function(res){
-      if(res.ok){
-        authHash=stored;
-        loginOverlay.classList.add("hidden");
-        initDashboard();
-      } else {
-        sessionStorage.removeItem(AUTH_KEY);
-        showLogin();
-      }
+      if(!res.ok) throw new Error();
+      return res.json();
+    }).then(function(d){
+      authHash=stored;
+      setRole(d.admin);
+      loginOverlay.classList.add("hidden");
+      initDashboard();
     }).catch(function(){
       sessionStorage.removeItem(AUTH_KEY);
       showLogin();
@@ -7,38 +7,135 @@
  *   /ui   — dashboard subscribers (require dashboard auth token in ?auth= query param)
  */
 
+import crypto from "crypto";
 import { WebSocketServer, WebSocket } from "ws";
 import type { IncomingMessage } from "http";
 import type http from "http";
 import type https from "https";
-import { MessageType, PROTOCOL_VERSION } from "../../shared/protocol";
+import { MessageType, PROTOCOL_VERSION, CHUNK_SIZE, QUOTA_EXCEEDED, READ_ONLY_SESSION, DELTA_BASE_MISMATCH, BinaryFrameKind, encodeBinaryFrame, decodeBinaryFrame, isValidKdfParams, isValidVaultSalt, isValidVaultId } from "../../shared/protocol";
 import type {
   AuthMessage,
   SyncRequestMessage,
   FileUploadMessage,
   FileDownloadMessage,
   FileDeleteMessage,
+  ChunkUploadBeginMessage,
+  ChunkUploadMessage,
+  ChunkDownloadMessage,
+  BlockQueryMessage,
+  BlockUploadMessage,
+  BlockDownloadMessage,
+  VersionListMessage,
+  VersionDownloadMessage,
+  TrashListMessage,
+  TrashRestoreMessage,
+  VaultKeyInitMessage,
+  PasswordChangeMessage,
+  RecoveryKeySetMessage,
+  KeyRotationBeginMessage,
+  KeyRotationCommitMessage,
   ClientKickMessage,
+  DeviceApproveMessage,
+  PairingBeginMessage,
+  PairingCancelMessage,
+  PairingClaimedMessage,
+  ShareCreateMessage,
+  ShareMemberKeysMessage,
+  ShareInviteMessage,
+  ShareAcceptMessage,
+  ShareRemoveMessage,
   ProtocolMessage,
 } from "../../shared/protocol";
 import type { ClientInfo, ClientSession } from "../../shared/types";
+import type { Vault, VaultRegistry } from "./vaults";
 import type { Storage } from "./storage";
-import type { Auth } from "./auth";
+import type { DashboardUser } from "./accounts";
 import type { ServerConfig } from "./config";
 
 /** 256 MB max payload to handle large vault files. */
 const MAX_PAYLOAD = 256 * 1024 * 1024;
 
+/** Client-chosen upload ids become file names, so only accept plain hex. */
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+/** Block ids are HMAC-SHA256 hex digests and also become file names. */
+const BLOCK_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+/** A wrapped data key is a 12-byte IV plus the 32-byte key and 16-byte GCM tag, in base64. */
+const WRAPPED_KEY_PATTERN = /^[A-Za-z0-9+/]{80}$/;
+
+/** A device public key is an uncompressed P-256 point (65 bytes), in base64. */
+const DEVICE_PUBLIC_KEY_PATTERN = /^[A-Za-z0-9+/]{87}=$/;
+
+/** A device key is an ephemeral public key, a 12-byte IV and the encrypted 32-byte key with its tag, in base64. */
+const DEVICE_KEY_PATTERN = /^[A-Za-z0-9+/]{167}=$/;
+
+/** Version tags are chosen by clients; plain hex like upload ids. */
+const VERSION_TAG_PATTERN = /^[0-9a-f]{32}$/;
+
+/**
+ * What a read-only session may send: downloads, listings and keep-alives. Devices it pairs or
+ * approves become read-only themselves (see handleAuth and handleDeviceApprove).
+ */
+const READ_ONLY_MESSAGES: ReadonlySet<string> = new Set([
+  MessageType.SYNC_REQUEST,
+  MessageType.MANIFEST_REQUEST,
+  MessageType.FILE_DOWNLOAD,
+  MessageType.CHUNK_DOWNLOAD,
+  MessageType.BLOCK_DOWNLOAD,
+  MessageType.VERSION_LIST,
+  MessageType.VERSION_DOWNLOAD,
+  MessageType.TRASH_LIST,
+  MessageType.SHARE_LIST,
+  MessageType.DEVICE_APPROVE,
+  MessageType.PAIRING_BEGIN,
+  MessageType.PAIRING_CANCEL,
+  MessageType.PING,
+]);
+
+/** Share ids are chosen by the owner's client and become directory names, so only accept plain hex. */
+const SHARE_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+/** Encrypted share names and mount paths: base64 of an IV and an AES-GCM ciphertext, kept small. */
+const ENCRYPTED_TEXT_PATTERN = /^[A-Za-z0-9+/]{20,4096}={0,2}$/;
+
+/** HKDF info of the device proof in AUTH; the plugin derives it the same way. */
+const DEVICE_PROOF_INFO = "advanced-sync device proof";
+
+/** Pairing codes are accepted for ten minutes after they are shown. */
+const PAIRING_TTL = 10 * 60 * 1000;
+
+const ROTATION_IN_PROGRESS = "The vault key is being rotated on another device";
+
+const NO_SHARE_ACCESS = "This vault has no access to the shared folder";
+const SHARE_READ_ONLY = "This vault may only read the shared folder";
+
 interface ConnectedClient {
   ws: WebSocket;
   clientId: string;
   deviceName: string;
   ip: string;
+  /** The vault this client signs in to; the default vault until AUTH names another. */
+  vault: Vault;
   authenticated: boolean;
+  /** False while the device waits for approval; it may then only send PING. */
+  trusted: boolean;
+  /** Signed in read-only: only downloads and listings are handled (see rejectReadOnly). */
+  readOnly: boolean;
+  /** Ephemeral key of this connection's AUTH_CHALLENGE. */
+  challenge: crypto.ECDH;
   connectedAt: number;
   lastActivity: number;
-  /** Pending binary data expected after a FILE_UPLOAD message. */
-  pendingUpload: FileUploadMessage | null;
+  /** FILE_UPLOAD headers waiting for their blob frame, keyed by fileId. */
+  pendingUploads: Map<string, FileUploadMessage>;
+  /** CHUNK_UPLOAD headers waiting for their data frame, keyed by uploadId. */
+  pendingChunks: Map<string, ChunkUploadMessage>;
+  /** Chunked uploads started on this connection, keyed by uploadId. */
+  chunkUploads: Map<string, ChunkUploadBeginMessage>;
+  /** BLOCK_UPLOAD headers waiting for their data frame, keyed by blockId. */
+  pendingBlocks: Map<string, BlockUploadMessage>;
+  /** The message being handled; blob I/O is asynchronous, and each message waits for the one before it. */
+  queue: Promise<void>;
 }
 
 function fmtSize(b: number): string {
@@ -52,21 +149,19 @@ export class SyncWebSocketServer {
   private wss: WebSocketServer;
   private uiWss: WebSocketServer;
   private clients: Map<WebSocket, ConnectedClient> = new Map();
-  private uiSubscribers: Set<WebSocket> = new Set();
-  private storage: Storage;
-  private auth: Auth;
+  /** Dashboard connections and who signed in on them; each sees only the vaults they may see. */
+  private uiSubscribers: Map<WebSocket, DashboardUser> = new Map();
+  private vaults: VaultRegistry;
   private config: ServerConfig;
   private pingInterval: NodeJS.Timeout | null = null;
   private acceptingConnections = true;
 
   constructor(
     server: http.Server | https.Server,
-    storage: Storage,
-    auth: Auth,
+    vaults: VaultRegistry,
     config: ServerConfig
   ) {
-    this.storage = storage;
-    this.auth = auth;
+    this.vaults = vaults;
     this.config = config;
 
     this.wss = new WebSocketServer({
@@ -80,7 +175,12 @@ export class SyncWebSocketServer {
       noServer: true,
       perMessageDeflate: false,
     });
-    this.uiWss.on("connection", (ws, req) => this.handleUIConnection(ws, req));
+    this.uiWss.on("connection", (ws, req) => {
+      this.handleUIConnection(ws, req).catch((err) => {
+        console.error("[WS] Dashboard connection failed:", err.message);
+        try { ws.close(1011, "Server error"); } catch {}
+      });
+    });
 
     // Route upgrade requests to the correct WebSocket server
     server.on("upgrade", (request, socket, head) => {
@@ -102,26 +202,28 @@ export class SyncWebSocketServer {
     this.pingInterval = setInterval(() => this.pingClients(), 30000);
   }
 
-  private handleUIConnection(ws: WebSocket, req: IncomingMessage): void {
+  private async handleUIConnection(ws: WebSocket, req: IncomingMessage): Promise<void> {
     if (!this.acceptingConnections) {
       ws.close(1012, "Server reset");
       return;
     }
-    if (!this.auth.isInitialized()) {
-      ws.close(4401, "Server not initialized");
-      return;
-    }
     // Validate dashboard auth token from query string
     const url = new URL(req.url ?? "/", "http://base");
     const token = url.searchParams.get("auth") ?? "";
-    if (!this.auth.checkHash(token)) {
+    if (!token.includes(":") && !(await this.vaults.defaultVault.auth.isInitialized())) {
+      ws.close(4401, "Server not initialized");
+      return;
+    }
+    const user = await this.vaults.checkDashboardToken(token);
+    if (!user) {
       ws.close(4003, "Unauthorized");
       return;
     }
+    if (ws.readyState !== WebSocket.OPEN) return;
 
-    this.uiSubscribers.add(ws);
+    this.uiSubscribers.set(ws, user);
     // Send current status + log history immediately
-    this.sendUIStatus(ws);
+    await this.sendUIStatus(ws, user);
 
     ws.on("close", () => {
       this.uiSubscribers.delete(ws);
@@ -138,15 +240,25 @@ export class SyncWebSocketServer {
       req.socket.remoteAddress ||
       "unknown";
 
+    const challenge = crypto.createECDH("prime256v1");
+    challenge.generateKeys();
     const client: ConnectedClient = {
       ws,
       clientId: "",
       deviceName: "",
       ip,
+      vault: this.vaults.defaultVault,
       authenticated: false,
+      trusted: false,
+      readOnly: false,
+      challenge,
       connectedAt: Date.now(),
       lastActivity: Date.now(),
-      pendingUpload: null,
+      pendingUploads: new Map(),
+      pendingChunks: new Map(),
+      chunkUploads: new Map(),
+      pendingBlocks: new Map(),
+      queue: Promise.resolve(),
     };
     this.clients.set(ws, client);
 
@@ -157,31 +269,35 @@ export class SyncWebSocketServer {
       }
       client.lastActivity = Date.now();
 
-      if (isBinary) {
-        this.handleBinaryMessage(client, data as Buffer);
-      } else {
-        this.handleTextMessage(client, data.toString());
-      }
+      this.enqueue(client, () => isBinary
+        ? this.handleBinaryMessage(client, data as Buffer)
+        : this.handleTextMessage(client, data.toString()));
     });
 
     ws.on("close", () => {
       this.clients.delete(ws);
-      if (client.authenticated) {
-        this.storage.setClientOffline(client.clientId);
-        this.storage.appendLog("connect", `${client.deviceName} disconnected`, Date.now());
+      if (!client.authenticated) return;
+      this.enqueue(client, async () => {
+        await this.abortRotation(client);
+        await client.vault.storage.dropPairings(client.clientId);
+        await client.vault.storage.setClientOffline(client.clientId);
+        await client.vault.storage.appendLog("connect", `${client.deviceName} disconnected`, Date.now());
         console.log(`[WS] Client disconnected: ${client.deviceName} (${client.clientId})`);
         this.broadcastUIEvent("client_disconnected", {
+          vaultId: client.vault.id,
           clientId: client.clientId,
           deviceName: client.deviceName,
         });
-        this.broadcastClientList();
-      }
+        await this.broadcastClientList(client.vault);
+      });
     });
 
     ws.on("error", (err) => {
       console.error(`[WS] Client error (${client.ip}):`, err.message);
     });
 
+    this.send(ws, { type: MessageType.AUTH_CHALLENGE, serverKey: challenge.getPublicKey("base64") });
+
     // Auto-disconnect unauthenticated clients after 10s
     setTimeout(() => {
       if (!client.authenticated && ws.readyState === WebSocket.OPEN) {
@@ -190,7 +306,14 @@ export class SyncWebSocketServer {
     }, 10000);
   }
 
-  private handleTextMessage(client: ConnectedClient, raw: string): void {
+  /** Handle a client's messages in the order they arrived, each after the previous one finished. */
+  private enqueue(client: ConnectedClient, task: () => Promise<void>): void {
+    client.queue = client.queue.then(task).catch((err) => {
+      console.error(`[WS] Request from ${client.deviceName || client.ip} failed:`, err.message);
+    });
+  }
+
+  private async handleTextMessage(client: ConnectedClient, raw: string): Promise<void> {
     if (!this.acceptingConnections) {
       try { client.ws.close(1012, "Server reset"); } catch {}
       return;
@@ -209,25 +332,126 @@ export class SyncWebSocketServer {
         client.ws.close(4003, "Not authenticated");
         return;
       }
-      this.handleAuth(client, msg as AuthMessage);
+      await this.handleAuth(client, msg as AuthMessage);
+      return;
+    }
+
+    // Devices waiting for approval can only keep the connection alive
+    if (!client.trusted && msg.type !== MessageType.PING) {
+      client.ws.close(4007, "Device not approved");
       return;
     }
 
+    // Read-only devices may download but not change anything
+    if (client.readOnly && (await this.rejectReadOnly(client, msg))) return;
+
     switch (msg.type) {
       case MessageType.SYNC_REQUEST:
-        this.handleSyncRequest(client, msg as SyncRequestMessage);
+        await this.handleSyncRequest(client, msg as SyncRequestMessage);
+        break;
+      case MessageType.MANIFEST_REQUEST:
+        this.send(client.ws, { type: MessageType.MANIFEST_RESPONSE, entries: (await client.vault.storage.getManifest()).entries });
         break;
       case MessageType.FILE_UPLOAD:
-        this.handleFileUploadHeader(client, msg as FileUploadMessage);
+        await this.handleFileUploadHeader(client, msg as FileUploadMessage);
         break;
       case MessageType.FILE_DOWNLOAD:
-        this.handleFileDownload(client, msg as FileDownloadMessage);
+        await this.handleFileDownload(client, msg as FileDownloadMessage);
         break;
       case MessageType.FILE_DELETE:
-        this.handleFileDelete(client, msg as FileDeleteMessage);
+        await this.handleFileDelete(client, msg as FileDeleteMessage);
+        break;
+      case MessageType.CHUNK_UPLOAD_BEGIN:
+        await this.handleChunkUploadBegin(client, msg as ChunkUploadBeginMessage);
+        break;
+      case MessageType.CHUNK_UPLOAD: {
+        // Store the chunk header; its data arrives in a CHUNK frame for this uploadId
+        const chunk = msg as ChunkUploadMessage;
+        client.pendingChunks.set(chunk.uploadId, chunk);
+        break;
+      }
+      case MessageType.CHUNK_DOWNLOAD:
+        await this.handleChunkDownload(client, msg as ChunkDownloadMessage);
+        break;
+      case MessageType.BLOCK_QUERY: {
+        const query = msg as BlockQueryMessage;
+        this.send(client.ws, {
+          type: MessageType.BLOCK_QUERY_RESPONSE,
+          fileId: query.fileId,
+          missing: await client.vault.storage.getMissingBlocks(query.blockIds.filter((id) => BLOCK_ID_PATTERN.test(id))),
+        });
+        break;
+      }
+      case MessageType.BLOCK_UPLOAD: {
+        // Store the block header; its data arrives in a BLOCK frame for this blockId
+        const block = msg as BlockUploadMessage;
+        client.pendingBlocks.set(block.blockId, block);
+        break;
+      }
+      case MessageType.BLOCK_DOWNLOAD:
+        await this.handleBlockDownload(client, msg as BlockDownloadMessage);
+        break;
+      case MessageType.VERSION_LIST:
+        await this.handleVersionList(client, msg as VersionListMessage);
+        break;
+      case MessageType.VERSION_DOWNLOAD:
+        await this.handleVersionDownload(client, msg as VersionDownloadMessage);
+        break;
+      case MessageType.TRASH_LIST:
+        await this.handleTrashList(client, msg as TrashListMessage);
+        break;
+      case MessageType.TRASH_RESTORE:
+        await this.handleTrashRestore(client, msg as TrashRestoreMessage);
+        break;
+      case MessageType.VAULT_KEY_INIT:
+        await this.handleVaultKeyInit(client, msg as VaultKeyInitMessage);
+        break;
+      case MessageType.PASSWORD_CHANGE:
+        await this.handlePasswordChange(client, msg as PasswordChangeMessage);
+        break;
+      case MessageType.RECOVERY_KEY_SET:
+        await this.handleRecoveryKeySet(client, msg as RecoveryKeySetMessage);
+        break;
+      case MessageType.KEY_ROTATION_BEGIN:
+        await this.handleKeyRotationBegin(client, msg as KeyRotationBeginMessage);
+        break;
+      case MessageType.KEY_ROTATION_COMMIT:
+        await this.handleKeyRotationCommit(client, msg as KeyRotationCommitMessage);
+        break;
+      case MessageType.KEY_ROTATION_ABORT:
+        await this.abortRotation(client);
         break;
       case MessageType.CLIENT_KICK:
-        this.handleClientKick(client, msg as ClientKickMessage);
+        await this.handleClientKick(client, msg as ClientKickMessage);
+        break;
+      case MessageType.DEVICE_APPROVE:
+        await this.handleDeviceApprove(client, msg as DeviceApproveMessage);
+        break;
+      case MessageType.PAIRING_BEGIN:
+        await this.handlePairingBegin(client, msg as PairingBeginMessage);
+        break;
+      case MessageType.PAIRING_CANCEL: {
+        const { pairingHash } = msg as PairingCancelMessage;
+        await client.vault.storage.dropPairings(client.clientId, String(pairingHash));
+        break;
+      }
+      case MessageType.SHARE_CREATE:
+        await this.handleShareCreate(client, msg as ShareCreateMessage);
+        break;
+      case MessageType.SHARE_MEMBER_KEYS:
+        await this.handleShareMemberKeys(client, msg as ShareMemberKeysMessage);
+        break;
+      case MessageType.SHARE_INVITE:
+        await this.handleShareInvite(client, msg as ShareInviteMessage);
+        break;
+      case MessageType.SHARE_ACCEPT:
+        await this.handleShareAccept(client, msg as ShareAcceptMessage);
+        break;
+      case MessageType.SHARE_REMOVE:
+        await this.handleShareRemove(client, msg as ShareRemoveMessage);
+        break;
+      case MessageType.SHARE_LIST:
+        await this.sendShareList(client);
         break;
       case MessageType.PING:
         this.send(client.ws, { type: MessageType.PONG, timestamp: Date.now() });
@@ -237,25 +461,66 @@ export class SyncWebSocketServer {
     }
   }
 
-  private handleBinaryMessage(client: ConnectedClient, data: Buffer): void {
+  private async handleBinaryMessage(client: ConnectedClient, data: Buffer): Promise<void> {
     if (!this.acceptingConnections) {
       try { client.ws.close(1012, "Server reset"); } catch {}
       return;
     }
-    if (!client.authenticated || !client.pendingUpload) {
+    if (!client.authenticated || !client.trusted) return;
+
+    // Match the frame to its header message by the kind and id in the frame header
+    const frame = decodeBinaryFrame(data);
+    if (!frame) {
+      console.warn(`[WS] Dropped malformed binary frame from ${client.deviceName}`);
       return;
     }
+    const payload = Buffer.from(frame.payload.buffer, frame.payload.byteOffset, frame.payload.byteLength);
+
+    switch (frame.kind) {
+      case BinaryFrameKind.FILE: {
+        const upload = client.pendingUploads.get(frame.id);
+        if (!upload) break;
+        client.pendingUploads.delete(frame.id);
+        const storage = await this.fileStorage(client, upload.shareId, true);
+        if (!storage) {
+          const error = (await this.fileStorage(client, upload.shareId)) ? SHARE_READ_ONLY : NO_SHARE_ACCESS;
+          this.send(client.ws, { type: MessageType.FILE_UPLOAD_ACK, fileId: upload.fileId, sequence: 0, error, shareId: upload.shareId });
+          return;
+        }
+        if (!upload.shareId && (await this.rejectDuringRotation(client, upload))) return;
+        // A shared folder's files count towards its owner's quota
+        const owner = upload.shareId ? await this.vaults.get(await this.vaults.shares.getOwner(upload.shareId)) : null;
+        const put = !owner || (await owner.storage.fitsQuota(payload.length - (await storage.getLiveBytes(upload.fileId))))
+          ? await storage.putFile(upload.fileId, upload.encryptedMeta, upload.mtime, upload.size, payload)
+          : null;
+        if (put) await this.announceUpload(client, upload, put);
+        else this.rejectOverQuota(client, upload);
+        return;
+      }
+      case BinaryFrameKind.CHUNK: {
+        const chunk = client.pendingChunks.get(frame.id);
+        if (!chunk) break;
+        client.pendingChunks.delete(frame.id);
+        await this.handleChunkData(client, chunk, payload);
+        return;
+      }
+      case BinaryFrameKind.BLOCK: {
+        const block = client.pendingBlocks.get(frame.id);
+        if (!block) break;
+        client.pendingBlocks.delete(frame.id);
+        await this.handleBlockData(client, block, payload);
+        return;
+      }
+    }
+    console.warn(`[WS] Dropped binary frame without a matching header from ${client.deviceName}: ${frame.id}`);
+  }
 
-    const upload = client.pendingUpload;
-    client.pendingUpload = null;
-
-    const put = this.storage.putFile(
-      upload.fileId,
-      upload.encryptedMeta,
-      upload.mtime,
-      upload.size,
-      data
-    );
+  /** ACK a stored upload to its sender, broadcast it to other clients and log it. */
+  private async announceUpload(
+    client: ConnectedClient,
+    upload: { fileId: string; encryptedMeta: string; mtime: number; size: number; versionTag?: string; shareId?: string },
+    put: { sequence: number; isNew: boolean }
+  ): Promise<void> {
     const sequence = put.sequence;
 
     // ACK to uploader
@@ -263,35 +528,36 @@ export class SyncWebSocketServer {
       type: MessageType.FILE_UPLOAD_ACK,
       fileId: upload.fileId,
       sequence,
+      versionTag: upload.versionTag,
+      shareId: upload.shareId,
     });
 
+    // Staged for a key rotation — nothing is live until the rotation commits
+    if (!upload.shareId && client.vault.storage.rotatingClientId() === client.clientId) return;
+
     // Broadcast to other authenticated clients
-    for (const [ws, other] of this.clients) {
-      if (
-        other.authenticated &&
-        other.clientId !== client.clientId &&
-        ws.readyState === WebSocket.OPEN
-      ) {
-        this.send(ws, {
-          type: MessageType.FILE_CHANGED,
-          fileId: upload.fileId,
-          encryptedMeta: upload.encryptedMeta,
-          mtime: upload.mtime,
-          size: upload.size,
-          sequence,
-          sourceClientId: client.clientId,
-        });
-      }
+    for (const other of await this.fileRecipients(client, upload.shareId)) {
+      this.send(other.ws, {
+        type: MessageType.FILE_CHANGED,
+        fileId: upload.fileId,
+        encryptedMeta: upload.encryptedMeta,
+        mtime: upload.mtime,
+        size: upload.size,
+        sequence,
+        sourceClientId: client.clientId,
+        shareId: upload.shareId,
+      });
     }
 
     // Log and broadcast to UI
     const logType = put.isNew ? "create" : "upload";
-    this.storage.appendLog(
+    await client.vault.storage.appendLog(
       logType,
-      `${client.deviceName} synced ${upload.fileId.substring(0, 8)}... (${fmtSize(upload.size)})`,
+      `${client.deviceName} synced ${upload.fileId.substring(0, 8)}... (${fmtSize(upload.size)})${upload.shareId ? " to a shared folder" : ""}`,
       Date.now()
     );
     this.broadcastUIEvent("file_changed", {
+      vaultId: client.vault.id,
       fileId: upload.fileId,
       size: upload.size,
       clientId: client.clientId,
@@ -305,8 +571,36 @@ export class SyncWebSocketServer {
     );
   }
 
-  private handleAuth(client: ConnectedClient, msg: AuthMessage): void {
-    if (!this.auth.isInitialized()) {
+  /** NACK an upload that doesn't fit into the vault's storage quota (the owner's, for a shared folder). */
+  private rejectOverQuota(client: ConnectedClient, upload: { fileId: string; size: number; versionTag?: string; shareId?: string }): void {
+    this.send(client.ws, { type: MessageType.FILE_UPLOAD_ACK, fileId: upload.fileId, sequence: 0, error: QUOTA_EXCEEDED, versionTag: upload.versionTag, shareId: upload.shareId });
+    console.warn(`[WS] Upload of ${upload.fileId.substring(0, 8)}... (${fmtSize(upload.size)}) by ${client.deviceName} refused: quota of vault "${client.vault.id}" is full`);
+  }
+
+  /**
+   * NACK a change to the vault while another client rotates its key, e.g. through another
+   * server instance; the rotating client's own uploads are staged. True if it was refused.
+   */
+  private async rejectDuringRotation(client: ConnectedClient, upload: { fileId: string; versionTag?: string }): Promise<boolean> {
+    const storage = client.vault.storage;
+    if (storage.rotatingClientId() === client.clientId || !(await storage.isRotating())) return false;
+    this.send(client.ws, { type: MessageType.FILE_UPLOAD_ACK, fileId: upload.fileId, sequence: 0, error: ROTATION_IN_PROGRESS, versionTag: upload.versionTag });
+    return true;
+  }
+
+  private async handleAuth(client: ConnectedClient, msg: AuthMessage): Promise<void> {
+    const vault = await this.vaults.get(msg.vaultId);
+    if (!vault) {
+      this.send(client.ws, {
+        type: MessageType.AUTH_FAIL,
+        reason: `This server has no vault named "${String(msg.vaultId)}"`,
+      });
+      client.ws.close(4404, "Unknown vault");
+      return;
+    }
+    client.vault = vault;
+
+    if (!(await vault.auth.isInitialized())) {
       this.send(client.ws, {
         type: MessageType.AUTH_FAIL,
         reason: "Server not initialized",
@@ -325,12 +619,21 @@ export class SyncWebSocketServer {
       return;
     }
 
+    // Nobody else may sync while the vault is re-encrypted under a new key
+    if (await vault.storage.isRotating()) {
+      this.send(client.ws, { type: MessageType.AUTH_FAIL, reason: ROTATION_IN_PROGRESS });
+      client.ws.close(4006, "Vault key rotation in progress");
+      return;
+    }
+
     let authenticatedClientId = msg.clientId;
     let authenticatedDeviceName = msg.deviceName;
+    let pairedBy: { clientId: string; readOnly: boolean } | null = null;
+    let readOnly = msg.readOnly === true;
 
     // Try token auth first, then password auth
     if (msg.authToken) {
-      const session = this.auth.validateToken(msg.authToken, this.storage);
+      const session = await vault.auth.validateToken(msg.authToken);
       if (!session) {
         this.send(client.ws, {
           type: MessageType.AUTH_FAIL,
@@ -340,8 +643,11 @@ export class SyncWebSocketServer {
       }
       authenticatedClientId = session.clientId;
       authenticatedDeviceName = session.deviceName;
-    } else if (msg.passwordHash) {
-      const result = this.auth.verify(msg.passwordHash, client.ip);
+      readOnly = session.readOnly;
+    } else if (msg.passwordHash || msg.recoveryHash) {
+      const result = msg.passwordHash
+        ? await vault.auth.verify(msg.passwordHash, client.ip)
+        : await vault.auth.verifyRecovery(msg.recoveryHash!, client.ip);
       if (!result.ok) {
         this.send(client.ws, {
           type: MessageType.AUTH_FAIL,
@@ -349,6 +655,16 @@ export class SyncWebSocketServer {
         });
         return;
       }
+    } else if (msg.pairingHash) {
+      // Single use: a wrong proof still burns the code
+      pairedBy = await vault.storage.claimPairing(String(msg.pairingHash));
+      if (!pairedBy || typeof msg.pairingProof !== "string" || !/^[0-9a-f]{64}$/.test(msg.pairingProof)) {
+        this.send(client.ws, {
+          type: MessageType.AUTH_FAIL,
+          reason: "This pairing code is invalid or has expired",
+        });
+        return;
+      }
     } else {
       this.send(client.ws, {
         type: MessageType.AUTH_FAIL,
@@ -357,18 +673,46 @@ export class SyncWebSocketServer {
       return;
     }
 
+    // The device proves it holds its device key; a new key is trusted only when signing in
+    // with a token (devices from before device keys), the recovery phrase, or a password
+    // before any device is enrolled. Otherwise a trusted device has to approve it — with a
+    // pairing code, the device that showed the code does so.
+    if (!this.verifyDeviceProof(client, msg.devicePublicKey, msg.deviceProof)) {
+      this.send(client.ws, { type: MessageType.AUTH_FAIL, reason: "Invalid device key" });
+      return;
+    }
+    const device = await vault.storage.getDevice(authenticatedClientId);
+    if (device && device.publicKey !== msg.devicePublicKey) {
+      this.send(client.ws, { type: MessageType.AUTH_FAIL, reason: "This device is registered with a different device key" });
+      return;
+    }
+    // A device that is read-only on the server, or paired by a read-only device, cannot sign
+    // its way out of it; asking for read-only (see AuthMessage.readOnly) only affects the token
+    const forcedReadOnly = !!device?.readOnly || !!pairedBy?.readOnly;
+    readOnly ||= forcedReadOnly;
+    let trusted = device?.trusted ?? false;
+    if (!device || (!trusted && msg.recoveryHash)) {
+      trusted = !!msg.authToken || !!msg.recoveryHash || (!pairedBy && !(await vault.storage.hasEnrolledDevices()));
+      await vault.storage.registerDevice(authenticatedClientId, msg.devicePublicKey, trusted, forcedReadOnly);
+    } else if (forcedReadOnly && !device.readOnly) {
+      await vault.storage.setDeviceReadOnly(authenticatedClientId, true);
+    }
+
     // Authentication successful
     client.authenticated = true;
+    client.trusted = trusted;
+    client.readOnly = readOnly;
     client.clientId = authenticatedClientId;
     client.deviceName = authenticatedDeviceName;
 
     // Get or create vault salt
-    let vaultSalt: string = this.storage.getVaultSalt() ?? "";
+    let vaultSalt: string = (await vault.storage.getVaultSalt()) ?? "";
     if (!vaultSalt) {
-      const saltBytes = require("crypto").randomBytes(32);
+      const saltBytes = crypto.randomBytes(32);
       vaultSalt = saltBytes.toString("base64");
-      this.storage.setVaultSalt(vaultSalt);
+      await vault.storage.setVaultSalt(vaultSalt);
     }
+    const wrappedKeys = await vault.storage.getWrappedKeys();
 
     // Generate a new token (or reuse existing if token auth was used)
     let authToken: string;
@@ -376,44 +720,272 @@ export class SyncWebSocketServer {
       authToken = msg.authToken;
     } else {
       // Revoke old tokens for this client, then create a new one
-      this.storage.revokeTokenByClientId(authenticatedClientId);
-      authToken = this.auth.generateToken();
-      this.storage.createToken(authToken, authenticatedClientId, authenticatedDeviceName, client.ip);
+      await vault.storage.revokeTokenByClientId(authenticatedClientId);
+      authToken = vault.auth.generateToken();
+      await vault.storage.createToken(authToken, authenticatedClientId, authenticatedDeviceName, client.ip, readOnly);
     }
 
     this.send(client.ws, {
       type: MessageType.AUTH_OK,
       serverId: this.config.serverId,
       vaultSalt,
+      kdf: await vault.storage.getKdfParams(),
+      wrappedKeys: trusted ? wrappedKeys : {},
+      legacyKey: trusted && Object.keys(wrappedKeys).length === 0 && (await vault.storage.hasEncryptedData()),
       authToken,
+      trusted,
+      deviceKey: trusted ? device?.deviceKey ?? null : null,
+      readOnly,
     });
 
     // Persist session for device history
-    this.storage.upsertClientSession(client.clientId, client.deviceName, client.ip);
+    await vault.storage.upsertClientSession(client.clientId, client.deviceName, client.ip);
 
-    console.log(`[WS] Client authenticated: ${client.deviceName} (${client.clientId})`);
+    const where = vault === this.vaults.defaultVault ? "" : ` to vault "${vault.id}"`;
+    console.log(`[WS] Client authenticated${where}: ${client.deviceName} (${client.clientId})${trusted ? "" : ", awaiting approval"}${readOnly ? ", read-only" : ""}`);
 
-    this.storage.appendLog("connect", `${client.deviceName} connected from ${client.ip}`, Date.now());
+    await vault.storage.appendLog("connect", `${client.deviceName} connected from ${client.ip}`, Date.now());
     this.broadcastUIEvent("client_connected", {
+      vaultId: client.vault.id,
       clientId: client.clientId,
       deviceName: client.deviceName,
       ip: client.ip,
+      readOnly,
     });
 
     // Push updated client list to all authenticated clients
-    this.broadcastClientList();
+    await this.broadcastClientList(vault);
+
+    // The device that showed the code may be connected to another server instance; the claim
+    // waits in the database until the instance it is connected to delivers it
+    if (pairedBy && !trusted) {
+      const claimed: PairingClaimedMessage = {
+        type: MessageType.PAIRING_CLAIMED,
+        pairingHash: msg.pairingHash!,
+        clientId: client.clientId,
+        deviceName: client.deviceName,
+        devicePublicKey: msg.devicePublicKey,
+        pairingProof: msg.pairingProof!,
+      };
+      await vault.storage.setPairingClaim(msg.pairingHash!, JSON.stringify(claimed));
+      await this.deliverPairingClaims(vault);
+    }
   }
 
-  private handleClientKick(sender: ConnectedClient, msg: ClientKickMessage): void {
+  /**
+   * Refuse anything but downloads and listings from a read-only session, with READ_ONLY_SESSION
+   * in the response the sender waits for. False if the message is one of READ_ONLY_MESSAGES and
+   * may be handled as usual.
+   */
+  private async rejectReadOnly(client: ConnectedClient, msg: ProtocolMessage): Promise<boolean> {
+    if (READ_ONLY_MESSAGES.has(msg.type)) return false;
+    const error = READ_ONLY_SESSION;
+    switch (msg.type) {
+      case MessageType.FILE_UPLOAD:
+      case MessageType.FILE_DELETE: {
+        const { fileId, shareId } = msg as FileUploadMessage | FileDeleteMessage;
+        this.send(client.ws, { type: MessageType.FILE_UPLOAD_ACK, fileId, sequence: 0, error, shareId });
+        break;
+      }
+      case MessageType.CHUNK_UPLOAD_BEGIN:
+      case MessageType.CHUNK_UPLOAD:
+        this.send(client.ws, { type: MessageType.CHUNK_UPLOAD_ACK, uploadId: (msg as ChunkUploadBeginMessage | ChunkUploadMessage).uploadId, offset: 0, error });
+        break;
+      case MessageType.BLOCK_UPLOAD:
+        this.send(client.ws, { type: MessageType.BLOCK_UPLOAD_ACK, blockId: (msg as BlockUploadMessage).blockId, error });
+        break;
+      case MessageType.TRASH_RESTORE: {
+        const { fileId, shareId } = msg as TrashRestoreMessage;
+        this.send(client.ws, { type: MessageType.TRASH_RESTORE_RESPONSE, fileId, sequence: 0, error, shareId });
+        break;
+      }
+      case MessageType.VAULT_KEY_INIT:
+        // No error field: the sender gets the vault's keys unchanged, as if another client had won
+        await this.sendVaultKeys(client);
+        break;
+      case MessageType.PASSWORD_CHANGE:
+        this.send(client.ws, { type: MessageType.PASSWORD_CHANGE_RESPONSE, authToken: "", error });
+        break;
+      case MessageType.RECOVERY_KEY_SET:
+        this.send(client.ws, { type: MessageType.RECOVERY_KEY_SET_RESPONSE, error });
+        break;
+      case MessageType.KEY_ROTATION_BEGIN:
+        this.send(client.ws, { type: MessageType.KEY_ROTATION_READY, error });
+        break;
+      case MessageType.KEY_ROTATION_COMMIT:
+        this.send(client.ws, { type: MessageType.KEY_ROTATION_DONE, authToken: "", error });
+        break;
+      case MessageType.SHARE_CREATE:
+      case MessageType.SHARE_INVITE:
+      case MessageType.SHARE_ACCEPT:
+      case MessageType.SHARE_REMOVE:
+        this.send(client.ws, { type: MessageType.SHARE_RESPONSE, shareId: (msg as ShareCreateMessage | ShareInviteMessage | ShareAcceptMessage | ShareRemoveMessage).shareId, error });
+        break;
+      case MessageType.SHARE_MEMBER_KEYS: {
+        const { shareId, vaultId } = msg as ShareMemberKeysMessage;
+        this.send(client.ws, { type: MessageType.SHARE_MEMBER_KEYS_RESPONSE, shareId, vaultId, devices: [], error });
+        break;
+      }
+      // Everything else (e.g. CLIENT_KICK) has no response to carry the error
+    }
+    console.warn(`[WS] ${msg.type} from read-only device ${client.deviceName} refused`);
+    return true;
+  }
+
+  /** Store the vault's first data key; every client gets back whichever key won. */
+  private async handleVaultKeyInit(client: ConnectedClient, msg: VaultKeyInitMessage): Promise<void> {
+    if (isValidVaultSalt(msg.vaultSalt) && isValidKdfParams(msg.kdf) && WRAPPED_KEY_PATTERN.test(msg.wrappedKey)
+      && client.vault.auth.isValidPasswordHash(msg.passwordHash)
+      && (await client.vault.storage.initDataKey(msg.vaultSalt, msg.kdf, msg.wrappedKey, msg.passwordHash))) {
+      console.log(`[WS] Vault data key created by ${client.deviceName}`);
+    }
+    await this.sendVaultKeys(client);
+  }
+
+  private async sendVaultKeys(client: ConnectedClient): Promise<void> {
+    this.send(client.ws, {
+      type: MessageType.VAULT_KEY_INIT_RESPONSE,
+      vaultSalt: (await client.vault.storage.getVaultSalt()) ?? "",
+      kdf: await client.vault.storage.getKdfParams(),
+      wrappedKeys: await client.vault.storage.getWrappedKeys(),
+    });
+  }
+
+  /**
+   * Re-wrap the data key under a new password and sign out every other client.
+   * The recovery phrase may stand in for the current password. With keepSessions the
+   * password stays the same and only its key derivation changes, so nobody is signed out.
+   */
+  private async handlePasswordChange(client: ConnectedClient, msg: PasswordChangeMessage): Promise<void> {
+    const fail = (error: string) => this.send(client.ws, { type: MessageType.PASSWORD_CHANGE_RESPONSE, authToken: "", error });
+    if (await client.vault.storage.isRotating()) return fail(ROTATION_IN_PROGRESS);
+
+    const check = msg.passwordHash
+      ? await client.vault.auth.verify(msg.passwordHash, client.ip)
+      : await client.vault.auth.verifyRecovery(msg.recoveryHash ?? "", client.ip);
+    if (!check.ok) return fail(check.reason || "Authentication failed");
+    if (!client.vault.auth.isValidPasswordHash(msg.newPasswordHash) || !isValidVaultSalt(msg.newVaultSalt)
+      || !isValidKdfParams(msg.kdf) || !WRAPPED_KEY_PATTERN.test(msg.wrappedKey)) {
+      return fail("Invalid new password hash, vault salt, KDF parameters or wrapped key");
+    }
+
+    // Sessions survive only the upgrade to Argon2id a device makes right after signing in with
+    // the current password; any other change, or one made with the recovery proof, signs out
+    // every other device
+    const currentKdf = await client.vault.storage.getKdfParams();
+    const kdfUpgrade = !!msg.keepSessions && !!msg.passwordHash && currentKdf?.algorithm !== "argon2id" && msg.kdf.algorithm === "argon2id";
+    if (kdfUpgrade) {
+      await client.vault.storage.changePassword(msg.newPasswordHash, msg.newVaultSalt, msg.kdf, msg.wrappedKey, true);
+      this.send(client.ws, { type: MessageType.PASSWORD_CHANGE_RESPONSE, authToken: "" });
+      console.log(`[WS] Key derivation upgraded to ${msg.kdf.algorithm} by ${client.deviceName}`);
+      return;
+    }
+
+    await client.vault.storage.changePassword(msg.newPasswordHash, msg.newVaultSalt, msg.kdf, msg.wrappedKey);
+    for (const [ws, other] of this.clients) {
+      if (other === client || !other.authenticated || other.vault !== client.vault) continue;
+      this.send(ws, { type: MessageType.AUTH_FAIL, reason: "Session revoked" });
+      ws.close(4005, "Password changed");
+    }
+
+    const authToken = client.vault.auth.generateToken();
+    await client.vault.storage.createToken(authToken, client.clientId, client.deviceName, client.ip);
+    this.send(client.ws, { type: MessageType.PASSWORD_CHANGE_RESPONSE, authToken });
+
+    await client.vault.storage.appendLog("kick", `${client.deviceName} changed the vault password — other devices must sign in again`, Date.now());
+    console.log(`[WS] Vault password changed by ${client.deviceName}`);
+  }
+
+  /** Store a new recovery key, replacing the previous one. */
+  private async handleRecoveryKeySet(client: ConnectedClient, msg: RecoveryKeySetMessage): Promise<void> {
+    const fail = (error: string) => this.send(client.ws, { type: MessageType.RECOVERY_KEY_SET_RESPONSE, error });
+    if (await client.vault.storage.isRotating()) return fail(ROTATION_IN_PROGRESS);
+
+    const check = await client.vault.auth.verify(msg.passwordHash, client.ip);
+    if (!check.ok) return fail(check.reason || "Authentication failed");
+    if (!client.vault.auth.isValidPasswordHash(msg.recoveryHash) || !WRAPPED_KEY_PATTERN.test(msg.wrappedKey)) {
+      return fail("Invalid recovery proof or wrapped key");
+    }
+
+    await client.vault.storage.setRecoveryKey(msg.recoveryHash, msg.wrappedKey);
+    this.send(client.ws, { type: MessageType.RECOVERY_KEY_SET_RESPONSE });
+
+    await client.vault.storage.appendLog("kick", `${client.deviceName} created a new recovery kit`, Date.now());
+    console.log(`[WS] Recovery key set by ${client.deviceName}`);
+  }
+
+  /** Start a vault key rotation: sign out every other client and stage this one's uploads. */
+  private async handleKeyRotationBegin(client: ConnectedClient, msg: KeyRotationBeginMessage): Promise<void> {
+    const fail = (error: string) => this.send(client.ws, { type: MessageType.KEY_ROTATION_READY, error });
+    if (await client.vault.storage.isRotating()) return fail(ROTATION_IN_PROGRESS);
+
+    const check = await client.vault.auth.verify(msg.passwordHash, client.ip);
+    if (!check.ok) return fail(check.reason || "Authentication failed");
+    if (!WRAPPED_KEY_PATTERN.test(msg.wrappedKey)) return fail("Invalid wrapped key");
+
+    // Clients connected to other server instances are signed out by kickRotatedClients
+    if (!(await client.vault.storage.beginRotation(client.clientId, msg.wrappedKey))) return fail(ROTATION_IN_PROGRESS);
+    for (const [ws, other] of this.clients) {
+      if (other === client || !other.authenticated || other.vault !== client.vault) continue;
+      this.send(ws, { type: MessageType.AUTH_FAIL, reason: ROTATION_IN_PROGRESS });
+      ws.close(4006, "Vault key rotation in progress");
+    }
+
+    console.log(`[WS] Key rotation started by ${client.deviceName}`);
+    this.send(client.ws, { type: MessageType.KEY_ROTATION_READY });
+  }
+
+  /** Swap in the re-encrypted files and the new data key once every file is staged. */
+  private async handleKeyRotationCommit(client: ConnectedClient, msg: KeyRotationCommitMessage): Promise<void> {
+    const fail = (error: string) => this.send(client.ws, { type: MessageType.KEY_ROTATION_DONE, authToken: "", error });
+    if (client.vault.storage.rotatingClientId() !== client.clientId) return fail("No key rotation in progress");
+
+    const staged = new Set(await client.vault.storage.getStagedFileIds());
+    if (!Array.isArray(msg.fileIds) || staged.size !== msg.fileIds.length || !msg.fileIds.every((id) => staged.has(id))) {
+      return fail("Not every re-encrypted file reached the server");
+    }
+    if (!Array.isArray(msg.replacedFileIds) || !msg.replacedFileIds.every((id) => typeof id === "string")) return fail("Invalid file list");
+
+    // Folder keys left wrapped with the old data key could never be opened again
+    const shares = Array.isArray(msg.shares) ? msg.shares : [];
+    const accepted = new Set(await this.vaults.shares.acceptedBy(client.vault.id));
+    if (shares.length !== accepted.size || !shares.every((s) => accepted.has(s.shareId))) {
+      return fail("Not every shared folder was re-wrapped with the new key");
+    }
+    if (!shares.every((s) => WRAPPED_KEY_PATTERN.test(String(s.vaultKey)) && ENCRYPTED_TEXT_PATTERN.test(String(s.encryptedMount)))) {
+      return fail("Invalid folder key");
+    }
+
+    const count = await client.vault.storage.commitRotation(msg.replacedFileIds);
+    if (count === null) return fail("The re-encrypted files do not replace every file on the server");
+    await this.vaults.shares.rewrap(client.vault.id, shares);
+
+    // Every other session was revoked with the old key; the rotating client gets a fresh one
+    const authToken = client.vault.auth.generateToken();
+    await client.vault.storage.createToken(authToken, client.clientId, client.deviceName, client.ip);
+    this.send(client.ws, { type: MessageType.KEY_ROTATION_DONE, authToken });
+
+    await client.vault.storage.appendLog("kick", `${client.deviceName} rotated the vault key — other devices must sign in again`, Date.now());
+    console.log(`[WS] Key rotation by ${client.deviceName} committed (${count} files)`);
+  }
+
+  /** Drop a key rotation's staged files if this client started it. */
+  private async abortRotation(client: ConnectedClient): Promise<void> {
+    if (client.vault.storage.rotatingClientId() !== client.clientId) return;
+    await client.vault.storage.abortRotation();
+    console.log(`[WS] Key rotation by ${client.deviceName} aborted`);
+  }
+
+  private async handleClientKick(sender: ConnectedClient, msg: ClientKickMessage): Promise<void> {
     const targetClientId = msg.targetClientId;
 
     // Find the target client's WebSocket connection
     for (const [ws, client] of this.clients) {
-      if (client.clientId === targetClientId && client.authenticated) {
+      if (client.clientId === targetClientId && client.vault === sender.vault && client.authenticated) {
         // Revoke their token
-        this.auth.revokeToken(targetClientId, this.storage);
+        await sender.vault.auth.revokeToken(targetClientId);
         // Remove from device history
-        this.storage.deleteClientSession(targetClientId);
+        await sender.vault.storage.deleteClientSession(targetClientId);
         // Close their connection
         this.send(ws, {
           type: MessageType.AUTH_FAIL,
@@ -425,47 +997,246 @@ export class SyncWebSocketServer {
     }
 
     // Also revoke token for offline clients
-    this.auth.revokeToken(targetClientId, this.storage);
-    this.storage.deleteClientSession(targetClientId);
+    await sender.vault.auth.revokeToken(targetClientId);
+    await sender.vault.storage.deleteClientSession(targetClientId);
 
-    this.storage.appendLog("kick", `${sender.deviceName} kicked ${targetClientId}`, Date.now());
+    await sender.vault.storage.appendLog("kick", `${sender.deviceName} kicked ${targetClientId}`, Date.now());
     console.log(`[WS] Client ${targetClientId} kicked by ${sender.deviceName}`);
 
     // Ensure all clients see the updated list, even if target was offline.
-    this.broadcastClientList();
+    await this.broadcastClientList(sender.vault);
+  }
+
+  /**
+   * Trust a pending device. The data key encrypted to it goes to the device right away if it
+   * is online, and with AUTH_OK otherwise.
+   */
+  private async handleDeviceApprove(sender: ConnectedClient, msg: DeviceApproveMessage): Promise<void> {
+    const respond = (error?: string) =>
+      this.send(sender.ws, { type: MessageType.DEVICE_APPROVE_RESPONSE, clientId: msg.clientId, error });
+
+    if (typeof msg.deviceKey !== "string" || !DEVICE_KEY_PATTERN.test(msg.deviceKey)) return respond("Invalid device key");
+    // A device approved by a read-only device is read-only as well
+    if (!(await sender.vault.storage.approveDevice(msg.clientId, msg.deviceKey, sender.readOnly))) return respond("This device is not waiting for approval");
+
+    for (const [ws, client] of this.clients) {
+      if (client.clientId === msg.clientId && client.vault === sender.vault && client.authenticated) {
+        client.trusted = true;
+        client.readOnly ||= sender.readOnly;
+        this.send(ws, { type: MessageType.DEVICE_APPROVED, deviceKey: msg.deviceKey, readOnly: client.readOnly });
+      }
+    }
+
+    await sender.vault.storage.appendLog("connect", `${sender.deviceName} approved ${msg.clientId}`, Date.now());
+    console.log(`[WS] Device ${msg.clientId} approved by ${sender.deviceName}`);
+    respond();
+    await this.broadcastClientList(sender.vault);
+  }
+
+  /** Accept one sign-in with a pairing code shown by this client; each client has at most one open code. */
+  private async handlePairingBegin(client: ConnectedClient, msg: PairingBeginMessage): Promise<void> {
+    if (typeof msg.pairingHash !== "string" || !/^[0-9a-f]{64}$/.test(msg.pairingHash)) {
+      this.send(client.ws, { type: MessageType.PAIRING_BEGIN_RESPONSE, pairingHash: "", expiresAt: 0, error: "Invalid pairing code" });
+      return;
+    }
+    const expiresAt = Date.now() + PAIRING_TTL;
+    await client.vault.storage.openPairing(msg.pairingHash, client.clientId, client.readOnly, expiresAt);
+    console.log(`[WS] Pairing code created by ${client.deviceName}`);
+    this.send(client.ws, { type: MessageType.PAIRING_BEGIN_RESPONSE, pairingHash: msg.pairingHash, expiresAt });
+  }
+
+  /** Send the PAIRING_CLAIMED messages waiting for devices of a vault connected to this server instance. */
+  private async deliverPairingClaims(vault: Vault): Promise<void> {
+    for (const { pairingHash, clientId } of await vault.storage.getPairingClaims()) {
+      const shownBy = [...this.clients.values()].find((c) => c.authenticated && c.vault === vault && c.clientId === clientId && c.ws.readyState === WebSocket.OPEN);
+      if (!shownBy) continue;
+      const claim = await vault.storage.takePairingClaim(pairingHash);
+      if (claim) shownBy.ws.send(claim);
+    }
   }
 
-  /** Push CLIENT_LIST to all authenticated sync clients. */
-  private broadcastClientList(): void {
-    const sessions = this.storage.getClientSessions();
+  /** Whether the client holds the private key of devicePublicKey (ECDH with this connection's challenge key). */
+  private verifyDeviceProof(client: ConnectedClient, devicePublicKey: unknown, deviceProof: unknown): boolean {
+    if (typeof devicePublicKey !== "string" || !DEVICE_PUBLIC_KEY_PATTERN.test(devicePublicKey)) return false;
+    if (typeof deviceProof !== "string" || !/^[0-9a-f]{64}$/.test(deviceProof)) return false;
+    try {
+      const secret = client.challenge.computeSecret(Buffer.from(devicePublicKey, "base64"));
+      const expected = Buffer.from(crypto.hkdfSync("sha256", secret, Buffer.alloc(0), DEVICE_PROOF_INFO, 32));
+      return crypto.timingSafeEqual(expected, Buffer.from(deviceProof, "hex"));
+    } catch {
+      // Not a point on the curve
+      return false;
+    }
+  }
+
+  /**
+   * Storage a file message addresses: the client's vault, or the shared folder named by shareId.
+   * Null if the client's vault has no access to that folder (or, with `write`, may only read it).
+   */
+  private async fileStorage(client: ConnectedClient, shareId: string | undefined, write = false): Promise<Storage | null> {
+    if (shareId === undefined) return client.vault.storage;
+    if (!SHARE_ID_PATTERN.test(String(shareId))) return null;
+    const role = await this.vaults.shares.access(shareId, client.vault.id);
+    if (!role || (write && role === "read")) return null;
+    return this.vaults.shares.getStorage(shareId);
+  }
+
+  /** The other trusted clients a file change goes to: those of the vault, or of every vault in the shared folder. */
+  private async fileRecipients(client: ConnectedClient, shareId: string | undefined): Promise<ConnectedClient[]> {
+    const members = shareId === undefined ? null : await this.vaults.shares.memberVaultIds(shareId);
+    const recipients: ConnectedClient[] = [];
+    for (const [ws, other] of this.clients) {
+      if (!other.trusted || other.clientId === client.clientId || ws.readyState !== WebSocket.OPEN) continue;
+      if (members === null ? other.vault === client.vault : members.includes(other.vault.id)) {
+        recipients.push(other);
+      }
+    }
+    return recipients;
+  }
+
+  private async sendShareList(client: ConnectedClient): Promise<void> {
+    const publicKey = (await client.vault.storage.getDevice(client.clientId))?.publicKey ?? null;
+    this.send(client.ws, { type: MessageType.SHARE_LIST_RESPONSE, shares: await this.vaults.shares.listFor(client.vault.id, publicKey) });
+  }
+
+  /** Push SHARE_LIST_RESPONSE to the trusted clients of these vaults, e.g. after a member joined or left. */
+  async pushShareLists(vaultIds: string[]): Promise<void> {
+    for (const [, client] of this.clients) {
+      if (client.authenticated && client.trusted && vaultIds.includes(client.vault.id)) await this.sendShareList(client);
+    }
+  }
+
+  private async handleShareCreate(client: ConnectedClient, msg: ShareCreateMessage): Promise<void> {
+    const respond = (error?: string) => this.send(client.ws, { type: MessageType.SHARE_RESPONSE, shareId: msg.shareId, error });
+
+    if (typeof msg.shareId !== "string" || !SHARE_ID_PATTERN.test(msg.shareId)) return respond("Invalid share id");
+    if (typeof msg.vaultKey !== "string" || !WRAPPED_KEY_PATTERN.test(msg.vaultKey)) return respond("Invalid folder key");
+    if (!ENCRYPTED_TEXT_PATTERN.test(String(msg.encryptedName)) || !ENCRYPTED_TEXT_PATTERN.test(String(msg.encryptedMount))) {
+      return respond("Invalid folder name");
+    }
+    if (!(await this.vaults.shares.create(msg.shareId, client.vault.id, msg.encryptedName, msg.vaultKey, msg.encryptedMount))) {
+      return respond("This share id is taken");
+    }
+
+    await client.vault.storage.appendLog("connect", `${client.deviceName} shared a folder`, Date.now());
+    console.log(`[WS] Shared folder ${msg.shareId.substring(0, 8)}... created by ${client.deviceName} (vault "${client.vault.id}")`);
+    respond();
+    await this.pushShareLists([client.vault.id]);
+  }
+
+  /** Public keys of the trusted devices of a vault the owner wants to invite. */
+  private async handleShareMemberKeys(client: ConnectedClient, msg: ShareMemberKeysMessage): Promise<void> {
+    const respond = (devices: string[], error?: string) =>
+      this.send(client.ws, { type: MessageType.SHARE_MEMBER_KEYS_RESPONSE, shareId: msg.shareId, vaultId: msg.vaultId, devices, error });
+
+    if (!SHARE_ID_PATTERN.test(String(msg.shareId)) || (await this.vaults.shares.getOwner(msg.shareId)) !== client.vault.id) {
+      return respond([], "Only the owner can invite to a shared folder");
+    }
+    const member = isValidVaultId(msg.vaultId) ? await this.vaults.get(msg.vaultId) : null;
+    if (!member || !(await member.auth.isInitialized())) return respond([], `This server has no vault named "${String(msg.vaultId)}"`);
+    if (member === client.vault) return respond([], "A vault can't invite itself");
+    const devices = await member.storage.getTrustedDeviceKeys();
+    if (devices.length === 0) return respond([], `Vault "${member.id}" has no device that could accept the invitation`);
+    respond(devices);
+  }
+
+  private async handleShareInvite(client: ConnectedClient, msg: ShareInviteMessage): Promise<void> {
+    const respond = (error?: string) => this.send(client.ws, { type: MessageType.SHARE_RESPONSE, shareId: msg.shareId, error });
+
+    if (!SHARE_ID_PATTERN.test(String(msg.shareId)) || (await this.vaults.shares.getOwner(msg.shareId)) !== client.vault.id) {
+      return respond("Only the owner can invite to a shared folder");
+    }
+    const member = isValidVaultId(msg.vaultId) ? await this.vaults.get(msg.vaultId) : null;
+    if (!member || member === client.vault) return respond(`This server has no vault named "${String(msg.vaultId)}"`);
+    if (msg.role !== "read" && msg.role !== "write") return respond("Invalid role");
+    const deviceKeys = msg.deviceKeys && typeof msg.deviceKeys === "object" ? Object.entries(msg.deviceKeys) : [];
+    const valid = deviceKeys.every(([publicKey, deviceKey]) =>
+      DEVICE_PUBLIC_KEY_PATTERN.test(publicKey) && typeof deviceKey === "string" && DEVICE_KEY_PATTERN.test(deviceKey));
+    if (!valid || deviceKeys.length > 100) return respond("Invalid device keys");
+
+    await this.vaults.shares.invite(msg.shareId, member.id, msg.role, Object.fromEntries(deviceKeys));
+    await client.vault.storage.appendLog("connect", `${client.deviceName} shared a folder with "${member.id}" (${msg.role})`, Date.now());
+    console.log(`[WS] Vault "${member.id}" invited to shared folder ${msg.shareId.substring(0, 8)}... (${msg.role})`);
+    respond();
+    await this.pushShareLists(await this.vaults.shares.memberVaultIds(msg.shareId));
+  }
+
+  private async handleShareAccept(client: ConnectedClient, msg: ShareAcceptMessage): Promise<void> {
+    const respond = (error?: string) => this.send(client.ws, { type: MessageType.SHARE_RESPONSE, shareId: msg.shareId, error });
+
+    if (!SHARE_ID_PATTERN.test(String(msg.shareId))) return respond("Invalid share id");
+    if (typeof msg.vaultKey !== "string" || !WRAPPED_KEY_PATTERN.test(msg.vaultKey)) return respond("Invalid folder key");
+    if (!ENCRYPTED_TEXT_PATTERN.test(String(msg.encryptedMount))) return respond("Invalid folder path");
+    if (!(await this.vaults.shares.accept(msg.shareId, client.vault.id, msg.vaultKey, msg.encryptedMount))) {
+      return respond("This vault was not invited to the shared folder");
+    }
+
+    console.log(`[WS] Vault "${client.vault.id}" joined shared folder ${msg.shareId.substring(0, 8)}...`);
+    respond();
+    await this.pushShareLists(await this.vaults.shares.memberVaultIds(msg.shareId));
+  }
+
+  /** Remove a member; the owner leaving deletes the folder. */
+  private async handleShareRemove(client: ConnectedClient, msg: ShareRemoveMessage): Promise<void> {
+    const respond = (error?: string) => this.send(client.ws, { type: MessageType.SHARE_RESPONSE, shareId: msg.shareId, error });
+
+    const owner = SHARE_ID_PATTERN.test(String(msg.shareId)) ? await this.vaults.shares.getOwner(msg.shareId) : null;
+    const vaultId = msg.vaultId ?? client.vault.id;
+    if (!owner) return respond("This shared folder does not exist");
+    if (!isValidVaultId(vaultId)) return respond("Invalid vault id");
+    if (vaultId !== client.vault.id && owner !== client.vault.id) return respond("Only the owner can remove other members");
+
+    const affected = await this.vaults.shares.memberVaultIds(msg.shareId);
+    if (vaultId === owner) {
+      await this.vaults.shares.deleteShare(msg.shareId);
+      await client.vault.storage.appendLog("connect", `${client.deviceName} deleted a shared folder`, Date.now());
+      console.log(`[WS] Shared folder ${msg.shareId.substring(0, 8)}... deleted by ${client.deviceName}`);
+    } else {
+      await this.vaults.shares.removeMember(msg.shareId, vaultId);
+      console.log(`[WS] Vault "${vaultId}" removed from shared folder ${msg.shareId.substring(0, 8)}... by ${client.deviceName}`);
+    }
+    respond();
+    await this.pushShareLists(affected);
+  }
+
+  /** Push CLIENT_LIST to all authenticated sync clients of a vault. */
+  private async broadcastClientList(vault: Vault): Promise<void> {
+    const sessions = await vault.storage.getClientSessions();
     const msg: ProtocolMessage = {
       type: MessageType.CLIENT_LIST,
       clients: sessions,
     };
 
     for (const [ws, client] of this.clients) {
-      if (client.authenticated && ws.readyState === WebSocket.OPEN) {
+      if (client.authenticated && client.vault === vault && ws.readyState === WebSocket.OPEN) {
         this.send(ws, msg);
       }
     }
   }
 
-  private handleSyncRequest(
+  private async handleSyncRequest(
     client: ConnectedClient,
     msg: SyncRequestMessage
-  ): void {
+  ): Promise<void> {
+    const storage = await this.fileStorage(client, msg.shareId);
+    if (!storage) {
+      console.warn(`[WS] ${client.deviceName} asked to sync shared folder ${String(msg.shareId)} without access`);
+      return;
+    }
     if (msg.lastSequence === 0) {
       // Full sync
-      const manifest = this.storage.getManifest();
+      const manifest = await storage.getManifest();
       this.send(client.ws, {
         type: MessageType.SYNC_RESPONSE,
         entries: manifest.entries,
         currentSequence: manifest.sequence,
         fullSync: true,
+        shareId: msg.shareId,
       });
     } else {
-      // Incremental sync
-      const changes = this.storage.getChangesSince(msg.lastSequence);
+      // Incremental sync; the sequence first, as with the manifest
+      const currentSequence = await storage.getCurrentSequence();
+      const changes = (await storage.getChangesSince(msg.lastSequence)).filter((c) => c.sequence <= currentSequence);
       this.send(client.ws, {
         type: MessageType.SYNC_RESPONSE,
         entries: changes.map((c) => ({
@@ -475,32 +1246,210 @@ export class SyncWebSocketServer {
           size: c.size,
           deleted: c.deleted,
         })),
-        currentSequence: this.storage.getCurrentSequence(),
+        currentSequence,
         fullSync: false,
+        shareId: msg.shareId,
       });
     }
   }
 
-  private handleFileUploadHeader(
+  private async handleFileUploadHeader(
     client: ConnectedClient,
     msg: FileUploadMessage
-  ): void {
-    // Store the upload header; binary data arrives in the next frame
-    client.pendingUpload = msg;
+  ): Promise<void> {
+    if (msg.shareId !== undefined) {
+      // Files of shared folders are single blobs, checked again when the blob arrives
+      const role = (await this.fileStorage(client, msg.shareId)) && (await this.vaults.shares.access(msg.shareId, client.vault.id));
+      const error = !role ? NO_SHARE_ACCESS : role === "read" ? SHARE_READ_ONLY : msg.blocks ? "Shared folders take no block uploads" : null;
+      if (error) {
+        this.send(client.ws, { type: MessageType.FILE_UPLOAD_ACK, fileId: msg.fileId, sequence: 0, error, shareId: msg.shareId });
+        return;
+      }
+    }
+    if (!msg.blocks) {
+      // Store the upload header; the blob arrives in a FILE frame for this fileId
+      client.pendingUploads.set(msg.fileId, msg);
+      return;
+    }
+
+    // Block-list upload: the blocks were sent beforehand, no binary frame follows
+    if (await this.rejectDuringRotation(client, msg)) return;
+    const storage = client.vault.storage;
+    const respond = (error: string) =>
+      this.send(client.ws, { type: MessageType.FILE_UPLOAD_ACK, fileId: msg.fileId, sequence: 0, error, versionTag: msg.versionTag });
+    if (msg.versionTag !== undefined && !VERSION_TAG_PATTERN.test(msg.versionTag)) {
+      respond("Invalid version tag");
+      return;
+    }
+    // A delta only applies to the version it was made against; rotations re-upload in full
+    if (msg.baseTag !== undefined && (msg.baseTag !== (await storage.getVersionTag(msg.fileId)) || storage.rotatingClientId() !== null)) {
+      respond(DELTA_BASE_MISMATCH);
+      return;
+    }
+    if (!msg.blocks.every((id) => BLOCK_ID_PATTERN.test(id)) || (await storage.getMissingBlocks(msg.blocks)).length > 0) {
+      respond("Missing or invalid blocks");
+      return;
+    }
+    // The blocks counted towards the quota when they were uploaded; only the block list is new
+    const put = await storage.putBlockFile(msg.fileId, msg.encryptedMeta, msg.mtime, msg.size, msg.blocks, msg.versionTag ?? null);
+    if (put) await this.announceUpload(client, msg, put);
+    else this.rejectOverQuota(client, msg);
+  }
+
+  private async handleBlockData(client: ConnectedClient, msg: BlockUploadMessage, data: Buffer): Promise<void> {
+    if (!BLOCK_ID_PATTERN.test(msg.blockId)) {
+      this.send(client.ws, { type: MessageType.BLOCK_UPLOAD_ACK, blockId: msg.blockId, error: "Invalid block id" });
+      return;
+    }
+    if (!(await client.vault.storage.fitsQuota(data.length))) {
+      this.send(client.ws, { type: MessageType.BLOCK_UPLOAD_ACK, blockId: msg.blockId, error: QUOTA_EXCEEDED });
+      return;
+    }
+    await client.vault.storage.putBlock(msg.blockId, data);
+    this.send(client.ws, { type: MessageType.BLOCK_UPLOAD_ACK, blockId: msg.blockId });
+  }
+
+  private async handleBlockDownload(client: ConnectedClient, msg: BlockDownloadMessage): Promise<void> {
+    const block = BLOCK_ID_PATTERN.test(msg.blockId) ? await client.vault.storage.getBlock(msg.blockId) : null;
+    if (!block) {
+      this.send(client.ws, { type: MessageType.BLOCK_DOWNLOAD_RESPONSE, blockId: msg.blockId, error: "Block not found" });
+      return;
+    }
+    // Header text frame, then the encrypted block as binary frame
+    this.send(client.ws, { type: MessageType.BLOCK_DOWNLOAD_RESPONSE, blockId: msg.blockId });
+    this.sendBinary(client.ws, BinaryFrameKind.BLOCK, msg.blockId, block);
+  }
+
+  private async handleChunkUploadBegin(client: ConnectedClient, msg: ChunkUploadBeginMessage): Promise<void> {
+    if (!UPLOAD_ID_PATTERN.test(msg.uploadId)) {
+      this.send(client.ws, { type: MessageType.CHUNK_UPLOAD_ACK, uploadId: msg.uploadId, offset: 0, error: "Invalid upload id" });
+      return;
+    }
+    if (!Number.isSafeInteger(msg.encryptedSize) || msg.encryptedSize <= 0) {
+      this.send(client.ws, { type: MessageType.CHUNK_UPLOAD_ACK, uploadId: msg.uploadId, offset: 0, error: "Invalid upload size" });
+      return;
+    }
+    // The blob that will be stored, less the copy it replaces, has to fit into what is left
+    if (!(await client.vault.storage.fitsQuota(msg.encryptedSize - (await client.vault.storage.getLiveBytes(msg.fileId))))) {
+      this.send(client.ws, { type: MessageType.CHUNK_UPLOAD_ACK, uploadId: msg.uploadId, offset: 0, error: QUOTA_EXCEEDED });
+      console.warn(`[WS] Upload of ${msg.fileId.substring(0, 8)}... (${fmtSize(msg.encryptedSize)}) by ${client.deviceName} refused: quota of vault "${client.vault.id}" is full`);
+      return;
+    }
+    let offset = client.vault.storage.getUploadOffset(msg.uploadId);
+    if (offset > msg.encryptedSize) {
+      client.vault.storage.discardUpload(msg.uploadId);
+      offset = 0;
+    }
+    client.chunkUploads.set(msg.uploadId, msg);
+    this.send(client.ws, { type: MessageType.CHUNK_UPLOAD_READY, uploadId: msg.uploadId, offset });
+    if (offset > 0) {
+      console.log(`[WS] Resuming upload of ${msg.fileId.substring(0, 8)}... at ${fmtSize(offset)} for ${client.deviceName}`);
+    }
   }
 
-  private handleFileDownload(
+  private async handleChunkData(client: ConnectedClient, chunk: ChunkUploadMessage, data: Buffer): Promise<void> {
+    const upload = client.chunkUploads.get(chunk.uploadId);
+    if (!upload) {
+      this.send(client.ws, { type: MessageType.CHUNK_UPLOAD_ACK, uploadId: chunk.uploadId, offset: 0, error: "Unknown upload" });
+      return;
+    }
+
+    // Nothing beyond the announced size is written: the quota was checked against it
+    if (chunk.offset + data.length > upload.encryptedSize) {
+      client.chunkUploads.delete(chunk.uploadId);
+      client.vault.storage.discardUpload(chunk.uploadId);
+      this.send(client.ws, { type: MessageType.CHUNK_UPLOAD_ACK, uploadId: chunk.uploadId, offset: 0, error: "Upload exceeds announced size" });
+      return;
+    }
+    const offset = client.vault.storage.appendUploadChunk(chunk.uploadId, chunk.offset, data);
+    this.send(client.ws, { type: MessageType.CHUNK_UPLOAD_ACK, uploadId: chunk.uploadId, offset });
+    if (offset < upload.encryptedSize) return;
+
+    client.chunkUploads.delete(chunk.uploadId);
+    if (await this.rejectDuringRotation(client, upload)) {
+      client.vault.storage.discardUpload(chunk.uploadId);
+      return;
+    }
+    const put = await client.vault.storage.commitUpload(chunk.uploadId, upload.fileId, upload.encryptedMeta, upload.mtime, upload.size);
+    if (put) {
+      await this.announceUpload(client, upload, put);
+    } else {
+      // Other uploads filled the quota while this one was in flight
+      client.vault.storage.discardUpload(chunk.uploadId);
+      this.rejectOverQuota(client, upload);
+    }
+  }
+
+  private async handleChunkDownload(client: ConnectedClient, msg: ChunkDownloadMessage): Promise<void> {
+    const encryptedSize = await client.vault.storage.getFileSize(msg.fileId);
+    const chunk = encryptedSize !== null ? await client.vault.storage.getFileRange(msg.fileId, msg.offset, CHUNK_SIZE) : null;
+    if (encryptedSize === null || !chunk) {
+      this.send(client.ws, {
+        type: MessageType.CHUNK_DOWNLOAD_RESPONSE,
+        fileId: msg.fileId,
+        offset: msg.offset,
+        encryptedSize: 0,
+        error: "File not found",
+      });
+      return;
+    }
+
+    // Same framing as FILE_DOWNLOAD: header text frame, then the chunk as binary frame
+    this.send(client.ws, {
+      type: MessageType.CHUNK_DOWNLOAD_RESPONSE,
+      fileId: msg.fileId,
+      offset: msg.offset,
+      encryptedSize,
+    });
+    this.sendBinary(client.ws, BinaryFrameKind.CHUNK, msg.fileId, chunk);
+  }
+
+  private async handleFileDownload(
     client: ConnectedClient,
     msg: FileDownloadMessage
-  ): void {
-    const meta = this.storage.getFileMeta(msg.fileId);
-    const blob = this.storage.getFile(msg.fileId);
+  ): Promise<void> {
+    const storage = await this.fileStorage(client, msg.shareId);
+    const meta = await storage?.getFileMeta(msg.fileId);
+    const encryptedSize = (await storage?.getFileSize(msg.fileId)) ?? null;
 
-    if (!meta || !blob) {
+    if (!storage || !meta || encryptedSize === null) {
       // File not found — send empty response
       return;
     }
 
+    // Files stored as blocks: the client fetches each block it needs
+    const blocks = await storage.getBlockList(msg.fileId);
+    if (blocks) {
+      this.send(client.ws, {
+        type: MessageType.FILE_DOWNLOAD_RESPONSE,
+        fileId: meta.fileId,
+        encryptedMeta: meta.encryptedMeta,
+        mtime: meta.mtime,
+        size: meta.size,
+        encryptedSize: 0,
+        blocks,
+        versionTag: (await storage.getVersionTag(msg.fileId)) ?? undefined,
+      });
+      return;
+    }
+
+    // Large blobs are pulled by the client chunk by chunk (shared folders send them whole)
+    if (encryptedSize > CHUNK_SIZE && !msg.shareId) {
+      this.send(client.ws, {
+        type: MessageType.FILE_DOWNLOAD_RESPONSE,
+        fileId: meta.fileId,
+        encryptedMeta: meta.encryptedMeta,
+        mtime: meta.mtime,
+        size: meta.size,
+        encryptedSize,
+        chunked: true,
+      });
+      return;
+    }
+
+    const blob = await storage.getFile(msg.fileId);
+    if (!blob) return;
+
     // Send metadata as text frame (with encryptedSize), then blob as binary frame
     this.send(client.ws, {
       type: MessageType.FILE_DOWNLOAD_RESPONSE,
@@ -509,42 +1458,164 @@ export class SyncWebSocketServer {
       mtime: meta.mtime,
       size: meta.size,
       encryptedSize: blob.length,
+      shareId: msg.shareId,
+    });
+    this.sendBinary(client.ws, BinaryFrameKind.FILE, meta.fileId, blob);
+  }
+
+  private async handleVersionList(client: ConnectedClient, msg: VersionListMessage): Promise<void> {
+    const storage = await this.fileStorage(client, msg.shareId);
+    this.send(client.ws, {
+      type: MessageType.VERSION_LIST_RESPONSE,
+      fileId: msg.fileId,
+      versions: storage ? await storage.getVersions(msg.fileId) : [],
+      error: storage ? undefined : NO_SHARE_ACCESS,
+      shareId: msg.shareId,
+    });
+  }
+
+  private async handleVersionDownload(client: ConnectedClient, msg: VersionDownloadMessage): Promise<void> {
+    const storage = await this.fileStorage(client, msg.shareId);
+    const version = storage && await storage.getVersion(msg.fileId, msg.versionId);
+    if (!storage || !version) {
+      this.send(client.ws, {
+        type: MessageType.VERSION_DOWNLOAD_RESPONSE,
+        fileId: msg.fileId,
+        versionId: msg.versionId,
+        encryptedMeta: "",
+        mtime: 0,
+        size: 0,
+        encryptedSize: 0,
+        error: storage ? "Version not found" : NO_SHARE_ACCESS,
+        shareId: msg.shareId,
+      });
+      return;
+    }
+
+    const blocks = await storage.getVersionBlockList(msg.fileId, msg.versionId);
+    if (blocks) {
+      this.send(client.ws, {
+        type: MessageType.VERSION_DOWNLOAD_RESPONSE,
+        fileId: msg.fileId,
+        versionId: msg.versionId,
+        encryptedMeta: version.entry.encryptedMeta,
+        mtime: version.entry.mtime,
+        size: version.entry.size,
+        encryptedSize: 0,
+        blocks,
+        shareId: msg.shareId,
+      });
+      return;
+    }
+
+    // Same framing as FILE_DOWNLOAD: metadata text frame, then the blob as binary frame
+    this.send(client.ws, {
+      type: MessageType.VERSION_DOWNLOAD_RESPONSE,
+      fileId: msg.fileId,
+      versionId: msg.versionId,
+      encryptedMeta: version.entry.encryptedMeta,
+      mtime: version.entry.mtime,
+      size: version.entry.size,
+      encryptedSize: version.blob.length,
+      shareId: msg.shareId,
+    });
+    this.sendBinary(client.ws, BinaryFrameKind.VERSION, `${msg.fileId}:${msg.versionId}`, version.blob);
+  }
+
+  private async handleTrashList(client: ConnectedClient, msg: TrashListMessage): Promise<void> {
+    const storage = await this.fileStorage(client, msg.shareId);
+    this.send(client.ws, {
+      type: MessageType.TRASH_LIST_RESPONSE,
+      entries: storage ? await storage.getTrash() : [],
+      error: storage ? undefined : NO_SHARE_ACCESS,
+      shareId: msg.shareId,
+    });
+  }
+
+  private async handleTrashRestore(client: ConnectedClient, msg: TrashRestoreMessage): Promise<void> {
+    const fail = (error: string) =>
+      this.send(client.ws, { type: MessageType.TRASH_RESTORE_RESPONSE, fileId: msg.fileId, sequence: 0, error, shareId: msg.shareId });
+    const storage = await this.fileStorage(client, msg.shareId, true);
+    if (!storage) return fail((await this.fileStorage(client, msg.shareId)) ? SHARE_READ_ONLY : NO_SHARE_ACCESS);
+    if (!msg.shareId && (await storage.isRotating())) return fail(ROTATION_IN_PROGRESS);
+    const restored = await storage.restoreFromTrash(msg.fileId);
+    if (!restored) return fail("File is no longer in the trash");
+
+    this.send(client.ws, {
+      type: MessageType.TRASH_RESTORE_RESPONSE,
+      fileId: msg.fileId,
+      sequence: restored.sequence,
+      shareId: msg.shareId,
+    });
+
+    // Every client downloads the restored file, including the one that asked for it
+    for (const other of [client, ...(await this.fileRecipients(client, msg.shareId))]) {
+      this.send(other.ws, {
+        type: MessageType.FILE_CHANGED,
+        fileId: msg.fileId,
+        encryptedMeta: restored.entry.encryptedMeta,
+        mtime: restored.entry.mtime,
+        size: restored.entry.size,
+        sequence: restored.sequence,
+        sourceClientId: "",
+        shareId: msg.shareId,
+      });
+    }
+
+    await client.vault.storage.appendLog(
+      "create",
+      `${client.deviceName} restored ${msg.fileId.substring(0, 8)}... from trash${msg.shareId ? " in a shared folder" : ""}`,
+      Date.now()
+    );
+    this.broadcastUIEvent("file_changed", {
+      vaultId: client.vault.id,
+      fileId: msg.fileId,
+      size: restored.entry.size,
+      clientId: client.clientId,
+      deviceName: client.deviceName,
+      isNew: true,
+      timestamp: Date.now(),
     });
-    client.ws.send(blob);
+
+    console.log(`[WS] File restored from trash: ${msg.fileId.substring(0, 8)}... by ${client.deviceName}`);
   }
 
-  private handleFileDelete(client: ConnectedClient, msg: FileDeleteMessage): void {
-    const sequence = this.storage.deleteFile(msg.fileId);
+  private async handleFileDelete(client: ConnectedClient, msg: FileDeleteMessage): Promise<void> {
+    const storage = await this.fileStorage(client, msg.shareId, true);
+    if (!storage) {
+      const error = (await this.fileStorage(client, msg.shareId)) ? SHARE_READ_ONLY : NO_SHARE_ACCESS;
+      this.send(client.ws, { type: MessageType.FILE_UPLOAD_ACK, fileId: msg.fileId, sequence: 0, error, shareId: msg.shareId });
+      return;
+    }
+    if (!msg.shareId && (await this.rejectDuringRotation(client, msg))) return;
+    const sequence = await storage.deleteFile(msg.fileId, client.deviceName);
 
     // ACK to sender
     this.send(client.ws, {
       type: MessageType.FILE_UPLOAD_ACK,
       fileId: msg.fileId,
       sequence,
+      shareId: msg.shareId,
     });
 
     // Broadcast to other authenticated clients
-    for (const [ws, other] of this.clients) {
-      if (
-        other.authenticated &&
-        other.clientId !== client.clientId &&
-        ws.readyState === WebSocket.OPEN
-      ) {
-        this.send(ws, {
-          type: MessageType.FILE_REMOVED,
-          fileId: msg.fileId,
-          sequence,
-          sourceClientId: client.clientId,
-        });
-      }
+    for (const other of await this.fileRecipients(client, msg.shareId)) {
+      this.send(other.ws, {
+        type: MessageType.FILE_REMOVED,
+        fileId: msg.fileId,
+        sequence,
+        sourceClientId: client.clientId,
+        shareId: msg.shareId,
+      });
     }
 
-    this.storage.appendLog(
+    await client.vault.storage.appendLog(
       "remove",
-      `File ${msg.fileId.substring(0, 8)}... deleted by ${client.deviceName}`,
+      `File ${msg.fileId.substring(0, 8)}... deleted by ${client.deviceName}${msg.shareId ? " from a shared folder" : ""}`,
       Date.now()
     );
     this.broadcastUIEvent("file_removed", {
+      vaultId: client.vault.id,
       fileId: msg.fileId,
       clientId: client.clientId,
       deviceName: client.deviceName,
@@ -555,13 +1626,14 @@ export class SyncWebSocketServer {
   }
 
   /** Handle file deletion from a client. */
-  handleFileRemoval(clientId: string, fileId: string): void {
-    const sequence = this.storage.deleteFile(fileId);
+  async handleFileRemoval(vault: Vault, clientId: string, fileId: string): Promise<void> {
+    const sequence = await vault.storage.deleteFile(fileId);
 
     // Broadcast to other clients
     for (const [ws, client] of this.clients) {
       if (
-        client.authenticated &&
+        client.trusted &&
+        client.vault === vault &&
         client.clientId !== clientId &&
         ws.readyState === WebSocket.OPEN
       ) {
@@ -574,53 +1646,90 @@ export class SyncWebSocketServer {
       }
     }
 
-    this.storage.appendLog("remove", `File ${fileId.substring(0, 8)}... deleted`, Date.now());
+    await vault.storage.appendLog("remove", `File ${fileId.substring(0, 8)}... deleted`, Date.now());
     this.broadcastUIEvent("file_removed", {
+      vaultId: vault.id,
       fileId,
       clientId,
       timestamp: Date.now(),
     });
   }
 
-  /** Get list of currently connected (authenticated) clients. */
-  getConnectedClients(): ClientInfo[] {
-    const result: ClientInfo[] = [];
+  /** Get list of currently connected (authenticated) clients of all vaults. */
+  getConnectedClients(): Array<ClientInfo & { vaultId: string }> {
+    const result: Array<ClientInfo & { vaultId: string }> = [];
     for (const [, client] of this.clients) {
       if (client.authenticated) {
         result.push({
+          vaultId: client.vault.id,
           clientId: client.clientId,
           deviceName: client.deviceName,
           ip: client.ip,
           connectedAt: client.connectedAt,
           lastActivity: client.lastActivity,
+          readOnly: client.readOnly,
         });
       }
     }
     return result;
   }
 
-  /** Disconnect a client by clientId and revoke their token. */
-  disconnectClient(clientId: string): boolean {
+  /** Disconnect a client of a vault by clientId and revoke their token. */
+  async disconnectClient(vault: Vault, clientId: string): Promise<boolean> {
     for (const [ws, client] of this.clients) {
-      if (client.clientId === clientId && client.authenticated) {
-        this.auth.revokeToken(clientId, this.storage);
-        this.storage.deleteClientSession(clientId);
+      if (client.clientId === clientId && client.vault === vault && client.authenticated) {
+        await vault.auth.revokeToken(clientId);
+        await vault.storage.deleteClientSession(clientId);
         this.send(ws, {
           type: MessageType.AUTH_FAIL,
           reason: "Session revoked",
         });
         ws.close(4005, "Session revoked");
-        this.broadcastClientList();
+        await this.broadcastClientList(vault);
         return true;
       }
     }
     // Also revoke token for offline clients
-    this.auth.revokeToken(clientId, this.storage);
-    this.storage.deleteClientSession(clientId);
-    this.broadcastClientList();
+    await vault.auth.revokeToken(clientId);
+    await vault.storage.deleteClientSession(clientId);
+    await this.broadcastClientList(vault);
     return false;
   }
 
+  /**
+   * Make a device of a vault read-only or read-write. A connected device is disconnected and
+   * signs in again with its token, so it learns its new access from AUTH_OK.
+   * False if the device is unknown.
+   */
+  async setClientReadOnly(vault: Vault, clientId: string, readOnly: boolean): Promise<boolean> {
+    if (!(await vault.storage.setDeviceReadOnly(clientId, readOnly))) return false;
+    for (const [ws, client] of this.clients) {
+      if (client.clientId === clientId && client.vault === vault && client.authenticated) {
+        client.readOnly = readOnly;
+        ws.close(4008, "Access changed");
+      }
+    }
+    const name = (await vault.storage.getClientSessions()).find((s) => s.clientId === clientId)?.deviceName ?? clientId;
+    const access = readOnly ? "read-only" : "read-write";
+    await vault.storage.appendLog("connect", `${name} made ${access}`, Date.now());
+    console.log(`[WS] Device ${name} (${clientId}) of vault "${vault.id}" made ${access}`);
+    await this.broadcastClientList(vault);
+    return true;
+  }
+
+  /** Disconnect every client of a vault that is about to be deleted. */
+  async closeVault(vault: Vault): Promise<void> {
+    await vault.storage.abortRotation();
+    for (const [ws, client] of this.clients) {
+      if (client.vault !== vault) continue;
+      // The vault's storage is closed right after, so the close handler must not touch it
+      client.authenticated = false;
+      this.clients.delete(ws);
+      try { ws.close(4404, "Vault deleted"); } catch {}
+      try { (ws as any).terminate?.(); } catch {}
+    }
+  }
+
   private pingClients(): void {
     const now = Date.now();
     for (const [ws, client] of this.clients) {
@@ -628,6 +1737,25 @@ export class SyncWebSocketServer {
         this.send(ws, { type: MessageType.PING, timestamp: now });
       }
     }
+    this.checkVaults().catch((err) => console.error("[WS] Checking vaults failed:", err.message));
+  }
+
+  /**
+   * Catch up on what other server instances changed for the vaults of clients connected here:
+   * deliver pairing claims and sign out the clients of a vault whose key is being rotated.
+   */
+  private async checkVaults(): Promise<void> {
+    const vaults = new Set([...this.clients.values()].filter((c) => c.authenticated).map((c) => c.vault));
+    for (const vault of vaults) {
+      await this.deliverPairingClaims(vault);
+      if (!(await vault.storage.isRotating())) continue;
+      const rotatingClientId = vault.storage.rotatingClientId();
+      for (const [ws, client] of this.clients) {
+        if (!client.authenticated || client.vault !== vault || client.clientId === rotatingClientId) continue;
+        this.send(ws, { type: MessageType.AUTH_FAIL, reason: ROTATION_IN_PROGRESS });
+        ws.close(4006, "Vault key rotation in progress");
+      }
+    }
   }
 
   private send(ws: WebSocket, msg: ProtocolMessage): void {
@@ -636,6 +1764,13 @@ export class SyncWebSocketServer {
     }
   }
 
+  /** Send a blob, chunk or block, framed with the id of the header message it belongs to. */
+  private sendBinary(ws: WebSocket, kind: BinaryFrameKind, id: string, data: Buffer): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(encodeBinaryFrame(kind, id, data));
+    }
+  }
+
   private broadcastUIEvent(event: string, data: any): void {
     const msg = JSON.stringify({
       type: MessageType.UI_EVENT,
@@ -643,19 +1778,19 @@ export class SyncWebSocketServer {
       data,
     });
 
-    for (const sub of this.uiSubscribers) {
-      if (sub.readyState === WebSocket.OPEN) {
-        sub.send(msg);
-      } else {
+    for (const [sub, user] of this.uiSubscribers) {
+      if (sub.readyState !== WebSocket.OPEN) {
         this.uiSubscribers.delete(sub);
+      } else if (!data?.vaultId || this.vaults.canSee(user, data.vaultId)) {
+        sub.send(msg);
       }
     }
   }
 
-  private sendUIStatus(ws: WebSocket): void {
-    const stats = this.storage.getStats();
-    const clients = this.getConnectedClients();
-    const log = this.storage.getLog(1000);
+  private async sendUIStatus(ws: WebSocket, user: DashboardUser): Promise<void> {
+    const stats = await this.vaults.getStats(user);
+    const clients = this.getConnectedClients().filter((c) => this.vaults.canSee(user, c.vaultId));
+    const log = await this.vaults.getLog(1000, user);
     const msg = JSON.stringify({
       type: MessageType.UI_EVENT,
       event: "status",
@@ -669,7 +1804,7 @@ export class SyncWebSocketServer {
   /** Forward Obsidian theme variables to all connected web UI subscribers. */
   broadcastTheme(theme: Record<string, string>): void {
     const msg = JSON.stringify({ type: MessageType.UI_EVENT, event: "theme", data: theme });
-    for (const sub of this.uiSubscribers) {
+    for (const sub of this.uiSubscribers.keys()) {
       if (sub.readyState === WebSocket.OPEN) sub.send(msg);
       else this.uiSubscribers.delete(sub);
     }
@@ -683,7 +1818,7 @@ export class SyncWebSocketServer {
     this.uiWss.close();
   }
 
-  beginReset(): void {
+  async beginReset(): Promise<void> {
     this.acceptingConnections = false;
 
     for (const [ws] of this.clients) {
@@ -691,8 +1826,9 @@ export class SyncWebSocketServer {
       try { (ws as any).terminate?.(); } catch {}
     }
     this.clients.clear();
+    for (const vault of this.vaults.list()) await vault.storage.abortRotation();
 
-    for (const ws of this.uiSubscribers) {
+    for (const ws of this.uiSubscribers.keys()) {
       try { ws.close(1012, "Server reset"); } catch {}
       try { (ws as any).terminate?.(); } catch {}
     }
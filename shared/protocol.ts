@@ -3,11 +3,16 @@ import type {
   ClientInfo,
   ClientSession,
   ChangeRecord,
+  FileVersionEntry,
+  TrashEntry,
+  ShareInfo,
+  ShareRole,
 } from "./types";
 
 /** All message types in the sync protocol. */
 export enum MessageType {
   // Authentication
+  AUTH_CHALLENGE = "AUTH_CHALLENGE",
   AUTH = "AUTH",
   AUTH_OK = "AUTH_OK",
   AUTH_FAIL = "AUTH_FAIL",
@@ -15,6 +20,8 @@ export enum MessageType {
   // Sync
   SYNC_REQUEST = "SYNC_REQUEST",
   SYNC_RESPONSE = "SYNC_RESPONSE",
+  MANIFEST_REQUEST = "MANIFEST_REQUEST",
+  MANIFEST_RESPONSE = "MANIFEST_RESPONSE",
 
   // File operations
   FILE_UPLOAD = "FILE_UPLOAD",
@@ -25,6 +32,49 @@ export enum MessageType {
   FILE_REMOVED = "FILE_REMOVED",
   FILE_DELETE = "FILE_DELETE",
 
+  // Chunked transfers (blobs larger than CHUNK_SIZE)
+  CHUNK_UPLOAD_BEGIN = "CHUNK_UPLOAD_BEGIN",
+  CHUNK_UPLOAD_READY = "CHUNK_UPLOAD_READY",
+  CHUNK_UPLOAD = "CHUNK_UPLOAD",
+  CHUNK_UPLOAD_ACK = "CHUNK_UPLOAD_ACK",
+  CHUNK_DOWNLOAD = "CHUNK_DOWNLOAD",
+  CHUNK_DOWNLOAD_RESPONSE = "CHUNK_DOWNLOAD_RESPONSE",
+
+  // Deduplicated content blocks (files of at least DEDUP_MIN_SIZE)
+  BLOCK_QUERY = "BLOCK_QUERY",
+  BLOCK_QUERY_RESPONSE = "BLOCK_QUERY_RESPONSE",
+  BLOCK_UPLOAD = "BLOCK_UPLOAD",
+  BLOCK_UPLOAD_ACK = "BLOCK_UPLOAD_ACK",
+  BLOCK_DOWNLOAD = "BLOCK_DOWNLOAD",
+  BLOCK_DOWNLOAD_RESPONSE = "BLOCK_DOWNLOAD_RESPONSE",
+
+  // Version history
+  VERSION_LIST = "VERSION_LIST",
+  VERSION_LIST_RESPONSE = "VERSION_LIST_RESPONSE",
+  VERSION_DOWNLOAD = "VERSION_DOWNLOAD",
+  VERSION_DOWNLOAD_RESPONSE = "VERSION_DOWNLOAD_RESPONSE",
+
+  // Trash
+  TRASH_LIST = "TRASH_LIST",
+  TRASH_LIST_RESPONSE = "TRASH_LIST_RESPONSE",
+  TRASH_RESTORE = "TRASH_RESTORE",
+  TRASH_RESTORE_RESPONSE = "TRASH_RESTORE_RESPONSE",
+
+  // Vault data key
+  VAULT_KEY_INIT = "VAULT_KEY_INIT",
+  VAULT_KEY_INIT_RESPONSE = "VAULT_KEY_INIT_RESPONSE",
+  PASSWORD_CHANGE = "PASSWORD_CHANGE",
+  PASSWORD_CHANGE_RESPONSE = "PASSWORD_CHANGE_RESPONSE",
+  RECOVERY_KEY_SET = "RECOVERY_KEY_SET",
+  RECOVERY_KEY_SET_RESPONSE = "RECOVERY_KEY_SET_RESPONSE",
+
+  // Vault data key rotation
+  KEY_ROTATION_BEGIN = "KEY_ROTATION_BEGIN",
+  KEY_ROTATION_READY = "KEY_ROTATION_READY",
+  KEY_ROTATION_COMMIT = "KEY_ROTATION_COMMIT",
+  KEY_ROTATION_DONE = "KEY_ROTATION_DONE",
+  KEY_ROTATION_ABORT = "KEY_ROTATION_ABORT",
+
   // Keep-alive
   PING = "PING",
   PONG = "PONG",
@@ -36,28 +86,147 @@ export enum MessageType {
   // Client management
   CLIENT_LIST = "CLIENT_LIST",
   CLIENT_KICK = "CLIENT_KICK",
+  DEVICE_APPROVE = "DEVICE_APPROVE",
+  DEVICE_APPROVE_RESPONSE = "DEVICE_APPROVE_RESPONSE",
+  DEVICE_APPROVED = "DEVICE_APPROVED",
+  PAIRING_BEGIN = "PAIRING_BEGIN",
+  PAIRING_BEGIN_RESPONSE = "PAIRING_BEGIN_RESPONSE",
+  PAIRING_CANCEL = "PAIRING_CANCEL",
+  PAIRING_CLAIMED = "PAIRING_CLAIMED",
+
+  // Shared folders
+  SHARE_CREATE = "SHARE_CREATE",
+  SHARE_MEMBER_KEYS = "SHARE_MEMBER_KEYS",
+  SHARE_MEMBER_KEYS_RESPONSE = "SHARE_MEMBER_KEYS_RESPONSE",
+  SHARE_INVITE = "SHARE_INVITE",
+  SHARE_ACCEPT = "SHARE_ACCEPT",
+  SHARE_REMOVE = "SHARE_REMOVE",
+  SHARE_RESPONSE = "SHARE_RESPONSE",
+  SHARE_LIST = "SHARE_LIST",
+  SHARE_LIST_RESPONSE = "SHARE_LIST_RESPONSE",
+}
+
+// --- Vaults ---
+
+/**
+ * A server hosts the default vault plus any named vaults listed in its VAULTS setting.
+ * Each vault has its own password, salt, devices, files and sequence; a client picks one
+ * by id when it signs in.
+ */
+export const DEFAULT_VAULT_ID = "default";
+
+/** Whether a value is a vault id: lowercase letters, digits, "-" and "_", up to 32 characters. */
+export function isValidVaultId(id: unknown): id is string {
+  return typeof id === "string" && /^[a-z0-9][a-z0-9_-]{0,31}$/.test(id);
 }
 
+/** A vault as listed by GET /health. */
+export interface VaultInfo {
+  id: string;
+  initialized: boolean;
+  /**
+   * The personal vault of a user account that is not set up yet: POST /api/init needs the
+   * `setupCode` the admin handed to the user.
+   */
+  needsSetupCode?: boolean;
+}
+
+/** FILE_UPLOAD_ACK / CHUNK_UPLOAD_ACK error when the vault's storage quota is used up. */
+export const QUOTA_EXCEEDED = "Storage quota exceeded";
+
+/** Error for any change sent by a session with a read-only token (see AuthMessage.readOnly). */
+export const READ_ONLY_SESSION = "This device is read-only";
+
+/**
+ * mtime of files uploaded in privacy mode. Their real mtime and size are only in the
+ * encrypted metadata; the server sees this mtime and a size padded to a bucket.
+ */
+export const PRIVATE_MTIME = 0;
+
+/** FILE_UPLOAD_ACK error for a delta upload whose base is no longer the file's stored version. */
+export const DELTA_BASE_MISMATCH = "The file changed on the server";
+
 // --- Authentication ---
 
+/**
+ * Server → Client, sent as soon as the socket opens: an ephemeral P-256 public key
+ * (base64, raw) the client proves possession of its device key against in AUTH.
+ */
+export interface AuthChallengeMessage {
+  type: MessageType.AUTH_CHALLENGE;
+  serverKey: string;
+}
+
 export interface AuthMessage {
   type: MessageType.AUTH;
   clientId: string;
   deviceName: string;
-  /** SHA-256 hash of the server password (for initial auth). */
+  /** Vault to sign in to (see DEFAULT_VAULT_ID). Omitted for the default vault. */
+  vaultId?: string;
+  /** Sign-in proof derived from the password (for initial auth), see InitStatus. */
   passwordHash?: string;
   /** Opaque session token (for reconnect). */
   authToken?: string;
+  /** Proof derived from the recovery phrase (when the password is forgotten). */
+  recoveryHash?: string;
+  /** HKDF subkey of a pairing code's secret (when joining through a pairing code, see PairingBeginMessage). */
+  pairingHash?: string;
+  /** HMAC of devicePublicKey keyed by another subkey of the pairing secret, forwarded to the pairing device. */
+  pairingProof?: string;
+  /** The device's P-256 public key (base64, raw). Registered on first sign-in, fixed after. */
+  devicePublicKey: string;
+  /** HKDF of the ECDH secret between the device key and AUTH_CHALLENGE.serverKey (hex). */
+  deviceProof: string;
+  /**
+   * Ask for a read-only token (a receive-only device such as a kiosk): the session may only
+   * download and list. Only read when a new token is issued (password, recovery phrase or
+   * pairing code); a token keeps the access it was issued with. A device an admin made
+   * read-only, or that a read-only device paired or approved, is read-only regardless.
+   */
+  readOnly?: boolean;
   protocolVersion: number;
 }
 
+/**
+ * Public `GET /api/init-status` response. The password sign-in proof is an HKDF subkey of the
+ * password key, so a client derives that key from vaultSalt and kdf before it signs in. Vaults
+ * without KDF parameters still use a plain SHA-256 of the password until the next sign-in upgrades them.
+ */
+export interface InitStatus {
+  initialized: boolean;
+  vaultSalt: string | null;
+  kdf: KdfParams | null;
+}
+
 export interface AuthOkMessage {
   type: MessageType.AUTH_OK;
   serverId: string;
-  /** Base64-encoded vault salt (created on first connect, reused after). */
+  /** Base64-encoded salt of the password key (created on first connect, reused after). */
   vaultSalt: string;
+  /**
+   * How the password key is derived from the password and vaultSalt. Null until the
+   * vault's data key is created, and for vaults created before KDF parameters were stored
+   * (those use PBKDF2-SHA512 with 210,000 iterations).
+   */
+  kdf: KdfParams | null;
+  /** The vault data key wrapped by each wrapping key, keyed by its name ("password", "recovery"). */
+  wrappedKeys: WrappedKeys;
+  /**
+   * True when the vault has no data key yet but already holds files: they are encrypted
+   * with the password key itself, which the next client to sign in wraps as the data key.
+   */
+  legacyKey: boolean;
   /** Opaque session token for future reconnects. */
   authToken: string;
+  /**
+   * False while the device waits for a trusted device to approve it: it gets no wrapped
+   * keys and may not sync until DEVICE_APPROVED arrives.
+   */
+  trusted: boolean;
+  /** The data key encrypted to this device's key when it was approved (see DeviceApproveMessage). */
+  deviceKey: string | null;
+  /** True if the session's token is read-only: the server rejects every change it sends. */
+  readOnly: boolean;
 }
 
 export interface AuthFailMessage {
@@ -71,6 +240,8 @@ export interface SyncRequestMessage {
   type: MessageType.SYNC_REQUEST;
   /** Client's last known sequence number (0 for full sync). */
   lastSequence: number;
+  /** Sync this shared folder instead of the vault. */
+  shareId?: string;
 }
 
 export interface SyncResponseMessage {
@@ -81,32 +252,67 @@ export interface SyncResponseMessage {
   currentSequence: number;
   /** True if this is a full manifest, false if incremental. */
   fullSync: boolean;
+  /** Set when this is the manifest of a shared folder. */
+  shareId?: string;
+}
+
+/** Client → Server: fetch the full manifest without starting a sync (e.g. to verify the vault). */
+export interface ManifestRequestMessage {
+  type: MessageType.MANIFEST_REQUEST;
+}
+
+export interface ManifestResponseMessage {
+  type: MessageType.MANIFEST_RESPONSE;
+  entries: EncryptedFileEntry[];
 }
 
 // --- File Operations ---
 
-/** Client → Server: upload a file. Binary data follows in next binary frame. */
+/**
+ * Client → Server: upload a file. Binary data follows in a FILE frame for this fileId,
+ * unless `blocks` is set — then the file is the concatenation of those blocks.
+ * The file messages below carry `shareId` when they address a shared folder instead of the
+ * vault; files of shared folders always travel as a single FILE frame (no chunks or blocks).
+ */
 export interface FileUploadMessage {
   type: MessageType.FILE_UPLOAD;
   fileId: string;
   encryptedMeta: string;
+  /** PRIVATE_MTIME in privacy mode. */
   mtime: number;
+  /** The padded size in privacy mode. */
   size: number;
+  /** Block IDs in file order; every block must already be on the server. */
+  blocks?: string[];
+  /** Random tag of this version, sent with block uploads a delta may later be based on. */
+  versionTag?: string;
+  /**
+   * Delta uploads: the versionTag the file must still have on the server. The last block is
+   * then a delta to the blocks before it; the server rejects it with DELTA_BASE_MISMATCH.
+   */
+  baseTag?: string;
+  shareId?: string;
 }
 
 export interface FileUploadAckMessage {
   type: MessageType.FILE_UPLOAD_ACK;
   fileId: string;
   sequence: number;
+  /** Set (with sequence 0) when the server rejected the upload. */
+  error?: string;
+  /** The upload's versionTag, if it had one. */
+  versionTag?: string;
+  shareId?: string;
 }
 
 /** Client → Server: request file download. */
 export interface FileDownloadMessage {
   type: MessageType.FILE_DOWNLOAD;
   fileId: string;
+  shareId?: string;
 }
 
-/** Server → Client: file data. Binary data follows in next binary frame. */
+/** Server → Client: file data. Binary data follows in a FILE frame for this fileId. */
 export interface FileDownloadResponseMessage {
   type: MessageType.FILE_DOWNLOAD_RESPONSE;
   fileId: string;
@@ -115,6 +321,13 @@ export interface FileDownloadResponseMessage {
   size: number;
   /** Size of the encrypted blob in bytes (for progress tracking). */
   encryptedSize: number;
+  /** When true no binary frame follows — the client fetches the blob with CHUNK_DOWNLOAD. */
+  chunked?: boolean;
+  /** When set no binary frame follows (encryptedSize is 0) — the client fetches these blocks with BLOCK_DOWNLOAD. */
+  blocks?: string[];
+  /** versionTag of the stored version, for a delta upload against it. */
+  versionTag?: string;
+  shareId?: string;
 }
 
 /** Server → Clients: a file was changed by another client. */
@@ -127,6 +340,7 @@ export interface FileChangedMessage {
   sequence: number;
   /** clientId of the uploader (so receiver can ignore own changes). */
   sourceClientId: string;
+  shareId?: string;
 }
 
 /** Server → Clients: a file was removed by another client. */
@@ -135,12 +349,346 @@ export interface FileRemovedMessage {
   fileId: string;
   sequence: number;
   sourceClientId: string;
+  shareId?: string;
 }
 
 /** Client → Server: delete a file from the server. */
 export interface FileDeleteMessage {
   type: MessageType.FILE_DELETE;
   fileId: string;
+  shareId?: string;
+}
+
+// --- Chunked Transfers ---
+
+/**
+ * Client → Server: start (or resume) a chunked upload. `uploadId` is chosen by the
+ * client and reused when resuming, so the server can continue from its partial file.
+ */
+export interface ChunkUploadBeginMessage {
+  type: MessageType.CHUNK_UPLOAD_BEGIN;
+  uploadId: string;
+  fileId: string;
+  encryptedMeta: string;
+  mtime: number;
+  size: number;
+  /** Total size of the encrypted blob in bytes. */
+  encryptedSize: number;
+}
+
+/** Server → Client: bytes already received for this upload — continue from there. */
+export interface ChunkUploadReadyMessage {
+  type: MessageType.CHUNK_UPLOAD_READY;
+  uploadId: string;
+  offset: number;
+}
+
+/** Client → Server: one chunk of an upload. Binary data follows in a CHUNK frame for this uploadId. */
+export interface ChunkUploadMessage {
+  type: MessageType.CHUNK_UPLOAD;
+  uploadId: string;
+  offset: number;
+}
+
+/**
+ * Server → Client: bytes stored so far. Once the whole blob has arrived the server
+ * commits the file and also sends the usual FILE_UPLOAD_ACK.
+ */
+export interface ChunkUploadAckMessage {
+  type: MessageType.CHUNK_UPLOAD_ACK;
+  uploadId: string;
+  offset: number;
+  error?: string;
+}
+
+/** Client → Server: request the chunk of a blob starting at `offset`. */
+export interface ChunkDownloadMessage {
+  type: MessageType.CHUNK_DOWNLOAD;
+  fileId: string;
+  offset: number;
+}
+
+/** Server → Client: one chunk of a blob. A CHUNK frame for this fileId follows unless `error` is set. */
+export interface ChunkDownloadResponseMessage {
+  type: MessageType.CHUNK_DOWNLOAD_RESPONSE;
+  fileId: string;
+  offset: number;
+  /** Total size of the encrypted blob; changes if the file was replaced meanwhile. */
+  encryptedSize: number;
+  error?: string;
+}
+
+// --- Deduplicated Blocks ---
+
+/** Client → Server: which of these blocks does the server not have yet? */
+export interface BlockQueryMessage {
+  type: MessageType.BLOCK_QUERY;
+  /** Correlates the response; the file the blocks belong to. */
+  fileId: string;
+  blockIds: string[];
+}
+
+export interface BlockQueryResponseMessage {
+  type: MessageType.BLOCK_QUERY_RESPONSE;
+  fileId: string;
+  missing: string[];
+}
+
+/** Client → Server: one encrypted block. Binary data follows in a BLOCK frame for this blockId. */
+export interface BlockUploadMessage {
+  type: MessageType.BLOCK_UPLOAD;
+  blockId: string;
+}
+
+export interface BlockUploadAckMessage {
+  type: MessageType.BLOCK_UPLOAD_ACK;
+  blockId: string;
+  error?: string;
+}
+
+/** Client → Server: request one encrypted block. */
+export interface BlockDownloadMessage {
+  type: MessageType.BLOCK_DOWNLOAD;
+  blockId: string;
+}
+
+/** Server → Client: one encrypted block. A BLOCK frame for this blockId follows unless `error` is set. */
+export interface BlockDownloadResponseMessage {
+  type: MessageType.BLOCK_DOWNLOAD_RESPONSE;
+  blockId: string;
+  error?: string;
+}
+
+// --- Version History ---
+
+/** Client → Server: list archived versions of a file. */
+export interface VersionListMessage {
+  type: MessageType.VERSION_LIST;
+  fileId: string;
+  shareId?: string;
+}
+
+/** Server → Client: archived versions of a file, newest first. */
+export interface VersionListResponseMessage {
+  type: MessageType.VERSION_LIST_RESPONSE;
+  fileId: string;
+  versions: FileVersionEntry[];
+  /** Set (with no versions) when the server refused the request. */
+  error?: string;
+  shareId?: string;
+}
+
+/** Client → Server: request one archived version. */
+export interface VersionDownloadMessage {
+  type: MessageType.VERSION_DOWNLOAD;
+  fileId: string;
+  versionId: number;
+  shareId?: string;
+}
+
+/**
+ * Server → Client: an archived version. Binary data follows in a VERSION frame,
+ * unless `error` or `blocks` is set.
+ */
+export interface VersionDownloadResponseMessage {
+  type: MessageType.VERSION_DOWNLOAD_RESPONSE;
+  fileId: string;
+  versionId: number;
+  encryptedMeta: string;
+  mtime: number;
+  size: number;
+  encryptedSize: number;
+  error?: string;
+  /** When set no binary frame follows — the version is made of these blocks. */
+  blocks?: string[];
+  shareId?: string;
+}
+
+// --- Trash ---
+
+/** Client → Server: list deleted files still kept in the trash. */
+export interface TrashListMessage {
+  type: MessageType.TRASH_LIST;
+  /** List the trash of this shared folder instead of the vault's. */
+  shareId?: string;
+}
+
+export interface TrashListResponseMessage {
+  type: MessageType.TRASH_LIST_RESPONSE;
+  entries: TrashEntry[];
+  /** Set (with no entries) when the server refused the request. */
+  error?: string;
+  shareId?: string;
+}
+
+/**
+ * Client → Server: restore a trashed file. On success every client of the vault (or of
+ * the shared folder's vaults), including the sender, receives a FILE_CHANGED with an
+ * empty sourceClientId.
+ */
+export interface TrashRestoreMessage {
+  type: MessageType.TRASH_RESTORE;
+  fileId: string;
+  shareId?: string;
+}
+
+export interface TrashRestoreResponseMessage {
+  type: MessageType.TRASH_RESTORE_RESPONSE;
+  fileId: string;
+  sequence: number;
+  error?: string;
+  shareId?: string;
+}
+
+// --- Vault Data Key ---
+
+/** Base64 [IV][ciphertext] of the raw vault data key, keyed by the name of the key that wraps it. */
+export type WrappedKeys = Record<string, string>;
+
+/** Algorithm and cost of the key derivation that turns the vault password into the password key. */
+export type KdfParams =
+  | { algorithm: "pbkdf2-sha512"; iterations: number }
+  | { algorithm: "argon2id"; memoryKiB: number; iterations: number; parallelism: number };
+
+/** Whether a value is a vault salt: 32 random bytes in base64. */
+export function isValidVaultSalt(salt: unknown): salt is string {
+  return typeof salt === "string" && /^[A-Za-z0-9+/]{43}=$/.test(salt);
+}
+
+/** Whether a value is a KdfParams with costs a client can afford and an attacker can't cheaply undercut. */
+export function isValidKdfParams(kdf: unknown): kdf is KdfParams {
+  if (typeof kdf !== "object" || kdf === null) return false;
+  const k = kdf as Record<string, unknown>;
+  const inRange = (v: unknown, min: number, max: number) => Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+  if (k.algorithm === "pbkdf2-sha512") return Object.keys(k).length === 2 && inRange(k.iterations, 100_000, 10_000_000);
+  if (k.algorithm === "argon2id") {
+    return Object.keys(k).length === 4 && inRange(k.iterations, 1, 64) && inRange(k.parallelism, 1, 16)
+      && inRange(k.memoryKiB, 8 * (k.parallelism as number), 1024 * 1024);
+  }
+  return false;
+}
+
+/**
+ * Client → Server: store the vault data key, wrapped by a password key derived with
+ * `vaultSalt` and `kdf`. Ignored if the vault already has a data key (another client was first).
+ */
+export interface VaultKeyInitMessage {
+  type: MessageType.VAULT_KEY_INIT;
+  vaultSalt: string;
+  kdf: KdfParams;
+  wrappedKey: string;
+  /** Sign-in proof derived from the same password key. */
+  passwordHash: string;
+}
+
+/** The data key the vault ended up with — possibly another client's. */
+export interface VaultKeyInitResponseMessage {
+  type: MessageType.VAULT_KEY_INIT_RESPONSE;
+  vaultSalt: string;
+  kdf: KdfParams | null;
+  wrappedKeys: WrappedKeys;
+}
+
+/**
+ * Client → Server: switch to a new password. The data key is only re-wrapped, so no
+ * file changes; every other session is revoked.
+ */
+export interface PasswordChangeMessage {
+  type: MessageType.PASSWORD_CHANGE;
+  /** Sign-in proof of the current password. */
+  passwordHash?: string;
+  /** Recovery-phrase proof, instead of passwordHash when the password is forgotten. */
+  recoveryHash?: string;
+  /** Sign-in proof derived from the new password key. */
+  newPasswordHash: string;
+  /** Base64 salt the new password key was derived with. */
+  newVaultSalt: string;
+  /** KDF parameters the new password key was derived with. */
+  kdf: KdfParams;
+  /** The data key wrapped by the new password key. */
+  wrappedKey: string;
+  /**
+   * The password itself is unchanged and only its key derivation is upgraded: revoke no session.
+   * Honoured only with passwordHash, when the vault moves to Argon2id from another KDF; the
+   * server revokes the other sessions of any other change.
+   */
+  keepSessions?: boolean;
+}
+
+export interface PasswordChangeResponseMessage {
+  type: MessageType.PASSWORD_CHANGE_RESPONSE;
+  /** New session token for this client (empty when sessions were kept). */
+  authToken: string;
+  error?: string;
+}
+
+/**
+ * Client → Server: store the data key wrapped by a recovery-phrase key, and the proof
+ * that lets the phrase sign in. Replaces any earlier recovery key.
+ */
+export interface RecoveryKeySetMessage {
+  type: MessageType.RECOVERY_KEY_SET;
+  /** Sign-in proof of the current password. */
+  passwordHash: string;
+  recoveryHash: string;
+  wrappedKey: string;
+}
+
+export interface RecoveryKeySetResponseMessage {
+  type: MessageType.RECOVERY_KEY_SET_RESPONSE;
+  error?: string;
+}
+
+// --- Key Rotation ---
+
+/**
+ * Client → Server: start re-encrypting the vault under a new data key.
+ * Other clients are disconnected and uploads are staged until COMMIT or ABORT.
+ */
+export interface KeyRotationBeginMessage {
+  type: MessageType.KEY_ROTATION_BEGIN;
+  /** Sign-in proof of the current password. */
+  passwordHash: string;
+  /** The new data key wrapped by the (unchanged) password key. */
+  wrappedKey: string;
+}
+
+export interface KeyRotationReadyMessage {
+  type: MessageType.KEY_ROTATION_READY;
+  error?: string;
+}
+
+/**
+ * Client → Server: every file has been re-uploaded; swap the staged files in. The server
+ * refuses unless they replace exactly the live files and every shared folder the vault
+ * accepted is re-wrapped.
+ */
+export interface KeyRotationCommitMessage {
+  type: MessageType.KEY_ROTATION_COMMIT;
+  /** New fileIds of all re-encrypted files, so the server can check none is missing. */
+  fileIds: string[];
+  /** The fileIds they replace, as listed by MANIFEST_REQUEST. */
+  replacedFileIds: string[];
+  /** The key and mount of each accepted shared folder, wrapped with the new data key. */
+  shares: ShareRewrap[];
+}
+
+/** A shared folder's key and mount, wrapped with a vault's new data key (see ShareAcceptMessage). */
+export interface ShareRewrap {
+  shareId: string;
+  vaultKey: string;
+  encryptedMount: string;
+}
+
+export interface KeyRotationDoneMessage {
+  type: MessageType.KEY_ROTATION_DONE;
+  /** New session token for the rotating client (all other sessions are revoked). */
+  authToken: string;
+  error?: string;
+}
+
+export interface KeyRotationAbortMessage {
+  type: MessageType.KEY_ROTATION_ABORT;
 }
 
 // --- Keep-alive ---
@@ -175,19 +723,165 @@ export interface ClientListMessage {
   clients: ClientSession[];
 }
 
-/** Client/Admin → Server: kick a device. */
+/** Client/Admin → Server: kick a device. Its device key is forgotten, so it has to be approved again. */
 export interface ClientKickMessage {
   type: MessageType.CLIENT_KICK;
   targetClientId: string;
 }
 
+/**
+ * Client → Server: approve a pending device. deviceKey is the data key encrypted to the
+ * device's public key: ephemeral P-256 public key (65 bytes) | IV (12 bytes) | AES-GCM
+ * ciphertext of the raw key, in base64.
+ */
+export interface DeviceApproveMessage {
+  type: MessageType.DEVICE_APPROVE;
+  clientId: string;
+  deviceKey: string;
+}
+
+export interface DeviceApproveResponseMessage {
+  type: MessageType.DEVICE_APPROVE_RESPONSE;
+  clientId: string;
+  error?: string;
+}
+
+/** Server → Client: this pending device was approved and may sync now. */
+export interface DeviceApprovedMessage {
+  type: MessageType.DEVICE_APPROVED;
+  deviceKey: string;
+  /** Approved by a read-only device, so this one is read-only too. */
+  readOnly: boolean;
+}
+
+// --- Device Pairing ---
+
+/**
+ * Client → Server: accept one sign-in with this pairing code for a few minutes. The device
+ * that signs in with it is pending until the pairing device approves it (PAIRING_CLAIMED).
+ */
+export interface PairingBeginMessage {
+  type: MessageType.PAIRING_BEGIN;
+  /** HKDF subkey of the pairing secret (hex); the secret itself never reaches the server. */
+  pairingHash: string;
+}
+
+export interface PairingBeginResponseMessage {
+  type: MessageType.PAIRING_BEGIN_RESPONSE;
+  pairingHash: string;
+  /** When the server stops accepting the code (ms). */
+  expiresAt: number;
+  error?: string;
+}
+
+/** Client → Server: the pairing code was not used (e.g. its dialog was closed). */
+export interface PairingCancelMessage {
+  type: MessageType.PAIRING_CANCEL;
+  pairingHash: string;
+}
+
+/** Server → pairing Client: a device signed in with the pairing code and waits for approval. */
+export interface PairingClaimedMessage {
+  type: MessageType.PAIRING_CLAIMED;
+  pairingHash: string;
+  clientId: string;
+  deviceName: string;
+  devicePublicKey: string;
+  /** AuthMessage.pairingProof of the new device. */
+  pairingProof: string;
+}
+
+// --- Shared Folders ---
+
+/**
+ * Client → Server: share a folder of this vault. shareId is chosen by the client (32 hex chars);
+ * vaultKey is the new folder key wrapped with this vault's data key, encryptedMount the folder's
+ * path encrypted with the data key.
+ */
+export interface ShareCreateMessage {
+  type: MessageType.SHARE_CREATE;
+  shareId: string;
+  encryptedName: string;
+  vaultKey: string;
+  encryptedMount: string;
+}
+
+/** Owner → Server: public keys of the trusted devices of a vault, to encrypt the folder key to. */
+export interface ShareMemberKeysMessage {
+  type: MessageType.SHARE_MEMBER_KEYS;
+  shareId: string;
+  vaultId: string;
+}
+
+export interface ShareMemberKeysResponseMessage {
+  type: MessageType.SHARE_MEMBER_KEYS_RESPONSE;
+  shareId: string;
+  vaultId: string;
+  devices: string[];
+  error?: string;
+}
+
+/**
+ * Owner → Server: invite a vault, or change the role of a member. deviceKeys maps each device
+ * public key from SHARE_MEMBER_KEYS to the folder key encrypted to it (see DeviceApproveMessage).
+ */
+export interface ShareInviteMessage {
+  type: MessageType.SHARE_INVITE;
+  shareId: string;
+  vaultId: string;
+  role: Exclude<ShareRole, "owner">;
+  deviceKeys: Record<string, string>;
+}
+
+/**
+ * Member → Server: accept an invitation. vaultKey is the folder key wrapped with this vault's
+ * data key, so the vault's other devices can open it too; encryptedMount is where it is mounted.
+ */
+export interface ShareAcceptMessage {
+  type: MessageType.SHARE_ACCEPT;
+  shareId: string;
+  vaultKey: string;
+  encryptedMount: string;
+}
+
+/**
+ * Client → Server: remove a member. The owner may remove anyone; a member only itself. Without
+ * vaultId the client's own vault leaves — for the owner that deletes the folder and its files.
+ */
+export interface ShareRemoveMessage {
+  type: MessageType.SHARE_REMOVE;
+  shareId: string;
+  vaultId?: string;
+}
+
+/** Server → Client: result of SHARE_CREATE, SHARE_INVITE, SHARE_ACCEPT or SHARE_REMOVE. */
+export interface ShareResponseMessage {
+  type: MessageType.SHARE_RESPONSE;
+  shareId: string;
+  error?: string;
+}
+
+/** Client → Server: list the shared folders of this vault. */
+export interface ShareListMessage {
+  type: MessageType.SHARE_LIST;
+}
+
+/** Server → Client: the shared folders of this vault; also pushed whenever they change. */
+export interface ShareListResponseMessage {
+  type: MessageType.SHARE_LIST_RESPONSE;
+  shares: ShareInfo[];
+}
+
 /** Union of all protocol messages. */
 export type ProtocolMessage =
+  | AuthChallengeMessage
   | AuthMessage
   | AuthOkMessage
   | AuthFailMessage
   | SyncRequestMessage
   | SyncResponseMessage
+  | ManifestRequestMessage
+  | ManifestResponseMessage
   | FileUploadMessage
   | FileUploadAckMessage
   | FileDownloadMessage
@@ -195,15 +889,120 @@ export type ProtocolMessage =
   | FileChangedMessage
   | FileRemovedMessage
   | FileDeleteMessage
+  | ChunkUploadBeginMessage
+  | ChunkUploadReadyMessage
+  | ChunkUploadMessage
+  | ChunkUploadAckMessage
+  | ChunkDownloadMessage
+  | ChunkDownloadResponseMessage
+  | BlockQueryMessage
+  | BlockQueryResponseMessage
+  | BlockUploadMessage
+  | BlockUploadAckMessage
+  | BlockDownloadMessage
+  | BlockDownloadResponseMessage
+  | VersionListMessage
+  | VersionListResponseMessage
+  | VersionDownloadMessage
+  | VersionDownloadResponseMessage
+  | TrashListMessage
+  | TrashListResponseMessage
+  | TrashRestoreMessage
+  | TrashRestoreResponseMessage
+  | VaultKeyInitMessage
+  | VaultKeyInitResponseMessage
+  | PasswordChangeMessage
+  | PasswordChangeResponseMessage
+  | RecoveryKeySetMessage
+  | RecoveryKeySetResponseMessage
+  | KeyRotationBeginMessage
+  | KeyRotationReadyMessage
+  | KeyRotationCommitMessage
+  | KeyRotationDoneMessage
+  | KeyRotationAbortMessage
   | PingMessage
   | PongMessage
   | UISubscribeMessage
   | UIEventMessage
   | ClientListMessage
-  | ClientKickMessage;
+  | ClientKickMessage
+  | DeviceApproveMessage
+  | DeviceApproveResponseMessage
+  | DeviceApprovedMessage
+  | PairingBeginMessage
+  | PairingBeginResponseMessage
+  | PairingCancelMessage
+  | PairingClaimedMessage
+  | ShareCreateMessage
+  | ShareMemberKeysMessage
+  | ShareMemberKeysResponseMessage
+  | ShareInviteMessage
+  | ShareAcceptMessage
+  | ShareRemoveMessage
+  | ShareResponseMessage
+  | ShareListMessage
+  | ShareListResponseMessage;
+
+// --- Binary Frames ---
+
+/** What the payload of a binary frame belongs to. */
+export enum BinaryFrameKind {
+  /** FILE_UPLOAD / FILE_DOWNLOAD_RESPONSE blob — id is the fileId. */
+  FILE = 1,
+  /** VERSION_DOWNLOAD_RESPONSE blob — id is `${fileId}:${versionId}`. */
+  VERSION = 2,
+  /** CHUNK_UPLOAD data (id is the uploadId) or CHUNK_DOWNLOAD_RESPONSE data (id is the fileId). */
+  CHUNK = 3,
+  /** BLOCK_UPLOAD / BLOCK_DOWNLOAD_RESPONSE data — id is the blockId. */
+  BLOCK = 4,
+}
+
+export interface BinaryFrame {
+  kind: BinaryFrameKind;
+  id: string;
+  payload: Uint8Array;
+}
+
+/**
+ * Every binary frame starts with a small header naming the message it belongs to:
+ * kind (1 byte) | id length (1 byte) | id (ASCII) | payload.
+ * Receivers match frames to their header messages by (kind, id), never by arrival order.
+ */
+export function encodeBinaryFrame(kind: BinaryFrameKind, id: string, payload: Uint8Array): Uint8Array {
+  if (id.length > 255) throw new Error("Binary frame id too long");
+  const frame = new Uint8Array(2 + id.length + payload.byteLength);
+  frame[0] = kind;
+  frame[1] = id.length;
+  for (let i = 0; i < id.length; i++) frame[2 + i] = id.charCodeAt(i) & 0x7f;
+  frame.set(payload, 2 + id.length);
+  return frame;
+}
+
+/** Split a binary frame into its header and payload. Null if the frame is malformed. */
+export function decodeBinaryFrame(frame: Uint8Array): BinaryFrame | null {
+  if (frame.byteLength < 2) return null;
+  const kind = frame[0];
+  const idLength = frame[1];
+  if (!(kind in BinaryFrameKind) || frame.byteLength < 2 + idLength) return null;
+  let id = "";
+  for (let i = 0; i < idLength; i++) id += String.fromCharCode(frame[2 + i]);
+  return { kind, id, payload: frame.subarray(2 + idLength) };
+}
 
 /** Current protocol version. */
-export const PROTOCOL_VERSION = 2;
+export const PROTOCOL_VERSION = 15;
+
+/**
+ * Encrypted blobs larger than this are transferred in chunks of this size. Clients encrypt such
+ * blobs chunk by chunk, so every transfer chunk can be encrypted and decrypted on its own.
+ */
+export const CHUNK_SIZE = 2 * 1024 * 1024;
+
+/** Files at least this large are split into content-defined blocks and deduplicated. */
+export const DEDUP_MIN_SIZE = 1024 * 1024;
+
+/** Bytes encryption adds to every blob: the 12-byte IV and the 16-byte GCM tag. */
+export const BLOB_OVERHEAD = 28;
 
 /** Default server port. */
 export const DEFAULT_PORT = 8443;
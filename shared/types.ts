@@ -25,16 +25,43 @@ export interface EncryptedFileEntry {
   fileId: string;
   /** Encrypted metadata (JSON string encrypted with vault key). */
   encryptedMeta: string;
+  /** PRIVATE_MTIME for files uploaded in privacy mode; the real mtime is in encryptedMeta. */
   mtime: number;
+  /** Padded for files uploaded in privacy mode; the real size is in encryptedMeta. */
   size: number;
   deleted?: boolean;
 }
 
+/** An earlier encrypted version of a file, kept by the server when it is overwritten. */
+export interface FileVersionEntry {
+  versionId: number;
+  /** Encrypted metadata of that version (same format as the live entry). */
+  encryptedMeta: string;
+  mtime: number;
+  size: number;
+  /** When the server replaced this version (ms). */
+  archivedAt: number;
+}
+
+/** A deleted file whose blob the server still keeps in its trash. */
+export interface TrashEntry {
+  fileId: string;
+  /** Encrypted metadata of the file as it was when deleted. */
+  encryptedMeta: string;
+  mtime: number;
+  size: number;
+  /** Device name of the client that deleted the file. */
+  deletedBy: string;
+  /** When the file was deleted (ms). */
+  deletedAt: number;
+}
+
 /** Overall sync state of the plugin. */
 export type SyncState =
   | "disconnected"
   | "connecting"
   | "authenticating"
+  | "pending"
   | "syncing"
   | "idle"
   | "error";
@@ -55,6 +82,8 @@ export interface ClientInfo {
   ip: string;
   connectedAt: number;
   lastActivity: number;
+  /** Signed in with a read-only token (see ClientSession.readOnly). */
+  readOnly: boolean;
 }
 
 /** Server manifest: list of all file entries. */
@@ -82,6 +111,45 @@ export interface ClientSession {
   firstSeen: number;
   lastSeen: number;
   isOnline: boolean;
+  /** False while the device waits for approval by a trusted device. */
+  trusted: boolean;
+  /** The device's P-256 public key (base64, raw); null for sessions from before device keys. */
+  publicKey: string | null;
+  /** True if the device signed in read-only: it may download but never change files. */
+  readOnly: boolean;
+}
+
+/** Access of a vault to a shared folder: the vault that created it, or a member who may change or only read it. */
+export type ShareRole = "owner" | "write" | "read";
+
+/** A vault a shared folder was shared with. */
+export interface ShareMember {
+  vaultId: string;
+  role: ShareRole;
+  /** False while the invitation is open. */
+  accepted: boolean;
+}
+
+/**
+ * A shared folder as the server lists it to one device. Its files are encrypted with a folder
+ * key of their own; the owner wraps it for every member, so no member needs another's vault key.
+ */
+export interface ShareInfo {
+  shareId: string;
+  /** Vault that created the folder; its quota covers the folder's files. */
+  owner: string;
+  /** This vault's access. */
+  role: ShareRole;
+  /** Folder name, encrypted with the folder key. */
+  encryptedName: string;
+  /** Folder key wrapped with this vault's data key; unset until the invitation is accepted. */
+  vaultKey?: string;
+  /** Folder key encrypted to this device's key, while the invitation is open. */
+  deviceKey?: string;
+  /** Where this vault mounts the folder, encrypted with its data key; unset until accepted. */
+  encryptedMount?: string;
+  /** Everyone the folder is shared with (only listed to the owner). */
+  members?: ShareMember[];
 }
 
 /** Sync preview: what will happen when sync is applied. */
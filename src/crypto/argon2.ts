@@ -0,0 +1,342 @@
+/**
+ * Argon2id (RFC 9106, version 0x13) in plain TypeScript, with the BLAKE2b it is built on.
+ * Web Crypto has no memory-hard KDF, and the plugin cannot ship native code.
+ *
+ * 64-bit words are stored as little-endian (lo, hi) pairs of 32-bit numbers, so word w of
+ * a block lives at indices 2w and 2w + 1 of its Uint32Array.
+ */
+
+/** Parameters of one Argon2id derivation. */
+export interface Argon2Params {
+  /** Memory cost in KiB (one block per KiB). */
+  memoryKiB: number;
+  /** Number of passes over memory. */
+  iterations: number;
+  /** Number of lanes. Lanes are computed one after another; this only changes the result. */
+  parallelism: number;
+}
+
+const ARGON2_VERSION = 0x13;
+const ARGON2_TYPE_ID = 2;
+/** 1 KiB blocks of 128 64-bit words. */
+const BLOCK_WORDS32 = 256;
+const SYNC_POINTS = 4;
+
+// ---- BLAKE2b ----
+
+const BLAKE2B_IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+];
+
+/** v[a] += v[b] (64-bit). */
+function add64(v: Uint32Array, a: number, b: number): void {
+  const lo = v[a] + v[b];
+  v[a + 1] = v[a + 1] + v[b + 1] + (lo > 0xffffffff ? 1 : 0);
+  v[a] = lo;
+}
+
+/** v[a] += (lo, hi) (64-bit). */
+function add64c(v: Uint32Array, a: number, lo: number, hi: number): void {
+  const sum = v[a] + lo;
+  v[a + 1] = v[a + 1] + hi + (sum > 0xffffffff ? 1 : 0);
+  v[a] = sum;
+}
+
+/** v[d] = rotr64(v[d] ^ v[a], n) for n = 32, 24, 16 or 63. */
+function xorRotr(v: Uint32Array, d: number, a: number, n: number): void {
+  const lo = v[d] ^ v[a];
+  const hi = v[d + 1] ^ v[a + 1];
+  if (n === 32) {
+    v[d] = hi;
+    v[d + 1] = lo;
+  } else if (n === 63) {
+    v[d] = (lo << 1) | (hi >>> 31);
+    v[d + 1] = (hi << 1) | (lo >>> 31);
+  } else {
+    v[d] = (lo >>> n) | (hi << (32 - n));
+    v[d + 1] = (hi >>> n) | (lo << (32 - n));
+  }
+}
+
+function blake2bCompress(h: Uint32Array, v: Uint32Array, m: Uint32Array, counter: number, last: boolean): void {
+  v.set(h, 0);
+  v.set(BLAKE2B_IV, 16);
+  v[24] ^= counter >>> 0;
+  v[25] ^= Math.floor(counter / 0x100000000);
+  if (last) {
+    v[28] = ~v[28];
+    v[29] = ~v[29];
+  }
+  for (let round = 0; round < 12; round++) {
+    const s = SIGMA[round % 10];
+    for (let i = 0; i < 8; i++) {
+      // Columns first (i < 4), then diagonals
+      const a = i < 4 ? i : (i - 4);
+      const b = i < 4 ? i + 4 : 4 + ((i - 3) & 3);
+      const c = i < 4 ? i + 8 : 8 + ((i - 2) & 3);
+      const d = i < 4 ? i + 12 : 12 + ((i - 1) & 3);
+      const x = 2 * s[2 * i];
+      const y = 2 * s[2 * i + 1];
+      add64(v, 2 * a, 2 * b); add64c(v, 2 * a, m[x], m[x + 1]);
+      xorRotr(v, 2 * d, 2 * a, 32);
+      add64(v, 2 * c, 2 * d);
+      xorRotr(v, 2 * b, 2 * c, 24);
+      add64(v, 2 * a, 2 * b); add64c(v, 2 * a, m[y], m[y + 1]);
+      xorRotr(v, 2 * d, 2 * a, 16);
+      add64(v, 2 * c, 2 * d);
+      xorRotr(v, 2 * b, 2 * c, 63);
+    }
+  }
+  for (let i = 0; i < 16; i++) h[i] ^= v[i] ^ v[i + 16];
+}
+
+/** Unkeyed BLAKE2b of `input` with a digest of `outLength` (1-64) bytes. */
+export function blake2b(input: Uint8Array, outLength: number): Uint8Array<ArrayBuffer> {
+  const h = new Uint32Array(BLAKE2B_IV);
+  h[0] ^= 0x01010000 ^ outLength;
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+  const block = new Uint8Array(128);
+  const view = new DataView(block.buffer);
+
+  let offset = 0;
+  do {
+    const length = Math.min(128, input.length - offset);
+    block.fill(0);
+    block.set(input.subarray(offset, offset + length));
+    offset += length;
+    for (let i = 0; i < 32; i++) m[i] = view.getUint32(4 * i, true);
+    blake2bCompress(h, v, m, offset, offset === input.length);
+  } while (offset < input.length);
+
+  const out = new Uint8Array(64);
+  const outView = new DataView(out.buffer);
+  for (let i = 0; i < 16; i++) outView.setUint32(4 * i, h[i], true);
+  return out.slice(0, outLength);
+}
+
+// ---- Argon2 building blocks ----
+
+function le32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) { out.set(part, offset); offset += part.length; }
+  return out;
+}
+
+/** H' — BLAKE2b stretched to any output length. */
+function hashLong(input: Uint8Array, outLength: number): Uint8Array<ArrayBuffer> {
+  const prefixed = concat([le32(outLength), input]);
+  if (outLength <= 64) return blake2b(prefixed, outLength);
+
+  const out = new Uint8Array(outLength);
+  let v = blake2b(prefixed, 64);
+  out.set(v.subarray(0, 32), 0);
+  let offset = 32;
+  while (outLength - offset > 64) {
+    v = blake2b(v, 64);
+    out.set(v.subarray(0, 32), offset);
+    offset += 32;
+  }
+  out.set(blake2b(v, outLength - offset), offset);
+  return out;
+}
+
+/** v[a] += v[b] + 2 * lo32(v[a]) * lo32(v[b]) — the BlaMka multiply-add. */
+function blaMka(v: Uint32Array, a: number, b: number): void {
+  const x = v[a];
+  const y = v[b];
+  // 32 × 32 → 64-bit product from 16-bit halves, so every step stays exact in a double
+  const xl = x & 0xffff, xh = x >>> 16, yl = y & 0xffff, yh = y >>> 16;
+  const cross = xl * yh + xh * yl;
+  let lo = xl * yl + (cross % 0x10000) * 0x10000;
+  let hi = xh * yh + Math.floor(cross / 0x10000) + Math.floor(lo / 0x100000000);
+  lo %= 0x100000000;
+  hi = hi * 2 + (lo >= 0x80000000 ? 1 : 0);
+  lo = (lo * 2) % 0x100000000;
+
+  const sum = x + y + lo;
+  v[a + 1] = v[a + 1] + v[b + 1] + hi + Math.floor(sum / 0x100000000);
+  v[a] = sum;
+}
+
+/** The BLAKE2b round function with BlaMka additions, on 16 words of `v` given by `w`. */
+function permute(v: Uint32Array, w: number[]): void {
+  for (let i = 0; i < 8; i++) {
+    const a = w[i < 4 ? i : i - 4];
+    const b = w[i < 4 ? i + 4 : 4 + ((i - 3) & 3)];
+    const c = w[i < 4 ? i + 8 : 8 + ((i - 2) & 3)];
+    const d = w[i < 4 ? i + 12 : 12 + ((i - 1) & 3)];
+    blaMka(v, a, b);
+    xorRotr(v, d, a, 32);
+    blaMka(v, c, d);
+    xorRotr(v, b, c, 24);
+    blaMka(v, a, b);
+    xorRotr(v, d, a, 16);
+    blaMka(v, c, d);
+    xorRotr(v, b, c, 63);
+  }
+}
+
+/** Word indices (×2) of the 8 rows and 8 columns the compression function permutes. */
+const ROWS: number[][] = [];
+const COLUMNS: number[][] = [];
+for (let i = 0; i < 8; i++) {
+  const row: number[] = [];
+  const column: number[] = [];
+  for (let j = 0; j < 16; j++) {
+    row.push(2 * (16 * i + j));
+    column.push(2 * (2 * i + 16 * (j >> 1) + (j & 1)));
+  }
+  ROWS.push(row);
+  COLUMNS.push(column);
+}
+
+/**
+ * Compression G: out = P(x ^ y) ^ x ^ y, or out ^= that when `xor` is set (later passes).
+ * `r` and `q` are scratch blocks.
+ */
+function compress(out: Uint32Array, x: Uint32Array, y: Uint32Array, r: Uint32Array, q: Uint32Array, xor: boolean): void {
+  for (let i = 0; i < BLOCK_WORDS32; i++) r[i] = x[i] ^ y[i];
+  q.set(r);
+  for (const row of ROWS) permute(q, row);
+  for (const column of COLUMNS) permute(q, column);
+  if (xor) for (let i = 0; i < BLOCK_WORDS32; i++) out[i] ^= q[i] ^ r[i];
+  else for (let i = 0; i < BLOCK_WORDS32; i++) out[i] = q[i] ^ r[i];
+}
+
+/** floor(a * b / 2^32) for 32-bit a and b, without losing precision above 2^53. */
+function mulHigh(a: number, b: number): number {
+  const low = a * (b & 0xffff);
+  const high = a * (b >>> 16);
+  return Math.floor((high + Math.floor(low / 0x10000)) / 0x10000);
+}
+
+function bytesToBlock(bytes: Uint8Array, block: Uint32Array): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = 0; i < BLOCK_WORDS32; i++) block[i] = view.getUint32(4 * i, true);
+}
+
+/**
+ * Derive `hashLength` bytes from a password with Argon2id. Yields to the event loop after
+ * every segment so the UI stays responsive during the derivation.
+ */
+export async function argon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Argon2Params,
+  hashLength = 32,
+  secret: Uint8Array = new Uint8Array(0),
+  associatedData: Uint8Array = new Uint8Array(0)
+): Promise<Uint8Array<ArrayBuffer>> {
+  const { iterations, parallelism: lanes } = params;
+  const h0 = blake2b(concat([
+    le32(lanes), le32(hashLength), le32(params.memoryKiB), le32(iterations),
+    le32(ARGON2_VERSION), le32(ARGON2_TYPE_ID),
+    le32(password.length), password, le32(salt.length), salt,
+    le32(secret.length), secret, le32(associatedData.length), associatedData,
+  ]), 64);
+
+  const segmentLength = Math.floor(params.memoryKiB / (SYNC_POINTS * lanes));
+  const laneLength = segmentLength * SYNC_POINTS;
+  const memory = new Uint32Array(laneLength * lanes * BLOCK_WORDS32);
+  const block = (lane: number, index: number) =>
+    memory.subarray((lane * laneLength + index) * BLOCK_WORDS32, (lane * laneLength + index + 1) * BLOCK_WORDS32);
+
+  // The first two blocks of each lane come straight from H0
+  for (let lane = 0; lane < lanes; lane++) {
+    for (let index = 0; index < 2; index++) {
+      bytesToBlock(hashLong(concat([h0, le32(index), le32(lane)]), 1024), block(lane, index));
+    }
+  }
+
+  const r = new Uint32Array(BLOCK_WORDS32);
+  const q = new Uint32Array(BLOCK_WORDS32);
+  const zero = new Uint32Array(BLOCK_WORDS32);
+  const addressInput = new Uint32Array(BLOCK_WORDS32);
+  const addresses = new Uint32Array(BLOCK_WORDS32);
+
+  for (let pass = 0; pass < iterations; pass++) {
+    for (let slice = 0; slice < SYNC_POINTS; slice++) {
+      for (let lane = 0; lane < lanes; lane++) {
+        // Argon2id: data-independent addressing in the first half of the first pass
+        const independent = pass === 0 && slice < 2;
+        if (independent) {
+          addressInput.fill(0);
+          addressInput[0] = pass; addressInput[2] = lane; addressInput[4] = slice;
+          addressInput[6] = laneLength * lanes; addressInput[8] = iterations; addressInput[10] = ARGON2_TYPE_ID;
+        }
+
+        const first = pass === 0 && slice === 0 ? 2 : 0;
+        for (let i = first; i < segmentLength; i++) {
+          const index = slice * segmentLength + i;
+          const prevIndex = index === 0 ? laneLength - 1 : index - 1;
+
+          let j1: number;
+          let j2: number;
+          if (independent) {
+            if (i % 128 === 0 || i === first) {
+              addressInput[12]++;
+              compress(addresses, zero, addressInput, r, q, false);
+              compress(addresses, zero, addresses, r, q, false);
+            }
+            j1 = addresses[2 * (i % 128)];
+            j2 = addresses[2 * (i % 128) + 1];
+          } else {
+            const prev = block(lane, prevIndex);
+            j1 = prev[0];
+            j2 = prev[1];
+          }
+
+          const refLane = pass === 0 && slice === 0 ? lane : j2 % lanes;
+          let areaSize: number;
+          if (pass === 0) {
+            areaSize = refLane === lane ? index - 1 : slice * segmentLength - (i === 0 ? 1 : 0);
+          } else {
+            areaSize = refLane === lane ? laneLength - segmentLength + i - 1 : laneLength - segmentLength - (i === 0 ? 1 : 0);
+          }
+          // Map j1 non-uniformly onto the area, favouring recent blocks
+          const x = mulHigh(j1, j1);
+          const y = mulHigh(areaSize, x);
+          const relative = areaSize - 1 - y;
+          const start = pass === 0 || slice === SYNC_POINTS - 1 ? 0 : (slice + 1) * segmentLength;
+          const refIndex = (start + relative) % laneLength;
+
+          compress(block(lane, index), block(lane, prevIndex), block(refLane, refIndex), r, q, pass > 0);
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  // XOR the last block of every lane and stretch it to the tag
+  const final = new Uint32Array(block(0, laneLength - 1));
+  for (let lane = 1; lane < lanes; lane++) {
+    const last = block(lane, laneLength - 1);
+    for (let i = 0; i < BLOCK_WORDS32; i++) final[i] ^= last[i];
+  }
+  const finalBytes = new Uint8Array(1024);
+  const view = new DataView(finalBytes.buffer);
+  for (let i = 0; i < BLOCK_WORDS32; i++) view.setUint32(4 * i, final[i], true);
+  return hashLong(finalBytes, hashLength);
+}
@@ -0,0 +1,103 @@
+/**
+ * Device keys: every device holds a P-256 key pair. It proves possession of the private key
+ * when signing in (ECDH with the server's per-connection challenge key), and a trusted device
+ * approving it hands over the vault data key encrypted to its public key (ECDH with an
+ * ephemeral key, HKDF-SHA256, AES-256-GCM).
+ */
+
+import { toBase64, fromBase64, encryptBlob, decryptBlob } from "./encryption";
+
+const encoder = new TextEncoder();
+
+const ECDH_P256 = { name: "ECDH", namedCurve: "P-256" };
+
+/** Length of a raw (uncompressed) P-256 public key. */
+const PUBLIC_KEY_BYTES = 65;
+
+export interface DeviceKeyPair {
+  /** Raw (uncompressed) public key, base64. */
+  publicKey: string;
+  /** PKCS#8 private key, base64. */
+  privateKey: string;
+}
+
+/** Generate the key pair that identifies this device to the server and to the other devices. */
+export async function generateDeviceKeyPair(): Promise<DeviceKeyPair> {
+  const pair = await crypto.subtle.generateKey(ECDH_P256, true, ["deriveBits"]);
+  return {
+    publicKey: toBase64(new Uint8Array(await crypto.subtle.exportKey("raw", pair.publicKey))),
+    privateKey: toBase64(new Uint8Array(await crypto.subtle.exportKey("pkcs8", pair.privateKey))),
+  };
+}
+
+/** Base64 to bytes, typed for WebCrypto (fromBase64 always returns a fresh ArrayBuffer). */
+function decode(base64: string): Uint8Array<ArrayBuffer> {
+  return fromBase64(base64) as Uint8Array<ArrayBuffer>;
+}
+
+function importPrivateKey(privateKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("pkcs8", decode(privateKey), ECDH_P256, false, ["deriveBits"]);
+}
+
+/** HKDF-SHA256 of the ECDH secret between a private key and a raw public key. */
+async function deriveSharedBits(privateKey: CryptoKey, publicKey: Uint8Array<ArrayBuffer>, info: string): Promise<ArrayBuffer> {
+  const peer = await crypto.subtle.importKey("raw", publicKey, ECDH_P256, false, []);
+  const secret = await crypto.subtle.deriveBits({ name: "ECDH", public: peer }, privateKey, 256);
+  const keyMaterial = await crypto.subtle.importKey("raw", secret, "HKDF", false, ["deriveBits"]);
+  return crypto.subtle.deriveBits(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: encoder.encode(info) },
+    keyMaterial,
+    256
+  );
+}
+
+function importWrappingKey(bits: ArrayBuffer): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", bits, { name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Proof for AUTH that this device holds its private key, bound to the server's AUTH_CHALLENGE key (hex). */
+export async function deriveDeviceProof(privateKey: string, serverKey: string): Promise<string> {
+  const bits = await deriveSharedBits(await importPrivateKey(privateKey), decode(serverKey), "advanced-sync device proof");
+  return toHex(new Uint8Array(bits));
+}
+
+/**
+ * Encrypt the vault data key to a device's public key.
+ * Returns base64 of [65-byte ephemeral public key][12-byte IV][AES-GCM ciphertext of the raw key].
+ */
+export async function encryptKeyForDevice(dataKey: CryptoKey, devicePublicKey: string): Promise<string> {
+  const ephemeral = await crypto.subtle.generateKey(ECDH_P256, true, ["deriveBits"]);
+  const wrappingKey = await importWrappingKey(
+    await deriveSharedBits(ephemeral.privateKey, decode(devicePublicKey), "advanced-sync device key")
+  );
+  const sealed = new Uint8Array(await encryptBlob(await crypto.subtle.exportKey("raw", dataKey), wrappingKey));
+  const ephemeralPublic = new Uint8Array(await crypto.subtle.exportKey("raw", ephemeral.publicKey));
+  const combined = new Uint8Array(ephemeralPublic.length + sealed.length);
+  combined.set(ephemeralPublic, 0);
+  combined.set(sealed, ephemeralPublic.length);
+  return toBase64(combined);
+}
+
+/** Decrypt a data key encrypted by encryptKeyForDevice. Returns null if it was not encrypted to this device. */
+export async function decryptKeyForDevice(deviceKey: string, privateKey: string): Promise<CryptoKey | null> {
+  const bytes = decode(deviceKey);
+  const wrappingKey = await importWrappingKey(
+    await deriveSharedBits(await importPrivateKey(privateKey), bytes.slice(0, PUBLIC_KEY_BYTES), "advanced-sync device key")
+  );
+  const raw = await decryptBlob(bytes.slice(PUBLIC_KEY_BYTES).buffer, wrappingKey);
+  if (!raw) return null;
+  return crypto.subtle.importKey("raw", raw, { name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+}
+
+/**
+ * Short fingerprint of a device public key, compared on both devices before approving:
+ * the first 48 bits of its SHA-256, as three groups of four hex digits.
+ */
+export async function deviceFingerprint(publicKey: string): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", decode(publicKey)));
+  return toHex(hash.subarray(0, 6)).toUpperCase().match(/.{4}/g)!.join("-");
+}
@@ -5,8 +5,16 @@
  *
  * Protocol v2: blobs use raw binary format [12-byte IV][ciphertext]
  * instead of base64-wrapped JSON.
+ *
+ * Blobs larger than CHUNK_SIZE are encrypted chunk by chunk instead (encryptChunk), so they
+ * can be encrypted and decrypted one transfer chunk at a time.
  */
 
+import { CHUNK_SIZE, BLOB_OVERHEAD } from "@vault-sync/shared/protocol";
+
+/** Plaintext bytes per chunk of a blob encrypted chunk by chunk; each encrypts to CHUNK_SIZE bytes. */
+export const CHUNK_PLAINTEXT_SIZE = CHUNK_SIZE - BLOB_OVERHEAD;
+
 const encoder = new TextEncoder();
 const decoder = new TextDecoder();
 
@@ -77,6 +85,70 @@ export async function decryptBlob(
   }
 }
 
+/** Additional data of a chunk: its index and whether it is the last one. */
+function chunkPosition(index: number, last: boolean): ArrayBuffer {
+  const position = new DataView(new ArrayBuffer(5));
+  position.setUint32(0, index);
+  position.setUint8(4, last ? 1 : 0);
+  return position.buffer;
+}
+
+/**
+ * Encrypt one chunk of a large blob on its own: [12-byte IV][ciphertext]. Its index and whether
+ * it is the last chunk are authenticated too, so chunks can't be reordered or the blob cut short.
+ */
+export async function encryptChunk(
+  data: ArrayBuffer,
+  key: CryptoKey,
+  index: number,
+  last: boolean
+): Promise<ArrayBuffer> {
+  const iv = generateIv();
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: chunkPosition(index, last) },
+    key,
+    data
+  );
+  const combined = new Uint8Array(iv.length + ciphertext.byteLength);
+  combined.set(iv, 0);
+  combined.set(new Uint8Array(ciphertext), iv.length);
+  return combined.buffer;
+}
+
+/** Decrypt one chunk written by encryptChunk. Returns null if it fails or sits at another position. */
+export async function decryptChunk(
+  data: ArrayBuffer,
+  key: CryptoKey,
+  index: number,
+  last: boolean
+): Promise<ArrayBuffer | null> {
+  try {
+    return await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: data.slice(0, 12), additionalData: chunkPosition(index, last) },
+      key,
+      data.slice(12)
+    );
+  } catch {
+    return null;
+  }
+}
+
+/** Decrypt a whole blob that was encrypted chunk by chunk (e.g. an archived version). */
+export async function decryptChunkedBlob(
+  data: ArrayBuffer,
+  key: CryptoKey
+): Promise<ArrayBuffer | null> {
+  const count = Math.ceil(data.byteLength / CHUNK_SIZE);
+  if (count === 0 || data.byteLength - count * BLOB_OVERHEAD < 0) return null;
+  const plain = new Uint8Array(data.byteLength - count * BLOB_OVERHEAD);
+  for (let i = 0; i < count; i++) {
+    const chunk = await decryptChunk(data.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE), key, i, i === count - 1);
+    if (!chunk) return null;
+    plain.set(new Uint8Array(chunk), i * CHUNK_PLAINTEXT_SIZE);
+  }
+  return plain.buffer;
+}
+
 /**
  * Encrypt metadata (a JSON-serializable object) into a base64 string.
  * Format: base64(iv + ciphertext) where iv is first 12 bytes.
@@ -1,90 +1,260 @@
 /**
  * Key derivation and management for vault sync encryption.
- * PBKDF2 for key derivation, HMAC-SHA256 for opaque file IDs.
+ * Argon2id (or PBKDF2 in older vaults) for the password key, which wraps the random vault data key.
+ * HKDF of the password key for the server sign-in proof, so the server holds nothing faster to guess.
+ * HMAC-SHA256 (keyed by the data key) for opaque file and block IDs.
  */
 
-import { toBase64 } from "./encryption";
+import { isValidKdfParams } from "@vault-sync/shared/protocol";
+import type { KdfParams } from "@vault-sync/shared/protocol";
+import { toBase64, fromBase64, encryptBlob, decryptBlob, sha256String } from "./encryption";
+import { argon2id } from "./argon2";
 
 const encoder = new TextEncoder();
 
-/** PBKDF2 iteration count — 210k with SHA-512 for strong key derivation. */
-const PBKDF2_ITERATIONS = 210000;
+/** KDF for new password keys — Argon2id with 19 MiB and 2 passes, the OWASP baseline. */
+export const DEFAULT_KDF: KdfParams = { algorithm: "argon2id", memoryKiB: 19456, iterations: 2, parallelism: 1 };
+
+/** KDF of vaults created before KDF parameters were stored — PBKDF2-SHA512 with 210k iterations. */
+export const LEGACY_KDF: KdfParams = { algorithm: "pbkdf2-sha512", iterations: 210000 };
 
 /**
- * Derive an AES-256-GCM CryptoKey from a password and salt using PBKDF2.
- * The key can encrypt/decrypt and also be used to derive HMAC keys.
+ * Derive the password key (AES-256-GCM) from a password and salt with the vault's KDF.
+ * It only wraps the vault data key — except in vaults created before data keys,
+ * whose files are encrypted with it directly and where it becomes the data key.
  */
-export async function deriveVaultKey(
+export async function derivePasswordKey(
   password: string,
-  salt: Uint8Array
+  salt: Uint8Array,
+  kdf: KdfParams
 ): Promise<CryptoKey> {
-  const keyMaterial = await crypto.subtle.importKey(
+  // The parameters come from the server: bounded costs keep a malicious one from exhausting memory
+  if (!isValidKdfParams(kdf)) throw new Error("The server reported an unsupported key derivation");
+  let raw: Uint8Array<ArrayBuffer>;
+  if (kdf.algorithm === "argon2id") {
+    raw = await argon2id(encoder.encode(password), salt, kdf);
+  } else {
+    const keyMaterial = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(password),
+      "PBKDF2",
+      false,
+      ["deriveBits"]
+    );
+    raw = new Uint8Array(await crypto.subtle.deriveBits(
+      {
+        name: "PBKDF2",
+        salt,
+        iterations: kdf.iterations,
+        hash: "SHA-512",
+      },
+      keyMaterial,
+      256
+    ));
+  }
+
+  return crypto.subtle.importKey(
     "raw",
-    encoder.encode(password),
-    "PBKDF2",
-    false,
-    ["deriveKey"]
+    raw,
+    { name: "AES-GCM", length: 256 },
+    true, // extractable so a legacy vault can adopt it as its data key
+    ["encrypt", "decrypt"]
   );
+}
 
-  return crypto.subtle.deriveKey(
-    {
-      name: "PBKDF2",
-      salt,
-      iterations: PBKDF2_ITERATIONS,
-      hash: "SHA-512",
-    },
+/**
+ * Derive the server sign-in proof from the password key with HKDF-SHA256 (hex). The server
+ * stores it, so guessing the password from it costs a full KDF run per guess.
+ */
+export async function deriveAuthHash(passwordKey: CryptoKey): Promise<string> {
+  const raw = await crypto.subtle.exportKey("raw", passwordKey);
+  const keyMaterial = await crypto.subtle.importKey("raw", raw, "HKDF", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: encoder.encode("advanced-sync password auth") },
     keyMaterial,
+    256
+  );
+  return toHex(bits);
+}
+
+/**
+ * Sign-in proof of a password for a vault with this salt and KDF. Vaults without KDF
+ * parameters still sign in with a plain SHA-256 of the password.
+ */
+export async function derivePasswordProof(password: string, vaultSalt: string | null, kdf: KdfParams | null): Promise<string> {
+  if (!vaultSalt || !kdf) return sha256String(password);
+  return deriveAuthHash(await derivePasswordKey(password, saltFromBase64(vaultSalt), kdf));
+}
+
+/** Generate a random vault data key — it encrypts every file and keys the file and block IDs. */
+export async function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey(
     { name: "AES-GCM", length: 256 },
-    true, // extractable so we can derive HMAC key from the raw bits
+    true, // extractable so it can be wrapped and HMAC keys derived from its raw bits
     ["encrypt", "decrypt"]
   );
 }
 
 /**
- * Cache for the derived HMAC key — avoids re-exporting and re-importing
- * the vault key on every single deriveFileId call.  The cache is keyed by
- * the vault CryptoKey reference.
+ * Wrap the vault data key with a wrapping key (e.g. the password key).
+ * Returns base64 of [12-byte IV][AES-GCM ciphertext of the raw key].
+ */
+export async function wrapDataKey(dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<string> {
+  const raw = await crypto.subtle.exportKey("raw", dataKey);
+  return toBase64(new Uint8Array(await encryptBlob(raw, wrappingKey)));
+}
+
+/** Unwrap a data key wrapped by wrapDataKey. Returns null if the wrapping key is wrong. */
+export async function unwrapDataKey(wrapped: string, wrappingKey: CryptoKey): Promise<CryptoKey | null> {
+  const raw = await decryptBlob(fromBase64(wrapped).buffer as ArrayBuffer, wrappingKey);
+  if (!raw) return null;
+  return crypto.subtle.importKey("raw", raw, { name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+}
+
+/**
+ * Cache for the derived HMAC keys — avoids re-exporting and re-importing
+ * the key on every single deriveFileId call.  The cache is keyed by the
+ * CryptoKey reference: the vault key, and the folder key of each shared folder.
  */
-let cachedHmacKey: CryptoKey | null = null;
-let cachedHmacSource: CryptoKey | null = null;
+const hmacKeys = new WeakMap<CryptoKey, CryptoKey>();
 
 /** Pre-compute hex lookup table for fast byte→hex conversion. */
 const HEX_TABLE: string[] = [];
 for (let i = 0; i < 256; i++) HEX_TABLE[i] = i.toString(16).padStart(2, "0");
 
-/**
- * Derive a deterministic opaque file ID from a vault path.
- * Uses HMAC-SHA256 with the vault key's raw bits as the HMAC key.
- * This ensures the server never sees real file paths.
- */
-export async function deriveFileId(
-  path: string,
-  vaultKey: CryptoKey
-): Promise<string> {
-  // Re-derive the HMAC key only when the vault key changes
-  if (cachedHmacSource !== vaultKey || !cachedHmacKey) {
+/** HMAC-SHA256 key from a vault or folder key's raw bits, derived once per key. */
+async function getHmacKey(vaultKey: CryptoKey): Promise<CryptoKey> {
+  let hmacKey = hmacKeys.get(vaultKey);
+  if (!hmacKey) {
     const rawKey = await crypto.subtle.exportKey("raw", vaultKey);
-    cachedHmacKey = await crypto.subtle.importKey(
+    hmacKey = await crypto.subtle.importKey(
       "raw",
       rawKey,
       { name: "HMAC", hash: "SHA-256" },
       false,
       ["sign"]
     );
-    cachedHmacSource = vaultKey;
+    hmacKeys.set(vaultKey, hmacKey);
   }
+  return hmacKey;
+}
+
+/** Fast hex conversion using lookup table. */
+function toHex(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let hex = "";
+  for (let i = 0; i < bytes.length; i++) hex += HEX_TABLE[bytes[i]];
+  return hex;
+}
 
+/**
+ * Derive a deterministic opaque file ID from a vault path.
+ * Uses HMAC-SHA256 with the vault key's raw bits as the HMAC key.
+ * This ensures the server never sees real file paths.
+ * Files of a shared folder use the folder key and their path inside the folder, so members
+ * who mount it at different paths derive the same IDs.
+ */
+export async function deriveFileId(
+  path: string,
+  vaultKey: CryptoKey
+): Promise<string> {
   const signature = await crypto.subtle.sign(
     "HMAC",
-    cachedHmacKey,
+    await getHmacKey(vaultKey),
     encoder.encode(path)
   );
+  return toHex(signature);
+}
 
-  // Fast hex conversion using lookup table
-  const bytes = new Uint8Array(signature);
-  let hex = "";
-  for (let i = 0; i < bytes.length; i++) hex += HEX_TABLE[bytes[i]];
-  return hex;
+/** Domain prefix (NUL never occurs in a path) so a block ID can never equal a file ID. */
+const BLOCK_ID_PREFIX = encoder.encode("\0block\0");
+
+/**
+ * Derive the ID of a content block: HMAC-SHA256 over its plaintext.
+ * Identical blocks get identical IDs on every device of the vault (so the server
+ * can deduplicate them) without revealing anything about their content.
+ */
+export async function deriveBlockId(
+  block: Uint8Array,
+  vaultKey: CryptoKey
+): Promise<string> {
+  const input = new Uint8Array(BLOCK_ID_PREFIX.length + block.length);
+  input.set(BLOCK_ID_PREFIX, 0);
+  input.set(block, BLOCK_ID_PREFIX.length);
+  const signature = await crypto.subtle.sign("HMAC", await getHmacKey(vaultKey), input);
+  return toHex(signature);
+}
+
+/** Crockford base32 — no I, L, O or U, so a printed phrase can't be misread. */
+const RECOVERY_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/** A recovery phrase encodes 20 random bytes as 32 characters, in groups of 4. */
+const RECOVERY_SECRET_BYTES = 20;
+
+/** Keys derived from a recovery phrase: one wraps the data key, the other proves the phrase to the server. */
+export interface RecoveryKeys {
+  wrappingKey: CryptoKey;
+  /** Hex proof sent instead of a password hash; useless for unwrapping the data key. */
+  authHash: string;
+}
+
+/** Generate a random recovery phrase, e.g. `7K2M-QX9D-...` (8 groups of 4). */
+export function generateRecoveryPhrase(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_SECRET_BYTES));
+  let bits = 0;
+  let value = 0;
+  let chars = "";
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      chars += RECOVERY_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  return chars.match(/.{4}/g)!.join("-");
+}
+
+/**
+ * Decode a recovery phrase as typed by the user: case, spaces and dashes don't matter,
+ * and O/I/L are read as 0/1/1. Returns null if it is not a valid phrase.
+ */
+export function parseRecoveryPhrase(phrase: string): Uint8Array<ArrayBuffer> | null {
+  const chars = phrase.toUpperCase().replace(/[\s-]/g, "").replace(/O/g, "0").replace(/[IL]/g, "1");
+  if (chars.length !== RECOVERY_SECRET_BYTES * 8 / 5) return null;
+  const bytes = new Uint8Array(RECOVERY_SECRET_BYTES);
+  let bits = 0;
+  let value = 0;
+  let index = 0;
+  for (const char of chars) {
+    const digit = RECOVERY_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    value = ((value << 5) | digit) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes[index++] = (value >>> (bits - 8)) & 0xff;
+      bits -= 8;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Derive the recovery keys from a decoded phrase with HKDF-SHA256. The phrase is fully
+ * random, so no slow KDF is needed; separate info strings keep the two keys independent.
+ */
+export async function deriveRecoveryKeys(secret: Uint8Array<ArrayBuffer>): Promise<RecoveryKeys> {
+  const keyMaterial = await crypto.subtle.importKey("raw", secret, "HKDF", false, ["deriveKey", "deriveBits"]);
+  const params = (info: string) => ({ name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: encoder.encode(info) });
+  const wrappingKey = await crypto.subtle.deriveKey(
+    params("advanced-sync recovery wrap"),
+    keyMaterial,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+  const authBits = await crypto.subtle.deriveBits(params("advanced-sync recovery auth"), keyMaterial, 256);
+  return { wrappingKey, authHash: toHex(authBits) };
 }
 
 /**
@@ -0,0 +1,100 @@
+/**
+ * Pairing codes: a device that already syncs shows a short-lived code (as a QR code) with the
+ * server URL, the serverId, the vault id and a random secret. The new device signs in with one HKDF subkey
+ * of the secret and signs its device key with another, so the pairing device can approve it
+ * without the vault password ever being typed on the new device.
+ */
+
+import { toBase64, fromBase64 } from "./encryption";
+import { isValidVaultId } from "@vault-sync/shared/protocol";
+
+const encoder = new TextEncoder();
+
+/** Obsidian URI action of a pairing code (`obsidian://advanced-sync-pair?...`). */
+export const PAIRING_URI_ACTION = "advanced-sync-pair";
+
+/** A pairing code holds 16 random bytes. */
+const PAIRING_SECRET_BYTES = 16;
+
+export interface PairingCode {
+  serverUrl: string;
+  serverId: string;
+  /** Named vault on the server; empty for the default vault. */
+  vaultId: string;
+  secret: Uint8Array<ArrayBuffer>;
+}
+
+/** Keys derived from a pairing secret: one signs the server in, the other signs the device key. */
+export interface PairingKeys {
+  /** Hex subkey the server matches the code by; useless for signing. */
+  pairingHash: string;
+  macKey: CryptoKey;
+}
+
+/** Create a pairing code for this server with a fresh random secret. */
+export function generatePairingCode(serverUrl: string, serverId: string, vaultId: string): PairingCode {
+  return { serverUrl, serverId, vaultId, secret: crypto.getRandomValues(new Uint8Array(PAIRING_SECRET_BYTES)) };
+}
+
+/** Format a pairing code as the Obsidian URI shown in the QR code. */
+export function formatPairingCode(code: PairingCode): string {
+  const secret = toBase64(code.secret).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  return `obsidian://${PAIRING_URI_ACTION}?server=${encodeURIComponent(code.serverUrl)}`
+    + `&id=${encodeURIComponent(code.serverId)}${code.vaultId ? `&vault=${code.vaultId}` : ""}&secret=${secret}`;
+}
+
+/** Parse a pairing code as scanned or pasted by the user. Returns null if it is not a valid code. */
+export function parsePairingCode(text: string): PairingCode | null {
+  const match = text.trim().match(/^obsidian:\/\/([\w-]+)\?(.*)$/);
+  if (!match || match[1] !== PAIRING_URI_ACTION) return null;
+  const params: Record<string, string> = {};
+  for (const [key, value] of new URLSearchParams(match[2])) params[key] = value;
+  return pairingFromParams(params);
+}
+
+/** Read a pairing code from the parameters of an opened Obsidian URI. */
+export function pairingFromParams(params: Record<string, string>): PairingCode | null {
+  const { server, id, vault, secret } = params;
+  if (!server || !id || !secret || !/^[\w-]+$/.test(secret)) return null;
+  if (vault && !isValidVaultId(vault)) return null;
+  if (!/^wss?:\/\/|^https?:\/\//.test(server)) return null;
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64(secret.replace(/-/g, "+").replace(/_/g, "/"));
+  } catch {
+    return null;
+  }
+  if (bytes.length !== PAIRING_SECRET_BYTES) return null;
+  return { serverUrl: server, serverId: id, vaultId: vault ?? "", secret: bytes as Uint8Array<ArrayBuffer> };
+}
+
+/** Derive the pairing keys with HKDF-SHA256; the secret is fully random, so no slow KDF is needed. */
+export async function derivePairingKeys(secret: Uint8Array<ArrayBuffer>): Promise<PairingKeys> {
+  const keyMaterial = await crypto.subtle.importKey("raw", secret, "HKDF", false, ["deriveKey", "deriveBits"]);
+  const params = (info: string) => ({ name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: encoder.encode(info) });
+  const macKey = await crypto.subtle.deriveKey(
+    params("advanced-sync pairing mac"),
+    keyMaterial,
+    { name: "HMAC", hash: "SHA-256", length: 256 },
+    false,
+    ["sign", "verify"]
+  );
+  const hashBits = await crypto.subtle.deriveBits(params("advanced-sync pairing auth"), keyMaterial, 256);
+  return { pairingHash: toHex(new Uint8Array(hashBits)), macKey };
+}
+
+/** Sign the new device's public key with the pairing secret (hex HMAC-SHA256). */
+export async function signPairing(macKey: CryptoKey, devicePublicKey: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.sign("HMAC", macKey, encoder.encode(devicePublicKey))));
+}
+
+/** Check a signature from signPairing. */
+export async function verifyPairing(macKey: CryptoKey, devicePublicKey: string, proof: string): Promise<boolean> {
+  const bytes = proof.match(/^[0-9a-f]{64}$/) ? new Uint8Array(proof.match(/../g)!.map((h) => parseInt(h, 16))) : null;
+  if (!bytes) return false;
+  return crypto.subtle.verify("HMAC", macKey, bytes, encoder.encode(devicePublicKey));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -9,10 +9,20 @@ import { SyncEngine } from "./sync/sync-engine";
 import { SyncStatusBar } from "./ui/sync-status";
 import { SyncPopup } from "./ui/sync-popup";
 import { SyncHistoryView, SYNC_HISTORY_VIEW_TYPE } from "./ui/sync-history-view";
+import { VersionHistoryModal } from "./ui/version-history-modal";
+import { IntegrityModal } from "./ui/integrity-modal";
+import { ChangePasswordModal } from "./ui/change-password-modal";
+import { RotateKeyModal } from "./ui/rotate-key-modal";
+import { RecoveryKitModal } from "./ui/recovery-kit-modal";
+import { PairDeviceModal } from "./ui/pair-device-modal";
+import { ShareFolderModal } from "./ui/share-folder-modal";
+import { TrashView, TRASH_VIEW_TYPE } from "./ui/trash-view";
 import { AdvancedSyncSettingsTab } from "./settings";
 import type { AdvancedSyncSettings } from "./types";
 import { DEFAULT_SETTINGS } from "./types";
 import type { FileChange } from "./sync/file-watcher";
+import { PAIRING_URI_ACTION, pairingFromParams, formatPairingCode } from "./crypto/pairing";
+import type { PairingCode } from "./crypto/pairing";
 
 /** CSS variables to forward to the server web UI. */
 const THEME_VARS = [
@@ -95,6 +105,7 @@ export default class AdvancedSyncPlugin extends Plugin {
       },
       () => this.currentState,
       () => this.settings.syncEnabled,
+      () => this.syncEngine.direction,
     );
 
     this.settingsTab = new AdvancedSyncSettingsTab(this.app, this);
@@ -126,6 +137,8 @@ export default class AdvancedSyncPlugin extends Plugin {
       )
     );
 
+    this.registerView(TRASH_VIEW_TYPE, (leaf) => new TrashView(leaf, this.syncEngine));
+
     // Ribbon icon for mobile
     // Ribbon icon only on mobile — desktop uses the status bar item instead
     if (Platform.isMobile) {
@@ -137,6 +150,88 @@ export default class AdvancedSyncPlugin extends Plugin {
     this.addCommand({ id: "force-sync",   name: "Force full sync",             callback: () => this.forceSync() });
     this.addCommand({ id: "setup-wizard", name: "Run setup wizard",            callback: () => this.runSetupWizard() });
     this.addCommand({ id: "show-history", name: "Show sync history",           callback: () => this.activateHistoryView() });
+    this.addCommand({ id: "show-trash",   name: "Show deleted files",          callback: () => this.activateTrashView() });
+    this.addCommand({
+      id: "version-history",
+      name: "Show version history of current file",
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || !this.settings.setupComplete) return false;
+        if (!checking) new VersionHistoryModal(this.app, this.syncEngine, file.path).open();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "verify-integrity",
+      name: "Verify vault integrity",
+      checkCallback: (checking) => {
+        if (!this.settings.setupComplete) return false;
+        if (!checking) new IntegrityModal(this.app, this.syncEngine).open();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "change-password",
+      name: "Change vault password",
+      checkCallback: (checking) => {
+        if (!this.settings.setupComplete) return false;
+        if (!checking) new ChangePasswordModal(this.app, this.syncEngine).open();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "create-recovery-kit",
+      name: "Create recovery kit",
+      checkCallback: (checking) => {
+        if (!this.settings.setupComplete) return false;
+        if (!checking) new RecoveryKitModal(this.app, this.syncEngine, this.settings.serverUrl, this.settings.vaultId).open();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "rotate-vault-key",
+      name: "Rotate vault key",
+      checkCallback: (checking) => {
+        if (!this.settings.setupComplete) return false;
+        if (!checking) new RotateKeyModal(this.app, this.syncEngine).open();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "pair-device",
+      name: "Pair new device",
+      checkCallback: (checking) => {
+        if (!this.settings.setupComplete) return false;
+        if (!checking) new PairDeviceModal(this.app, this.syncEngine).open();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "share-folder",
+      name: "Share folder of current file",
+      checkCallback: (checking) => {
+        if (!this.settings.setupComplete) return false;
+        if (!checking) new ShareFolderModal(this.app, this.syncEngine, null, this.app.workspace.getActiveFile()?.parent?.path ?? "").open();
+        return true;
+      },
+    });
+
+    // A scanned pairing code opens obsidian://advanced-sync-pair?... and lands in the setup wizard
+    this.registerObsidianProtocolHandler(PAIRING_URI_ACTION, (params) => {
+      const pairing = pairingFromParams(params);
+      if (!pairing) {
+        new Notice("Advanced Sync: This pairing code is not valid.");
+        return;
+      }
+      this.settingsTab.startPairing(formatPairingCode(pairing));
+      void this.runSetupWizard();
+    });
 
     this.app.workspace.onLayoutReady(() => {
       if (this.settings.setupComplete && this.settings.autoConnect && this.settings.syncEnabled) {
@@ -155,6 +250,7 @@ export default class AdvancedSyncPlugin extends Plugin {
     this.syncEngine?.destroy();
     this.statusBar?.destroy();
     this.app.workspace.detachLeavesOfType(SYNC_HISTORY_VIEW_TYPE);
+    this.app.workspace.detachLeavesOfType(TRASH_VIEW_TYPE);
   }
 
   async loadSettings(): Promise<void> {
@@ -183,6 +279,16 @@ export default class AdvancedSyncPlugin extends Plugin {
     await this.syncEngine.connect(password);
   }
 
+  /** Connect using the recovery phrase and set a new password (forgotten password, from wizard). */
+  async connectWithRecovery(phrase: string, newPassword: string): Promise<void> {
+    await this.syncEngine.connectWithRecovery(phrase, newPassword);
+  }
+
+  /** Connect using a pairing code from another device (setup wizard, no password). */
+  async connectWithPairing(pairing: PairingCode): Promise<void> {
+    await this.syncEngine.connectWithPairing(pairing);
+  }
+
   private openStatusPopup(): void {
     this.popup.open();
   }
@@ -200,8 +306,8 @@ export default class AdvancedSyncPlugin extends Plugin {
       await this.runSetupWizard();
       return;
     }
-    // If we have a stored token and key, use them
-    if (this.settings.authToken && this.settings.encryptionKeyB64) {
+    // If we have a stored token, use it (with the stored key, or the one an approval brings)
+    if (this.settings.authToken) {
       await this.syncEngine.connectWithToken();
     } else {
       // No stored credentials — redirect to settings
@@ -298,6 +404,20 @@ export default class AdvancedSyncPlugin extends Plugin {
     }
   }
 
+  private async activateTrashView(): Promise<void> {
+    const existing = this.app.workspace.getLeavesOfType(TRASH_VIEW_TYPE);
+    if (existing.length > 0) {
+      this.app.workspace.revealLeaf(existing[0]);
+      if (existing[0].view instanceof TrashView) await existing[0].view.refresh();
+      return;
+    }
+    const leaf = this.app.workspace.getRightLeaf(false);
+    if (leaf) {
+      await leaf.setViewState({ type: TRASH_VIEW_TYPE, active: true });
+      this.app.workspace.revealLeaf(leaf);
+    }
+  }
+
   refreshHistoryViews(): void {
     for (const leaf of this.app.workspace.getLeavesOfType(SYNC_HISTORY_VIEW_TYPE)) {
       if (leaf.view instanceof SyncHistoryView) leaf.view.refresh();
@@ -4,32 +4,87 @@
  */
 
 import type { App } from "obsidian";
-import { MessageType, PROTOCOL_VERSION } from "@vault-sync/shared/protocol";
+import { MessageType, PROTOCOL_VERSION, BinaryFrameKind, encodeBinaryFrame, decodeBinaryFrame } from "@vault-sync/shared/protocol";
 import type {
   ProtocolMessage,
+  AuthChallengeMessage,
   AuthOkMessage,
   AuthFailMessage,
   SyncResponseMessage,
+  ManifestResponseMessage,
   FileChangedMessage,
   FileRemovedMessage,
   FileDownloadResponseMessage,
   FileUploadAckMessage,
   ClientListMessage,
+  VersionListResponseMessage,
+  VersionDownloadResponseMessage,
+  TrashListResponseMessage,
+  TrashRestoreResponseMessage,
+  ChunkUploadReadyMessage,
+  ChunkUploadAckMessage,
+  ChunkDownloadResponseMessage,
+  BlockQueryResponseMessage,
+  BlockUploadAckMessage,
+  BlockDownloadResponseMessage,
+  VaultKeyInitResponseMessage,
+  PasswordChangeResponseMessage,
+  RecoveryKeySetResponseMessage,
+  KeyRotationReadyMessage,
+  KeyRotationDoneMessage,
+  DeviceApproveResponseMessage,
+  DeviceApprovedMessage,
+  PairingBeginResponseMessage,
+  PairingClaimedMessage,
+  ShareMemberKeysResponseMessage,
+  ShareResponseMessage,
+  ShareListResponseMessage,
+  InitStatus,
 } from "@vault-sync/shared/protocol";
 import type { SyncState, ClientSession } from "@vault-sync/shared/types";
 import { WsClient } from "./ws-client";
+import { deriveDeviceProof } from "../crypto/device-keys";
 import type { AdvancedSyncSettings } from "../types";
 
 export type ConnectionStateCallback = (state: SyncState, error?: string) => void;
 export type SyncResponseCallback = (msg: SyncResponseMessage) => void;
+export type ManifestCallback = (msg: ManifestResponseMessage) => void;
 export type FileChangedCallback = (msg: FileChangedMessage) => void;
 export type FileRemovedCallback = (msg: FileRemovedMessage) => void;
 export type FileDownloadCallback = (msg: FileDownloadResponseMessage) => void;
 export type FileUploadAckCallback = (msg: FileUploadAckMessage) => void;
-export type BinaryDataCallback = (data: ArrayBuffer) => void;
-export type VaultSaltCallback = (salt: string, serverId: string) => void;
+export type BinaryDataCallback = (fileId: string, data: ArrayBuffer) => void;
+/** Carries the password key salt and the wrapped vault data keys. */
+export type AuthOkCallback = (msg: AuthOkMessage) => void;
 export type AuthTokenCallback = (token: string) => void;
 export type ClientListCallback = (clients: ClientSession[]) => void;
+export type VersionListCallback = (msg: VersionListResponseMessage) => void;
+/** `data` is null when no binary frame follows: the server reported an error, or the version is stored as blocks. */
+export type VersionDataCallback = (msg: VersionDownloadResponseMessage, data: ArrayBuffer | null) => void;
+export type TrashListCallback = (msg: TrashListResponseMessage) => void;
+export type TrashRestoreCallback = (msg: TrashRestoreResponseMessage) => void;
+/** Reports how many bytes of a chunked upload the server holds (READY or ACK). */
+export type ChunkUploadProgressCallback = (msg: ChunkUploadReadyMessage | ChunkUploadAckMessage) => void;
+/** `data` is null when the server reported an error instead of sending the chunk. */
+export type ChunkDataCallback = (msg: ChunkDownloadResponseMessage, data: ArrayBuffer | null) => void;
+export type BlockQueryCallback = (msg: BlockQueryResponseMessage) => void;
+export type BlockUploadAckCallback = (msg: BlockUploadAckMessage) => void;
+/** `data` is null when the server reported an error instead of sending the block. */
+export type BlockDataCallback = (msg: BlockDownloadResponseMessage, data: ArrayBuffer | null) => void;
+export type VaultKeyInitCallback = (msg: VaultKeyInitResponseMessage) => void;
+export type PasswordChangeCallback = (msg: PasswordChangeResponseMessage) => void;
+export type RecoveryKeySetCallback = (msg: RecoveryKeySetResponseMessage) => void;
+/** Reports a key rotation step: the server is staging uploads (READY) or has swapped them in (DONE). */
+export type KeyRotationCallback = (msg: KeyRotationReadyMessage | KeyRotationDoneMessage) => void;
+export type DeviceApproveCallback = (msg: DeviceApproveResponseMessage) => void;
+/** This pending device was approved; carries the data key encrypted to the device key. */
+export type DeviceApprovedCallback = (msg: DeviceApprovedMessage) => void;
+export type PairingBeginCallback = (msg: PairingBeginResponseMessage) => void;
+export type PairingClaimedCallback = (msg: PairingClaimedMessage) => void;
+export type ShareMemberKeysCallback = (msg: ShareMemberKeysResponseMessage) => void;
+export type ShareResponseCallback = (msg: ShareResponseMessage) => void;
+/** The shared folders of this vault, as requested or pushed after a change. */
+export type ShareListCallback = (msg: ShareListResponseMessage) => void;
 
 export class ConnectionManager {
   private wsClient: WsClient;
@@ -37,24 +92,55 @@ export class ConnectionManager {
   private state: SyncState = "disconnected";
   /** When set, used for auth instead of passwordHash. Cleared after use. */
   private pendingPasswordHash: string | null = null;
+  /** When set, the recovery-phrase proof is used for auth instead. Cleared after use. */
+  private pendingRecoveryHash: string | null = null;
+  /** When set, the pairing code's proofs are used for auth instead. Cleared after use. */
+  private pendingPairing: { pairingHash: string; pairingProof: string } | null = null;
+  /** Version download headers waiting for their blob, keyed by `${fileId}:${versionId}`. */
+  private pendingVersionDownloads: Map<string, VersionDownloadResponseMessage> = new Map();
+  /** Download chunk headers waiting for their data, keyed by fileId. */
+  private pendingChunkDownloads: Map<string, ChunkDownloadResponseMessage> = new Map();
+  /** Block download headers waiting for their data, keyed by blockId. */
+  private pendingBlockDownloads: Map<string, BlockDownloadResponseMessage> = new Map();
 
   // Callbacks
   onStateChange: ConnectionStateCallback = () => {};
   onSyncResponse: SyncResponseCallback = () => {};
+  onManifest: ManifestCallback = () => {};
   onFileChanged: FileChangedCallback = () => {};
   onFileRemoved: FileRemovedCallback = () => {};
   onFileDownload: FileDownloadCallback = () => {};
   onFileUploadAck: FileUploadAckCallback = () => {};
   onBinaryData: BinaryDataCallback = () => {};
-  onVaultSalt: VaultSaltCallback = () => {};
+  onAuthOk: AuthOkCallback = () => {};
   onAuthToken: AuthTokenCallback = () => {};
   onClientList: ClientListCallback = () => {};
+  onVersionList: VersionListCallback = () => {};
+  onVersionData: VersionDataCallback = () => {};
+  onTrashList: TrashListCallback = () => {};
+  onTrashRestore: TrashRestoreCallback = () => {};
+  onChunkUploadProgress: ChunkUploadProgressCallback = () => {};
+  onChunkData: ChunkDataCallback = () => {};
+  onBlockQuery: BlockQueryCallback = () => {};
+  onBlockUploadAck: BlockUploadAckCallback = () => {};
+  onBlockData: BlockDataCallback = () => {};
+  onVaultKeyInit: VaultKeyInitCallback = () => {};
+  onPasswordChange: PasswordChangeCallback = () => {};
+  onRecoveryKeySet: RecoveryKeySetCallback = () => {};
+  onKeyRotation: KeyRotationCallback = () => {};
+  onDeviceApprove: DeviceApproveCallback = () => {};
+  onDeviceApproved: DeviceApprovedCallback = () => {};
+  onPairingBegin: PairingBeginCallback = () => {};
+  onPairingClaimed: PairingClaimedCallback = () => {};
+  onShareMemberKeys: ShareMemberKeysCallback = () => {};
+  onShareResponse: ShareResponseCallback = () => {};
+  onShareList: ShareListCallback = () => {};
 
   constructor(settings: AdvancedSyncSettings) {
     this.settings = settings;
     this.wsClient = new WsClient(
       (msg) => this.handleMessage(msg),
-      (data) => this.onBinaryData(data),
+      (data) => this.handleBinary(data),
       (wsState) => this.handleWsState(wsState)
     );
   }
@@ -67,10 +153,12 @@ export class ConnectionManager {
     return this.wsClient.isConnected;
   }
 
-  /** Connect to the server. Optionally provide a passwordHash for initial auth. */
-  connect(passwordHash?: string): void {
+  /** Connect to the server. Optionally provide a passwordHash (or recovery or pairing proof) for initial auth. */
+  connect(passwordHash?: string, recoveryHash?: string, pairing?: { pairingHash: string; pairingProof: string }): void {
     if (!this.settings.serverUrl) return;
     this.pendingPasswordHash = passwordHash ?? null;
+    this.pendingRecoveryHash = recoveryHash ?? null;
+    this.pendingPairing = pairing ?? null;
     this.setState("connecting");
     this.wsClient.connect(this.settings.serverUrl);
   }
@@ -81,14 +169,27 @@ export class ConnectionManager {
     this.setState("disconnected");
   }
 
+  /** Fetch the public init status, with the salt and KDF a password sign-in proof is derived with. */
+  async fetchInitStatus(): Promise<InitStatus> {
+    const httpUrl = this.settings.serverUrl
+      .replace("wss://", "https://")
+      .replace("ws://", "http://")
+      .replace(/\/sync$/, "");
+    const query = this.settings.vaultId ? `?vault=${encodeURIComponent(this.settings.vaultId)}` : "";
+    const res = await fetch(`${httpUrl}/api/init-status${query}`, { signal: AbortSignal.timeout(8000) });
+    if (!res.ok) throw new Error(`Server returned ${res.status}`);
+    return (await res.json()) as InitStatus;
+  }
+
   /** Send a protocol message. */
   send(msg: ProtocolMessage): void {
     this.wsClient.send(msg);
   }
 
-  /** Send binary data (file blob). */
-  sendBinary(data: ArrayBuffer): void {
-    this.wsClient.sendBinary(data);
+  /** Send binary data (file blob, chunk or block), framed with the id of the message it belongs to. */
+  sendBinary(kind: BinaryFrameKind, id: string, data: ArrayBuffer): void {
+    const frame = encodeBinaryFrame(kind, id, new Uint8Array(data));
+    this.wsClient.sendBinary(frame.buffer as ArrayBuffer);
   }
 
   /** Request sync from server. */
@@ -99,6 +200,15 @@ export class ConnectionManager {
     });
   }
 
+  /** Send a DEVICE_APPROVE message to the server. */
+  approveDevice(clientId: string, deviceKey: string): void {
+    this.send({
+      type: MessageType.DEVICE_APPROVE,
+      clientId,
+      deviceKey,
+    });
+  }
+
   /** Send a CLIENT_KICK message to the server. */
   kickClient(clientId: string): void {
     this.send({
@@ -110,28 +220,13 @@ export class ConnectionManager {
   private handleWsState(wsState: "open" | "closed" | "error"): void {
     switch (wsState) {
       case "open":
+        // AUTH follows the server's AUTH_CHALLENGE
         this.setState("authenticating");
-        // Build auth message: use token if available, otherwise passwordHash
-        const authMsg: ProtocolMessage = {
-          type: MessageType.AUTH,
-          clientId: this.settings.clientId,
-          deviceName: this.settings.deviceName,
-          protocolVersion: PROTOCOL_VERSION,
-        };
-        if (this.pendingPasswordHash) {
-          (authMsg as any).passwordHash = this.pendingPasswordHash;
-          this.pendingPasswordHash = null;
-        } else if (this.settings.authToken) {
-          (authMsg as any).authToken = this.settings.authToken;
-        } else {
-          // No credentials available — this shouldn't happen, but handle gracefully
-          this.setState("error", "No credentials available");
-          this.wsClient.disconnect();
-          return;
-        }
-        this.send(authMsg);
         break;
       case "closed":
+        this.pendingVersionDownloads.clear();
+        this.pendingChunkDownloads.clear();
+        this.pendingBlockDownloads.clear();
         if (this.state !== "disconnected") {
           this.setState("disconnected");
         }
@@ -142,16 +237,72 @@ export class ConnectionManager {
     }
   }
 
+  /** Answer the server's challenge with AUTH: credentials plus proof of the device key. */
+  private async sendAuth(challenge: AuthChallengeMessage): Promise<void> {
+    if (!this.settings.devicePrivateKey) {
+      this.setState("error", "No device key");
+      this.wsClient.disconnect();
+      return;
+    }
+    // Build auth message: use token if available, otherwise passwordHash
+    const authMsg: ProtocolMessage = {
+      type: MessageType.AUTH,
+      clientId: this.settings.clientId,
+      deviceName: this.settings.deviceName,
+      devicePublicKey: this.settings.devicePublicKey,
+      deviceProof: await deriveDeviceProof(this.settings.devicePrivateKey, challenge.serverKey),
+      protocolVersion: PROTOCOL_VERSION,
+    };
+    if (this.settings.vaultId) (authMsg as any).vaultId = this.settings.vaultId;
+    // A receive-only device asks for a read-only token, so the server refuses its changes too
+    if (this.settings.receiveOnly) (authMsg as any).readOnly = true;
+    if (this.pendingPasswordHash) {
+      (authMsg as any).passwordHash = this.pendingPasswordHash;
+      this.pendingPasswordHash = null;
+    } else if (this.pendingRecoveryHash) {
+      (authMsg as any).recoveryHash = this.pendingRecoveryHash;
+      this.pendingRecoveryHash = null;
+    } else if (this.pendingPairing) {
+      (authMsg as any).pairingHash = this.pendingPairing.pairingHash;
+      (authMsg as any).pairingProof = this.pendingPairing.pairingProof;
+      this.pendingPairing = null;
+    } else if (this.settings.authToken) {
+      (authMsg as any).authToken = this.settings.authToken;
+    } else {
+      // No credentials available — this shouldn't happen, but handle gracefully
+      this.setState("error", "No credentials available");
+      this.wsClient.disconnect();
+      return;
+    }
+    this.send(authMsg);
+  }
+
   private handleMessage(msg: ProtocolMessage): void {
     switch (msg.type) {
+      case MessageType.AUTH_CHALLENGE:
+        void this.sendAuth(msg as AuthChallengeMessage);
+        break;
       case MessageType.AUTH_OK: {
         const authOk = msg as AuthOkMessage;
         // Save the auth token for future reconnects
         this.onAuthToken(authOk.authToken);
-        this.onVaultSalt(authOk.vaultSalt, authOk.serverId);
-        this.setState("syncing");
+        this.onAuthOk(authOk);
+        this.setState(authOk.trusted ? "syncing" : "pending");
         break;
       }
+      case MessageType.DEVICE_APPROVED:
+        this.onDeviceApproved(msg as DeviceApprovedMessage);
+        this.setState("syncing");
+        break;
+      case MessageType.DEVICE_APPROVE_RESPONSE:
+        this.onDeviceApprove(msg as DeviceApproveResponseMessage);
+        break;
+      case MessageType.PAIRING_BEGIN_RESPONSE:
+        this.onPairingBegin(msg as PairingBeginResponseMessage);
+        break;
+      case MessageType.PAIRING_CLAIMED:
+        this.onPairingClaimed(msg as PairingClaimedMessage);
+        break;
       case MessageType.AUTH_FAIL: {
         const authFail = msg as AuthFailMessage;
         this.setState("error", authFail.reason);
@@ -161,6 +312,9 @@ export class ConnectionManager {
       case MessageType.SYNC_RESPONSE:
         this.onSyncResponse(msg as SyncResponseMessage);
         break;
+      case MessageType.MANIFEST_RESPONSE:
+        this.onManifest(msg as ManifestResponseMessage);
+        break;
       case MessageType.FILE_CHANGED:
         this.onFileChanged(msg as FileChangedMessage);
         break;
@@ -176,6 +330,65 @@ export class ConnectionManager {
       case MessageType.CLIENT_LIST:
         this.onClientList((msg as ClientListMessage).clients);
         break;
+      case MessageType.VERSION_LIST_RESPONSE:
+        this.onVersionList(msg as VersionListResponseMessage);
+        break;
+      case MessageType.VERSION_DOWNLOAD_RESPONSE: {
+        const version = msg as VersionDownloadResponseMessage;
+        if (version.error || version.blocks) this.onVersionData(version, null);
+        else this.pendingVersionDownloads.set(`${version.fileId}:${version.versionId}`, version);
+        break;
+      }
+      case MessageType.TRASH_LIST_RESPONSE:
+        this.onTrashList(msg as TrashListResponseMessage);
+        break;
+      case MessageType.TRASH_RESTORE_RESPONSE:
+        this.onTrashRestore(msg as TrashRestoreResponseMessage);
+        break;
+      case MessageType.CHUNK_UPLOAD_READY:
+      case MessageType.CHUNK_UPLOAD_ACK:
+        this.onChunkUploadProgress(msg as ChunkUploadReadyMessage | ChunkUploadAckMessage);
+        break;
+      case MessageType.CHUNK_DOWNLOAD_RESPONSE: {
+        const chunk = msg as ChunkDownloadResponseMessage;
+        if (chunk.error) this.onChunkData(chunk, null);
+        else this.pendingChunkDownloads.set(chunk.fileId, chunk);
+        break;
+      }
+      case MessageType.BLOCK_QUERY_RESPONSE:
+        this.onBlockQuery(msg as BlockQueryResponseMessage);
+        break;
+      case MessageType.BLOCK_UPLOAD_ACK:
+        this.onBlockUploadAck(msg as BlockUploadAckMessage);
+        break;
+      case MessageType.BLOCK_DOWNLOAD_RESPONSE: {
+        const block = msg as BlockDownloadResponseMessage;
+        if (block.error) this.onBlockData(block, null);
+        else this.pendingBlockDownloads.set(block.blockId, block);
+        break;
+      }
+      case MessageType.VAULT_KEY_INIT_RESPONSE:
+        this.onVaultKeyInit(msg as VaultKeyInitResponseMessage);
+        break;
+      case MessageType.PASSWORD_CHANGE_RESPONSE:
+        this.onPasswordChange(msg as PasswordChangeResponseMessage);
+        break;
+      case MessageType.RECOVERY_KEY_SET_RESPONSE:
+        this.onRecoveryKeySet(msg as RecoveryKeySetResponseMessage);
+        break;
+      case MessageType.KEY_ROTATION_READY:
+      case MessageType.KEY_ROTATION_DONE:
+        this.onKeyRotation(msg as KeyRotationReadyMessage | KeyRotationDoneMessage);
+        break;
+      case MessageType.SHARE_MEMBER_KEYS_RESPONSE:
+        this.onShareMemberKeys(msg as ShareMemberKeysResponseMessage);
+        break;
+      case MessageType.SHARE_RESPONSE:
+        this.onShareResponse(msg as ShareResponseMessage);
+        break;
+      case MessageType.SHARE_LIST_RESPONSE:
+        this.onShareList(msg as ShareListResponseMessage);
+        break;
       case MessageType.PONG:
         // Keepalive response, no action needed
         break;
@@ -184,6 +397,47 @@ export class ConnectionManager {
     }
   }
 
+  /**
+   * Route a binary frame to the header message it belongs to, using the kind and id
+   * in its frame header. Frames without a matching header are dropped.
+   */
+  private handleBinary(raw: ArrayBuffer): void {
+    const frame = decodeBinaryFrame(new Uint8Array(raw));
+    if (!frame) {
+      console.warn("[Connection] Dropped malformed binary frame");
+      return;
+    }
+    const data = frame.payload.slice().buffer as ArrayBuffer;
+
+    switch (frame.kind) {
+      case BinaryFrameKind.FILE:
+        this.onBinaryData(frame.id, data);
+        return;
+      case BinaryFrameKind.VERSION: {
+        const version = this.pendingVersionDownloads.get(frame.id);
+        if (!version) break;
+        this.pendingVersionDownloads.delete(frame.id);
+        this.onVersionData(version, data);
+        return;
+      }
+      case BinaryFrameKind.CHUNK: {
+        const chunk = this.pendingChunkDownloads.get(frame.id);
+        if (!chunk) break;
+        this.pendingChunkDownloads.delete(frame.id);
+        this.onChunkData(chunk, data);
+        return;
+      }
+      case BinaryFrameKind.BLOCK: {
+        const block = this.pendingBlockDownloads.get(frame.id);
+        if (!block) break;
+        this.pendingBlockDownloads.delete(frame.id);
+        this.onBlockData(block, data);
+        return;
+      }
+    }
+    console.warn(`[Connection] Dropped binary frame without a matching header: ${frame.id}`);
+  }
+
   private setState(state: SyncState, error?: string): void {
     this.state = state;
     this.onStateChange(state, error);
@@ -4,12 +4,24 @@
  */
 
 import { App, Notice, PluginSettingTab, Setting, setIcon } from "obsidian";
-import { sha256String } from "./crypto/encryption";
+import {
+  parseRecoveryPhrase, derivePasswordProof, DEFAULT_KDF, generateVaultSalt, saltToBase64,
+} from "./crypto/key-management";
+import { deviceFingerprint } from "./crypto/device-keys";
 import { discoverServers, isDiscoveryAvailable } from "./network/discovery";
 import type { InitialSyncStrategy } from "./types";
 import type { ClientSession } from "@vault-sync/shared/types";
+import type { SharedFolder } from "./sync/sync-engine";
+import { DEFAULT_VAULT_ID } from "@vault-sync/shared/protocol";
+import type { InitStatus, VaultInfo } from "@vault-sync/shared/protocol";
 import type AdvancedSyncPlugin from "./main";
 import { SyncActivityRenderer } from "./ui/sync-activity";
+import { ChangePasswordModal } from "./ui/change-password-modal";
+import { RotateKeyModal } from "./ui/rotate-key-modal";
+import { RecoveryKitModal } from "./ui/recovery-kit-modal";
+import { PairDeviceModal } from "./ui/pair-device-modal";
+import { ShareFolderModal } from "./ui/share-folder-modal";
+import { parsePairingCode } from "./crypto/pairing";
 
 const TOTAL_STEPS = 8;
 
@@ -33,7 +45,7 @@ function formatTimeAgo(ts: number): string {
 function stateLabel(state: string): string {
   const map: Record<string, string> = {
     disconnected: "Disconnected", connecting: "Connecting...",
-    authenticating: "Authenticating...", syncing: "Syncing...",
+    authenticating: "Authenticating...", pending: "Awaiting approval", syncing: "Syncing...",
     idle: "Connected", error: "Error",
   };
   return map[state] ?? state;
@@ -79,18 +91,35 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
   private wSyncSettings = true;
   private wSyncWorkspace = false;
   private wSyncAllFileTypes = true;
+  private wReceiveOnly = false;
   private wErrorMsg = "";
   private serverReachable = false;
   private serverInitialized: boolean | null = null;
+  /** Vaults the server lists in /health; a picker is shown when there is more than one. */
+  private wVaults: VaultInfo[] = [];
+  /** Chosen named vault; empty for the default vault. */
+  private wVaultId = "";
   private pingDebounceTimer: ReturnType<typeof setTimeout> | null = null;
 
   // Server initialization wizard state
   private wPasswordConfirm = "";
+  /** One-time code from the server admin that lets a new user set their vault's password. */
+  private wSetupCode = "";
+
+  // Recovery (forgotten password) state — wPassword/wPasswordConfirm hold the new password
+  private wRecovering = false;
+  private wRecoveryPhrase = "";
+
+  // Pairing state — a code from another device replaces the server and password steps
+  private wPairing = false;
+  private wPairingText = "";
 
   // Sync preview state
   private previewPlan: import("./sync/sync-engine").SyncPlan | null = null;
   private previewError = "";
   private previewLoading = false;
+  /** Fingerprint of this device while it waits for approval on a trusted device ("" otherwise). */
+  private wApprovalCode = "";
   private wApplying = false;
 
   constructor(app: App, plugin: AdvancedSyncPlugin) {
@@ -104,14 +133,22 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
     const s = this.plugin.settings;
     this.wStep = 0;
     this.wServerUrl = s.serverUrl || "";
+    this.wVaultId = s.vaultId || "";
+    this.wVaults = [];
     this.wPassword = "";
     this.wPasswordConfirm = "";
+    this.wSetupCode = "";
+    this.wRecovering = false;
+    this.wRecoveryPhrase = "";
+    this.wPairing = false;
+    this.wPairingText = "";
     this.wDeviceName = s.deviceName || getHostname();
     this.wStrategy = "merge";
     this.wSyncPlugins = s.syncPlugins;
     this.wSyncSettings = s.syncSettings;
     this.wSyncWorkspace = s.syncWorkspace;
     this.wSyncAllFileTypes = s.syncAllFileTypes ?? true;
+    this.wReceiveOnly = s.receiveOnly ?? false;
     this.wErrorMsg = "";
     this.serverReachable = false;
     this.serverInitialized = null;
@@ -119,9 +156,18 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
     this.previewPlan = null;
     this.previewError = "";
     this.previewLoading = false;
+    this.wApprovalCode = "";
     this.wApplying = false;
   }
 
+  /** Open the wizard on the pairing step with a scanned code (obsidian:// link, see main.ts). */
+  startPairing(code: string): void {
+    this.resetWizard();
+    this.wPairing = true;
+    this.wPairingText = code;
+    this.wStep = 1;
+  }
+
   hide(): void {
     if (this.pingDebounceTimer) {
       clearTimeout(this.pingDebounceTimer);
@@ -154,6 +200,10 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
   private renderWizard(container: HTMLElement): void {
     const stepNames = ["Welcome", "Server", "Password", "Device", "Sync", "Summary", "Preview", "Apply"];
     const stepIcons = ["refresh-cw", "server", "lock", "monitor", "sliders", "list", "eye", "check-circle"];
+    if (this.wPairing) {
+      stepNames[1] = "Pair";
+      stepIcons[1] = "qr-code";
+    }
 
     // Step indicator (dots + labels)
     const indicator = container.createDiv("as-wizard-indicator");
@@ -197,7 +247,11 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
     if (this.wStep > 0 && this.wStep < 7) {
       const backBtn = cardNav.createEl("button", { cls: "as-wizard-arrow-btn" });
       setIcon(backBtn, "chevron-left");
-      backBtn.addEventListener("click", () => { this.wStep--; this.display(); });
+      backBtn.addEventListener("click", () => {
+        // Pairing skips the password step
+        this.wStep = this.wPairing && this.wStep === 3 ? 1 : this.wStep - 1;
+        this.display();
+      });
     } else {
       cardNav.createDiv("as-wizard-arrow-placeholder");
     }
@@ -252,6 +306,8 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
   }
 
   private wRenderFindServer(body: HTMLElement): void {
+    if (this.wPairing) { this.wRenderPairing(body); return; }
+
     // Auto-discovery
     if (isDiscoveryAvailable()) {
       const scanRow = body.createDiv("as-scan-header");
@@ -325,6 +381,36 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
     const initLabel = row.createDiv("as-init-label");
     initLabel.style.display = "none";
 
+    const vaultGroup = body.createDiv("as-field-group");
+    vaultGroup.createEl("label", { text: "Vault", cls: "as-field-label" });
+    const vaultSelect = vaultGroup.createEl("select", { cls: "dropdown as-vault-select" });
+    vaultSelect.addEventListener("change", () => {
+      this.wVaultId = vaultSelect.value === DEFAULT_VAULT_ID ? "" : vaultSelect.value;
+      this.serverInitialized = this.wVaults.find((v) => v.id === vaultSelect.value)?.initialized ?? null;
+      updateInitLabel();
+    });
+
+    // Servers hosting named vaults let the user choose one; the default vault is preselected
+    const renderVaultPicker = () => {
+      vaultGroup.style.display = this.wVaults.length > 1 ? "" : "none";
+      vaultSelect.empty();
+      for (const v of this.wVaults) vaultSelect.createEl("option", { text: v.id, value: v.id });
+      vaultSelect.value = this.wVaultId || DEFAULT_VAULT_ID;
+    };
+
+    const updateInitLabel = () => {
+      const what = this.wVaultId ? "Vault" : "Server";
+      if (this.serverReachable && this.serverInitialized === false) {
+        initLabel.textContent = `${what} not initialized — you'll set a password next.`;
+        initLabel.style.display = "block";
+      } else if (this.serverReachable && this.serverInitialized === true) {
+        initLabel.textContent = `${what} initialized.`;
+        initLabel.style.display = "block";
+      } else {
+        initLabel.style.display = "none";
+      }
+    };
+
     const updateNextBtn = () => {
       const nextBtn = this.containerEl.querySelector(".as-wizard-next-btn") as HTMLButtonElement | null;
       if (nextBtn) {
@@ -357,6 +443,8 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
         initLabel.style.display = "none";
         this.serverReachable = false;
         this.serverInitialized = null;
+        this.wVaults = [];
+        renderVaultPicker();
         updateStatusIcon("none");
         updateNextBtn();
         return;
@@ -371,8 +459,12 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
         this.serverReachable = res.ok;
         if (res.ok) {
           try {
-            const json = (await res.json()) as { initialized?: boolean };
-            this.serverInitialized = typeof json.initialized === "boolean" ? json.initialized : null;
+            const json = (await res.json()) as { initialized?: boolean; vaults?: VaultInfo[] };
+            this.wVaults = Array.isArray(json.vaults) ? json.vaults : [];
+            const vault = this.wVaults.find((v) => v.id === (this.wVaultId || DEFAULT_VAULT_ID));
+            if (!vault) this.wVaultId = "";
+            const initialized = vault ? vault.initialized : json.initialized;
+            this.serverInitialized = typeof initialized === "boolean" ? initialized : null;
           } catch {
             this.serverInitialized = null;
           }
@@ -383,19 +475,12 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
       } catch {
         this.serverReachable = false;
         this.serverInitialized = null;
+        this.wVaults = [];
         updateStatusIcon("fail");
       }
 
-      if (this.serverReachable && this.serverInitialized === false) {
-        initLabel.textContent = "Server not initialized — you'll set a password next.";
-        initLabel.style.display = "block";
-      } else if (this.serverReachable && this.serverInitialized === true) {
-        initLabel.textContent = "Server initialized.";
-        initLabel.style.display = "block";
-      } else {
-        initLabel.style.display = "none";
-      }
-
+      renderVaultPicker();
+      updateInitLabel();
       updateNextBtn();
     };
 
@@ -412,7 +497,9 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
       }
       this.serverReachable = false;
       this.serverInitialized = null;
+      this.wVaults = [];
       initLabel.style.display = "none";
+      renderVaultPicker();
       updateNextBtn();
       if (this.pingDebounceTimer) clearTimeout(this.pingDebounceTimer);
       if (h) {
@@ -423,6 +510,7 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
     hostInput.addEventListener("input", triggerPing);
     portInput.addEventListener("input", triggerPing);
 
+    renderVaultPicker();
     if (this.serverReachable && this.wServerUrl) {
       updateStatusIcon("ok");
     } else if (this.wServerUrl) {
@@ -435,19 +523,70 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
     }
 
     setTimeout(() => updateNextBtn(), 0);
+
+    const pairLink = body.createEl("a", { text: "Another device already syncs? Pair with a pairing code", cls: "as-wizard-link" });
+    pairLink.addEventListener("click", () => this.wSetPairing(true));
+
     focusAndScroll(hostInput);
   }
 
+  /** Server step in pairing mode: a pairing code shown by a device that already syncs. */
+  private wRenderPairing(body: HTMLElement): void {
+    body.createDiv("as-wizard-callout").textContent =
+      "On a device that already syncs, run \"Pair new device\" from the command palette or Advanced Sync settings. " +
+      "Scan the QR code with this device's camera, or copy the code there and paste it here. No password needed.";
+
+    if (this.wErrorMsg) {
+      body.createDiv({ text: this.wErrorMsg, cls: "as-error", attr: { style: "display:block; margin-bottom:8px;" } });
+    }
+
+    const g = body.createDiv("as-field-group");
+    g.createEl("label", { text: "Pairing Code", cls: "as-field-label" });
+    const codeInput = g.createEl("textarea", { placeholder: "obsidian://advanced-sync-pair?...", cls: "as-input as-pairing-input" });
+    codeInput.value = this.wPairingText;
+    codeInput.addEventListener("input", () => { this.wPairingText = codeInput.value; });
+
+    const backLink = body.createEl("a", { text: "Enter the server and password instead", cls: "as-wizard-link" });
+    backLink.addEventListener("click", () => this.wSetPairing(false));
+
+    focusAndScroll(codeInput);
+  }
+
+  private wSetPairing(pairing: boolean): void {
+    this.wPairing = pairing;
+    this.wPairingText = "";
+    this.wErrorMsg = "";
+    this.display();
+  }
+
+  /** Whether the chosen vault belongs to a user account that still has to be set up with a setup code. */
+  private wNeedsSetupCode(): boolean {
+    if (this.serverInitialized !== false) return false;
+    return this.wVaults.find((v) => v.id === (this.wVaultId || DEFAULT_VAULT_ID))?.needsSetupCode === true;
+  }
+
   private wRenderPassword(body: HTMLElement): void {
+    if (this.wRecovering) { this.wRenderRecovery(body); return; }
+
     const callout = body.createDiv("as-wizard-callout");
-    callout.textContent = this.serverInitialized === false
-      ? "This server has not been initialized yet. Set a server password now. This password will also encrypt your vault data. Keep it safe — if you lose it, your data cannot be recovered."
-      : "This password authenticates you with the server and encrypts your vault data. Keep it safe — if you lose it, your data cannot be recovered.";
+    callout.textContent = this.wNeedsSetupCode()
+      ? "Your account on this server is not set up yet. Enter the setup code you got from the server admin and choose your password. This password will also encrypt your vault data — the admin never learns it. Keep it safe — without it or a recovery kit, your data cannot be recovered."
+      : this.serverInitialized === false
+      ? "This server has not been initialized yet. Set a server password now. This password will also encrypt your vault data. Keep it safe — without it or a recovery kit, your data cannot be recovered."
+      : "This password authenticates you with the server and encrypts your vault data. Keep it safe — without it or a recovery kit, your data cannot be recovered.";
 
     if (this.wErrorMsg) {
       body.createDiv({ text: this.wErrorMsg, cls: "as-error", attr: { style: "display:block; margin-bottom:8px;" } });
     }
 
+    if (this.wNeedsSetupCode()) {
+      const sg = body.createDiv("as-field-group");
+      sg.createEl("label", { text: "Setup Code", cls: "as-field-label" });
+      const codeInput = sg.createEl("input", { type: "text", placeholder: "XXXXX-XXXXX-XXXXX", cls: "as-input" });
+      codeInput.value = this.wSetupCode;
+      codeInput.addEventListener("input", () => { this.wSetupCode = codeInput.value.trim(); });
+    }
+
     const g = body.createDiv("as-field-group");
     const labelRow = g.createDiv("as-field-label-row");
     labelRow.createEl("label", { text: "Password", cls: "as-field-label" });
@@ -476,11 +615,15 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
       const pinging = pwStatus.createSpan("as-status-pinging");
       setIcon(pinging, "loader");
       try {
-        const hash = await sha256String(password);
+        const query = this.wVaultId ? `?vault=${encodeURIComponent(this.wVaultId)}` : "";
+        const status = (await (await fetch(`${toHttpUrl(this.wServerUrl)}/api/init-status${query}`, {
+          signal: AbortSignal.timeout(5000),
+        })).json()) as InitStatus;
+        const hash = await derivePasswordProof(password, status.vaultSalt, status.kdf);
         const res = await fetch(`${toHttpUrl(this.wServerUrl)}/api/ui-auth`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ passwordHash: hash }),
+          body: JSON.stringify({ vault: this.wVaultId || undefined, passwordHash: hash }),
           signal: AbortSignal.timeout(5000),
         });
         this.wPasswordValid = res.ok;
@@ -568,9 +711,57 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
       setTimeout(validatePw, 100);
     }
 
+    if (this.serverInitialized !== false) {
+      const recoverLink = body.createEl("a", { text: "Forgot your password? Recover with recovery phrase", cls: "as-wizard-link" });
+      recoverLink.addEventListener("click", () => this.wSetRecovering(true));
+    }
+
     focusAndScroll(input);
   }
 
+  /** Password step in recovery mode: the recovery phrase plus a new password. */
+  private wRenderRecovery(body: HTMLElement): void {
+    body.createDiv("as-wizard-callout").textContent =
+      "Enter the recovery phrase from your recovery kit and choose a new password. Your other devices will need the new password.";
+
+    if (this.wErrorMsg) {
+      body.createDiv({ text: this.wErrorMsg, cls: "as-error", attr: { style: "display:block; margin-bottom:8px;" } });
+    }
+
+    const g = body.createDiv("as-field-group");
+    g.createEl("label", { text: "Recovery Phrase", cls: "as-field-label" });
+    const phraseInput = g.createEl("input", { type: "text", placeholder: "XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX", cls: "as-input as-recovery-input" });
+    phraseInput.value = this.wRecoveryPhrase;
+    phraseInput.addEventListener("input", () => { this.wRecoveryPhrase = phraseInput.value; });
+
+    const fields: Array<{ label: string; placeholder: string; get: () => string; set: (v: string) => void }> = [
+      { label: "New Password", placeholder: "Server & encryption password", get: () => this.wPassword, set: v => { this.wPassword = v; } },
+      { label: "Confirm Password", placeholder: "Repeat password", get: () => this.wPasswordConfirm, set: v => { this.wPasswordConfirm = v; } },
+    ];
+    for (const f of fields) {
+      const group = body.createDiv("as-field-group");
+      group.createEl("label", { text: f.label, cls: "as-field-label" });
+      const input = group.createDiv("as-password-wrapper")
+        .createEl("input", { type: "password", placeholder: f.placeholder, cls: "as-input as-password-input" });
+      input.value = f.get();
+      input.addEventListener("input", () => f.set(input.value));
+    }
+
+    const backLink = body.createEl("a", { text: "Back to password sign-in", cls: "as-wizard-link" });
+    backLink.addEventListener("click", () => this.wSetRecovering(false));
+
+    focusAndScroll(phraseInput);
+  }
+
+  private wSetRecovering(recovering: boolean): void {
+    this.wRecovering = recovering;
+    this.wPassword = "";
+    this.wPasswordConfirm = "";
+    this.wPasswordValid = null;
+    this.wErrorMsg = "";
+    this.display();
+  }
+
   private wRenderDeviceName(body: HTMLElement): void {
     body.createEl("p", { text: "A name to identify this device on the server and in the sync log.", cls: "as-wizard-desc" });
 
@@ -639,6 +830,9 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
     this.addWizardToggle(toggleSection, "Sync plugins", "Sync installed plugins (.obsidian/plugins/)", this.wSyncPlugins, v => { this.wSyncPlugins = v; });
     this.addWizardToggle(toggleSection, "Sync settings", "Sync Obsidian settings (appearance, hotkeys, etc.)", this.wSyncSettings, v => { this.wSyncSettings = v; });
     this.addWizardToggle(toggleSection, "Sync workspace", "Sync workspace layout and open files", this.wSyncWorkspace, v => { this.wSyncWorkspace = v; });
+    if (this.serverInitialized !== false) {
+      this.addWizardToggle(toggleSection, "Receive only", "Download changes but never upload or delete files (e.g. a kiosk)", this.wReceiveOnly, v => { this.wReceiveOnly = v; });
+    }
   }
 
   private wRenderSummary(body: HTMLElement): void {
@@ -650,11 +844,15 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
 
     const summary = body.createDiv("as-summary");
     this.addSummaryRow(summary, "Server",        this.wServerUrl);
+    if (this.wVaultId) this.addSummaryRow(summary, "Vault", this.wVaultId);
     this.addSummaryRow(summary, "Device",         this.wDeviceName);
+    if (this.wRecovering) this.addSummaryRow(summary, "Password", "New (recovery phrase)");
+    if (this.wPairing) this.addSummaryRow(summary, "Password", "Not needed (pairing code)");
     this.addSummaryRow(summary, "Initial sync",   strategyLabels[this.wStrategy]);
     this.addSummaryRow(summary, "Sync plugins",   this.wSyncPlugins  ? "Yes" : "No");
     this.addSummaryRow(summary, "Sync settings",  this.wSyncSettings ? "Yes" : "No");
-    this.addSummaryRow(summary, "Encryption",     "AES-256-GCM / PBKDF2");
+    if (this.wReceiveOnly) this.addSummaryRow(summary, "Receive only", "Yes");
+    this.addSummaryRow(summary, "Encryption",     "AES-256-GCM / Argon2id");
 
     const startBtn = body.createEl("button", { text: "Connect & Preview", cls: "mod-cta as-start-btn" });
     startBtn.addEventListener("click", () => this.wConnect());
@@ -662,6 +860,26 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
 
   private wRenderSyncPreview(body: HTMLElement): void {
 
+    if (this.previewLoading && this.wApprovalCode) {
+      const waiting = body.createDiv("as-preview-loading");
+      const spinner = waiting.createDiv("as-scan-spinner");
+      setIcon(spinner, "refresh-cw");
+      waiting.createSpan({ text: "Waiting for approval...", cls: "as-scan-label" });
+      if (this.wPairing) {
+        body.createEl("p", {
+          text: "The device showing the pairing code approves this one automatically. Keep its pairing dialog open.",
+          cls: "as-wizard-desc",
+        });
+        return;
+      }
+      body.createEl("p", {
+        text: "This vault already has trusted devices. On one of them, open Advanced Sync settings and approve this device under Devices. Check that it shows this code:",
+        cls: "as-wizard-desc",
+      });
+      body.createDiv({ text: this.wApprovalCode, cls: "as-approval-code" });
+      return;
+    }
+
     if (this.previewLoading) {
       const loading = body.createDiv("as-preview-loading");
       const spinner = loading.createDiv("as-scan-spinner");
@@ -772,6 +990,14 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
         });
       }
 
+      // The password is still at hand: offer the recovery kit while setting up
+      if (this.wPassword) {
+        const kitBtn = btnRow.createEl("button", { text: "Create Recovery Kit", cls: "as-apply-btn" });
+        kitBtn.addEventListener("click", () => {
+          new RecoveryKitModal(this.app, this.plugin.syncEngine, this.wServerUrl, this.wVaultId, this.wPassword).open();
+        });
+      }
+
       const doneBtn = btnRow.createEl("button", { text: "Done", cls: "mod-cta as-apply-btn" });
       doneBtn.addEventListener("click", () => {
         this.wStep = 0; // Exit wizard, fall through to dashboard
@@ -812,12 +1038,28 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
     this.wErrorMsg = "";
 
     switch (this.wStep) {
-      case 1:
-        if (!this.wServerUrl || !this.serverReachable) return;
-        break;
+      case 1: {
+        if (!this.wPairing) {
+          if (!this.wServerUrl || !this.serverReachable) return;
+          break;
+        }
+        const pairing = parsePairingCode(this.wPairingText);
+        if (!pairing) { this.wErrorMsg = "This is not a valid pairing code."; this.display(); return; }
+        // The code names the server, which is set up already; no password step
+        this.wServerUrl = pairing.serverUrl;
+        this.wVaultId = pairing.vaultId;
+        this.serverInitialized = true;
+        this.wStep = 3;
+        this.display();
+        return;
+      }
       case 2:
+        if (this.wRecovering && !parseRecoveryPhrase(this.wRecoveryPhrase)) {
+          this.wErrorMsg = "This is not a valid recovery phrase."; this.display(); return;
+        }
+        if (this.wNeedsSetupCode() && !this.wSetupCode) { this.wErrorMsg = "Enter the setup code from the server admin."; this.display(); return; }
         if (!this.wPassword) { this.wErrorMsg = "Password cannot be empty."; this.display(); return; }
-        if (this.serverInitialized === false) {
+        if (this.serverInitialized === false || this.wRecovering) {
           if (!this.wPasswordConfirm) { this.wErrorMsg = "Please confirm your password."; this.display(); return; }
           if (this.wPassword !== this.wPasswordConfirm) { this.wErrorMsg = "Passwords do not match."; this.display(); return; }
         }
@@ -835,12 +1077,14 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
     // Save settings first
     Object.assign(this.plugin.settings, {
       serverUrl:           this.wServerUrl,
+      vaultId:             this.wVaultId,
       deviceName:          this.wDeviceName,
       initialSyncStrategy: this.wStrategy,
       syncPlugins:         this.wSyncPlugins,
       syncSettings:        this.wSyncSettings,
       syncWorkspace:       this.wSyncWorkspace,
       syncAllFileTypes:    this.wSyncAllFileTypes,
+      receiveOnly:         this.wReceiveOnly && this.serverInitialized !== false,
       setupComplete:       true,
     });
     await this.plugin.saveSettings();
@@ -854,11 +1098,15 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
     try {
       // Initialize the server password if needed
       if (this.serverInitialized === false) {
-        const hash = await sha256String(this.wPassword);
+        const vaultSalt = saltToBase64(generateVaultSalt());
+        const hash = await derivePasswordProof(this.wPassword, vaultSalt, DEFAULT_KDF);
         const res = await fetch(`${toHttpUrl(this.wServerUrl)}/api/init`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ passwordHash: hash }),
+          body: JSON.stringify({
+            vault: this.wVaultId || undefined, passwordHash: hash, vaultSalt, kdf: DEFAULT_KDF,
+            setupCode: this.wSetupCode || undefined,
+          }),
           signal: AbortSignal.timeout(8000),
         });
 
@@ -874,8 +1122,15 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
         }
       }
 
-      // Connect with password
-      await this.plugin.connectWithPassword(this.wPassword);
+      // Connect with password, the recovery phrase (which also sets the new password) or a pairing code
+      const pairing = this.wPairing ? parsePairingCode(this.wPairingText) : null;
+      if (pairing) {
+        await this.plugin.connectWithPairing(pairing);
+      } else if (this.wRecovering) {
+        await this.plugin.connectWithRecovery(this.wRecoveryPhrase, this.wPassword);
+      } else {
+        await this.plugin.connectWithPassword(this.wPassword);
+      }
 
       // Wait for sync response with a timeout
       const plan = await new Promise<import("./sync/sync-engine").SyncPlan>((resolve, reject) => {
@@ -907,6 +1162,14 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
             clearTimeout(timeout);
             restoreHandlers();
             reject(new Error(error || "Connection failed"));
+          } else if (state === "pending") {
+            // The sync response follows the approval, however long that takes
+            clearTimeout(timeout);
+            originalStateChange(state, error);
+            void deviceFingerprint(this.plugin.settings.devicePublicKey).then((code) => {
+              this.wApprovalCode = code;
+              this.display();
+            });
           } else {
             originalStateChange(state, error);
           }
@@ -915,9 +1178,11 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
 
       this.previewPlan = plan;
       this.previewLoading = false;
+      this.wApprovalCode = "";
       this.display();
     } catch (err: any) {
       this.previewLoading = false;
+      this.wApprovalCode = "";
       this.previewError = err.message || "Failed to connect";
       this.plugin.syncEngine.disconnect();
       this.display();
@@ -1001,15 +1266,32 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
         const info = row.createDiv("as-dash-device-info");
         info.createSpan({ text: dev.deviceName, cls: "as-dash-device-name" });
         info.createSpan({
-          text: `${dev.ip} · ${dev.isOnline ? "online" : formatTimeAgo(dev.lastSeen)}`,
+          text: `${dev.ip} · ${dev.isOnline ? "online" : formatTimeAgo(dev.lastSeen)}${dev.readOnly ? " · read-only" : ""}`,
           cls: "as-dash-device-meta",
         });
+        const publicKey = dev.publicKey;
+        if (!dev.trusted && publicKey && dev.clientId !== this.plugin.settings.clientId) {
+          // Approving hands the device the vault key, so the user compares codes first
+          const codeEl = info.createSpan({ text: "Waiting for approval", cls: "as-dash-device-meta as-dash-device-pending" });
+          void deviceFingerprint(publicKey).then((code) => codeEl.setText(`Waiting for approval · ${code}`));
+          const approveBtn = row.createEl("button", { text: "Approve", cls: "as-btn-approve" });
+          approveBtn.title = `Approve ${dev.deviceName} if it shows the same code`;
+          approveBtn.addEventListener("click", async () => {
+            approveBtn.disabled = true;
+            try {
+              await this.plugin.syncEngine.approveDevice(dev.clientId);
+            } catch (err: any) {
+              approveBtn.disabled = false;
+              new Notice(`Advanced Sync: ${err.message}`);
+            }
+          });
+        }
         if (dev.clientId !== this.plugin.settings.clientId) {
           const kickBtn = row.createEl("button", { cls: "as-btn-kick-icon" });
           setIcon(kickBtn, "x");
-          kickBtn.title = `Remove ${dev.deviceName}`;
+          kickBtn.title = dev.trusted ? `Remove ${dev.deviceName}` : `Reject ${dev.deviceName}`;
           kickBtn.addEventListener("click", () => {
-            if (window.confirm(`Remove "${dev.deviceName}" from sync?\n\nThey will be disconnected and need to re-enter the password to reconnect.`)) {
+            if (window.confirm(`Remove "${dev.deviceName}" from sync?\n\nIt will be disconnected, and has to be approved again to reconnect.`)) {
               this.plugin.syncEngine.kickClient(dev.clientId);
             }
           });
@@ -1020,6 +1302,85 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
     };
     renderDevices();
 
+    // Shared folders card — updated when the server pushes a new share list
+    const shareCard = dash.createDiv("as-dash-card");
+    shareCard.createDiv("as-dash-card-header").createSpan({ text: "Shared Folders", cls: "as-dash-card-title" });
+    const shareBody = shareCard.createDiv("as-dash-devices");
+
+    const runShareAction = async (button: HTMLButtonElement, action: () => Promise<void>) => {
+      button.disabled = true;
+      try {
+        await action();
+      } catch (err: any) {
+        button.disabled = false;
+        new Notice(`Advanced Sync: ${err.message}`);
+      }
+    };
+
+    const renderShares = (shares?: SharedFolder[]) => {
+      shareBody.empty();
+      const all = shares ?? this.plugin.syncEngine?.sharedFolders ?? [];
+      if (all.length === 0) {
+        shareBody.createDiv({ text: "No shared folders", cls: "as-dash-empty" });
+        return;
+      }
+      for (const share of all) {
+        const row = shareBody.createDiv("as-dash-device-row");
+        const info = row.createDiv("as-dash-device-info");
+        const name = share.mount ?? share.name ?? "Shared folder";
+        info.createSpan({ text: name, cls: "as-dash-device-name" });
+        const access = share.role === "read" ? "read only" : "read and write";
+
+        if (share.role === "owner") {
+          info.createSpan({ text: share.members.length === 0 ? "Not shared with anyone yet" : `Shared with ${share.members.length} vault(s)`, cls: "as-dash-device-meta" });
+          const inviteBtn = row.createEl("button", { text: "Invite", cls: "as-btn-approve" });
+          inviteBtn.addEventListener("click", () => new ShareFolderModal(this.app, this.plugin.syncEngine, share.shareId).open());
+        } else if (share.accepted) {
+          info.createSpan({ text: `Shared by ${share.owner} · ${access}`, cls: "as-dash-device-meta" });
+        } else if (share.name === null) {
+          info.createSpan({ text: `Invitation from ${share.owner} · accept it on a device that was trusted when it was sent`, cls: "as-dash-device-meta as-dash-device-pending" });
+        } else {
+          info.createSpan({ text: `Invitation from ${share.owner} · ${access}`, cls: "as-dash-device-meta as-dash-device-pending" });
+          const mountInput = info.createEl("input", { type: "text", cls: "as-input as-share-mount", value: share.name });
+          mountInput.placeholder = "Folder to sync it into";
+          const acceptBtn = row.createEl("button", { text: "Accept", cls: "as-btn-approve" });
+          acceptBtn.title = "Sync the shared folder into a new folder of this vault";
+          acceptBtn.addEventListener("click", () => runShareAction(acceptBtn, () => this.plugin.syncEngine.acceptShare(share.shareId, mountInput.value)));
+        }
+
+        const removeBtn = row.createEl("button", { cls: "as-btn-kick-icon" });
+        setIcon(removeBtn, "x");
+        removeBtn.title = share.role === "owner" ? `Stop sharing ${name}` : share.accepted ? `Leave ${name}` : "Decline the invitation";
+        removeBtn.addEventListener("click", () => {
+          const question = share.role === "owner"
+            ? `Stop sharing "${name}"?\n\nThe shared folder is deleted for every member. Your files stay on this device and are synced with your vault again.`
+            : share.accepted
+              ? `Leave "${name}"?\n\nThe files stay on this device and are synced with your vault from now on.`
+              : `Decline the invitation from ${share.owner}?`;
+          if (window.confirm(question)) void runShareAction(removeBtn, () => this.plugin.syncEngine.removeFromShare(share.shareId));
+        });
+
+        for (const member of share.members) {
+          const memberRow = shareBody.createDiv("as-dash-device-row as-share-member-row");
+          const memberInfo = memberRow.createDiv("as-dash-device-info");
+          memberInfo.createSpan({ text: member.vaultId, cls: "as-dash-device-name" });
+          memberInfo.createSpan({
+            text: `${member.role === "read" ? "read only" : "read and write"}${member.accepted ? "" : " · invited"}`,
+            cls: member.accepted ? "as-dash-device-meta" : "as-dash-device-meta as-dash-device-pending",
+          });
+          const kickBtn = memberRow.createEl("button", { cls: "as-btn-kick-icon" });
+          setIcon(kickBtn, "x");
+          kickBtn.title = `Remove ${member.vaultId} from ${name}`;
+          kickBtn.addEventListener("click", () => {
+            if (window.confirm(`Remove "${member.vaultId}" from "${name}"?\n\nIts devices keep the files they already have, but get no new changes.`)) {
+              void runShareAction(kickBtn, () => this.plugin.syncEngine.removeFromShare(share.shareId, member.vaultId));
+            }
+          });
+        }
+      }
+    };
+    renderShares();
+
     // Wire up live callbacks
     this.notifyDataChanged = () => {
       activityRenderer.refreshActive();
@@ -1037,6 +1398,11 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
       originalClientListCb(clients);
       renderDevices(clients);
     };
+    const originalSharesCb = this.plugin.syncEngine.onSharesChange;
+    this.plugin.syncEngine.onSharesChange = (shares) => {
+      originalSharesCb(shares);
+      renderShares(shares);
+    };
 
     // Connection settings
     container.createDiv({ cls: "as-settings-section-label", text: "Connection" });
@@ -1057,6 +1423,29 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
       .addToggle(t => { t.setValue(this.plugin.settings.syncSettings); t.onChange(async v => { this.plugin.settings.syncSettings = v; await this.plugin.saveSettings(); }); });
     new Setting(container).setName("Sync workspace").setDesc("Synchronize workspace layout (workspace.json)")
       .addToggle(t => { t.setValue(this.plugin.settings.syncWorkspace); t.onChange(async v => { this.plugin.settings.syncWorkspace = v; await this.plugin.saveSettings(); }); });
+    new Setting(container).setName("Receive only").setDesc("Download changes from the server but never upload or delete files. Local edits stay on this device.")
+      .addToggle(t => { t.setValue(this.plugin.settings.receiveOnly ?? false); t.onChange(async v => {
+        this.plugin.settings.receiveOnly = v;
+        if (v) this.plugin.settings.sendOnly = false;
+        await this.plugin.saveSettings();
+        if (!v && this.plugin.syncEngine.readOnlyToken) {
+          new Notice("Advanced Sync: The server still treats this device as read-only. An admin can allow changes on the dashboard. If this device asked for read-only access itself, signing in again with the password works too.");
+        }
+        this.display();
+      }); });
+    new Setting(container).setName("Send only").setDesc("Upload this device's changes but never apply changes from other devices, e.g. to back up a workstation. Changes other devices make to its files are only reported.")
+      .addToggle(t => { t.setValue(this.plugin.settings.sendOnly ?? false); t.onChange(async v => {
+        this.plugin.settings.sendOnly = v;
+        if (v) this.plugin.settings.receiveOnly = false;
+        await this.plugin.saveSettings();
+        this.display();
+      }); });
+    new Setting(container).setName("Privacy mode").setDesc("Hide when files were changed and how large they are from the server. Uploads are padded to fewer distinct sizes and large files are not deduplicated, so they use a little more storage. Applies to files uploaded from now on.")
+      .addToggle(t => { t.setValue(this.plugin.settings.privacyMode ?? false); t.onChange(async v => { this.plugin.settings.privacyMode = v; await this.plugin.saveSettings(); }); });
+    new Setting(container).setName("Compression").setDesc("Compress notes and other files before they are encrypted, so uploads are smaller. Images, audio, video, archives and PDFs are sent as they are.")
+      .addToggle(t => { t.setValue(this.plugin.settings.compression ?? true); t.onChange(async v => { this.plugin.settings.compression = v; await this.plugin.saveSettings(); }); });
+    new Setting(container).setName("Delta uploads").setDesc("Upload only the changed part of a note instead of all of it, e.g. a line added to a daily note. Saves mobile data. Not used in privacy mode.")
+      .addToggle(t => { t.setValue(this.plugin.settings.deltaUploads ?? true); t.onChange(async v => { this.plugin.settings.deltaUploads = v; await this.plugin.saveSettings(); }); });
     new Setting(container).setName("Excluded paths").setDesc("Patterns to exclude (one per line). Supports * and **.")
       .addTextArea(ta => {
         ta.setValue(this.plugin.settings.excludePatterns.join("\n")).setPlaceholder("e.g.\n*.tmp\n.trash/**");
@@ -1073,6 +1462,16 @@ export class AdvancedSyncSettingsTab extends PluginSettingTab {
     container.createDiv({ cls: "as-settings-section-label", text: "Advanced" });
     new Setting(container).setName("Force full sync").setDesc("Re-sync all files from scratch")
       .addButton(btn => { btn.setButtonText("Force Sync"); btn.onClick(() => this.plugin.syncEngine.forceSync()); });
+    new Setting(container).setName("Share folder").setDesc("Share a folder with another vault on this server. It is encrypted with a key of its own, so the other vault can't read the rest of yours.")
+      .addButton(btn => { btn.setButtonText("Share Folder"); btn.onClick(() => new ShareFolderModal(this.app, this.plugin.syncEngine).open()); });
+    new Setting(container).setName("Pair new device").setDesc("Show a QR code that sets up another device without typing the server address or password.")
+      .addButton(btn => { btn.setButtonText("Pair Device"); btn.onClick(() => new PairDeviceModal(this.app, this.plugin.syncEngine).open()); });
+    new Setting(container).setName("Change vault password").setDesc("Protect the vault key with a new password. Other devices must sign in again.")
+      .addButton(btn => { btn.setButtonText("Change Password"); btn.onClick(() => new ChangePasswordModal(this.app, this.plugin.syncEngine).open()); });
+    new Setting(container).setName("Recovery kit").setDesc("Create a recovery phrase that restores access if you forget your password. Replaces the previous kit.")
+      .addButton(btn => { btn.setButtonText("Create Kit"); btn.onClick(() => new RecoveryKitModal(this.app, this.plugin.syncEngine, this.plugin.settings.serverUrl, this.plugin.settings.vaultId).open()); });
+    new Setting(container).setName("Rotate vault key").setDesc("Re-encrypt every file with a new key, e.g. after losing a device. Other devices must sign in again.")
+      .addButton(btn => { btn.setButtonText("Rotate Key"); btn.onClick(() => new RotateKeyModal(this.app, this.plugin.syncEngine).open()); });
     if (this.confirmingReset) {
       const row = container.createDiv("as-confirm-reset-row");
       row.createSpan({ text: "All credentials and settings will be deleted. Vault files are not affected.", cls: "as-confirm-reset-msg" });
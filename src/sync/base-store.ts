@@ -0,0 +1,106 @@
+/**
+ * Merge-base store: keeps the last synced content of each mergeable note,
+ * keyed by fileId. This is the common ancestor for three-way merges when
+ * a note was edited on this device and on another one before they synced.
+ * For other files only a content hash is kept, which is enough to tell a
+ * real conflict (both sides changed) from a plain update. Notes uploaded
+ * with deltas also keep how their synced version is stored (a DeltaChain).
+ *
+ * Bases live in the plugin's own folder, which is excluded from sync.
+ */
+
+import type { DataAdapter } from "obsidian";
+import type { DeltaChain } from "./delta";
+
+export class BaseStore {
+  private adapter: DataAdapter;
+  private dir: string;
+  private dirReady = false;
+
+  constructor(adapter: DataAdapter, dir: string) {
+    this.adapter = adapter;
+    this.dir = dir;
+  }
+
+  /** The last synced content for a file, or null if none was recorded. */
+  async get(fileId: string): Promise<string | null> {
+    try {
+      const path = this.pathFor(fileId);
+      if (!(await this.adapter.exists(path))) return null;
+      return await this.adapter.read(path);
+    } catch {
+      return null;
+    }
+  }
+
+  /** Whether a base (content or hash) was recorded for this file. */
+  async has(fileId: string): Promise<boolean> {
+    try {
+      return (await this.adapter.exists(this.pathFor(fileId)))
+        || (await this.adapter.exists(this.pathFor(`${fileId}.sha256`)));
+    } catch {
+      return false;
+    }
+  }
+
+  /** Record `content` as the version both this device and the server agree on. */
+  async set(fileId: string, content: string): Promise<void> {
+    try {
+      if (!this.dirReady) {
+        if (!(await this.adapter.exists(this.dir))) await this.adapter.mkdir(this.dir);
+        this.dirReady = true;
+      }
+      await this.adapter.write(this.pathFor(fileId), content);
+    } catch (err: any) {
+      console.error("[BaseStore] Failed to store merge base:", err.message);
+    }
+  }
+
+  /** SHA-256 (hex) of the last synced content, or null if none was recorded. */
+  async getHash(fileId: string): Promise<string | null> {
+    return this.get(`${fileId}.sha256`);
+  }
+
+  async setHash(fileId: string, hash: string): Promise<void> {
+    await this.set(`${fileId}.sha256`, hash);
+  }
+
+  /** How the last synced version is stored on the server, or null if it is not a delta chain. */
+  async getChain(fileId: string): Promise<DeltaChain | null> {
+    const json = await this.get(`${fileId}.chain`);
+    if (json === null) return null;
+    try {
+      return JSON.parse(json) as DeltaChain;
+    } catch {
+      return null;
+    }
+  }
+
+  async setChain(fileId: string, chain: DeltaChain): Promise<void> {
+    await this.set(`${fileId}.chain`, JSON.stringify(chain));
+  }
+
+  async remove(fileId: string): Promise<void> {
+    for (const path of [this.pathFor(fileId), this.pathFor(`${fileId}.sha256`), this.pathFor(`${fileId}.chain`)]) {
+      try {
+        if (await this.adapter.exists(path)) await this.adapter.remove(path);
+      } catch {
+        // Already gone
+      }
+    }
+  }
+
+  /** Drop all bases (e.g. after a sync reset — fileIds may no longer match). */
+  async clear(): Promise<void> {
+    try {
+      if (await this.adapter.exists(this.dir)) await this.adapter.rmdir(this.dir, true);
+    } catch {
+      // Already gone
+    }
+    this.dirReady = false;
+  }
+
+  private pathFor(fileId: string): string {
+    return `${this.dir}/${fileId}`;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Content-defined chunking (FastCDC-style gear hash with normalized chunk sizes).
+ *
+ * Boundaries depend on the bytes around them rather than on fixed offsets, so an
+ * insertion only changes the blocks it touches and the rest still deduplicate.
+ * The gear table is generated from a fixed seed: every device must cut the same
+ * content at the same places.
+ */
+
+export const MIN_BLOCK_SIZE = 128 * 1024;
+export const AVG_BLOCK_SIZE = 512 * 1024;
+export const MAX_BLOCK_SIZE = 2 * 1024 * 1024;
+
+/** Stricter mask below the average size, looser above it — keeps sizes close to the average. */
+const MASK_SMALL = 0xfffff800; // 21 high bits
+const MASK_LARGE = 0xffff8000; // 17 high bits
+
+const GEAR = buildGearTable(0x41535943);
+
+/** A block of the input, as a byte range. */
+export interface Block {
+  offset: number;
+  length: number;
+}
+
+/** Split content into content-defined blocks covering it from start to end. */
+export function chunkContent(data: Uint8Array): Block[] {
+  const blocks: Block[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const length = findCut(data, offset);
+    blocks.push({ offset, length });
+    offset += length;
+  }
+  return blocks;
+}
+
+function findCut(data: Uint8Array, start: number): number {
+  const remaining = data.length - start;
+  if (remaining <= MIN_BLOCK_SIZE) return remaining;
+
+  const end = Math.min(remaining, MAX_BLOCK_SIZE);
+  const normal = Math.min(end, AVG_BLOCK_SIZE);
+  let hash = 0;
+  let i = MIN_BLOCK_SIZE;
+  for (; i < normal; i++) {
+    hash = ((hash << 1) + GEAR[data[start + i]]) >>> 0;
+    if ((hash & MASK_SMALL) === 0) return i + 1;
+  }
+  for (; i < end; i++) {
+    hash = ((hash << 1) + GEAR[data[start + i]]) >>> 0;
+    if ((hash & MASK_LARGE) === 0) return i + 1;
+  }
+  return end;
+}
+
+/** 256 pseudo-random 32-bit values from a mulberry32 generator. */
+function buildGearTable(seed: number): Uint32Array {
+  const table = new Uint32Array(256);
+  let state = seed >>> 0;
+  for (let i = 0; i < 256; i++) {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    table[i] = (t ^ (t >>> 14)) >>> 0;
+  }
+  return table;
+}
@@ -0,0 +1,37 @@
+/**
+ * Compression before encryption. Notes, JSON and canvas files shrink a lot with deflate;
+ * formats that are compressed already (images, audio, video, archives, PDFs) are sent as
+ * they are. The codec is recorded in the file's encrypted metadata, so the server cannot
+ * tell which files were compressed. Uses the platform's CompressionStream.
+ */
+
+/** Codec recorded in a file's metadata when its content was compressed. */
+export type Codec = "deflate";
+
+const COMPRESSED_EXTENSIONS = new Set([
+  "png", "jpg", "jpeg", "gif", "webp", "avif", "heic", "heif",
+  "mp3", "m4a", "aac", "ogg", "oga", "opus", "flac",
+  "mp4", "m4v", "mov", "webm", "mkv", "avi",
+  "zip", "gz", "tgz", "bz2", "xz", "7z", "rar", "zst",
+  "pdf", "epub", "docx", "xlsx", "pptx", "odt", "ods", "odp",
+  "woff", "woff2",
+]);
+
+/** Whether a file is worth compressing, judged by its extension. */
+export function isCompressible(path: string): boolean {
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  const dot = name.lastIndexOf(".");
+  return dot < 0 || !COMPRESSED_EXTENSIONS.has(name.slice(dot + 1).toLowerCase());
+}
+
+export function compress(content: ArrayBuffer): Promise<ArrayBuffer> {
+  return transform(content, new CompressionStream("deflate"));
+}
+
+export function decompress(content: ArrayBuffer, codec: Codec): Promise<ArrayBuffer> {
+  return transform(content, new DecompressionStream(codec));
+}
+
+function transform(content: ArrayBuffer, stream: CompressionStream | DecompressionStream): Promise<ArrayBuffer> {
+  return new Response(new Blob([content]).stream().pipeThrough(stream)).arrayBuffer();
+}
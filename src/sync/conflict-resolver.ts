@@ -1,6 +1,10 @@
 /**
  * Conflict resolution: Last-write-wins strategy.
  * When timestamps are equal, remote wins (deterministic).
+ *
+ * Markdown notes are the exception: when a merge base is available they are
+ * three-way merged line by line instead (see three-way-merge.ts). For other
+ * vault files the losing side of a real conflict is kept as a conflict copy.
  */
 
 export type ConflictWinner = "local" | "remote";
@@ -24,3 +28,33 @@ export function resolveConflict(
   // Equal timestamps: remote wins (deterministic tie-breaker)
   return "remote";
 }
+
+/** Whether concurrent edits to this file should be merged instead of overwritten. */
+export function isMergeable(path: string): boolean {
+  return path.toLowerCase().endsWith(".md") && !path.startsWith(".obsidian/");
+}
+
+/** Whether the losing side of a conflict on this file is kept as a sibling copy. */
+export function keepsConflictCopies(path: string): boolean {
+  return !isMergeable(path) && !path.startsWith(".obsidian/");
+}
+
+/**
+ * Name for a conflict copy next to the original, e.g.
+ * `Drawing.pdf` → `Drawing (conflict from Laptop 2026-10-19).pdf`.
+ * Pass `attempt` > 1 to get a unique name when that one is already taken.
+ */
+export function conflictCopyPath(path: string, deviceName: string, date = new Date(), attempt = 1): string {
+  const slash = path.lastIndexOf("/");
+  const dir = path.substring(0, slash + 1);
+  const name = path.substring(slash + 1);
+  const dot = name.lastIndexOf(".");
+  const stem = dot > 0 ? name.substring(0, dot) : name;
+  const ext = dot > 0 ? name.substring(dot) : "";
+
+  const device = deviceName.replace(/[\\/:*?"<>|]/g, "-").trim() || "another device";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const suffix = attempt > 1 ? ` ${attempt}` : "";
+  return `${dir}${stem} (conflict from ${device} ${day}${suffix})${ext}`;
+}
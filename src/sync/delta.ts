@@ -0,0 +1,67 @@
+/**
+ * Deltas for notes that grow or change a little at a time. A delta replaces one range of the
+ * base with new bytes and keeps everything before and after it, so appending a line, fixing a
+ * typo or rewriting a paragraph each make a delta about the size of the change.
+ *
+ * Format: the start of the replaced range and its length (u32, little-endian), then the new bytes.
+ *
+ * On the server a note stored with deltas is a block list: the blocks of its last full upload
+ * (the snapshot), followed by one block per delta. Clients apply the deltas after download.
+ */
+
+import type { Codec } from "./compression";
+
+/** A full upload replaces the chain once it has this many deltas. */
+export const MAX_DELTAS = 16;
+
+const HEADER_SIZE = 8;
+
+/**
+ * How the version of a note this device last synced is stored on the server, kept next to
+ * its merge base so the next upload can be a delta against it.
+ */
+export interface DeltaChain {
+  /** versionTag of that version on the server. */
+  tag: string;
+  blocks: string[];
+  /** How many of the blocks are deltas; the others are the snapshot. */
+  deltas: number;
+  /** Codec and compressed size of the snapshot. */
+  codec?: Codec;
+  compressedSize?: number;
+  /** SHA-256 of that version, to check the merge base still matches it. */
+  contentHash: string;
+}
+
+/** The delta that turns `base` into `target`. */
+export function encodeDelta(base: Uint8Array, target: Uint8Array): Uint8Array {
+  const shorter = Math.min(base.length, target.length);
+  let start = 0;
+  while (start < shorter && base[start] === target[start]) start++;
+  let kept = 0;
+  while (kept < shorter - start && base[base.length - 1 - kept] === target[target.length - 1 - kept]) kept++;
+
+  const inserted = target.subarray(start, target.length - kept);
+  const delta = new Uint8Array(HEADER_SIZE + inserted.length);
+  const view = new DataView(delta.buffer);
+  view.setUint32(0, start, true);
+  view.setUint32(4, base.length - kept - start, true);
+  delta.set(inserted, HEADER_SIZE);
+  return delta;
+}
+
+/** Apply a delta to its base. Null if the delta does not fit the base. */
+export function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array | null {
+  if (delta.length < HEADER_SIZE) return null;
+  const view = new DataView(delta.buffer, delta.byteOffset, delta.byteLength);
+  const start = view.getUint32(0, true);
+  const removed = view.getUint32(4, true);
+  if (start + removed > base.length) return null;
+
+  const inserted = delta.subarray(HEADER_SIZE);
+  const result = new Uint8Array(base.length - removed + inserted.length);
+  result.set(base.subarray(0, start));
+  result.set(inserted, start);
+  result.set(base.subarray(start + removed), start + inserted.length);
+  return result;
+}
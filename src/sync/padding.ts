@@ -0,0 +1,33 @@
+/**
+ * Size padding for privacy mode (Padmé, from "Reducing Metadata Leakage from Encrypted
+ * Files and Communication with PURBs", Nikitin et al. 2019).
+ *
+ * A file is padded with zeros up to a bucket whose size has its low bits cleared, so the
+ * server learns roughly the order of magnitude of a file and little more. The overhead is
+ * at most 12%. The real size travels in the encrypted metadata and the padding is cut off
+ * after download.
+ */
+
+/** Files up to this size all look the same. */
+export const MIN_PADDED_SIZE = 4096;
+
+/** The bucket a file of `size` bytes is padded to. */
+export function paddedSize(size: number): number {
+  const length = Math.max(size, MIN_PADDED_SIZE);
+  const exponent = Math.floor(Math.log2(length));
+  const sizeBits = Math.floor(Math.log2(exponent)) + 1;
+  const step = 2 ** (exponent - sizeBits);
+  return Math.ceil(length / step) * step;
+}
+
+/** Append zeros to content up to its bucket. */
+export function padContent(content: ArrayBuffer): ArrayBuffer {
+  const padded = new Uint8Array(paddedSize(content.byteLength));
+  padded.set(new Uint8Array(content));
+  return padded.buffer;
+}
+
+/** Cut the padding off downloaded content, given the real size from its metadata. */
+export function unpadContent(content: ArrayBuffer, size: number | undefined): ArrayBuffer {
+  return size !== undefined && size < content.byteLength ? content.slice(0, size) : content;
+}
@@ -8,33 +8,113 @@
  * - Activity model with per-file status tracking
  * - Non-blocking batch processing (yield to event loop)
  * - Token-based auth with key persistence
+ *
+ * Protocol v3 changes:
+ * - Blobs larger than CHUNK_SIZE transfer in acknowledged chunks that resume after a reconnect;
+ *   they are encrypted chunk by chunk, and the chunks of a download wait on disk (TransferStore)
+ * - Files of DEDUP_MIN_SIZE or more are split into content-defined blocks; only blocks
+ *   the server does not already hold are uploaded
+ *
+ * Protocol v4 changes:
+ * - Binary frames carry the id of the message they belong to, so concurrent downloads
+ *   are matched by fileId instead of arrival order
+ *
+ * Protocol v5 changes:
+ * - Files are encrypted with a random vault data key that the password key only wraps,
+ *   so changing the password re-wraps one key instead of re-encrypting the vault
+ *
+ * Protocol v6 changes:
+ * - The server stores the KDF parameters of the password key; new keys use Argon2id, and
+ *   PBKDF2 vaults are re-wrapped under Argon2id on the next password sign-in
+ *
+ * Protocol v7 changes:
+ * - The password sign-in proof is an HKDF subkey of the password key instead of a SHA-256
+ *   of the password, so the salt and KDF are fetched from /api/init-status before signing in
+ *
+ * Protocol v8 changes:
+ * - Every device signs in with a device key pair; once a device is trusted, new devices stay
+ *   pending until a trusted device approves them and hands over the data key encrypted to them
+ *
+ * Protocol v9 changes:
+ * - A trusted device can show a single-use pairing code; a new device signs in with it instead
+ *   of the password, and the device showing the code approves it once its signature checks out
+ *
+ * Protocol v10 changes:
+ * - A server can host several named vaults; AUTH names the vault (settings.vaultId, omitted for
+ *   the default vault) and /api/init-status, /api/init and pairing codes carry it too
+ *
+ * Protocol v11 changes:
+ * - A vault can share a folder with other vaults. Its files are encrypted with a folder key of
+ *   their own, synced by shareId next to the vault's files and stored in the owner's quota
+ *
+ * Protocol v12 changes:
+ * - A receive-only device (settings.receiveOnly) signs in with a read-only token; it downloads
+ *   changes but never uploads or deletes, and the server refuses its changes if it tried
+ * - A send-only device (settings.sendOnly) uploads its changes but applies none from other
+ *   devices; the server serves as a one-way backup, and changes to its files are only reported
+ *
+ * Protocol v13 changes:
+ * - Privacy mode (settings.privacyMode): uploads send PRIVATE_MTIME and a padded size, the real
+ *   mtime and size go into the encrypted metadata, and every client reads them from there;
+ *   padded content always goes up as one blob, never as blocks
+ *
+ * Protocol v14 changes:
+ * - Files below DEDUP_MIN_SIZE may be compressed before encryption (settings.compression);
+ *   their metadata names the codec, and every client decompresses them after download
+ *
+ * Protocol v15 changes:
+ * - Notes may be uploaded as deltas (settings.deltaUploads): a block upload with a versionTag
+ *   is a snapshot, and a later upload with its baseTag adds one delta block to its block list
+ *   (see delta.ts). Downloads apply the deltas listed in the metadata (FileMeta.chain)
  */
 
 import { Notice } from "obsidian";
 import type { App, Vault, DataAdapter } from "obsidian";
-import { MessageType } from "@vault-sync/shared/protocol";
+import { MessageType, BinaryFrameKind, CHUNK_SIZE, BLOB_OVERHEAD, DEDUP_MIN_SIZE, QUOTA_EXCEEDED, PRIVATE_MTIME, DELTA_BASE_MISMATCH } from "@vault-sync/shared/protocol";
 import type {
+  ProtocolMessage,
   SyncResponseMessage,
   FileChangedMessage,
   FileRemovedMessage,
   FileDownloadResponseMessage,
   FileUploadAckMessage,
+  ChunkDownloadResponseMessage,
+  VaultKeyInitResponseMessage,
+  WrappedKeys,
+  KdfParams,
+  ShareRewrap,
 } from "@vault-sync/shared/protocol";
-import type { EncryptedFileEntry, SyncState, ClientSession } from "@vault-sync/shared/types";
-import { encryptBlob, decryptBlob, encryptMetadata, decryptMetadata, sha256Hex, exportKey, importKey } from "../crypto/encryption";
-import { deriveVaultKey, deriveFileId, saltFromBase64 } from "../crypto/key-management";
+import type { EncryptedFileEntry, SyncState, ClientSession, FileVersionEntry, TrashEntry, ShareInfo, ShareMember, ShareRole } from "@vault-sync/shared/types";
+import { encryptBlob, decryptBlob, encryptChunk, decryptChunk, decryptChunkedBlob, encryptMetadata, decryptMetadata, sha256Hex, exportKey, importKey, CHUNK_PLAINTEXT_SIZE } from "../crypto/encryption";
+import {
+  derivePasswordKey, deriveAuthHash, derivePasswordProof, DEFAULT_KDF, LEGACY_KDF, generateDataKey, wrapDataKey, unwrapDataKey, deriveFileId, deriveBlockId,
+  generateVaultSalt, saltToBase64, saltFromBase64, generateRecoveryPhrase, parseRecoveryPhrase, deriveRecoveryKeys,
+} from "../crypto/key-management";
+import type { RecoveryKeys } from "../crypto/key-management";
+import { generateDeviceKeyPair, encryptKeyForDevice, decryptKeyForDevice, deviceFingerprint } from "../crypto/device-keys";
+import { generatePairingCode, formatPairingCode, derivePairingKeys, signPairing, verifyPairing } from "../crypto/pairing";
+import type { PairingCode } from "../crypto/pairing";
 import { sha256String } from "../crypto/encryption";
-import { resolveConflict } from "./conflict-resolver";
+import { resolveConflict, isMergeable, keepsConflictCopies, conflictCopyPath } from "./conflict-resolver";
+import { mergeText } from "./three-way-merge";
+import { BaseStore } from "./base-store";
+import { TransferStore } from "./transfer-store";
+import { chunkContent } from "./chunker";
+import { padContent, unpadContent } from "./padding";
+import { compress, decompress, isCompressible } from "./compression";
+import type { Codec } from "./compression";
+import { encodeDelta, applyDelta, MAX_DELTAS } from "./delta";
+import type { DeltaChain } from "./delta";
 import { FileWatcher } from "./file-watcher";
 import type { FileChange } from "./file-watcher";
 import { ConnectionManager } from "../network/connection";
-import type { AdvancedSyncSettings } from "../types";
+import type { AdvancedSyncSettings, InitialSyncStrategy, SyncDirection } from "../types";
 
 /** A record of a single synced file change, shown in the status popup. */
 export interface SyncHistoryEntry {
   path: string;
   filename: string;
-  direction: "upload" | "download" | "delete" | "create" | "rename" | "connect" | "disconnect" | "error";
+  direction: "upload" | "download" | "delete" | "create" | "rename" | "conflict" | "connect" | "disconnect" | "error";
   timestamp: number;
   /** How many consecutive times this same file+direction was recorded. */
   count: number;
@@ -68,10 +148,101 @@ export interface SyncPlan {
   serverSequence: number;
 }
 
+/** An earlier version of a file kept by the server, with decrypted metadata. */
+export interface FileVersion {
+  versionId: number;
+  mtime: number;
+  size: number;
+  /** When the server replaced this version (ms). */
+  archivedAt: number;
+  /** Device that uploaded this version, if it was recorded. */
+  deviceName?: string;
+}
+
+/** A file whose local copy does not match the server manifest. */
+export interface IntegrityProblem {
+  path: string;
+  problem: "missing" | "mismatch";
+}
+
+/** Result of checking every local file against the server manifest. */
+export interface IntegrityReport {
+  /** Files whose content matches the hash recorded by their uploader. */
+  verified: number;
+  /** Files uploaded before content hashes were recorded — nothing to compare against. */
+  unchecked: number;
+  problems: IntegrityProblem[];
+}
+
+/** A deleted file still kept in the server's trash, with decrypted path. */
+export interface TrashedFile {
+  fileId: string;
+  path: string;
+  mtime: number;
+  size: number;
+  /** When the file was deleted (ms). */
+  deletedAt: number;
+  /** Device that deleted the file. */
+  deletedBy: string;
+  /** Set when the file was deleted from a shared folder. */
+  shareId?: string;
+}
+
 const MAX_HISTORY = 50;
 const BATCH_SIZE = 50;             // Files per yield-to-event-loop during manifest build
 const MAX_CONCURRENT_DOWNLOADS = 6; // Max simultaneous download+decrypt+write ops
 const MAX_CONCURRENT_UPLOADS = 4;   // Max simultaneous read+encrypt+send ops
+const REQUEST_TIMEOUT_MS = 30000;   // Max wait for a request/response exchange (version history, trash)
+
+const RECEIVE_ONLY = "This device is receive-only and does not change files on the server";
+
+/** A folder shared between vaults, with decrypted name and mount path. */
+export interface SharedFolder {
+  shareId: string;
+  /** Folder name chosen by the owner; null while this device can't open the folder key. */
+  name: string | null;
+  /** Vault that owns the folder. */
+  owner: string;
+  role: ShareRole;
+  /** False while the folder is an invitation this vault has not accepted. */
+  accepted: boolean;
+  /** Where the folder lives in this vault; null until accepted. */
+  mount: string | null;
+  /** Members other than the owner (listed to the owner only). */
+  members: ShareMember[];
+}
+
+/** A shared folder as this device sees it, with its key and the files synced into it. */
+interface OpenShare {
+  info: ShareInfo;
+  name: string | null;
+  key: CryptoKey | null;
+  mount: string | null;
+  /** Files under the mount, keyed by their fileId in the folder; paths are vault paths. */
+  manifest: Map<string, LocalFileInfo>;
+}
+
+/** Plaintext of a file's encryptedMeta. */
+interface FileMeta {
+  path: string;
+  deviceName?: string;
+  /** SHA-256 of the plaintext content, set by the uploader and checked after every download. */
+  contentHash?: string;
+  /** Real mtime and size of a file uploaded in privacy mode (the server only sees PRIVATE_MTIME). */
+  mtime?: number;
+  size?: number;
+  /** Set when the content was compressed before encryption. */
+  codec?: Codec;
+  /** Length of the compressed content; in privacy mode the padding starts there. */
+  compressedSize?: number;
+  /**
+   * Set when the last `deltas` blocks of the file are deltas to the blocks before them; codec
+   * and compressedSize then describe those blocks (the snapshot) instead.
+   */
+  chain?: { deltas: number; codec?: Codec; compressedSize?: number };
+  /** Set when the blob was encrypted chunk by chunk (see encryptChunk). */
+  chunked?: boolean;
+}
 
 /** Decrypted file metadata stored locally for sync comparison. */
 interface LocalFileInfo {
@@ -82,14 +253,40 @@ interface LocalFileInfo {
   contentHash: string;
 }
 
+/** A request waiting for its response message from the server. */
+interface PendingRequest<T> {
+  resolve: (value: T) => void;
+  reject: (err: Error) => void;
+}
+
+/** Whether a path is a folder or lies inside it. */
+function isWithin(path: string, folder: string): boolean {
+  return path === folder || path.startsWith(folder + "/");
+}
+
+/** Whether a path from a shared folder's file metadata stays inside the folder. */
+function isSafeSharePath(path: string): boolean {
+  return path.split("/").every((part) => part !== "" && part !== "." && part !== ".." && !part.includes("\\"));
+}
+
+/** Random id for a chunked upload or a shared folder (32 hex chars, the format the server accepts). */
+function generateUploadId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
 export type SyncStateCallback = (state: SyncState, detail?: string) => void;
 export type SyncProgressCallback = (current: number, total: number, detail: string) => void;
+/** Outcome of a pairing code: the device that used it (null if none did), and an error if it was not approved. */
+export type PairingResultCallback = (deviceName: string | null, error?: string) => void;
 
 export class SyncEngine {
   private app: App;
   private settings: AdvancedSyncSettings;
   private connection: ConnectionManager;
   private fileWatcher: FileWatcher;
+  /** Last synced content of mergeable notes — the common ancestor for three-way merges. */
+  private baseStore: BaseStore;
+  private transfers: TransferStore;
   private vaultKey: CryptoKey | null = null;
   private localManifest: Map<string, LocalFileInfo> = new Map();
   private pendingDownloads: Map<string, FileDownloadResponseMessage> = new Map();
@@ -128,6 +325,74 @@ export class SyncEngine {
   readonly activeItems: SyncActivityItem[] = [];
   /** Live client list pushed by server. */
   private _clientList: ClientSession[] = [];
+  /** Outstanding VERSION_LIST requests, keyed by fileId. */
+  private versionListRequests: Map<string, PendingRequest<FileVersionEntry[]>> = new Map();
+  /** Outstanding VERSION_DOWNLOAD requests, keyed by `${fileId}:${versionId}`; resolve to the blob or its block list. */
+  private versionDataRequests: Map<string, PendingRequest<{ data: ArrayBuffer | string[]; encryptedMeta: string }>> = new Map();
+  /** Outstanding MANIFEST_REQUEST (only one at a time, keyed by ""). */
+  private manifestRequests: Map<string, PendingRequest<EncryptedFileEntry[]>> = new Map();
+  /** Outstanding FILE_DOWNLOADs whose content goes to the caller instead of the vault, keyed by fileId. */
+  private fileFetchRequests: Map<string, PendingRequest<ArrayBuffer>> = new Map();
+  /** KDF parameters of the password key, as last reported by the server (null: LEGACY_KDF). */
+  private kdf: KdfParams | null = null;
+  /** Outstanding VAULT_KEY_INIT (only one at a time, keyed by ""). */
+  private vaultKeyInitRequests: Map<string, PendingRequest<VaultKeyInitResponseMessage>> = new Map();
+  /** Outstanding PASSWORD_CHANGE (only one at a time, keyed by ""); resolves to the new auth token ("" if sessions were kept). */
+  private passwordChangeRequests: Map<string, PendingRequest<string>> = new Map();
+  /** Outstanding RECOVERY_KEY_SET (only one at a time, keyed by ""). */
+  private recoveryKeyRequests: Map<string, PendingRequest<void>> = new Map();
+  /** Outstanding key rotation steps, keyed by "begin" / "commit"; commit resolves to the new auth token. */
+  private keyRotationRequests: Map<string, PendingRequest<string>> = new Map();
+  /** Outstanding DEVICE_APPROVE requests, keyed by the approved clientId. */
+  private deviceApproveRequests: Map<string, PendingRequest<void>> = new Map();
+  /** Outstanding PAIRING_BEGIN (only one at a time, keyed by ""); resolves to when the code expires. */
+  private pairingBeginRequests: Map<string, PendingRequest<number>> = new Map();
+  /** The pairing code this device is showing, with the key its new device's signature is checked with. */
+  private activePairing: { pairingHash: string; macKey: CryptoKey; onResult: PairingResultCallback } | null = null;
+  /** Outstanding TRASH_LIST requests, keyed by shareId ("" for the vault's own trash). */
+  private trashListRequests: Map<string, PendingRequest<TrashEntry[]>> = new Map();
+  /** Outstanding TRASH_RESTORE requests, keyed by fileId. */
+  private trashRestoreRequests: Map<string, PendingRequest<number>> = new Map();
+  /** Outstanding chunked upload steps (begin or one chunk), keyed by uploadId; resolve to the server's offset. */
+  private chunkUploadRequests: Map<string, PendingRequest<number>> = new Map();
+  /** Outstanding BLOCK_QUERY requests, keyed by fileId; resolve to the missing block IDs. */
+  private blockQueryRequests: Map<string, PendingRequest<string[]>> = new Map();
+  /** Outstanding BLOCK_UPLOAD requests, keyed by blockId. */
+  private blockUploadRequests: Map<string, PendingRequest<void>> = new Map();
+  /** Outstanding BLOCK_DOWNLOAD requests, keyed by blockId. */
+  private blockDataRequests: Map<string, PendingRequest<ArrayBuffer>> = new Map();
+  /** Outstanding delta uploads, keyed by their versionTag. */
+  private deltaUploadRequests: Map<string, PendingRequest<void>> = new Map();
+  /** Block uploads in flight, so files sharing a block send it only once. */
+  private blockUploads: Map<string, Promise<void>> = new Map();
+  /** Set once the user was told the vault's storage quota is full; cleared when an upload succeeds again. */
+  private quotaNoticeShown = false;
+  /** Block downloads in flight, so files sharing a block fetch it only once. */
+  private blockFetches: Map<string, Promise<Uint8Array | null>> = new Map();
+  /** Shared folders of this vault, by shareId. */
+  private shares: Map<string, OpenShare> = new Map();
+  /** Outstanding SHARE_CREATE / SHARE_INVITE / SHARE_ACCEPT / SHARE_REMOVE requests, keyed by shareId. */
+  private shareRequests: Map<string, PendingRequest<void>> = new Map();
+  /** Outstanding SHARE_MEMBER_KEYS requests, keyed by vaultId; resolve to the member's device keys. */
+  private shareKeysRequests: Map<string, PendingRequest<string[]>> = new Map();
+  /** Outstanding SHARE_LIST (only one at a time, keyed by ""). */
+  private shareListRequests: Map<string, PendingRequest<ShareInfo[]>> = new Map();
+  /** Outstanding SYNC_REQUESTs of shared folders, keyed by shareId. */
+  private shareSyncRequests: Map<string, PendingRequest<SyncResponseMessage>> = new Map();
+  /** Outstanding uploads to shared folders, keyed by fileId; resolve to the folder's new sequence. */
+  private shareUploadRequests: Map<string, PendingRequest<number>> = new Map();
+  /** Outstanding downloads from shared folders, keyed by fileId. */
+  private shareFetchRequests: Map<string, PendingRequest<{ entry: FileDownloadResponseMessage; data: ArrayBuffer }>> = new Map();
+  /** Download headers of shared folder files waiting for their blob, keyed by fileId. */
+  private shareDownloads: Map<string, FileDownloadResponseMessage> = new Map();
+  /** Shared folder syncs in flight, so a folder syncs once at a time. */
+  private shareSyncs: Map<string, Promise<void>> = new Map();
+  /** Share list updates run one after another. */
+  private shareListUpdate: Promise<void> = Promise.resolve();
+  /** Shared folders whose read-only notice was shown. */
+  private readOnlyNoticeShown: Set<string> = new Set();
+  /** Whether the server signed this device in with a read-only token (AUTH_OK.readOnly). */
+  private _readOnlyToken = false;
 
   onStateChange: SyncStateCallback = () => {};
   onProgress: SyncProgressCallback = () => {};
@@ -137,6 +402,8 @@ export class SyncEngine {
   onActivityChange: () => void = () => {};
   /** Called when the server pushes an updated client list. */
   onClientListChange: (clients: ClientSession[]) => void = () => {};
+  /** Called when the shared folders of this vault change. */
+  onSharesChange: (shares: SharedFolder[]) => void = () => {};
 
   constructor(
     app: App,
@@ -156,6 +423,8 @@ export class SyncEngine {
       settings,
       (change) => this.handleLocalChange(change)
     );
+    this.baseStore = new BaseStore(app.vault.adapter, `${app.vault.configDir}/plugins/advanced-sync/merge-base`);
+    this.transfers = new TransferStore(app.vault.adapter, `${app.vault.configDir}/plugins/advanced-sync/transfers`);
 
     // Restore pending changes from previous session
     for (const change of initialPendingChanges) {
@@ -175,42 +444,120 @@ export class SyncEngine {
     return this._clientList;
   }
 
+  /** Whether the server treats this device as read-only, whatever settings.receiveOnly says. */
+  get readOnlyToken(): boolean {
+    return this._readOnlyToken;
+  }
+
+  /** Receive-only: this device downloads changes but never uploads or deletes files. */
+  get receiveOnly(): boolean {
+    return this.settings.receiveOnly || this._readOnlyToken;
+  }
+
+  /** Send-only: this device uploads its changes but applies none from other devices. */
+  get sendOnly(): boolean {
+    return this.settings.sendOnly && !this.receiveOnly;
+  }
+
+  get direction(): SyncDirection {
+    return this.receiveOnly ? "receive" : this.sendOnly ? "send" : "both";
+  }
+
+  get sharedFolders(): SharedFolder[] {
+    return [...this.shares.values()].map((share) => ({
+      shareId: share.info.shareId,
+      name: share.name,
+      owner: share.info.owner,
+      role: share.info.role,
+      accepted: !!share.info.vaultKey,
+      mount: share.mount,
+      members: share.info.members ?? [],
+    }));
+  }
+
   /** Start sync with password (initial setup — derive key from password). */
   async connect(password: string): Promise<void> {
     if (!this.settings.serverUrl) return;
-
-    // Hash the password for server auth
-    const passwordHash = await sha256String(password);
-
-    // If we already have a vault salt, derive the key now
-    if (this.settings.vaultSalt) {
-      this.vaultKey = await deriveVaultKey(
-        password,
-        saltFromBase64(this.settings.vaultSalt)
-      );
-      // Persist the key for auto-reconnect
-      this.settings.encryptionKeyB64 = await exportKey(this.vaultKey);
-      await this.saveSettings();
+    await this.ensureDeviceKey();
+
+    // Derive the sign-in proof from the password key (plain SHA-256 in vaults without KDF parameters)
+    const { vaultSalt, kdf } = await this.connection.fetchInitStatus();
+    let passwordHash: string;
+    if (vaultSalt && kdf) {
+      const passwordKey = await derivePasswordKey(password, saltFromBase64(vaultSalt), kdf);
+      passwordHash = await deriveAuthHash(passwordKey);
+      // Reused to unwrap the data key, so the KDF doesn't run twice
+      (this as any)._tempPasswordKey = { vaultSalt, passwordKey };
+    } else {
+      passwordHash = await sha256String(password);
     }
 
-    // Store password temporarily for key derivation after receiving salt
+    // Store password temporarily to unwrap the data key once AUTH_OK brings it
     (this as any)._tempPassword = password;
 
     this.connection.connect(passwordHash);
     this.fileWatcher.start();
   }
 
-  /** Start sync with stored token + stored key (auto-reconnect, no password needed). */
+  /**
+   * Start sync with the recovery phrase (forgotten password): sign in with it, unwrap the
+   * data key with it and set a new password.
+   */
+  async connectWithRecovery(phrase: string, newPassword: string): Promise<void> {
+    if (!this.settings.serverUrl) return;
+    const secret = parseRecoveryPhrase(phrase);
+    if (!secret) throw new Error("This is not a valid recovery phrase");
+    const recovery = await deriveRecoveryKeys(secret);
+    await this.ensureDeviceKey();
+
+    // Stored temporarily to unwrap the data key and set the new password once AUTH_OK arrives
+    (this as any)._tempRecovery = { recovery, newPassword };
+
+    this.connection.connect(undefined, recovery.authHash);
+    this.fileWatcher.start();
+  }
+
+  /**
+   * Start sync with stored token + stored key (auto-reconnect, no password needed).
+   * A device still waiting for approval has no key yet; it gets one when approved.
+   */
   async connectWithToken(): Promise<void> {
-    if (!this.settings.serverUrl || !this.settings.authToken || !this.settings.encryptionKeyB64) return;
+    if (!this.settings.serverUrl || !this.settings.authToken) return;
+    await this.ensureDeviceKey();
 
     // Import the stored key
-    this.vaultKey = await importKey(this.settings.encryptionKeyB64);
+    if (this.settings.encryptionKeyB64) this.vaultKey = await importKey(this.settings.encryptionKeyB64);
 
     this.connection.connect(); // Will use authToken from settings
     this.fileWatcher.start();
   }
 
+  /**
+   * Start sync with a pairing code shown by another device (no password): sign in with it and
+   * wait for that device to approve this one.
+   */
+  async connectWithPairing(pairing: PairingCode): Promise<void> {
+    if (!this.settings.serverUrl) return;
+    await this.ensureDeviceKey();
+    const { pairingHash, macKey } = await derivePairingKeys(pairing.secret);
+    const pairingProof = await signPairing(macKey, this.settings.devicePublicKey);
+
+    // Checked against AUTH_OK, so a code can't point this device at a different server
+    (this as any)._tempPairing = { serverId: pairing.serverId };
+
+    this.connection.connect(undefined, undefined, { pairingHash, pairingProof });
+    this.fileWatcher.start();
+  }
+
+  /** Create this device's key pair on first use; the server registers it at the next sign-in. */
+  private async ensureDeviceKey(): Promise<void> {
+    if (this.settings.devicePrivateKey) return;
+    const pair = await generateDeviceKeyPair();
+    this.settings.devicePublicKey = pair.publicKey;
+    this.settings.devicePrivateKey = pair.privateKey;
+    await this.saveSettings();
+  }
+
   /** Disconnect from the server. File watcher stays active to queue offline changes. */
   disconnect(): void {
     this.readyForIncrementalSync = false;
@@ -229,10 +576,17 @@ export class SyncEngine {
     this.connection.disconnect();
     this.localManifest.clear();
     this.pendingDownloads.clear();
+    this.shareDownloads.clear();
+    this.rejectPendingRequests("Disconnected");
     this.activeItems.length = 0;
     this.obsidianFilesChanged = false;
     // Keep pendingLocalChanges and pending history entries — they'll be flushed on reconnect
     delete (this as any)._tempPassword;
+    delete (this as any)._tempPasswordKey;
+    delete (this as any)._tempRecovery;
+    delete (this as any)._tempPairing;
+    this.activePairing?.onResult(null, "Disconnected");
+    this.activePairing = null;
   }
 
   /** Full cleanup — stops file watcher, clears all state. Call on plugin unload. */
@@ -270,7 +624,9 @@ export class SyncEngine {
       this.readyForIncrementalSync = false;
       this._forcePull = true;
       this.settings.lastSequence = 0;
+      this.settings.shareSequences = {};
       await this.saveSettings();
+      await this.refreshShares(true).catch((err) => console.warn("[Sync] Could not list shared folders:", err.message));
       await this.buildLocalManifest();
       this.connection.requestSync(0);
     }
@@ -281,6 +637,458 @@ export class SyncEngine {
     this.connection.kickClient(clientId);
   }
 
+  /** Approve a pending device: hand it the data key, encrypted to the device key it registered. */
+  async approveDevice(clientId: string): Promise<void> {
+    const device = this._clientList.find((c) => c.clientId === clientId);
+    if (!device?.publicKey || device.trusted) throw new Error("This device is not waiting for approval");
+    await this.sendDeviceKey(clientId, device.publicKey);
+  }
+
+  /** Send DEVICE_APPROVE with the data key encrypted to the device's public key. */
+  private async sendDeviceKey(clientId: string, devicePublicKey: string): Promise<void> {
+    const vaultKey = this.vaultKey;
+    if (!vaultKey) throw new Error("Not connected");
+    const deviceKey = await encryptKeyForDevice(vaultKey, devicePublicKey);
+    await this.sendRequest(this.deviceApproveRequests, clientId, {
+      type: MessageType.DEVICE_APPROVE,
+      clientId,
+      deviceKey,
+    });
+  }
+
+  /**
+   * Show a new pairing code (replacing any open one). The device that signs in with it is
+   * approved automatically; onResult reports its name, or why pairing failed.
+   */
+  async beginPairing(onResult: PairingResultCallback): Promise<{ code: string; expiresAt: number }> {
+    if (!this.vaultKey || !this.settings.serverId) throw new Error("Not connected");
+    this.cancelPairing();
+    const pairing = generatePairingCode(this.settings.serverUrl, this.settings.serverId, this.settings.vaultId);
+    const { pairingHash, macKey } = await derivePairingKeys(pairing.secret);
+    const expiresAt = await this.sendRequest(this.pairingBeginRequests, "", {
+      type: MessageType.PAIRING_BEGIN,
+      pairingHash,
+    });
+    this.activePairing = { pairingHash, macKey, onResult };
+    return { code: formatPairingCode(pairing), expiresAt };
+  }
+
+  /** Withdraw the open pairing code, if any. */
+  cancelPairing(): void {
+    if (!this.activePairing) return;
+    if (this.connection.isConnected) {
+      this.connection.send({ type: MessageType.PAIRING_CANCEL, pairingHash: this.activePairing.pairingHash });
+    }
+    this.activePairing = null;
+  }
+
+  /** List the server's earlier versions of a file, newest first. */
+  async listVersions(filePath: string): Promise<FileVersion[]> {
+    const { key, fileId, shareId } = await this.serverFile(filePath);
+    const entries = await this.sendRequest(this.versionListRequests, fileId, {
+      type: MessageType.VERSION_LIST,
+      fileId,
+      shareId,
+    });
+
+    const versions: FileVersion[] = [];
+    for (const entry of entries) {
+      const meta = await decryptMetadata<FileMeta>(entry.encryptedMeta, key);
+      versions.push({
+        versionId: entry.versionId,
+        mtime: meta?.mtime ?? entry.mtime,
+        size: meta?.size ?? entry.size,
+        archivedAt: entry.archivedAt,
+        deviceName: meta?.deviceName,
+      });
+    }
+    return versions;
+  }
+
+  /** Download and decrypt one earlier version of a file. */
+  async loadVersion(filePath: string, versionId: number): Promise<ArrayBuffer> {
+    const { key, fileId, shareId } = await this.serverFile(filePath);
+    const { data, encryptedMeta } = await this.sendRequest(this.versionDataRequests, `${fileId}:${versionId}`, {
+      type: MessageType.VERSION_DOWNLOAD,
+      fileId,
+      versionId,
+      shareId,
+    });
+    const meta = await decryptMetadata<FileMeta>(encryptedMeta, key);
+    const decrypted = Array.isArray(data)
+      ? await this.loadFileBlocks(data, encryptedMeta, key)
+      : await (meta?.chunked ? decryptChunkedBlob(data, key) : decryptBlob(data, key));
+    if (!decrypted || !meta) throw new Error("Could not decrypt this version");
+    return this.openDownload(decrypted, meta);
+  }
+
+  /**
+   * Replace the local file with an earlier version and upload it.
+   * The server archives the content being replaced, so a restore can itself be undone.
+   */
+  async restoreVersion(filePath: string, versionId: number): Promise<void> {
+    if (this.receiveOnly) throw new Error(RECEIVE_ONLY);
+    const content = await this.loadVersion(filePath, versionId);
+    await this.writeFile(filePath, content, Date.now());
+    await this.uploadFile(filePath);
+  }
+
+  /**
+   * List deleted files the server still keeps in its trash and in the trash of every shared
+   * folder mounted here, most recently deleted first.
+   */
+  async listTrash(): Promise<TrashedFile[]> {
+    const vaultKey = this.vaultKey;
+    if (!vaultKey) throw new Error("Not connected");
+
+    const files: TrashedFile[] = [];
+    const sources: Array<{ key: CryptoKey; mount: string | null; shareId?: string }> = [{ key: vaultKey, mount: null }];
+    for (const share of this.shares.values()) {
+      if (share.key && share.mount) sources.push({ key: share.key, mount: share.mount, shareId: share.info.shareId });
+    }
+    for (const { key, mount, shareId } of sources) {
+      const entries = await this.sendRequest(this.trashListRequests, shareId ?? "", { type: MessageType.TRASH_LIST, shareId });
+      for (const entry of entries) {
+        const meta = await decryptMetadata<FileMeta>(entry.encryptedMeta, key);
+        if (!meta) continue;
+        files.push({
+          fileId: entry.fileId,
+          path: mount ? `${mount}/${meta.path}` : meta.path,
+          mtime: meta.mtime ?? entry.mtime,
+          size: meta.size ?? entry.size,
+          deletedAt: entry.deletedAt,
+          deletedBy: entry.deletedBy,
+          shareId,
+        });
+      }
+    }
+    return files.sort((a, b) => b.deletedAt - a.deletedAt);
+  }
+
+  /**
+   * Restore a file from the server's trash, or from a shared folder's. The server then
+   * announces it to every client as a regular FILE_CHANGED, so this device downloads it
+   * like any other.
+   */
+  async restoreFromTrash(fileId: string, shareId?: string): Promise<void> {
+    if (this.receiveOnly) throw new Error(RECEIVE_ONLY);
+    await this.sendRequest(this.trashRestoreRequests, fileId, {
+      type: MessageType.TRASH_RESTORE,
+      fileId,
+      shareId,
+    });
+    // A send-only device ignores the FILE_CHANGED that announces it, so it fetches the file itself
+    if (this.sendOnly) this.connection.send({ type: MessageType.FILE_DOWNLOAD, fileId, shareId });
+  }
+
+  /**
+   * Share a folder of this vault. Its files move into a shared folder with a key of its own,
+   * to which other vaults can then be invited; the vault's own copies are deleted.
+   * Returns the shareId.
+   */
+  async createShare(folderPath: string): Promise<string> {
+    const vaultKey = this.vaultKey;
+    if (!vaultKey || this._state !== "idle") throw new Error("Connect and let the sync finish first");
+    if (this.receiveOnly) throw new Error(RECEIVE_ONLY);
+    const folder = folderPath.trim().replace(/^\/+|\/+$/g, "");
+    const file = folder ? this.app.vault.getAbstractFileByPath(folder) : null;
+    if (!file || !("children" in file)) throw new Error(`This vault has no folder "${folder}"`);
+    this.checkMountPath(folder);
+
+    const folderKey = await generateDataKey();
+    const shareId = generateUploadId();
+    await this.sendRequest(this.shareRequests, shareId, {
+      type: MessageType.SHARE_CREATE,
+      shareId,
+      encryptedName: await encryptMetadata({ name: file.name }, folderKey),
+      vaultKey: await wrapDataKey(folderKey, vaultKey),
+      encryptedMount: await encryptMetadata({ path: folder }, vaultKey),
+    });
+    await this.refreshShares();
+    const share = this.shares.get(shareId);
+    if (!share) throw new Error("The server did not list the new shared folder");
+    await this.syncShare(share);
+
+    // Files that made it into the shared folder leave the vault (the others are retried by the next sync)
+    for (const local of share.manifest.values()) {
+      if (!local.contentHash) continue;
+      const fileId = await deriveFileId(local.path, vaultKey);
+      this.localManifest.delete(fileId);
+      await this.baseStore.remove(fileId);
+      this.connection.send({ type: MessageType.FILE_DELETE, fileId });
+    }
+    return shareId;
+  }
+
+  /** Invite another vault to a shared folder this vault owns, or change its role. */
+  async inviteToShare(shareId: string, vaultId: string, role: Exclude<ShareRole, "owner">): Promise<void> {
+    const key = this.shares.get(shareId)?.key;
+    if (!key) throw new Error("This shared folder is not open on this device");
+
+    // The folder key is encrypted to each trusted device of the vault; whichever accepts re-wraps it
+    const devices = await this.sendRequest(this.shareKeysRequests, vaultId, {
+      type: MessageType.SHARE_MEMBER_KEYS,
+      shareId,
+      vaultId,
+    });
+    const deviceKeys: Record<string, string> = {};
+    for (const publicKey of devices) deviceKeys[publicKey] = await encryptKeyForDevice(key, publicKey);
+    await this.sendRequest(this.shareRequests, shareId, {
+      type: MessageType.SHARE_INVITE,
+      shareId,
+      vaultId,
+      role,
+      deviceKeys,
+    });
+    await this.refreshShares();
+  }
+
+  /** Accept an invitation: the shared folder is synced into a new folder of this vault. */
+  async acceptShare(shareId: string, mountPath: string): Promise<void> {
+    const vaultKey = this.vaultKey;
+    if (!vaultKey) throw new Error("Not connected");
+    const key = this.shares.get(shareId)?.key;
+    if (!key) throw new Error("This invitation can only be opened on a device that was trusted when it was sent");
+    const mount = mountPath.trim().replace(/^\/+|\/+$/g, "");
+    if (!mount) throw new Error("Choose a folder for the shared folder");
+    this.checkMountPath(mount);
+    if (await this.app.vault.adapter.exists(mount)) throw new Error(`"${mount}" already exists — choose a new folder`);
+
+    await this.sendRequest(this.shareRequests, shareId, {
+      type: MessageType.SHARE_ACCEPT,
+      shareId,
+      vaultKey: await wrapDataKey(key, vaultKey),
+      encryptedMount: await encryptMetadata({ path: mount }, vaultKey),
+    });
+    try {
+      await this.app.vault.createFolder(mount);
+    } catch {
+      // Created by the first download
+    }
+    await this.refreshShares();
+  }
+
+  /**
+   * Leave a shared folder (or decline the invitation), or, as its owner, remove a member.
+   * The owner leaving deletes the shared folder. Files stay on disk as regular vault files.
+   */
+  async removeFromShare(shareId: string, vaultId?: string): Promise<void> {
+    await this.sendRequest(this.shareRequests, shareId, {
+      type: MessageType.SHARE_REMOVE,
+      shareId,
+      ...(vaultId ? { vaultId } : {}),
+    });
+    await this.refreshShares();
+  }
+
+  /** Fetch this vault's shared folders from the server and apply them; `resync` syncs every folder. */
+  async refreshShares(resync = false): Promise<void> {
+    const shares = await this.sendRequest(this.shareListRequests, "", { type: MessageType.SHARE_LIST });
+    await this.applyShareList(shares, resync);
+  }
+
+  /** Throw unless a folder may hold a shared folder: outside .obsidian/ and apart from the other shared folders. */
+  private checkMountPath(path: string): void {
+    if (isWithin(path, ".obsidian")) throw new Error("Folders in .obsidian/ can't be shared");
+    for (const share of this.shares.values()) {
+      if (share.mount && (isWithin(path, share.mount) || isWithin(share.mount, path))) {
+        throw new Error(`"${path}" overlaps the shared folder "${share.mount}"`);
+      }
+    }
+  }
+
+  /**
+   * Re-hash every synced file on disk and compare it with the content hash its
+   * uploader stored in the server manifest. Files with unsent local edits are skipped.
+   */
+  async verifyIntegrity(): Promise<IntegrityReport> {
+    const vaultKey = this.vaultKey;
+    if (!vaultKey) throw new Error("Not connected");
+
+    const entries = await this.sendRequest(this.manifestRequests, "", { type: MessageType.MANIFEST_REQUEST });
+    const pending = new Set(this.pendingLocalChanges.map(c => c.path));
+    const report: IntegrityReport = { verified: 0, unchecked: 0, problems: [] };
+
+    await this.processWithYield(entries, async (entry) => {
+      const meta = await decryptMetadata<FileMeta>(entry.encryptedMeta, vaultKey);
+      if (!meta || pending.has(meta.path)) return;
+      if (!this.shouldSyncObsidianPath(meta.path) || this.fileWatcher.shouldExclude(meta.path)) return;
+
+      if (!(await this.app.vault.adapter.exists(meta.path))) {
+        report.problems.push({ path: meta.path, problem: "missing" });
+      } else if (!meta.contentHash) {
+        report.unchecked++;
+      } else if (await sha256Hex(await this.app.vault.adapter.readBinary(meta.path)) !== meta.contentHash) {
+        report.problems.push({ path: meta.path, problem: "mismatch" });
+      } else {
+        report.verified++;
+      }
+    });
+    return report;
+  }
+
+  /**
+   * Change the vault password: wrap the data key with a key derived from the new password
+   * and a fresh salt. No file is re-encrypted. Other devices are signed out and need the
+   * new password.
+   */
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    const dataKey = this.vaultKey;
+    if (!dataKey) throw new Error("Not connected");
+    const passwordHash = await derivePasswordProof(currentPassword, this.settings.vaultSalt, this.kdf);
+    await this.setPassword({ passwordHash }, newPassword, dataKey);
+  }
+
+  /**
+   * Create a recovery kit: a random recovery phrase that can unwrap the data key and sign
+   * in to set a new password. Replaces the previous kit. Returns the phrase to show the user.
+   */
+  async createRecoveryKit(password: string): Promise<string> {
+    const dataKey = this.vaultKey;
+    if (!dataKey) throw new Error("Not connected");
+
+    const phrase = generateRecoveryPhrase();
+    const recovery = await deriveRecoveryKeys(parseRecoveryPhrase(phrase)!);
+    await this.sendRequest(this.recoveryKeyRequests, "", {
+      type: MessageType.RECOVERY_KEY_SET,
+      passwordHash: await derivePasswordProof(password, this.settings.vaultSalt, this.kdf),
+      recoveryHash: recovery.authHash,
+      wrappedKey: await wrapDataKey(dataKey, recovery.wrappingKey),
+    });
+    return phrase;
+  }
+
+  /**
+   * Wrap the data key under a new password with DEFAULT_KDF; `proof` is the current password
+   * hash or the recovery proof. With `keepSessions` the password is the current one and only
+   * its key derivation is upgraded, so no device is signed out.
+   */
+  private async setPassword(
+    proof: { passwordHash?: string; recoveryHash?: string },
+    newPassword: string,
+    dataKey: CryptoKey,
+    keepSessions = false
+  ): Promise<void> {
+    const newSalt = saltToBase64(generateVaultSalt());
+    const passwordKey = await derivePasswordKey(newPassword, saltFromBase64(newSalt), DEFAULT_KDF);
+    const authToken = await this.sendRequest(this.passwordChangeRequests, "", {
+      type: MessageType.PASSWORD_CHANGE,
+      ...proof,
+      newPasswordHash: await deriveAuthHash(passwordKey),
+      newVaultSalt: newSalt,
+      kdf: DEFAULT_KDF,
+      wrappedKey: await wrapDataKey(dataKey, passwordKey),
+      ...(keepSessions ? { keepSessions } : {}),
+    });
+
+    this.settings.vaultSalt = newSalt;
+    this.kdf = DEFAULT_KDF;
+    if (authToken) this.settings.authToken = authToken;
+    await this.saveSettings();
+  }
+
+  /**
+   * Rotate the vault data key: re-encrypt every file under a new random key, then let the
+   * server swap in the new files and wrapped key at once. Use it when a device with the old
+   * key can no longer be trusted. Other devices are signed out and need the password again.
+   * Version history and the trash are encrypted with the old key and are cleared. The keys of
+   * shared folders are re-wrapped in the same commit; a folder whose key this device cannot
+   * open stops the rotation before anything changes.
+   */
+  async rotateVaultKey(password: string, onProgress: (done: number, total: number) => void = () => {}): Promise<void> {
+    const oldKey = this.vaultKey;
+    if (!oldKey || this._state !== "idle") throw new Error("Connect and let the sync finish first");
+    if (this.receiveOnly) throw new Error(RECEIVE_ONLY);
+
+    const newKey = await generateDataKey();
+
+    // Shared folders keep their keys; the copies wrapped with the vault key are swapped at the commit
+    const shares: ShareRewrap[] = [];
+    for (const share of this.shares.values()) {
+      if (!share.info.vaultKey) continue;
+      if (!share.key || !share.mount) {
+        const message = `The key of a shared folder${share.mount ? ` (${share.mount})` : ""} could not be opened on this device, so it could not be moved to the new vault key`;
+        new Notice(`Advanced Sync: ${message}. The vault key was not rotated.`, 8000);
+        throw new Error(message);
+      }
+      shares.push({
+        shareId: share.info.shareId,
+        vaultKey: await wrapDataKey(share.key, newKey),
+        encryptedMount: await encryptMetadata({ path: share.mount }, newKey),
+      });
+    }
+
+    const passwordKey = await derivePasswordKey(password, saltFromBase64(this.settings.vaultSalt), this.kdf ?? LEGACY_KDF);
+    await this.sendRequest(this.keyRotationRequests, "begin", {
+      type: MessageType.KEY_ROTATION_BEGIN,
+      passwordHash: this.kdf ? await deriveAuthHash(passwordKey) : await sha256String(password),
+      wrappedKey: await wrapDataKey(newKey, passwordKey),
+    });
+
+    // Local edits are queued until the vault has been re-synced under the new key
+    this.readyForIncrementalSync = false;
+    let authToken: string;
+    try {
+      const entries = await this.sendRequest(this.manifestRequests, "", { type: MessageType.MANIFEST_REQUEST });
+      const fileIds: string[] = [];
+      const replacedFileIds: string[] = [];
+      for (const entry of entries) {
+        const meta = await decryptMetadata<FileMeta>(entry.encryptedMeta, oldKey);
+        if (!meta) throw new Error("A file on the server could not be decrypted with the current key");
+        // Re-uploaded as it is, padding included; the hash and merge ancestor go by the real content
+        const content = await this.fetchFile(entry.fileId);
+        const plain = await this.openDownload(content, meta);
+        if (meta.contentHash && await sha256Hex(plain) !== meta.contentHash) {
+          throw new Error(`${meta.path} does not match its content hash`);
+        }
+
+        // Deltas were applied on download, so the copy under the new key is a plain file
+        const fileId = await deriveFileId(meta.path, newKey);
+        const encryptedMeta = await encryptMetadata({ ...meta, chain: undefined }, newKey);
+        if (this.uploadsBlocks(content, entry.mtime)) {
+          await this.uploadBlocks(fileId, encryptedMeta, entry.mtime, entry.size, content, newKey);
+        } else {
+          await this.uploadBlob(fileId, { ...meta, chain: undefined }, entry.mtime, entry.size, content, newKey);
+        }
+        fileIds.push(fileId);
+        replacedFileIds.push(entry.fileId);
+
+        // Carry the merge ancestor over to the new fileId
+        if (isMergeable(meta.path)) {
+          await this.baseStore.set(fileId, new TextDecoder().decode(plain));
+        } else if (keepsConflictCopies(meta.path)) {
+          await this.baseStore.setHash(fileId, await sha256Hex(plain));
+        }
+        await this.baseStore.remove(entry.fileId);
+        onProgress(fileIds.length, entries.length);
+      }
+
+      authToken = await this.sendRequest(this.keyRotationRequests, "commit", {
+        type: MessageType.KEY_ROTATION_COMMIT,
+        fileIds,
+        replacedFileIds,
+        shares,
+      });
+    } catch (err) {
+      if (this.connection.isConnected) {
+        this.connection.send({ type: MessageType.KEY_ROTATION_ABORT });
+        this.connection.requestSync(this.settings.lastSequence);
+      }
+      throw err;
+    }
+
+    this.vaultKey = newKey;
+    this.settings.encryptionKeyB64 = await exportKey(newKey);
+    this.settings.dataKeyHash = await sha256String(this.settings.encryptionKeyB64);
+    this.settings.authToken = authToken;
+    this.settings.lastSequence = 0;
+    await this.saveSettings();
+
+    // Every fileId changed — rebuild the manifest and re-sync (unchanged files are no-ops)
+    await this.buildLocalManifest();
+    this.connection.requestSync(0);
+  }
+
   /**
    * Compute a sync preview (dry-run) from a server manifest.
    * Returns the plan without executing it.
@@ -291,11 +1099,16 @@ export class SyncEngine {
     const plan: SyncPlan = { toDownload: [], toUpload: [], toDelete: [], serverSequence: msg.currentSequence };
 
     const serverFiles = new Map<string, EncryptedFileEntry>();
-    for (const entry of msg.entries) {
+    for (const entry of await this.revealEntries(msg.entries, this.vaultKey)) {
       serverFiles.set(entry.fileId, entry);
     }
 
-    const strategy = this.settings.initialSyncStrategy ?? "merge";
+    if (this.sendOnly) {
+      plan.toUpload = this.planSendOnly(serverFiles, true).upload.map((local) => ({ path: local.path, size: local.size }));
+      return plan;
+    }
+
+    const strategy = this.initialStrategy();
 
     if (strategy === "pull" || this._forcePull) {
       for (const [, entry] of serverFiles) {
@@ -332,7 +1145,7 @@ export class SyncEngine {
           plan.toDownload.push({ fileId: entry.fileId, path: meta?.path ?? local.path, size: entry.size });
         } else {
           // Both have it — only act if one side is strictly newer
-          if (entry.mtime > local.mtime) {
+          if (entry.mtime > local.mtime || (local.mtime > entry.mtime && await this.canReconcile(local.path, fileId))) {
             const meta = await decryptMetadata<{ path: string }>(entry.encryptedMeta, this.vaultKey);
             plan.toDownload.push({ fileId: entry.fileId, path: meta?.path ?? local.path, size: entry.size });
           } else if (local.mtime > entry.mtime) {
@@ -349,6 +1162,7 @@ export class SyncEngine {
         }
       }
     }
+    if (this.receiveOnly) plan.toUpload = [];
 
     return plan;
   }
@@ -469,6 +1283,7 @@ export class SyncEngine {
       } else if (state === "disconnected") {
         // Mark not ready so changes are queued until next sync completes
         this.readyForIncrementalSync = false;
+        this.rejectPendingRequests("Connection lost");
       } else if (state === "error" && error) {
         // Handle session revoked
         if (error === "Session revoked") {
@@ -484,23 +1299,60 @@ export class SyncEngine {
       await this.saveSettings();
     };
 
-    this.connection.onVaultSalt = async (salt, serverId) => {
-      this.settings.vaultSalt = salt;
-      this.settings.serverId = serverId;
+    this.connection.onAuthOk = async (msg) => {
+      const tempPairing = (this as any)._tempPairing;
+      delete (this as any)._tempPairing;
+      if (tempPairing && tempPairing.serverId !== msg.serverId) {
+        new Notice("Advanced Sync: This pairing code belongs to a different server.", 8000);
+        this.disconnect();
+        return;
+      }
+
+      this.settings.vaultSalt = msg.vaultSalt;
+      this.settings.serverId = msg.serverId;
+      this.kdf = msg.kdf;
+      this._readOnlyToken = msg.readOnly;
       await this.saveSettings();
 
-      // Derive vault key if we have the password
+      // Unwrap (or create) the vault data key if we have the password or recovery phrase
       const tempPassword = (this as any)._tempPassword;
-      if (tempPassword && !this.vaultKey) {
-        this.vaultKey = await deriveVaultKey(
-          tempPassword,
-          saltFromBase64(salt)
+      const tempPasswordKey = (this as any)._tempPasswordKey;
+      const tempRecovery = (this as any)._tempRecovery;
+      delete (this as any)._tempPassword;
+      delete (this as any)._tempPasswordKey;
+      delete (this as any)._tempRecovery;
+      if (!msg.trusted) {
+        // No wrapped keys until a trusted device approves us (DEVICE_APPROVED); with a
+        // pairing code, the device showing it does so without the user's help
+        if (tempPairing) return;
+        const fingerprint = await deviceFingerprint(this.settings.devicePublicKey);
+        new Notice(
+          `Advanced Sync: This device is waiting for approval. Approve it under Devices in the settings of a device that already syncs, and check that it shows ${fingerprint}.`,
+          15000
         );
-        // Persist the key for auto-reconnect
-        this.settings.encryptionKeyB64 = await exportKey(this.vaultKey);
-        await this.saveSettings();
+        return;
       }
-      delete (this as any)._tempPassword;
+      if (tempPassword || tempRecovery) {
+        try {
+          await this.adoptDataKey(tempPassword
+            ? await this.openDataKey(tempPassword, msg, tempPasswordKey)
+            : await this.recoverDataKey(tempRecovery.recovery, tempRecovery.newPassword, msg.wrappedKeys));
+        } catch (err: any) {
+          new Notice(`Advanced Sync: ${err.message}`, 8000);
+          this.disconnect();
+          return;
+        }
+      } else if (!this.vaultKey) {
+        // Approved while this device was offline
+        if (!msg.deviceKey || !(await this.openDeviceKey(msg.deviceKey))) {
+          new Notice("Advanced Sync: The vault key is not available on this device. Please re-enter your password in settings.", 8000);
+          this.disconnect();
+          return;
+        }
+      }
+
+      // Mount shared folders first, so the vault sync leaves their files alone
+      await this.refreshShares(true).catch((err) => console.warn("[Sync] Could not list shared folders:", err.message));
 
       // Build local manifest and request sync
       await this.buildLocalManifest();
@@ -508,63 +1360,379 @@ export class SyncEngine {
     };
 
     this.connection.onSyncResponse = async (msg) => {
-      await this.handleSyncResponse(msg);
+      if (msg.shareId !== undefined) this.shareSyncRequests.get(msg.shareId)?.resolve(msg);
+      else await this.handleSyncResponse(msg);
     };
 
     this.connection.onFileChanged = async (msg) => {
-      await this.handleRemoteFileChanged(msg);
+      if (msg.shareId !== undefined) await this.handleRemoteShareFileChanged(msg);
+      else await this.handleRemoteFileChanged(msg);
     };
 
     this.connection.onFileRemoved = async (msg) => {
-      await this.handleRemoteFileRemoved(msg);
+      if (msg.shareId !== undefined) await this.handleRemoteShareFileRemoved(msg);
+      else await this.handleRemoteFileRemoved(msg);
+    };
+
+    this.connection.onFileDownload = async (msg) => {
+      const vaultKey = this.vaultKey;
+      if (msg.shareId !== undefined) {
+        // Files of shared folders always arrive as one blob
+        this.shareDownloads.set(msg.fileId, msg);
+      } else if (msg.blocks && vaultKey) {
+        const blockIds = msg.blocks;
+        await this.completeDownload(msg, msg.fileId, () => this.loadFileBlocks(blockIds, msg.encryptedMeta, vaultKey));
+      } else if (msg.chunked) {
+        await this.startChunkedDownload(msg);
+      } else {
+        this.pendingDownloads.set(msg.fileId, msg);
+      }
+    };
+
+    this.connection.onChunkData = async (msg, data) => {
+      await this.handleChunkData(msg, data);
     };
 
-    this.connection.onFileDownload = (msg) => {
-      this.pendingDownloads.set(msg.fileId, msg);
+    this.connection.onChunkUploadProgress = (msg) => {
+      const request = this.chunkUploadRequests.get(msg.uploadId);
+      if (!request) return;
+      if ("error" in msg && msg.error) request.reject(new Error(msg.error));
+      else request.resolve(msg.offset);
     };
 
-    this.connection.onBinaryData = async (data) => {
-      await this.handleBinaryDownload(data);
+    this.connection.onBlockQuery = (msg) => {
+      this.blockQueryRequests.get(msg.fileId)?.resolve(msg.missing);
+    };
+
+    this.connection.onBlockUploadAck = (msg) => {
+      const request = this.blockUploadRequests.get(msg.blockId);
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else request.resolve();
+    };
+
+    this.connection.onBlockData = (msg, data) => {
+      const request = this.blockDataRequests.get(msg.blockId);
+      if (!request) return;
+      if (data) request.resolve(data);
+      else request.reject(new Error(msg.error ?? "Block not available"));
+    };
+
+    this.connection.onBinaryData = async (fileId, data) => {
+      const shareEntry = this.shareDownloads.get(fileId);
+      if (shareEntry) {
+        this.shareDownloads.delete(fileId);
+        this.shareFetchRequests.get(fileId)?.resolve({ entry: shareEntry, data });
+        return;
+      }
+      await this.handleBinaryDownload(fileId, data);
     };
 
     this.connection.onFileUploadAck = (msg) => {
-      this.handleUploadAck(msg);
+      if (msg.shareId === undefined) {
+        const delta = msg.versionTag !== undefined ? this.deltaUploadRequests.get(msg.versionTag) : undefined;
+        // A rejected delta is sent again in full; that is no failure to report
+        if (delta && msg.error === DELTA_BASE_MISMATCH) {
+          delta.reject(new Error(msg.error));
+          return;
+        }
+        this.handleUploadAck(msg);
+        if (msg.error) delta?.reject(new Error(msg.error));
+        else delta?.resolve();
+        return;
+      }
+      const request = this.shareUploadRequests.get(msg.fileId);
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else request.resolve(msg.sequence);
     };
 
     this.connection.onClientList = (clients) => {
       this._clientList = clients;
       this.onClientListChange(clients);
     };
-  }
 
-  /** Handle session revoked: clear stored credentials, show notice. */
-  private handleSessionRevoked(): void {
-    this.settings.authToken = "";
-    this.settings.encryptionKeyB64 = "";
-    // Do NOT clear setupComplete — the server URL and device config are still valid.
-    // The user just needs to re-enter their password to get a new session token.
-    this.saveSettings();
-    new Notice("Advanced Sync: Session revoked. Please re-enter your password in settings.", 8000);
-  }
+    this.connection.onVersionList = (msg) => {
+      const request = this.versionListRequests.get(msg.fileId);
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else request.resolve(msg.versions);
+    };
 
-  /** Yield to the event loop between batches to keep UI responsive. */
-  private async processWithYield<T>(
-    items: T[],
-    processor: (item: T, index: number) => Promise<void>,
-    batchSize = BATCH_SIZE
-  ): Promise<void> {
-    for (let i = 0; i < items.length; i++) {
-      await processor(items[i], i);
-      if ((i + 1) % batchSize === 0) {
-        await new Promise(r => setTimeout(r, 0));
-      }
-    }
-  }
+    this.connection.onVersionData = (msg, data) => {
+      const request = this.versionDataRequests.get(`${msg.fileId}:${msg.versionId}`);
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else if (msg.blocks) request.resolve({ data: msg.blocks, encryptedMeta: msg.encryptedMeta });
+      else if (data) request.resolve({ data, encryptedMeta: msg.encryptedMeta });
+      else request.reject(new Error("Version not available"));
+    };
 
-  /**
-   * Process items concurrently with a sliding-window limit.
-   * Unlike processWithYield, runs up to `concurrency` items in parallel.
-   */
+    this.connection.onManifest = (msg) => {
+      this.manifestRequests.get("")?.resolve(msg.entries);
+    };
+
+    this.connection.onVaultKeyInit = (msg) => {
+      this.vaultKeyInitRequests.get("")?.resolve(msg);
+    };
+
+    this.connection.onPasswordChange = (msg) => {
+      const request = this.passwordChangeRequests.get("");
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else request.resolve(msg.authToken);
+    };
+
+    this.connection.onRecoveryKeySet = (msg) => {
+      const request = this.recoveryKeyRequests.get("");
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else request.resolve();
+    };
+
+    this.connection.onKeyRotation = (msg) => {
+      const request = this.keyRotationRequests.get(msg.type === MessageType.KEY_ROTATION_READY ? "begin" : "commit");
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else request.resolve("authToken" in msg ? msg.authToken : "");
+    };
+
+    this.connection.onDeviceApproved = async (msg) => {
+      if (!(await this.openDeviceKey(msg.deviceKey))) {
+        new Notice("Advanced Sync: This device was approved, but the vault key could not be decrypted.", 8000);
+        this.disconnect();
+        return;
+      }
+      this._readOnlyToken ||= msg.readOnly;
+      new Notice(msg.readOnly ? "Advanced Sync: This device was approved as read-only." : "Advanced Sync: This device was approved.");
+      await this.refreshShares(true).catch((err) => console.warn("[Sync] Could not list shared folders:", err.message));
+      await this.buildLocalManifest();
+      this.connection.requestSync(this.settings.lastSequence);
+    };
+
+    this.connection.onDeviceApprove = (msg) => {
+      const request = this.deviceApproveRequests.get(msg.clientId);
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else request.resolve();
+    };
+
+    this.connection.onPairingBegin = (msg) => {
+      const request = this.pairingBeginRequests.get("");
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else request.resolve(msg.expiresAt);
+    };
+
+    this.connection.onPairingClaimed = async (msg) => {
+      const pairing = this.activePairing;
+      if (!pairing || pairing.pairingHash !== msg.pairingHash) return;
+      this.activePairing = null;
+      // The signature shows the device read the code itself, not just got the server to forward it
+      if (!(await verifyPairing(pairing.macKey, msg.devicePublicKey, msg.pairingProof))) {
+        this.kickClient(msg.clientId);
+        pairing.onResult(msg.deviceName, "The device could not prove it scanned this pairing code");
+        return;
+      }
+      try {
+        await this.sendDeviceKey(msg.clientId, msg.devicePublicKey);
+        pairing.onResult(msg.deviceName);
+      } catch (err: any) {
+        pairing.onResult(msg.deviceName, err.message);
+      }
+    };
+
+    this.connection.onTrashList = (msg) => {
+      const request = this.trashListRequests.get(msg.shareId ?? "");
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else request.resolve(msg.entries);
+    };
+
+    this.connection.onTrashRestore = (msg) => {
+      const request = this.trashRestoreRequests.get(msg.fileId);
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else request.resolve(msg.sequence);
+    };
+
+    this.connection.onShareMemberKeys = (msg) => {
+      const request = this.shareKeysRequests.get(msg.vaultId);
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else request.resolve(msg.devices);
+    };
+
+    this.connection.onShareResponse = (msg) => {
+      const request = this.shareRequests.get(msg.shareId);
+      if (!request) return;
+      if (msg.error) request.reject(new Error(msg.error));
+      else request.resolve();
+    };
+
+    this.connection.onShareList = async (msg) => {
+      const request = this.shareListRequests.get("");
+      if (request) request.resolve(msg.shares);
+      else await this.applyShareList(msg.shares);
+    };
+  }
+
+  /**
+   * Get the vault data key after a password sign-in: unwrap it with the password key, or
+   * create it if the vault has none yet. A legacy vault's files are encrypted with the
+   * password key itself, so that key becomes the data key, wrapped under a fresh salt.
+   * A data key still wrapped by a PBKDF2 password key is re-wrapped with DEFAULT_KDF.
+   * `derived` is the password key already derived for the sign-in proof, if any.
+   */
+  private async openDataKey(
+    password: string,
+    msg: { vaultSalt: string; kdf: KdfParams | null; wrappedKeys: WrappedKeys; legacyKey: boolean },
+    derived?: { vaultSalt: string; passwordKey: CryptoKey }
+  ): Promise<CryptoKey> {
+    let { vaultSalt, kdf, wrappedKeys } = msg;
+    const passwordKeyFor = async (salt: string, params: KdfParams) =>
+      derived?.vaultSalt === salt ? derived.passwordKey : derivePasswordKey(password, saltFromBase64(salt), params);
+
+    if (!wrappedKeys.password) {
+      const dataKey = msg.legacyKey
+        ? await derivePasswordKey(password, saltFromBase64(vaultSalt), LEGACY_KDF)
+        : await generateDataKey();
+      // Keep the salt the password was set up with, unless it belongs to the legacy key
+      const newKdf = kdf && !msg.legacyKey ? kdf : DEFAULT_KDF;
+      const salt = kdf && !msg.legacyKey ? vaultSalt : saltToBase64(generateVaultSalt());
+      const passwordKey = await passwordKeyFor(salt, newKdf);
+      const wrappedKey = await wrapDataKey(dataKey, passwordKey);
+      ({ vaultSalt, kdf, wrappedKeys } = await this.sendRequest(this.vaultKeyInitRequests, "", {
+        type: MessageType.VAULT_KEY_INIT,
+        vaultSalt: salt,
+        kdf: newKdf,
+        wrappedKey,
+        passwordHash: await deriveAuthHash(passwordKey),
+      }));
+      this.settings.vaultSalt = vaultSalt;
+      this.kdf = kdf;
+      // Our wrapped key came back, so our key was stored; otherwise another device was first
+      if (wrappedKeys.password === wrappedKey) return dataKey;
+      if (!wrappedKeys.password) throw new Error("The server did not store the vault key");
+    }
+
+    const passwordKey = await passwordKeyFor(vaultSalt, kdf ?? LEGACY_KDF);
+    const dataKey = await unwrapDataKey(wrappedKeys.password, passwordKey);
+    if (!dataKey) throw new Error("The vault key could not be unwrapped with this password");
+
+    if (kdf?.algorithm !== "argon2id") {
+      try {
+        const passwordHash = kdf ? await deriveAuthHash(passwordKey) : await sha256String(password);
+        await this.setPassword({ passwordHash }, password, dataKey, true);
+      } catch (err) {
+        console.warn("[Sync] Could not upgrade the key derivation to Argon2id:", err);
+      }
+    }
+    return dataKey;
+  }
+
+  /** Get the data key after a recovery-phrase sign-in and replace the forgotten password. */
+  private async recoverDataKey(recovery: RecoveryKeys, newPassword: string, wrappedKeys: WrappedKeys): Promise<CryptoKey> {
+    if (!wrappedKeys.recovery) throw new Error("This vault has no recovery key");
+    const dataKey = await unwrapDataKey(wrappedKeys.recovery, recovery.wrappingKey);
+    if (!dataKey) throw new Error("The vault key could not be unwrapped with this recovery phrase");
+    await this.setPassword({ recoveryHash: recovery.authHash }, newPassword, dataKey);
+    return dataKey;
+  }
+
+  /** Adopt the data key an approving device encrypted to this device's key. False if it can't be decrypted. */
+  private async openDeviceKey(deviceKey: string): Promise<boolean> {
+    const dataKey = await decryptKeyForDevice(deviceKey, this.settings.devicePrivateKey).catch(() => null);
+    if (!dataKey) return false;
+    await this.adoptDataKey(dataKey);
+    return true;
+  }
+
+  /** Use this data key from now on. A different key than last time means the vault was re-encrypted: every fileId changed. */
+  private async adoptDataKey(dataKey: CryptoKey): Promise<void> {
+    const exported = await exportKey(dataKey);
+    const hash = await sha256String(exported);
+    if (this.settings.dataKeyHash && this.settings.dataKeyHash !== hash) {
+      this.settings.lastSequence = 0;
+      this.settings.chunkedUploads = {};
+      this.settings.chunkedDownloads = {};
+      await this.baseStore.clear();
+      await this.transfers.clear();
+    }
+    this.vaultKey = dataKey;
+    // Persist the key for auto-reconnect
+    this.settings.encryptionKeyB64 = exported;
+    this.settings.dataKeyHash = hash;
+    await this.saveSettings();
+  }
+
+  /**
+   * Send a request and wait for the matching response (resolved by a connection callback).
+   * `binary` is sent right after the message as a frame of the given kind, with `key` as its id.
+   */
+  private sendRequest<T>(
+    requests: Map<string, PendingRequest<T>>,
+    key: string,
+    msg: ProtocolMessage,
+    binary?: { kind: BinaryFrameKind; data: ArrayBuffer }
+  ): Promise<T> {
+    if (!this.connection.isConnected) return Promise.reject(new Error("Not connected"));
+    requests.get(key)?.reject(new Error("Superseded by a newer request"));
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        requests.delete(key);
+        reject(new Error("The server did not respond"));
+      }, REQUEST_TIMEOUT_MS);
+      requests.set(key, {
+        resolve: (value) => { clearTimeout(timer); requests.delete(key); resolve(value); },
+        reject: (err) => { clearTimeout(timer); requests.delete(key); reject(err); },
+      });
+      this.connection.send(msg);
+      if (binary) this.connection.sendBinary(binary.kind, key, binary.data);
+    });
+  }
+
+  /** Fail every outstanding request, e.g. when the connection drops. */
+  private rejectPendingRequests(reason: string): void {
+    const all = [
+      this.versionListRequests, this.versionDataRequests, this.manifestRequests, this.fileFetchRequests,
+      this.vaultKeyInitRequests, this.passwordChangeRequests, this.recoveryKeyRequests, this.keyRotationRequests, this.deviceApproveRequests, this.pairingBeginRequests, this.trashListRequests, this.trashRestoreRequests, this.chunkUploadRequests, this.blockQueryRequests, this.blockUploadRequests, this.blockDataRequests, this.deltaUploadRequests,
+      this.shareRequests, this.shareKeysRequests, this.shareListRequests, this.shareSyncRequests, this.shareUploadRequests, this.shareFetchRequests,
+    ];
+    for (const requests of all as Map<string, PendingRequest<unknown>>[]) {
+      for (const request of [...requests.values()]) request.reject(new Error(reason));
+    }
+  }
+
+  /** Handle session revoked: clear stored credentials, show notice. */
+  private handleSessionRevoked(): void {
+    this.settings.authToken = "";
+    this.settings.encryptionKeyB64 = "";
+    // Do NOT clear setupComplete — the server URL and device config are still valid.
+    // The user just needs to re-enter their password to get a new session token.
+    this.saveSettings();
+    new Notice("Advanced Sync: Session revoked. Please re-enter your password in settings.", 8000);
+  }
+
+  /** Yield to the event loop between batches to keep UI responsive. */
+  private async processWithYield<T>(
+    items: T[],
+    processor: (item: T, index: number) => Promise<void>,
+    batchSize = BATCH_SIZE
+  ): Promise<void> {
+    for (let i = 0; i < items.length; i++) {
+      await processor(items[i], i);
+      if ((i + 1) % batchSize === 0) {
+        await new Promise(r => setTimeout(r, 0));
+      }
+    }
+  }
+
+  /**
+   * Process items concurrently with a sliding-window limit.
+   * Unlike processWithYield, runs up to `concurrency` items in parallel.
+   */
   private async processConcurrent<T>(
     items: T[],
     processor: (item: T, index: number) => Promise<void>,
@@ -636,7 +1804,7 @@ export class SyncEngine {
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
-      if (this.fileWatcher.shouldExclude(file.path)) continue;
+      if (this.fileWatcher.shouldExclude(file.path) || this.shareFor(file.path)) continue;
 
       const fileId = await deriveFileId(file.path, this.vaultKey);
       this.localManifest.set(fileId, {
@@ -735,12 +1903,23 @@ export class SyncEngine {
     const toUpload: LocalFileInfo[] = [];
     const toDelete: string[] = [];
 
+    const entries = await this.revealEntries(msg.entries, this.vaultKey);
     const serverFiles = new Map<string, EncryptedFileEntry>();
-    for (const entry of msg.entries) {
+    for (const entry of entries) {
       serverFiles.set(entry.fileId, entry);
     }
 
-    if (msg.fullSync) {
+    if (this.sendOnly) {
+      // Push this device's files and leave the server's alone; a full sync still uses up the strategy
+      if (msg.fullSync) {
+        this._forcePull = false;
+        this.settings.initialSyncStrategy = "merge";
+        await this.saveSettings();
+      }
+      const { upload, ignored } = this.planSendOnly(serverFiles, msg.fullSync);
+      toUpload.push(...upload);
+      this.alertIgnoredChanges(ignored);
+    } else if (msg.fullSync) {
       if (this._forcePull) {
         this._forcePull = false;
         for (const [, entry] of serverFiles) {
@@ -750,7 +1929,7 @@ export class SyncEngine {
           if (!serverFiles.has(fileId)) toDelete.push(local.path);
         }
       } else {
-        const strategy = this.settings.initialSyncStrategy ?? "merge";
+        const strategy = this.initialStrategy();
         this.settings.initialSyncStrategy = "merge";
         await this.saveSettings();
 
@@ -780,14 +1959,18 @@ export class SyncEngine {
               const meta = await decryptMetadata<{ path: string }>(entry.encryptedMeta, this.vaultKey!);
               const path = meta?.path ?? entry.fileId;
               if (!this.shouldSyncObsidianPath(path)) continue;
-              if (this.fileWatcher.shouldExclude(path)) continue;
+              if (this.fileWatcher.shouldExclude(path) || this.shareFor(path)) continue;
               toDownload.push(entry);
             } else if (local.path.startsWith(".obsidian/")) {
               if (this.shouldSyncObsidianPath(local.path)) toDownload.push(entry);
             } else {
-              // Both have it — only act if one side is strictly newer
+              // Both have it — only act if one side is strictly newer.
+              // Files with a sync base are always fetched so both sides' edits survive.
               if (entry.mtime > local.mtime) toDownload.push(entry);
-              else if (local.mtime > entry.mtime) toUpload.push(local);
+              else if (local.mtime > entry.mtime) {
+                if (await this.canReconcile(local.path, fileId)) toDownload.push(entry);
+                else toUpload.push(local);
+              }
               // Equal mtimes → already in sync, no-op
             }
           }
@@ -800,15 +1983,17 @@ export class SyncEngine {
           }
         }
       }
+      // Local-only and newer local files stay on a receive-only device
+      if (this.receiveOnly) toUpload.length = 0;
     } else {
       // Incremental sync
-      for (const entry of msg.entries) {
+      for (const entry of entries) {
         if (entry.deleted) {
           const local = this.localManifest.get(entry.fileId);
           if (local) toDelete.push(local.path);
         } else {
           const local = this.localManifest.get(entry.fileId);
-          if (!local || resolveConflict(local.mtime, entry.mtime) === "remote") {
+          if (!local || resolveConflict(local.mtime, entry.mtime) === "remote" || await this.canReconcile(local.path, entry.fileId)) {
             toDownload.push(entry);
           }
         }
@@ -956,6 +2141,94 @@ export class SyncEngine {
     this.notifyHistoryChange(this.pendingInitialDownloads > 0);
   }
 
+  /**
+   * Plan the sync of a send-only device. A full sync uploads the files that are missing on the
+   * server or newer here (later edits are uploaded as they happen). Files of this device that
+   * another device changed or deleted are listed as ignored; they stay as they are here.
+   */
+  private planSendOnly(serverFiles: Map<string, EncryptedFileEntry>, fullSync: boolean): { upload: LocalFileInfo[]; ignored: string[] } {
+    const upload: LocalFileInfo[] = [];
+    const ignored: string[] = [];
+    if (fullSync) {
+      for (const [fileId, local] of this.localManifest) {
+        if (!this.shouldSyncObsidianPath(local.path)) continue;
+        const entry = serverFiles.get(fileId);
+        if (!entry || entry.deleted || local.mtime > entry.mtime) upload.push(local);
+        else if (entry.mtime > local.mtime) ignored.push(local.path);
+      }
+    } else {
+      for (const entry of serverFiles.values()) {
+        const local = this.localManifest.get(entry.fileId);
+        if (local && (entry.deleted || entry.mtime !== local.mtime)) ignored.push(local.path);
+      }
+    }
+    return { upload, ignored };
+  }
+
+  /** Send-only: report files of this device that other devices changed or deleted. */
+  private alertIgnoredChanges(paths: string[]): void {
+    if (paths.length === 0) return;
+    for (const path of paths) this.recordHistory(path, "conflict");
+    const what = paths.length === 1 ? paths[0] : `${paths.length} files`;
+    new Notice(`Advanced Sync: ${what} changed on another device. This device only sends, so it keeps its own version.`, 8000);
+  }
+
+  /**
+   * Entries with the real mtime and size of files uploaded in privacy mode, read from their
+   * encrypted metadata, so conflict checks and progress see what the uploader saw.
+   */
+  private async revealEntries(entries: EncryptedFileEntry[], key: CryptoKey | null): Promise<EncryptedFileEntry[]> {
+    const revealed: EncryptedFileEntry[] = [];
+    for (const entry of entries) revealed.push(await this.revealEntry(entry, key));
+    return revealed;
+  }
+
+  /** One entry with its real mtime and size (see revealEntries). */
+  private async revealEntry<T extends { encryptedMeta: string; mtime: number; size: number }>(entry: T, key: CryptoKey | null): Promise<T> {
+    if (entry.mtime !== PRIVATE_MTIME || !key) return entry;
+    const meta = await decryptMetadata<FileMeta>(entry.encryptedMeta, key);
+    if (meta?.mtime === undefined) return entry;
+    return { ...entry, mtime: meta.mtime, size: meta.size ?? entry.size };
+  }
+
+  /**
+   * What an upload shows the server. Compressible files are compressed when that makes them
+   * smaller; large files are not, since they go up as blocks and compressing them would change
+   * every block on each edit. In privacy mode the real mtime and size go into the encrypted
+   * metadata, and the server gets PRIVATE_MTIME and content padded to its bucket.
+   */
+  private async sealUpload(meta: FileMeta, mtime: number, size: number, content: ArrayBuffer, key: CryptoKey): Promise<{ meta: FileMeta; encryptedMeta: string; mtime: number; size: number; content: ArrayBuffer }> {
+    if (this.settings.compression && content.byteLength < DEDUP_MIN_SIZE && isCompressible(meta.path)) {
+      const compressed = await compress(content);
+      if (compressed.byteLength < content.byteLength) {
+        meta = { ...meta, codec: "deflate", compressedSize: compressed.byteLength };
+        content = compressed;
+      }
+    }
+    if (!this.settings.privacyMode) return { meta, encryptedMeta: await encryptMetadata(meta, key), mtime, size, content };
+    const padded = padContent(content);
+    meta = { ...meta, mtime, size };
+    return {
+      meta,
+      encryptedMeta: await encryptMetadata(meta, key),
+      mtime: PRIVATE_MTIME,
+      size: padded.byteLength,
+      content: padded,
+    };
+  }
+
+  /** The plaintext of downloaded content: its padding cut off and its compression undone. */
+  private async openDownload(content: ArrayBuffer, meta: Pick<FileMeta, "size" | "codec" | "compressedSize">): Promise<ArrayBuffer> {
+    if (!meta.codec) return unpadContent(content, meta.size);
+    return decompress(unpadContent(content, meta.compressedSize), meta.codec);
+  }
+
+  /** Strategy of the first full sync; a receive-only device merges instead of pushing. */
+  private initialStrategy(): InitialSyncStrategy {
+    const strategy = this.settings.initialSyncStrategy ?? "merge";
+    return strategy === "push" && this.receiveOnly ? "merge" : strategy;
+  }
+
   /** Check if an .obsidian/ path is allowed by current sync toggles. */
   private shouldSyncObsidianPath(path: string): boolean {
     if (!path.startsWith(".obsidian/")) return true;
@@ -966,6 +2239,8 @@ export class SyncEngine {
   /** Upload a local file to the server. */
   private async uploadFile(filePath: string, direction: "upload" | "create" | "rename" = "upload", fromPath?: string): Promise<void> {
     if (!this.vaultKey) return;
+    const share = this.shareFor(filePath);
+    if (share) return this.uploadShareFile(share, filePath, direction, fromPath);
 
     try {
       let content: ArrayBuffer;
@@ -979,54 +2254,423 @@ export class SyncEngine {
       }
 
       const fileId = await deriveFileId(filePath, this.vaultKey);
-      const encrypted = await encryptBlob(content, this.vaultKey);
-      const encryptedMeta = await encryptMetadata(
-        { path: filePath },
-        this.vaultKey
-      );
+      const contentHash = await sha256Hex(content);
+      const meta: FileMeta = { path: filePath, deviceName: this.settings.deviceName, contentHash };
 
       const stat = await this.app.vault.adapter.stat(filePath);
       const mtime = stat?.mtime ?? Date.now();
       const size = stat?.size ?? content.byteLength;
 
-      // Send upload header (text frame)
-      this.connection.send({
-        type: MessageType.FILE_UPLOAD,
-        fileId,
-        encryptedMeta,
-        mtime,
-        size,
-      });
-
-      // Send raw encrypted blob (binary frame) — no base64/JSON wrapping
-      this.connection.sendBinary(encrypted);
+      try {
+        if (this.sendsDeltas(filePath, content)) {
+          await this.uploadWithDelta(fileId, meta, mtime, size, content, this.vaultKey);
+        } else {
+          const sealed = await this.sealUpload(meta, mtime, size, content, this.vaultKey);
+          if (this.uploadsBlocks(sealed.content, sealed.mtime)) {
+            await this.uploadBlocks(fileId, sealed.encryptedMeta, sealed.mtime, sealed.size, sealed.content, this.vaultKey);
+          } else {
+            await this.uploadBlob(fileId, sealed.meta, sealed.mtime, sealed.size, sealed.content, this.vaultKey);
+          }
+        }
+      } catch (err) {
+        // Cut off by a dropped connection — queue the file so the upload resumes on reconnect
+        if (!this.connection.isConnected) {
+          this.pendingLocalChanges = this.pendingLocalChanges.filter(c => c.path !== filePath);
+          this.pendingLocalChanges.push({ type: "modify", path: filePath });
+          this.savePendingChanges();
+        }
+        throw err;
+      }
 
       this.recordHistory(filePath, direction, false, fromPath);
 
+      // What we just sent is now the common ancestor for future merges / conflict checks
+      if (isMergeable(filePath)) {
+        await this.baseStore.set(fileId, new TextDecoder().decode(content));
+      } else if (keepsConflictCopies(filePath)) {
+        await this.baseStore.setHash(fileId, contentHash);
+      }
+
       // Update local manifest
       this.localManifest.set(fileId, {
-        path: filePath, fileId, mtime, size, contentHash: "",
+        path: filePath, fileId, mtime, size, contentHash,
       });
     } catch (err: any) {
       console.error(`[Sync] Failed to upload ${filePath}:`, err.message);
+      if (err.message === QUOTA_EXCEEDED) this.notifyQuotaExceeded();
     }
   }
 
-  /** Handle incoming binary data (file download). */
-  private async handleBinaryDownload(data: ArrayBuffer): Promise<void> {
-    if (!this.vaultKey) return;
+  /**
+   * Whether content is uploaded as deduplicated blocks: from DEDUP_MIN_SIZE on, unless it is
+   * padded (uploaded with PRIVATE_MTIME). Blocks of padding would all get the same id, and their
+   * boundaries would tell the server where the real content ends.
+   */
+  private uploadsBlocks(content: ArrayBuffer, mtime: number): boolean {
+    return content.byteLength >= DEDUP_MIN_SIZE && mtime !== PRIVATE_MTIME;
+  }
 
-    let entry: FileDownloadResponseMessage | undefined;
-    let downloadFileId: string | undefined;
+  /** Whether uploads of a file may be deltas: notes below DEDUP_MIN_SIZE, outside privacy mode. */
+  private sendsDeltas(filePath: string, content: ArrayBuffer): boolean {
+    return this.settings.deltaUploads && !this.settings.privacyMode && isMergeable(filePath) && content.byteLength < DEDUP_MIN_SIZE;
+  }
 
-    for (const [fileId, msg] of this.pendingDownloads) {
-      entry = msg;
-      downloadFileId = fileId;
-      break;
+  /**
+   * Upload a note as a delta against the version this device last synced, if the server still
+   * holds that version and its chain is short enough. Otherwise upload it in full, as blocks a
+   * later delta can build on.
+   */
+  private async uploadWithDelta(fileId: string, meta: FileMeta, mtime: number, size: number, content: ArrayBuffer, vaultKey: CryptoKey): Promise<void> {
+    const chain = await this.baseStore.getChain(fileId);
+    const base = await this.baseStore.get(fileId);
+    if (chain && base !== null && chain.deltas < MAX_DELTAS) {
+      const baseBytes = new TextEncoder().encode(base);
+      const delta = encodeDelta(baseBytes, new Uint8Array(content));
+      // Only worth a link in the chain if much smaller than the note, and only if the merge base
+      // is byte for byte the stored version (decoding text drops a BOM, for one)
+      if (delta.length * 2 < content.byteLength && await sha256Hex(baseBytes.buffer) === chain.contentHash) {
+        const deltaId = await deriveBlockId(delta, vaultKey);
+        await this.uploadBlock(deltaId, delta.slice().buffer, vaultKey);
+        const next: DeltaChain = { ...chain, tag: generateUploadId(), blocks: [...chain.blocks, deltaId], deltas: chain.deltas + 1, contentHash: meta.contentHash! };
+        try {
+          await this.sendRequest(this.deltaUploadRequests, next.tag, {
+            type: MessageType.FILE_UPLOAD,
+            fileId,
+            encryptedMeta: await encryptMetadata({ ...meta, chain: { deltas: next.deltas, codec: chain.codec, compressedSize: chain.compressedSize } }, vaultKey),
+            mtime,
+            size,
+            blocks: next.blocks,
+            versionTag: next.tag,
+            baseTag: chain.tag,
+          });
+          await this.baseStore.setChain(fileId, next);
+          return;
+        } catch (err: any) {
+          // Another device uploaded the note in the meantime
+          if (err.message !== DELTA_BASE_MISMATCH) throw err;
+        }
+      }
     }
 
-    if (!entry || !downloadFileId) return;
-    this.pendingDownloads.delete(downloadFileId);
+    const sealed = await this.sealUpload(meta, mtime, size, content, vaultKey);
+    const tag = generateUploadId();
+    const blocks = await this.uploadBlocks(fileId, sealed.encryptedMeta, sealed.mtime, sealed.size, sealed.content, vaultKey, tag);
+    await this.baseStore.setChain(fileId, {
+      tag, blocks, deltas: 0, codec: sealed.meta.codec, compressedSize: sealed.meta.compressedSize, contentHash: meta.contentHash!,
+    });
+  }
+
+  /** Tell the user once that the server refuses uploads because their storage quota is used up. */
+  private notifyQuotaExceeded(): void {
+    if (this.quotaNoticeShown) return;
+    this.quotaNoticeShown = true;
+    new Notice("Advanced Sync: Your storage quota on the server is full. Changes are not uploaded until the server admin raises it or deleted files and old versions expire.");
+  }
+
+  /**
+   * Encrypt a file as one blob, with `meta` as its metadata, and send it in a single frame; or
+   * chunk by chunk when it is larger than a chunk.
+   */
+  private async uploadBlob(fileId: string, meta: FileMeta, mtime: number, size: number, content: ArrayBuffer, vaultKey: CryptoKey): Promise<void> {
+    if (content.byteLength > CHUNK_PLAINTEXT_SIZE) {
+      await this.uploadChunked(fileId, { ...meta, chunked: true }, mtime, size, content, vaultKey);
+      return;
+    }
+
+    this.dropSavedUpload(fileId);
+    const encryptedMeta = await encryptMetadata({ ...meta, chunked: undefined }, vaultKey);
+    const encrypted = await encryptBlob(content, vaultKey);
+
+    // Send upload header (text frame)
+    this.connection.send({
+      type: MessageType.FILE_UPLOAD,
+      fileId,
+      encryptedMeta,
+      mtime,
+      size,
+    });
+
+    // Send raw encrypted blob (binary frame) — no base64/JSON wrapping
+    this.connection.sendBinary(BinaryFrameKind.FILE, fileId, encrypted);
+  }
+
+  /**
+   * Split a file into content-defined blocks, upload only the blocks the server is
+   * missing, then commit the file as its ordered list of block IDs, which it returns.
+   */
+  private async uploadBlocks(fileId: string, encryptedMeta: string, mtime: number, size: number, content: ArrayBuffer, vaultKey: CryptoKey, versionTag?: string): Promise<string[]> {
+    if (mtime === PRIVATE_MTIME) throw new Error("Padded content is uploaded as a single blob");
+    this.dropSavedUpload(fileId);
+    const bytes = new Uint8Array(content);
+    const blocks = chunkContent(bytes).map(({ offset, length }) => bytes.subarray(offset, offset + length));
+    const blockIds: string[] = [];
+    for (const block of blocks) blockIds.push(await deriveBlockId(block, vaultKey));
+
+    const missing = new Set(await this.sendRequest(this.blockQueryRequests, fileId, {
+      type: MessageType.BLOCK_QUERY,
+      fileId,
+      blockIds,
+    }));
+    for (let i = 0; i < blocks.length; i++) {
+      if (!missing.has(blockIds[i])) continue;
+      missing.delete(blockIds[i]);
+      await this.uploadBlock(blockIds[i], blocks[i].slice().buffer, vaultKey);
+    }
+
+    this.connection.send({
+      type: MessageType.FILE_UPLOAD,
+      fileId,
+      encryptedMeta,
+      mtime,
+      size,
+      blocks: blockIds,
+      versionTag,
+    });
+    return blockIds;
+  }
+
+  /** Encrypt and upload one block, sharing the transfer with any upload of the same block in flight. */
+  private uploadBlock(blockId: string, block: ArrayBuffer, vaultKey: CryptoKey): Promise<void> {
+    const inFlight = this.blockUploads.get(blockId);
+    if (inFlight) return inFlight;
+
+    const upload = (async () => {
+      const encrypted = await encryptBlob(block, vaultKey);
+      await this.sendRequest(this.blockUploadRequests, blockId, { type: MessageType.BLOCK_UPLOAD, blockId }, {
+        kind: BinaryFrameKind.BLOCK,
+        data: encrypted,
+      });
+    })().finally(() => this.blockUploads.delete(blockId));
+    this.blockUploads.set(blockId, upload);
+    return upload;
+  }
+
+  /**
+   * Download a file stored as blocks. A note uploaded with deltas (FileMeta.chain) comes back
+   * as its decoded snapshot with the deltas applied, other files as their joined blocks.
+   */
+  private async loadFileBlocks(blockIds: string[], encryptedMeta: string, vaultKey: CryptoKey): Promise<ArrayBuffer | null> {
+    const chain = (await decryptMetadata<FileMeta>(encryptedMeta, vaultKey))?.chain;
+    if (!chain) return this.loadBlocks(blockIds, vaultKey);
+
+    const snapshot = await this.loadBlocks(blockIds.slice(0, blockIds.length - chain.deltas), vaultKey);
+    if (!snapshot) return null;
+    let content: Uint8Array | null = new Uint8Array(await this.openDownload(snapshot, chain));
+    for (const deltaId of blockIds.slice(blockIds.length - chain.deltas)) {
+      const delta = await this.fetchBlock(deltaId, vaultKey);
+      content = delta && applyDelta(content, delta);
+      if (!content) return null;
+    }
+    return content.buffer as ArrayBuffer;
+  }
+
+  /** Download, decrypt and join the blocks of a file. Null if any block is unavailable. */
+  private async loadBlocks(blockIds: string[], vaultKey: CryptoKey): Promise<ArrayBuffer | null> {
+    const parts: Uint8Array[] = [];
+    let total = 0;
+    for (const blockId of blockIds) {
+      const part = await this.fetchBlock(blockId, vaultKey);
+      if (!part) return null;
+      parts.push(part);
+      total += part.byteLength;
+    }
+
+    const joined = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+      joined.set(part, offset);
+      offset += part.byteLength;
+    }
+    return joined.buffer;
+  }
+
+  /** Fetch and decrypt one block, checking that its content matches its ID. */
+  private fetchBlock(blockId: string, vaultKey: CryptoKey): Promise<Uint8Array | null> {
+    const inFlight = this.blockFetches.get(blockId);
+    if (inFlight) return inFlight;
+
+    const fetch = (async () => {
+      try {
+        const data = await this.sendRequest(this.blockDataRequests, blockId, { type: MessageType.BLOCK_DOWNLOAD, blockId });
+        const decrypted = await decryptBlob(data, vaultKey);
+        if (!decrypted) return null;
+        const block = new Uint8Array(decrypted);
+        return await deriveBlockId(block, vaultKey) === blockId ? block : null;
+      } catch (err: any) {
+        console.error(`[Sync] Failed to fetch block ${blockId}:`, err.message);
+        return null;
+      }
+    })().finally(() => this.blockFetches.delete(blockId));
+    this.blockFetches.set(blockId, fetch);
+    return fetch;
+  }
+
+  /**
+   * Send a blob in CHUNK_SIZE pieces, one at a time, each encrypted on its own just before it is
+   * sent and acknowledged by the server. The upload is saved in the plugin data, so an upload of
+   * the same content, after a reconnect or a restart, continues at whatever offset the server
+   * already holds for its uploadId. Uploads under another key (a rotation) are not saved, so the
+   * chunks of one blob never mix keys.
+   */
+  private async uploadChunked(fileId: string, meta: FileMeta, mtime: number, size: number, content: ArrayBuffer, vaultKey: CryptoKey): Promise<void> {
+    const resumable = vaultKey === this.vaultKey;
+    const contentHash = await sha256Hex(content);
+    const saved = resumable ? this.settings.chunkedUploads[fileId] : undefined;
+    const upload = saved && saved.mtime === mtime && saved.size === size && saved.contentHash === contentHash
+      ? saved
+      : { uploadId: generateUploadId(), mtime, size, contentHash };
+    if (resumable && upload !== saved) {
+      this.settings.chunkedUploads = { ...this.settings.chunkedUploads, [fileId]: upload };
+      await this.saveSettings();
+    }
+
+    const count = Math.ceil(content.byteLength / CHUNK_PLAINTEXT_SIZE);
+    const total = content.byteLength + count * BLOB_OVERHEAD;
+    let offset = await this.sendRequest(this.chunkUploadRequests, upload.uploadId, {
+      type: MessageType.CHUNK_UPLOAD_BEGIN,
+      uploadId: upload.uploadId,
+      fileId,
+      encryptedMeta: await encryptMetadata(meta, vaultKey),
+      mtime,
+      size,
+      encryptedSize: total,
+    });
+
+    while (offset < total) {
+      // Every chunk but the last encrypts to exactly CHUNK_SIZE, so the server's offset names the next one
+      if (offset % CHUNK_SIZE !== 0) {
+        this.dropSavedUpload(fileId);
+        throw new Error(`The server holds an unaligned part of ${fileId}; the upload starts over`);
+      }
+      const index = offset / CHUNK_SIZE;
+      const plain = content.slice(index * CHUNK_PLAINTEXT_SIZE, (index + 1) * CHUNK_PLAINTEXT_SIZE);
+      offset = await this.sendRequest(this.chunkUploadRequests, upload.uploadId, {
+        type: MessageType.CHUNK_UPLOAD,
+        uploadId: upload.uploadId,
+        offset,
+      }, { kind: BinaryFrameKind.CHUNK, data: await encryptChunk(plain, vaultKey, index, index === count - 1) });
+    }
+    this.dropSavedUpload(fileId);
+  }
+
+  /** Forget the saved chunked upload of a file, once it is done or replaced by another upload. */
+  private dropSavedUpload(fileId: string): void {
+    if (!(fileId in this.settings.chunkedUploads)) return;
+    const { [fileId]: _, ...rest } = this.settings.chunkedUploads;
+    this.settings.chunkedUploads = rest;
+    this.saveSettings();
+  }
+
+  /** Start pulling a large blob chunk by chunk, resuming a matching partial download saved earlier. */
+  private async startChunkedDownload(header: FileDownloadResponseMessage): Promise<void> {
+    const key = this.vaultKey;
+    if (!key) return;
+    const saved = this.settings.chunkedDownloads[header.fileId];
+    const resumable = saved
+      && saved.header.encryptedSize === header.encryptedSize
+      && saved.header.mtime === header.mtime
+      && saved.header.encryptedMeta === header.encryptedMeta;
+    let download = saved;
+    if (!resumable) {
+      await this.transfers.remove(header.fileId);
+      const perChunk = (await decryptMetadata<FileMeta>(header.encryptedMeta, key))?.chunked === true;
+      download = { header, offset: 0, perChunk };
+      this.settings.chunkedDownloads = { ...this.settings.chunkedDownloads, [header.fileId]: download };
+      await this.saveSettings();
+    }
+    this.connection.send({ type: MessageType.CHUNK_DOWNLOAD, fileId: header.fileId, offset: download.offset });
+  }
+
+  /**
+   * Store one downloaded chunk on disk, decrypted if the blob was encrypted chunk by chunk;
+   * then request the next, or hand over the completed file.
+   */
+  private async handleChunkData(msg: ChunkDownloadResponseMessage, data: ArrayBuffer | null): Promise<void> {
+    const download = this.settings.chunkedDownloads[msg.fileId];
+    const key = this.vaultKey;
+    if (!download || msg.offset !== download.offset || !key) return;
+    const { header, perChunk } = download;
+    const fail = async () => {
+      await this.dropSavedDownload(msg.fileId);
+      await this.completeDownload(header, msg.fileId, async () => null);
+    };
+
+    // The file was removed or replaced on the server mid-transfer
+    if (!data || msg.encryptedSize !== header.encryptedSize || msg.offset + data.byteLength > msg.encryptedSize) return fail();
+
+    const index = msg.offset / CHUNK_SIZE;
+    const last = msg.offset + data.byteLength === header.encryptedSize;
+    let chunk: ArrayBuffer | null = data;
+    if (perChunk) {
+      chunk = data.byteLength === CHUNK_SIZE || last ? await decryptChunk(data, key, index, last) : null;
+      if (!chunk) return fail();
+    }
+    try {
+      await this.transfers.writeChunk(msg.fileId, index, chunk);
+    } catch (err: any) {
+      console.error(`[Sync] Could not store a chunk of ${msg.fileId}:`, err.message);
+      return fail();
+    }
+
+    const offset = msg.offset + data.byteLength;
+    this.settings.chunkedDownloads = { ...this.settings.chunkedDownloads, [msg.fileId]: { ...download, offset } };
+    await this.saveSettings();
+    if (!last) {
+      this.connection.send({ type: MessageType.CHUNK_DOWNLOAD, fileId: msg.fileId, offset });
+      return;
+    }
+
+    // Blobs encrypted in one piece are decrypted once all of them is here
+    const joined = await this.transfers.read(msg.fileId, index + 1);
+    await this.dropSavedDownload(msg.fileId);
+    await this.completeDownload(header, msg.fileId, async () => joined && (perChunk ? joined : decryptBlob(joined, key)));
+  }
+
+  /** Forget a chunked download and the chunks it stored. */
+  private async dropSavedDownload(fileId: string): Promise<void> {
+    await this.transfers.remove(fileId);
+    const { [fileId]: _, ...rest } = this.settings.chunkedDownloads;
+    this.settings.chunkedDownloads = rest;
+    await this.saveSettings();
+  }
+
+  /** Handle an incoming file blob, matched to its download header by the fileId in its frame. */
+  private async handleBinaryDownload(fileId: string, data: ArrayBuffer): Promise<void> {
+    if (!this.vaultKey) return;
+
+    const entry = this.pendingDownloads.get(fileId);
+    if (!entry) {
+      console.warn(`[Sync] Ignoring blob for ${fileId}: no download pending`);
+      return;
+    }
+    this.pendingDownloads.delete(fileId);
+    const key = this.vaultKey;
+    await this.completeDownload(entry, fileId, async () => {
+      const meta = await decryptMetadata<FileMeta>(entry.encryptedMeta, key);
+      return meta?.chunked ? decryptChunkedBlob(data, key) : decryptBlob(data, key);
+    });
+  }
+
+  /** Hand a finished download to whoever asked for it: a pending fetchFile, or the vault. */
+  private async completeDownload(entry: FileDownloadResponseMessage, fileId: string, load: () => Promise<ArrayBuffer | null>): Promise<void> {
+    const fetch = this.fileFetchRequests.get(fileId);
+    if (!fetch) return this.processDownload(entry, fileId, load);
+    const content = await load();
+    if (content) fetch.resolve(content);
+    else fetch.reject(new Error("Download failed"));
+  }
+
+  /** Download and decrypt a file's current content without writing it to the vault. */
+  private fetchFile(fileId: string): Promise<ArrayBuffer> {
+    return this.sendRequest(this.fileFetchRequests, fileId, { type: MessageType.FILE_DOWNLOAD, fileId });
+  }
+
+  /**
+   * Write a downloaded file to the vault. `load` produces its decrypted content
+   * (from a blob, chunks or blocks) and returns null when the transfer or decryption failed.
+   */
+  private async processDownload(entry: FileDownloadResponseMessage, downloadFileId: string, load: () => Promise<ArrayBuffer | null>): Promise<void> {
+    if (!this.vaultKey) return;
 
     // Update activity item status — match by fileId field (set by applySyncPlan) or path (set by handleSyncResponse)
     const activityItem = this.activeItems.find(
@@ -1041,50 +2685,84 @@ export class SyncEngine {
     let filePath: string | undefined;
     try {
       // Decrypt metadata to get the file path
-      const meta = await decryptMetadata<{ path: string }>(
-        entry.encryptedMeta,
-        this.vaultKey
-      );
+      const meta = await decryptMetadata<FileMeta>(entry.encryptedMeta, this.vaultKey);
       if (!meta) {
         console.error("[Sync] Failed to decrypt metadata for", downloadFileId);
         failed = true;
         return;
       }
       filePath = meta.path;
+      // Files uploaded in privacy mode carry their real mtime and size in the metadata
+      const mtime = meta.mtime ?? entry.mtime;
+      const size = meta.size ?? entry.size;
 
       // Update activity item with real path
       if (activityItem) {
         activityItem.path = filePath;
         activityItem.filename = filePath.split("/").pop() ?? filePath;
-        activityItem.fileSize = entry.size;
+        activityItem.fileSize = size;
         this.scheduleActivityChange();
       }
 
-      // Decrypt the raw binary blob directly — no JSON parsing needed
-      const decrypted = await decryptBlob(data, this.vaultKey);
-      if (!decrypted) {
-        console.error("[Sync] Failed to decrypt blob for", filePath);
+      const loaded = await load();
+      if (!loaded) {
+        console.error("[Sync] Failed to download or decrypt blob for", filePath);
         failed = true;
         return;
       }
+      const decrypted = await this.openDownload(loaded, meta);
 
-      if (this.fileWatcher.shouldExclude(filePath)) {
+      // Never write content that differs from what the uploader hashed
+      const contentHash = await sha256Hex(decrypted);
+      if (meta.contentHash && meta.contentHash !== contentHash) {
+        console.error("[Sync] Content hash mismatch, not writing", filePath);
+        failed = true;
         return;
       }
 
-      // Write file to vault
-      await this.writeFile(filePath, decrypted, entry.mtime);
-      this.recordHistory(filePath, "download");
+      // Files inside a shared folder come from the shared folder only
+      if (this.fileWatcher.shouldExclude(filePath) || this.shareFor(filePath)) {
+        return;
+      }
+
+      // Notes edited on both sides are merged against the last synced version;
+      // for other files the losing side is kept as a conflict copy
+      let content: ArrayBuffer | null = decrypted;
+      let reupload = false;
+      if (isMergeable(filePath)) {
+        ({ content, reupload } = await this.mergeWithLocal(filePath, downloadFileId, decrypted, meta.deviceName));
+        await this.baseStore.set(downloadFileId, new TextDecoder().decode(decrypted));
+        // The next upload of the note can be a delta against this version
+        if (entry.versionTag && entry.blocks) {
+          const snapshot = meta.chain ?? meta;
+          await this.baseStore.setChain(downloadFileId, {
+            tag: entry.versionTag, blocks: entry.blocks, deltas: meta.chain?.deltas ?? 0,
+            codec: snapshot.codec, compressedSize: snapshot.compressedSize, contentHash,
+          });
+        }
+      } else if (keepsConflictCopies(filePath)) {
+        ({ content, reupload } = await this.resolveWithConflictCopy(filePath, downloadFileId, decrypted, mtime, meta.deviceName));
+      }
+
+      // Write file to vault (null = the local version won and stays as it is)
+      if (content) {
+        await this.writeFile(filePath, content, mtime);
+        this.recordHistory(filePath, "download");
+      }
 
       // Update local manifest
       this.localManifest.set(downloadFileId, {
-        path: filePath, fileId: downloadFileId, mtime: entry.mtime, size: entry.size, contentHash: "",
+        path: filePath, fileId: downloadFileId, mtime, size,
+        contentHash: content === decrypted ? contentHash : "",
       });
 
       if (filePath.startsWith(".obsidian/plugins/")) {
         this.pluginFilesChanged = true;
       }
 
+      // The merged result contains local edits the server hasn't seen yet
+      if (reupload && !this.receiveOnly) await this.uploadFile(filePath);
+
       if (activityItem) {
         activityItem.status = "completed";
         this.scheduleActivityChange();
@@ -1156,9 +2834,14 @@ export class SyncEngine {
     }
 
     const local = this.localManifest.get(msg.fileId);
+    if (this.sendOnly) {
+      if (local) this.alertIgnoredChanges([local.path]);
+      return;
+    }
     if (local) {
-      const winner = resolveConflict(local.mtime, msg.mtime);
-      if (winner === "local") return;
+      const { mtime } = await this.revealEntry(msg, this.vaultKey);
+      const winner = resolveConflict(local.mtime, mtime);
+      if (winner === "local" && !(await this.canReconcile(local.path, msg.fileId))) return;
     }
 
     this.connection.send({
@@ -1177,22 +2860,354 @@ export class SyncEngine {
     }
 
     const local = this.localManifest.get(msg.fileId);
+    if (this.sendOnly) {
+      if (local) this.alertIgnoredChanges([local.path]);
+      return;
+    }
     if (local) {
-      await this.deleteLocalFile(local.path);
+      // Moved into a shared folder by another device of this vault
+      if (!this.shareFor(local.path)) await this.deleteLocalFile(local.path);
       this.localManifest.delete(msg.fileId);
     }
+    await this.baseStore.remove(msg.fileId);
   }
 
   /** Handle upload acknowledgment. */
   private handleUploadAck(msg: FileUploadAckMessage): void {
+    if (msg.error) {
+      console.error(`[Sync] Upload of ${msg.fileId} rejected:`, msg.error);
+      if (msg.error === QUOTA_EXCEEDED) this.notifyQuotaExceeded();
+      return;
+    }
+    this.quotaNoticeShown = false;
     if (msg.sequence > this.settings.lastSequence) {
       this.settings.lastSequence = msg.sequence;
       this.saveSettings();
     }
   }
 
+  /** The shared folder a vault path lies in, if any. */
+  private shareFor(path: string): OpenShare | null {
+    for (const share of this.shares.values()) {
+      if (share.key && share.mount && path.startsWith(share.mount + "/")) return share;
+    }
+    return null;
+  }
+
+  /** Where the server keeps a vault path: the vault, or the shared folder it lies in, with that folder's key. */
+  private async serverFile(filePath: string): Promise<{ key: CryptoKey; fileId: string; shareId?: string }> {
+    const vaultKey = this.vaultKey;
+    if (!vaultKey) throw new Error("Not connected");
+    const share = this.shareFor(filePath);
+    if (!share) return { key: vaultKey, fileId: await deriveFileId(filePath, vaultKey) };
+    const key = share.key!;
+    return { key, fileId: await deriveFileId(filePath.slice(share.mount!.length + 1), key), shareId: share.info.shareId };
+  }
+
+  /** Apply share lists one after another, in the order they arrived. */
+  private applyShareList(infos: ShareInfo[], resync = false): Promise<void> {
+    const update = this.shareListUpdate.then(() => this.updateShares(infos, resync));
+    this.shareListUpdate = update.catch(() => {});
+    return update;
+  }
+
+  /**
+   * Open the folder keys and mount paths of a share list. Folders that are new here or moved
+   * (every folder, with `resync`) are synced. Files of a folder this vault no longer has stay
+   * on disk and are uploaded as regular vault files.
+   */
+  private async updateShares(infos: ShareInfo[], resync: boolean): Promise<void> {
+    const vaultKey = this.vaultKey;
+    if (!vaultKey) return;
+
+    const previous = this.shares;
+    const next: Map<string, OpenShare> = new Map();
+    for (const info of infos) {
+      const known = previous.get(info.shareId);
+      let key = info.vaultKey ? await unwrapDataKey(info.vaultKey, vaultKey) : null;
+      if (!key && info.deviceKey) key = await decryptKeyForDevice(info.deviceKey, this.settings.devicePrivateKey).catch(() => null);
+      key = key ?? known?.key ?? null;
+      const mountMeta = info.encryptedMount ? await decryptMetadata<{ path: string }>(info.encryptedMount, vaultKey) : null;
+      const nameMeta = key ? await decryptMetadata<{ name: string }>(info.encryptedName, key) : null;
+      const mount = key && mountMeta ? mountMeta.path : null;
+      next.set(info.shareId, {
+        info,
+        name: nameMeta?.name ?? null,
+        key,
+        mount,
+        manifest: known && known.mount === mount ? known.manifest : new Map(),
+      });
+    }
+    this.shares = next;
+
+    let sequences = this.settings.shareSequences;
+    for (const [shareId, old] of previous) {
+      const share = next.get(shareId);
+      if (!old.mount || share?.mount === old.mount) continue;
+      // Moved folders sync from scratch; gone ones are forgotten
+      sequences = { ...sequences };
+      delete sequences[shareId];
+      if (this.receiveOnly) continue;
+      for (const local of old.manifest.values()) {
+        if (await this.app.vault.adapter.exists(local.path)) await this.uploadFile(local.path);
+      }
+    }
+    if (sequences !== this.settings.shareSequences) {
+      this.settings.shareSequences = sequences;
+      await this.saveSettings();
+    }
+
+    for (const share of next.values()) {
+      if (!share.mount) continue;
+      const moved = previous.get(share.info.shareId)?.mount !== share.mount;
+      if (moved) {
+        // The vault no longer syncs what is now in the shared folder
+        for (const [fileId, local] of this.localManifest) {
+          if (isWithin(local.path, share.mount)) this.localManifest.delete(fileId);
+        }
+      }
+      if (moved || resync) void this.syncShare(share);
+    }
+    this.onSharesChange(this.sharedFolders);
+  }
+
+  /** Sync a shared folder, or join the sync of it already running. */
+  private syncShare(share: OpenShare): Promise<void> {
+    const shareId = share.info.shareId;
+    const running = this.shareSyncs.get(shareId);
+    if (running) return running;
+    const sync = this.runShareSync(share)
+      .catch((err) => console.error(`[Sync] Failed to sync shared folder ${share.mount}:`, err.message))
+      .finally(() => this.shareSyncs.delete(shareId));
+    this.shareSyncs.set(shareId, sync);
+    return sync;
+  }
+
+  /**
+   * Full sync (first time) or incremental sync of one shared folder. Conflicts are settled
+   * by resolveConflict: the newer side wins.
+   */
+  private async runShareSync(share: OpenShare): Promise<void> {
+    const { key, mount } = share;
+    if (!key || !mount) return;
+    const shareId = share.info.shareId;
+
+    for (const file of this.app.vault.getFiles()) {
+      if (!file.path.startsWith(mount + "/") || this.fileWatcher.shouldExclude(file.path)) continue;
+      const fileId = await deriveFileId(file.path.slice(mount.length + 1), key);
+      const known = share.manifest.get(fileId);
+      share.manifest.set(fileId, {
+        path: file.path, fileId, mtime: file.stat.mtime, size: file.stat.size,
+        contentHash: known && known.mtime === file.stat.mtime ? known.contentHash : "",
+      });
+    }
+
+    const msg = await this.sendRequest(this.shareSyncRequests, shareId, {
+      type: MessageType.SYNC_REQUEST,
+      lastSequence: this.settings.shareSequences[shareId] ?? 0,
+      shareId,
+    });
+
+    const entries = await this.revealEntries(msg.entries, key);
+    const toDownload: string[] = [];
+    const toUpload: string[] = [];
+    const ignored: string[] = [];
+    if (msg.fullSync) {
+      const remote = new Set<string>();
+      for (const entry of entries) {
+        if (entry.deleted) continue;
+        remote.add(entry.fileId);
+        const local = share.manifest.get(entry.fileId);
+        if (!local || entry.mtime > local.mtime) {
+          if (!this.sendOnly) toDownload.push(entry.fileId);
+          else if (local) ignored.push(local.path);
+        } else if (local.mtime > entry.mtime) toUpload.push(local.path);
+      }
+      for (const [fileId, local] of share.manifest) {
+        if (!remote.has(fileId)) toUpload.push(local.path);
+      }
+    } else {
+      for (const entry of entries) {
+        const local = share.manifest.get(entry.fileId);
+        if (this.sendOnly) {
+          if (local && (entry.deleted || entry.mtime !== local.mtime)) ignored.push(local.path);
+          continue;
+        }
+        if (entry.deleted) {
+          if (!local) continue;
+          share.manifest.delete(entry.fileId);
+          await this.deleteLocalFile(local.path);
+        } else if (!local || resolveConflict(local.mtime, entry.mtime) === "remote") {
+          toDownload.push(entry.fileId);
+        }
+      }
+    }
+
+    this.alertIgnoredChanges(ignored);
+    await this.processConcurrent(toDownload, (fileId) => this.downloadShareFile(share, fileId), MAX_CONCURRENT_DOWNLOADS);
+    if (share.info.role !== "read" && !this.receiveOnly) {
+      await this.processConcurrent(toUpload, (path) => this.uploadShareFile(share, path), MAX_CONCURRENT_UPLOADS);
+    }
+    await this.advanceShareSequence(shareId, msg.currentSequence);
+  }
+
+  private async advanceShareSequence(shareId: string, sequence: number): Promise<void> {
+    if (sequence <= (this.settings.shareSequences[shareId] ?? 0)) return;
+    this.settings.shareSequences = { ...this.settings.shareSequences, [shareId]: sequence };
+    await this.saveSettings();
+  }
+
+  /** Download, check and write one file of a shared folder. */
+  private async downloadShareFile(share: OpenShare, fileId: string): Promise<void> {
+    const { key, mount } = share;
+    if (!key || !mount) return;
+
+    let filePath = fileId;
+    try {
+      const { entry, data } = await this.sendRequest(this.shareFetchRequests, fileId, {
+        type: MessageType.FILE_DOWNLOAD,
+        fileId,
+        shareId: share.info.shareId,
+      });
+      const meta = await decryptMetadata<FileMeta>(entry.encryptedMeta, key);
+      // A member could name any path; only paths inside the folder are written
+      if (!meta || !isSafeSharePath(meta.path)) throw new Error("Invalid file metadata");
+      filePath = `${mount}/${meta.path}`;
+
+      const decrypted = await decryptBlob(data, key);
+      if (!decrypted) throw new Error("Decryption failed");
+      const content = await this.openDownload(decrypted, meta);
+      const contentHash = await sha256Hex(content);
+      if (meta.contentHash && meta.contentHash !== contentHash) throw new Error("Content hash mismatch");
+      if (this.fileWatcher.shouldExclude(filePath)) return;
+
+      const mtime = meta.mtime ?? entry.mtime;
+      await this.writeFile(filePath, content, mtime);
+      share.manifest.set(fileId, { path: filePath, fileId, mtime, size: meta.size ?? entry.size, contentHash });
+      this.recordHistory(filePath, "download");
+    } catch (err: any) {
+      console.error(`[Sync] Failed to download ${filePath} from a shared folder:`, err.message);
+      this.recordHistory(filePath, "error");
+    }
+  }
+
+  /** Encrypt a file with the folder key and upload it to its shared folder as a single blob. */
+  private async uploadShareFile(share: OpenShare, filePath: string, direction: "upload" | "create" | "rename" = "upload", fromPath?: string): Promise<void> {
+    const { key, mount } = share;
+    if (!key || !mount) return;
+    if (share.info.role === "read") {
+      this.notifyReadOnly(share);
+      return;
+    }
+
+    try {
+      const file = this.app.vault.getAbstractFileByPath(filePath);
+      if (!file || !("stat" in file)) return;
+      const content = await this.app.vault.readBinary(file as any);
+
+      const fileId = await deriveFileId(filePath.slice(mount.length + 1), key);
+      const contentHash = await sha256Hex(content);
+      const meta: FileMeta = { path: filePath.slice(mount.length + 1), deviceName: this.settings.deviceName, contentHash };
+      const stat = await this.app.vault.adapter.stat(filePath);
+      const mtime = stat?.mtime ?? Date.now();
+      const size = stat?.size ?? content.byteLength;
+      const sealed = await this.sealUpload(meta, mtime, size, content, key);
+
+      let sequence: number;
+      try {
+        sequence = await this.sendRequest(this.shareUploadRequests, fileId, {
+          type: MessageType.FILE_UPLOAD,
+          fileId,
+          encryptedMeta: sealed.encryptedMeta,
+          mtime: sealed.mtime,
+          size: sealed.size,
+          shareId: share.info.shareId,
+        }, { kind: BinaryFrameKind.FILE, data: await encryptBlob(sealed.content, key) });
+      } catch (err) {
+        // Cut off by a dropped connection — queue the file so it is uploaded on reconnect
+        if (!this.connection.isConnected) {
+          this.pendingLocalChanges = this.pendingLocalChanges.filter(c => c.path !== filePath);
+          this.pendingLocalChanges.push({ type: "modify", path: filePath });
+          this.savePendingChanges();
+        }
+        throw err;
+      }
+
+      this.quotaNoticeShown = false;
+      await this.advanceShareSequence(share.info.shareId, sequence);
+      this.recordHistory(filePath, direction, false, fromPath);
+      share.manifest.set(fileId, { path: filePath, fileId, mtime, size, contentHash });
+    } catch (err: any) {
+      console.error(`[Sync] Failed to upload ${filePath} to a shared folder:`, err.message);
+      if (err.message === QUOTA_EXCEEDED) this.notifyQuotaExceeded();
+    }
+  }
+
+  /** Delete a file from its shared folder. */
+  private async deleteShareFile(share: OpenShare, filePath: string, suppressHistory: boolean): Promise<void> {
+    const { key, mount } = share;
+    if (!key || !mount) return;
+    const fileId = await deriveFileId(filePath.slice(mount.length + 1), key);
+    share.manifest.delete(fileId);
+    if (share.info.role === "read") {
+      this.notifyReadOnly(share);
+      return;
+    }
+
+    this.connection.send({
+      type: MessageType.FILE_DELETE,
+      fileId,
+      shareId: share.info.shareId,
+    });
+    if (!suppressHistory) this.recordHistory(filePath, "delete");
+  }
+
+  /** Tell the user once per folder that their changes to a read-only shared folder stay on this device. */
+  private notifyReadOnly(share: OpenShare): void {
+    if (this.readOnlyNoticeShown.has(share.info.shareId)) return;
+    this.readOnlyNoticeShown.add(share.info.shareId);
+    new Notice(`Advanced Sync: You may only read the shared folder ${share.mount}. Your changes to it are not uploaded.`);
+  }
+
+  /** Handle a change to a shared folder file made by another client. */
+  private async handleRemoteShareFileChanged(msg: FileChangedMessage): Promise<void> {
+    if (msg.sourceClientId === this.settings.clientId) return;
+    const share = this.shares.get(msg.shareId!);
+    if (!share?.mount) return;
+    await this.advanceShareSequence(share.info.shareId, msg.sequence);
+
+    const local = share.manifest.get(msg.fileId);
+    if (this.sendOnly) {
+      if (local) this.alertIgnoredChanges([local.path]);
+      return;
+    }
+    if (local && resolveConflict(local.mtime, (await this.revealEntry(msg, share.key)).mtime) === "local") return;
+    await this.downloadShareFile(share, msg.fileId);
+  }
+
+  /** Handle the removal of a shared folder file by another client. */
+  private async handleRemoteShareFileRemoved(msg: FileRemovedMessage): Promise<void> {
+    if (msg.sourceClientId === this.settings.clientId) return;
+    const share = this.shares.get(msg.shareId!);
+    if (!share?.mount) return;
+    await this.advanceShareSequence(share.info.shareId, msg.sequence);
+
+    const local = share.manifest.get(msg.fileId);
+    if (this.sendOnly) {
+      if (local) this.alertIgnoredChanges([local.path]);
+      return;
+    }
+    if (local) {
+      share.manifest.delete(msg.fileId);
+      await this.deleteLocalFile(local.path);
+    }
+  }
+
   /** Handle a local file change (from file watcher). */
   private async handleLocalChange(change: FileChange): Promise<void> {
+    // Receive-only devices keep their edits to themselves
+    if (this.receiveOnly) return;
+
     // Queue changes when disconnected, not ready, or no key yet (encrypt on flush)
     if (!this.vaultKey || !this.connection.isConnected || !this.readyForIncrementalSync) {
       // Deduplicate by path — keep the latest change per path
@@ -1214,6 +3229,8 @@ export class SyncEngine {
 
   /** Execute a single local change (upload/delete/rename). */
   private async executeLocalChange(change: FileChange): Promise<void> {
+    // Changes queued before the device became receive-only are dropped
+    if (this.receiveOnly) return;
     switch (change.type) {
       case "create":
         await this.uploadFile(change.path, "create");
@@ -1262,9 +3279,12 @@ export class SyncEngine {
   /** Handle local file deletion — sends FILE_DELETE to server. */
   private async handleLocalDelete(filePath: string, suppressHistory = false): Promise<void> {
     if (!this.vaultKey) return;
+    const share = this.shareFor(filePath);
+    if (share) return this.deleteShareFile(share, filePath, suppressHistory);
 
     const fileId = await deriveFileId(filePath, this.vaultKey);
     this.localManifest.delete(fileId);
+    await this.baseStore.remove(fileId);
 
     this.connection.send({
       type: MessageType.FILE_DELETE,
@@ -1273,6 +3293,93 @@ export class SyncEngine {
     if (!suppressHistory) this.recordHistory(filePath, "delete");
   }
 
+  /**
+   * Whether both versions of a file can be kept (merged, or the loser saved as a
+   * conflict copy) rather than last-write-wins. Needs a recorded sync base.
+   */
+  private async canReconcile(path: string, fileId: string): Promise<boolean> {
+    return (isMergeable(path) || keepsConflictCopies(path)) && (await this.baseStore.has(fileId));
+  }
+
+  /**
+   * Combine an incoming note with the local copy.
+   * Without a base, or when only one side changed, this degrades to taking
+   * whichever side is newer. `reupload` is set when the result differs from
+   * what the server has.
+   */
+  private async mergeWithLocal(
+    filePath: string,
+    fileId: string,
+    remote: ArrayBuffer,
+    remoteDevice?: string
+  ): Promise<{ content: ArrayBuffer; reupload: boolean }> {
+    const base = await this.baseStore.get(fileId);
+    if (base === null || !(await this.app.vault.adapter.exists(filePath))) {
+      return { content: remote, reupload: false };
+    }
+
+    const remoteText = new TextDecoder().decode(remote);
+    const localText = await this.app.vault.adapter.read(filePath);
+    const result = mergeText(base, localText, remoteText, {
+      local: this.settings.deviceName || "This device",
+      remote: remoteDevice || "Remote",
+    });
+
+    if (result.conflicts > 0) {
+      new Notice(`Advanced Sync: ${result.conflicts} conflict(s) in ${filePath} — look for <<<<<<< markers.`, 8000);
+    }
+    if (result.text === remoteText) return { content: remote, reupload: false };
+    return { content: new TextEncoder().encode(result.text).buffer as ArrayBuffer, reupload: true };
+  }
+
+  /**
+   * Settle an incoming non-mergeable file against the local copy.
+   * If both sides changed since the last sync, resolveConflict picks the winner
+   * and the loser is saved next to it as a new file, which the file watcher then
+   * uploads like any other. Returns null content when the local version stays.
+   */
+  private async resolveWithConflictCopy(
+    filePath: string,
+    fileId: string,
+    remote: ArrayBuffer,
+    remoteMtime: number,
+    remoteDevice?: string
+  ): Promise<{ content: ArrayBuffer | null; reupload: boolean }> {
+    const baseHash = await this.baseStore.getHash(fileId);
+    const remoteHash = await sha256Hex(remote);
+    await this.baseStore.setHash(fileId, remoteHash);
+
+    const adapter = this.app.vault.adapter;
+    if (baseHash === null || !(await adapter.exists(filePath))) {
+      return { content: remote, reupload: false };
+    }
+
+    const local = await adapter.readBinary(filePath);
+    const localHash = await sha256Hex(local);
+    if (localHash === baseHash || localHash === remoteHash) return { content: remote, reupload: false };
+    // Only the local side changed — keep it and make sure the server gets it
+    if (remoteHash === baseHash) return { content: null, reupload: true };
+
+    const localMtime = (await adapter.stat(filePath))?.mtime ?? 0;
+    const winner = resolveConflict(localMtime, remoteMtime);
+    const loser = winner === "remote" ? local : remote;
+    const loserDevice = winner === "remote" ? this.settings.deviceName : remoteDevice;
+
+    let copyPath = conflictCopyPath(filePath, loserDevice ?? "");
+    for (let attempt = 2; await adapter.exists(copyPath); attempt++) {
+      copyPath = conflictCopyPath(filePath, loserDevice ?? "", new Date(), attempt);
+    }
+    try {
+      await this.app.vault.createBinary(copyPath, loser);
+      this.recordHistory(copyPath, "conflict");
+      new Notice(`Advanced Sync: conflicting edits to ${filePath} — the other version was saved as ${copyPath.split("/").pop()}`, 8000);
+    } catch (err: any) {
+      console.error(`[Sync] Failed to save conflict copy for ${filePath}:`, err.message);
+    }
+
+    return winner === "remote" ? { content: remote, reupload: false } : { content: null, reupload: true };
+  }
+
   /** Write a file to the vault, suppressing the file watcher. */
   private async writeFile(
     filePath: string,
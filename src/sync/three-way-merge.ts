@@ -0,0 +1,175 @@
+/**
+ * Line-based three-way merge (diff3) for Markdown notes.
+ * Both sides are diffed against their common ancestor; non-overlapping hunks are
+ * applied automatically, overlapping hunks that differ get git-style conflict markers.
+ */
+
+export interface MergeLabels {
+  /** Shown after `<<<<<<<` (this device). */
+  local: string;
+  /** Shown after `>>>>>>>` (the other device). */
+  remote: string;
+}
+
+export interface MergeResult {
+  /** The merged text. Contains conflict markers when `conflicts > 0`. */
+  text: string;
+  /** Number of regions that could not be merged automatically. */
+  conflicts: number;
+}
+
+/** A changed region: base[baseStart, baseEnd) was replaced by side[sideStart, sideEnd). */
+interface Hunk {
+  baseStart: number;
+  baseEnd: number;
+  sideStart: number;
+  sideEnd: number;
+}
+
+interface SideHunk extends Hunk {
+  side: "local" | "remote";
+}
+
+/** Above this many LCS table cells the differing middle is treated as one big hunk. */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Merge `local` and `remote`, which both descend from `base`.
+ * Never throws — in the worst case the whole file becomes one conflict region.
+ */
+export function mergeText(base: string, local: string, remote: string, labels: MergeLabels): MergeResult {
+  if (local === remote || remote === base) return { text: local, conflicts: 0 };
+  if (local === base) return { text: remote, conflicts: 0 };
+
+  const o = base.split("\n");
+  const a = local.split("\n");
+  const b = remote.split("\n");
+
+  const hunks: SideHunk[] = [
+    ...diffHunks(o, a).map((h): SideHunk => ({ ...h, side: "local" })),
+    ...diffHunks(o, b).map((h): SideHunk => ({ ...h, side: "remote" })),
+  ].sort((x, y) => x.baseStart - y.baseStart || x.baseEnd - y.baseEnd);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let pos = 0;
+  let i = 0;
+
+  while (i < hunks.length) {
+    // Grow the region while the next hunk overlaps or touches it
+    const group = [hunks[i]];
+    const regionStart = hunks[i].baseStart;
+    let regionEnd = hunks[i].baseEnd;
+    i++;
+    while (i < hunks.length && hunks[i].baseStart <= regionEnd) {
+      regionEnd = Math.max(regionEnd, hunks[i].baseEnd);
+      group.push(hunks[i]);
+      i++;
+    }
+
+    pushAll(out, o, pos, regionStart);
+
+    const localRange = sideRange(group, "local", regionStart, regionEnd);
+    const remoteRange = sideRange(group, "remote", regionStart, regionEnd);
+
+    if (!remoteRange) {
+      pushAll(out, a, localRange![0], localRange![1]);
+    } else if (!localRange) {
+      pushAll(out, b, remoteRange[0], remoteRange[1]);
+    } else {
+      const localLines = a.slice(localRange[0], localRange[1]);
+      const remoteLines = b.slice(remoteRange[0], remoteRange[1]);
+      if (sameLines(localLines, remoteLines)) {
+        // Both sides made the same change
+        out.push(...localLines);
+      } else {
+        conflicts++;
+        out.push(`<<<<<<< ${labels.local}`, ...localLines, "=======", ...remoteLines, `>>>>>>> ${labels.remote}`);
+      }
+    }
+
+    pos = regionEnd;
+  }
+
+  pushAll(out, o, pos, o.length);
+  return { text: out.join("\n"), conflicts };
+}
+
+/**
+ * Compute the changed regions between `base` and `side` (LCS over lines).
+ * Common prefix/suffix are trimmed first so typical edits stay cheap.
+ */
+function diffHunks(base: string[], side: string[]): Hunk[] {
+  let start = 0;
+  while (start < base.length && start < side.length && base[start] === side[start]) start++;
+
+  let endBase = base.length;
+  let endSide = side.length;
+  while (endBase > start && endSide > start && base[endBase - 1] === side[endSide - 1]) {
+    endBase--;
+    endSide--;
+  }
+
+  const n = endBase - start;
+  const m = endSide - start;
+  if (n === 0 && m === 0) return [];
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) {
+    return [{ baseStart: start, baseEnd: endBase, sideStart: start, sideEnd: endSide }];
+  }
+
+  // table[i * width + j] = LCS length of base[start+i..] and side[start+j..]
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] = base[start + i] === side[start + j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  // Walk the table, collecting runs of unmatched lines as hunks
+  const hunks: Hunk[] = [];
+  let hunk: Hunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && base[start + i] === side[start + j]) {
+      if (hunk) { hunks.push(hunk); hunk = null; }
+      i++;
+      j++;
+      continue;
+    }
+    if (!hunk) {
+      hunk = { baseStart: start + i, baseEnd: start + i, sideStart: start + j, sideEnd: start + j };
+    }
+    if (j < m && (i >= n || table[i * width + j + 1] >= table[(i + 1) * width + j])) {
+      j++;
+      hunk.sideEnd = start + j;
+    } else {
+      i++;
+      hunk.baseEnd = start + i;
+    }
+  }
+  if (hunk) hunks.push(hunk);
+  return hunks;
+}
+
+/** Map a base region onto one side's line range, or null if that side left it untouched. */
+function sideRange(group: SideHunk[], side: SideHunk["side"], regionStart: number, regionEnd: number): [number, number] | null {
+  const own = group.filter((h) => h.side === side);
+  if (own.length === 0) return null;
+  const first = own[0];
+  const last = own[own.length - 1];
+  return [first.sideStart - (first.baseStart - regionStart), last.sideEnd + (regionEnd - last.baseEnd)];
+}
+
+function sameLines(x: string[], y: string[]): boolean {
+  if (x.length !== y.length) return false;
+  for (let i = 0; i < x.length; i++) if (x[i] !== y[i]) return false;
+  return true;
+}
+
+function pushAll(out: string[], lines: string[], from: number, to: number): void {
+  for (let i = from; i < to; i++) out.push(lines[i]);
+}
@@ -0,0 +1,77 @@
+/**
+ * Transfer store: keeps the chunks of unfinished chunked downloads on disk, one file per
+ * chunk, so a download holds a single chunk in memory while it runs and continues after a
+ * reconnect or a restart. Where it left off is saved in the plugin data (chunkedDownloads).
+ *
+ * Chunks live in the plugin's own folder, which is excluded from sync.
+ */
+
+import type { DataAdapter } from "obsidian";
+
+export class TransferStore {
+  private adapter: DataAdapter;
+  private dir: string;
+
+  constructor(adapter: DataAdapter, dir: string) {
+    this.adapter = adapter;
+    this.dir = dir;
+  }
+
+  /** Store chunk number `index` of a file's download. */
+  async writeChunk(fileId: string, index: number, data: ArrayBuffer): Promise<void> {
+    const folder = this.folderFor(fileId);
+    if (!(await this.adapter.exists(folder))) {
+      if (!(await this.adapter.exists(this.dir))) await this.adapter.mkdir(this.dir);
+      await this.adapter.mkdir(folder);
+    }
+    await this.adapter.writeBinary(`${folder}/${index}`, data);
+  }
+
+  /** The first `count` chunks of a file joined together, or null if any is missing. */
+  async read(fileId: string, count: number): Promise<ArrayBuffer | null> {
+    try {
+      const folder = this.folderFor(fileId);
+      let total = 0;
+      for (let i = 0; i < count; i++) {
+        const stat = await this.adapter.stat(`${folder}/${i}`);
+        if (!stat) return null;
+        total += stat.size;
+      }
+      const joined = new Uint8Array(total);
+      let offset = 0;
+      for (let i = 0; i < count; i++) {
+        const chunk = new Uint8Array(await this.adapter.readBinary(`${folder}/${i}`));
+        if (offset + chunk.byteLength > total) return null;
+        joined.set(chunk, offset);
+        offset += chunk.byteLength;
+      }
+      return offset === total ? joined.buffer : null;
+    } catch (err: any) {
+      console.error("[TransferStore] Failed to read download:", err.message);
+      return null;
+    }
+  }
+
+  /** Drop the chunks of a file's download. */
+  async remove(fileId: string): Promise<void> {
+    try {
+      const folder = this.folderFor(fileId);
+      if (await this.adapter.exists(folder)) await this.adapter.rmdir(folder, true);
+    } catch (err: any) {
+      console.error("[TransferStore] Failed to remove download:", err.message);
+    }
+  }
+
+  /** Drop every unfinished download (e.g. after the vault key changed). */
+  async clear(): Promise<void> {
+    try {
+      if (await this.adapter.exists(this.dir)) await this.adapter.rmdir(this.dir, true);
+    } catch (err: any) {
+      console.error("[TransferStore] Failed to clear downloads:", err.message);
+    }
+  }
+
+  private folderFor(fileId: string): string {
+    return `${this.dir}/${fileId}`;
+  }
+}
@@ -2,9 +2,32 @@
  * Plugin settings interface and defaults.
  */
 
+import type { FileDownloadResponseMessage } from "@vault-sync/shared/protocol";
+
 /** How to resolve the first full sync when connecting a new device. */
 export type InitialSyncStrategy = "pull" | "merge" | "push";
 
+/** Which way files flow: both ways, only from the server (receive-only) or only to it (send-only). */
+export type SyncDirection = "both" | "receive" | "send";
+
+/** A chunked upload, saved so that another upload of the same content continues where the server's partial file ends. */
+export interface SavedUpload {
+  uploadId: string;
+  mtime: number;
+  size: number;
+  /** Of the content before encryption; padded files of one bucket share mtime and size. */
+  contentHash: string;
+}
+
+/** A chunked download; the chunks received so far wait in the plugin's transfers folder. */
+export interface SavedDownload {
+  header: FileDownloadResponseMessage;
+  /** Encrypted bytes received so far. */
+  offset: number;
+  /** Whether the blob was encrypted chunk by chunk; the chunks of older blobs are decrypted once all arrived. */
+  perChunk: boolean;
+}
+
 export interface AdvancedSyncSettings {
   /** Unique identifier for this device/client. */
   clientId: string;
@@ -12,12 +35,20 @@ export interface AdvancedSyncSettings {
   deviceName: string;
   /** Server URL (e.g., ws://192.168.1.100:8443/sync). */
   serverUrl: string;
+  /** Named vault on the server to sync with; empty for the server's default vault. */
+  vaultId: string;
   /** Opaque session token from server (for reconnect without password). */
   authToken: string;
-  /** Base64-encoded exported AES-256 key (persisted for auto-reconnect). */
+  /** Base64-encoded vault data key (persisted for auto-reconnect). */
   encryptionKeyB64: string;
-  /** Base64-encoded vault salt (received from server). */
+  /** Base64-encoded salt of the password key (received from server). */
   vaultSalt: string;
+  /** This device's P-256 public key (base64, raw), registered with the server on first sign-in. */
+  devicePublicKey: string;
+  /** This device's P-256 private key (base64, PKCS#8). */
+  devicePrivateKey: string;
+  /** SHA-256 of the data key. Kept when the session is revoked, so a rotated key is noticed at the next sign-in. */
+  dataKeyHash: string;
   /** Whether setup wizard has been completed. */
   setupComplete: boolean;
   /** Auto-connect on plugin load. */
@@ -32,6 +63,12 @@ export interface AdvancedSyncSettings {
   excludePatterns: string[];
   /** Last known server sequence number. */
   lastSequence: number;
+  /** Last known sequence number of each shared folder, by shareId. */
+  shareSequences: Record<string, number>;
+  /** Unfinished chunked uploads, by fileId. */
+  chunkedUploads: Record<string, SavedUpload>;
+  /** Unfinished chunked downloads, by fileId. */
+  chunkedDownloads: Record<string, SavedDownload>;
   /** Server ID (to detect server changes). */
   serverId: string;
   /** Whether syncing is enabled (can be toggled from the status bar popup). */
@@ -42,15 +79,29 @@ export interface AdvancedSyncSettings {
   syncAllFileTypes: boolean;
   /** Hide .obsidian/ paths from all Recent Changes views. */
   hideObsidianInHistory: boolean;
+  /** Receive-only: download changes but never upload or delete files on the server. */
+  receiveOnly: boolean;
+  /** Send-only: upload local changes but never apply changes made on other devices. */
+  sendOnly: boolean;
+  /** Keep file times and sizes from the server: they go into the encrypted metadata and uploads are padded. */
+  privacyMode: boolean;
+  /** Compress notes and other compressible files before they are encrypted and uploaded. */
+  compression: boolean;
+  /** Upload edits to notes as deltas against the last synced version instead of in full. */
+  deltaUploads: boolean;
 }
 
 export const DEFAULT_SETTINGS: AdvancedSyncSettings = {
   clientId: "",
   deviceName: "",
   serverUrl: "",
+  vaultId: "",
   authToken: "",
   encryptionKeyB64: "",
   vaultSalt: "",
+  devicePublicKey: "",
+  devicePrivateKey: "",
+  dataKeyHash: "",
   setupComplete: false,
   autoConnect: true,
   syncPlugins: true,
@@ -58,9 +109,17 @@ export const DEFAULT_SETTINGS: AdvancedSyncSettings = {
   syncWorkspace: false,
   excludePatterns: [],
   lastSequence: 0,
+  shareSequences: {},
+  chunkedUploads: {},
+  chunkedDownloads: {},
   serverId: "",
   syncEnabled: true,
   initialSyncStrategy: "merge",
   syncAllFileTypes: true,
   hideObsidianInHistory: false,
+  receiveOnly: false,
+  sendOnly: false,
+  privacyMode: false,
+  compression: true,
+  deltaUploads: true,
 };
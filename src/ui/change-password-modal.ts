@@ -0,0 +1,66 @@
+/**
+ * Change password modal — asks for the current and the new vault password, then
+ * re-wraps the vault data key under the new one.
+ */
+
+import { Modal, Notice } from "obsidian";
+import type { App } from "obsidian";
+import type { SyncEngine } from "../sync/sync-engine";
+
+export class ChangePasswordModal extends Modal {
+  private engine: SyncEngine;
+
+  constructor(app: App, engine: SyncEngine) {
+    super(app);
+    this.engine = engine;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("as-password-modal");
+    this.titleEl.setText("Change vault password");
+    const { contentEl } = this;
+
+    contentEl.createEl("p", {
+      cls: "as-password-note",
+      text: "Your files stay as they are — only the vault key is re-encrypted with the new password. " +
+        "Other devices are signed out until you enter the new password on them.",
+    });
+
+    const current = this.addPasswordField("Current password");
+    const next = this.addPasswordField("New password");
+    const confirm = this.addPasswordField("Confirm new password");
+    const error = contentEl.createDiv({ cls: "as-error" });
+
+    const buttons = contentEl.createDiv({ cls: "as-password-buttons" });
+    const cancelBtn = buttons.createEl("button", { text: "Cancel" });
+    cancelBtn.onclick = () => this.close();
+    const changeBtn = buttons.createEl("button", { text: "Change password", cls: "mod-warning" });
+    changeBtn.onclick = async () => {
+      error.setText("");
+      if (!current.value || !next.value) { error.setText("Enter the current and the new password."); return; }
+      if (next.value !== confirm.value) { error.setText("The new passwords do not match."); return; }
+      if (next.value === current.value) { error.setText("The new password is the same as the current one."); return; }
+
+      changeBtn.disabled = true;
+      try {
+        await this.engine.changePassword(current.value, next.value);
+        new Notice("Advanced Sync: Password changed. Enter the new password on your other devices.", 8000);
+        this.close();
+      } catch (err: any) {
+        error.setText(`Password not changed: ${err.message}`);
+        changeBtn.disabled = false;
+      }
+    };
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private addPasswordField(label: string): HTMLInputElement {
+    const group = this.contentEl.createDiv("as-field-group");
+    group.createEl("label", { text: label, cls: "as-field-label" });
+    const wrapper = group.createDiv("as-password-wrapper");
+    return wrapper.createEl("input", { type: "password", cls: "as-input as-password-input" });
+  }
+}
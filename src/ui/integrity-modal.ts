@@ -0,0 +1,63 @@
+/**
+ * Vault integrity modal — re-hashes every synced file on disk, compares it with
+ * the content hash in the server manifest, and lists the files that differ.
+ */
+
+import { Modal } from "obsidian";
+import type { App } from "obsidian";
+import type { SyncEngine, IntegrityReport, IntegrityProblem } from "../sync/sync-engine";
+
+const PROBLEM_LABELS: Record<IntegrityProblem["problem"], string> = {
+  missing: "Missing on this device",
+  mismatch: "Content differs from the server",
+};
+
+export class IntegrityModal extends Modal {
+  private engine: SyncEngine;
+
+  constructor(app: App, engine: SyncEngine) {
+    super(app);
+    this.engine = engine;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("as-integrity-modal");
+    this.titleEl.setText("Verify vault integrity");
+    void this.run();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private async run(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+    const status = contentEl.createDiv({ cls: "as-integrity-summary", text: "Checking files against the server..." });
+
+    let report: IntegrityReport;
+    try {
+      report = await this.engine.verifyIntegrity();
+    } catch (err: any) {
+      status.setText(err.message === "Not connected"
+        ? "Connect to the sync server to verify the vault."
+        : `Could not verify the vault: ${err.message}`);
+      return;
+    }
+
+    const parts = [`${report.verified} file${report.verified === 1 ? "" : "s"} verified`];
+    if (report.unchecked > 0) parts.push(`${report.unchecked} without a recorded hash`);
+    parts.push(report.problems.length === 0
+      ? "no problems found"
+      : `${report.problems.length} problem${report.problems.length === 1 ? "" : "s"}`);
+    status.setText(parts.join(" · "));
+
+    if (report.problems.length === 0) return;
+    const list = contentEl.createDiv({ cls: "as-integrity-list" });
+    for (const { path, problem } of report.problems.sort((a, b) => a.path.localeCompare(b.path))) {
+      const row = list.createDiv({ cls: "as-integrity-row" });
+      row.createDiv({ cls: "as-integrity-path", text: path });
+      row.createDiv({ cls: "as-integrity-problem", text: PROBLEM_LABELS[problem] });
+    }
+  }
+}
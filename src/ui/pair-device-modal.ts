@@ -0,0 +1,95 @@
+/**
+ * Pair device modal — shows a single-use pairing code as a QR code. A new device that scans
+ * (or pastes) it in its setup wizard joins without the vault password and is approved
+ * automatically.
+ */
+
+import { Modal, Notice } from "obsidian";
+import type { App } from "obsidian";
+import type { SyncEngine } from "../sync/sync-engine";
+import { renderQrCode } from "./qr-code";
+
+export class PairDeviceModal extends Modal {
+  private engine: SyncEngine;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Set once the code was used or expired, so closing doesn't withdraw it. */
+  private finished = false;
+
+  constructor(app: App, engine: SyncEngine) {
+    super(app);
+    this.engine = engine;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("as-pair-modal");
+    this.titleEl.setText("Pair new device");
+    void this.begin();
+  }
+
+  onClose(): void {
+    if (this.expiryTimer) clearTimeout(this.expiryTimer);
+    if (!this.finished) this.engine.cancelPairing();
+    this.finished = true;
+    this.contentEl.empty();
+  }
+
+  private async begin(): Promise<void> {
+    const { contentEl } = this;
+    const status = contentEl.createDiv({ cls: "as-password-progress", text: "Creating pairing code..." });
+
+    let code: string;
+    let expiresAt: number;
+    try {
+      ({ code, expiresAt } = await this.engine.beginPairing((deviceName, error) => this.showResult(deviceName, error)));
+    } catch (err: any) {
+      status.setText("");
+      contentEl.createDiv({ cls: "as-error", text: `Pairing code not created: ${err.message}` });
+      return;
+    }
+    if (this.finished) {
+      // Closed while the code was being created
+      this.engine.cancelPairing();
+      return;
+    }
+
+    contentEl.empty();
+    contentEl.createEl("p", {
+      cls: "as-password-note",
+      text: "On the new device, scan this code with the camera, or copy it and paste it into " +
+        "\"Pair with another device\" in the Advanced Sync setup wizard. It works once.",
+    });
+    renderQrCode(contentEl.createDiv({ cls: "as-pair-qr" }), code);
+    contentEl.createDiv({
+      cls: "as-recovery-details",
+      text: `Expires at ${new Date(expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`,
+    });
+    contentEl.createDiv({ cls: "as-pair-status", text: "Waiting for the new device..." });
+
+    const buttons = contentEl.createDiv({ cls: "as-password-buttons" });
+    buttons.createEl("button", { text: "Copy code" }).onclick = async () => {
+      await navigator.clipboard.writeText(code);
+      new Notice("Advanced Sync: Pairing code copied to the clipboard.");
+    };
+    buttons.createEl("button", { text: "Cancel" }).onclick = () => this.close();
+
+    this.expiryTimer = setTimeout(() => this.showResult(null, "This pairing code has expired"), expiresAt - Date.now());
+  }
+
+  private showResult(deviceName: string | null, error?: string): void {
+    if (this.finished) return;
+    this.finished = true;
+    if (this.expiryTimer) clearTimeout(this.expiryTimer);
+    this.engine.cancelPairing();
+
+    const { contentEl } = this;
+    contentEl.empty();
+    if (error) {
+      const device = deviceName ? ` (${deviceName})` : "";
+      contentEl.createDiv({ cls: "as-error", text: `Pairing failed${device}: ${error}` });
+    } else {
+      contentEl.createDiv({ cls: "as-pair-status", text: `${deviceName} was paired and syncs now.` });
+    }
+    const buttons = contentEl.createDiv({ cls: "as-password-buttons" });
+    buttons.createEl("button", { text: "Done", cls: "mod-cta" }).onclick = () => this.close();
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Recovery kit modal — creates a new recovery phrase for the vault and shows it once,
+ * with the server address, ready to print or copy.
+ */
+
+import { Modal, Notice } from "obsidian";
+import type { App } from "obsidian";
+import type { SyncEngine } from "../sync/sync-engine";
+
+const KIT_TITLE = "Advanced Sync recovery kit";
+
+export class RecoveryKitModal extends Modal {
+  private engine: SyncEngine;
+  private serverUrl: string;
+  /** Named vault on the server; empty for the default vault. */
+  private vaultId: string;
+  /** Vault password, when the caller already has it (setup wizard); asked for otherwise. */
+  private password: string;
+
+  constructor(app: App, engine: SyncEngine, serverUrl: string, vaultId: string, password = "") {
+    super(app);
+    this.engine = engine;
+    this.serverUrl = serverUrl;
+    this.vaultId = vaultId;
+    this.password = password;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("as-recovery-modal");
+    this.titleEl.setText("Recovery kit");
+    if (this.password) void this.create(this.password);
+    else this.renderPasswordPrompt();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private renderPasswordPrompt(): void {
+    const { contentEl } = this;
+    contentEl.createEl("p", {
+      cls: "as-password-note",
+      text: "A recovery phrase restores access to the vault if you forget your password. " +
+        "Creating a new kit replaces the previous one.",
+    });
+
+    const group = contentEl.createDiv("as-field-group");
+    group.createEl("label", { text: "Vault password", cls: "as-field-label" });
+    const input = group.createDiv("as-password-wrapper")
+      .createEl("input", { type: "password", cls: "as-input as-password-input" });
+
+    const buttons = contentEl.createDiv({ cls: "as-password-buttons" });
+    buttons.createEl("button", { text: "Cancel" }).onclick = () => this.close();
+    const createBtn = buttons.createEl("button", { text: "Create kit", cls: "mod-cta" });
+    createBtn.onclick = () => { if (input.value) void this.create(input.value); };
+    input.focus();
+  }
+
+  private async create(password: string): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+    const status = contentEl.createDiv({ cls: "as-password-progress", text: "Creating recovery kit..." });
+
+    let phrase: string;
+    try {
+      phrase = await this.engine.createRecoveryKit(password);
+    } catch (err: any) {
+      status.setText("");
+      contentEl.createDiv({ cls: "as-error", text: `Recovery kit not created: ${err.message}` });
+      return;
+    }
+
+    const created = new Date().toLocaleString();
+    contentEl.empty();
+    contentEl.createEl("p", {
+      cls: "as-password-note",
+      text: "Print this kit or write the phrase down and keep it somewhere safe, away from your devices. " +
+        "Anyone with the phrase and access to your server can open the vault. It is shown only once.",
+    });
+    contentEl.createDiv({ cls: "as-recovery-phrase", text: phrase });
+    const details = contentEl.createDiv({ cls: "as-recovery-details" });
+    details.createDiv({ text: `Server: ${this.serverUrl}` });
+    if (this.vaultId) details.createDiv({ text: `Vault: ${this.vaultId}` });
+    details.createDiv({ text: `Created: ${created}` });
+
+    const buttons = contentEl.createDiv({ cls: "as-password-buttons" });
+    buttons.createEl("button", { text: "Copy" }).onclick = async () => {
+      await navigator.clipboard.writeText(this.kitLines(phrase, created).join("\n"));
+      new Notice("Advanced Sync: Recovery kit copied to the clipboard.");
+    };
+    buttons.createEl("button", { text: "Print" }).onclick = () => this.print(phrase, created);
+    buttons.createEl("button", { text: "Done", cls: "mod-cta" }).onclick = () => this.close();
+  }
+
+  private kitLines(phrase: string, created: string): string[] {
+    return [
+      KIT_TITLE,
+      `Server: ${this.serverUrl}`,
+      ...(this.vaultId ? [`Vault: ${this.vaultId}`] : []),
+      `Created: ${created}`,
+      `Recovery phrase: ${phrase}`,
+      "To recover, choose \"Recover with recovery phrase\" on the password step of the Advanced Sync setup wizard.",
+    ];
+  }
+
+  /** Open the kit as a plain page in a new window and print it. */
+  private print(phrase: string, created: string): void {
+    const win = window.open("", "_blank");
+    if (!win) {
+      new Notice("Advanced Sync: Printing is not available here. Copy the kit instead.");
+      return;
+    }
+    // Plain DOM calls: Obsidian's createEl helpers don't exist in a fresh window
+    const doc = win.document;
+    doc.title = KIT_TITLE;
+    doc.body.style.fontFamily = "sans-serif";
+    this.kitLines(phrase, created).forEach((line, i) => {
+      const el = doc.createElement(i === 0 ? "h1" : "p");
+      el.textContent = line;
+      doc.body.appendChild(el);
+    });
+    win.print();
+  }
+}
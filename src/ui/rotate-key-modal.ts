@@ -0,0 +1,78 @@
+/**
+ * Rotate vault key modal — asks for the vault password, then re-encrypts the whole
+ * vault under a new data key while showing progress.
+ */
+
+import { Modal, Notice } from "obsidian";
+import type { App } from "obsidian";
+import type { SyncEngine } from "../sync/sync-engine";
+
+export class RotateKeyModal extends Modal {
+  private engine: SyncEngine;
+  private running = false;
+
+  constructor(app: App, engine: SyncEngine) {
+    super(app);
+    this.engine = engine;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("as-password-modal");
+    this.titleEl.setText("Rotate vault key");
+    const { contentEl } = this;
+
+    contentEl.createEl("p", {
+      cls: "as-password-note",
+      text: "Every file is downloaded, re-encrypted with a new vault key and uploaded again, " +
+        "so a removed device that kept the old key can no longer read new changes. " +
+        "Other devices are signed out until you enter the password on them. " +
+        "Version history and deleted files are encrypted with the old key and are removed, " +
+        "and your recovery kit stops working — create a new one afterwards.",
+    });
+
+    const group = contentEl.createDiv("as-field-group");
+    group.createEl("label", { text: "Vault password", cls: "as-field-label" });
+    const password = group.createDiv("as-password-wrapper")
+      .createEl("input", { type: "password", cls: "as-input as-password-input" });
+    const error = contentEl.createDiv({ cls: "as-error" });
+    const progress = contentEl.createDiv({ cls: "as-password-progress" });
+
+    const buttons = contentEl.createDiv({ cls: "as-password-buttons" });
+    const cancelBtn = buttons.createEl("button", { text: "Cancel" });
+    cancelBtn.onclick = () => this.close();
+    const rotateBtn = buttons.createEl("button", { text: "Rotate key", cls: "mod-warning" });
+    rotateBtn.onclick = async () => {
+      error.setText("");
+      if (!password.value) { error.setText("Enter the vault password."); return; }
+
+      this.running = true;
+      rotateBtn.disabled = true;
+      cancelBtn.disabled = true;
+      progress.setText("Starting...");
+      try {
+        await this.engine.rotateVaultKey(password.value, (done, total) => {
+          progress.setText(`Re-encrypting files: ${done} / ${total}`);
+        });
+        new Notice("Advanced Sync: Vault key rotated. Enter the password on your other devices.", 8000);
+        this.running = false;
+        this.close();
+      } catch (err: any) {
+        this.running = false;
+        progress.setText("");
+        error.setText(`Key not rotated: ${err.message}`);
+        rotateBtn.disabled = false;
+        cancelBtn.disabled = false;
+      }
+    };
+  }
+
+  close(): void {
+    // Closing mid-rotation would hide the progress but not stop it
+    if (this.running) return;
+    super.close();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
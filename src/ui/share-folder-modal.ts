@@ -0,0 +1,91 @@
+/**
+ * Share folder modal — shares a folder of this vault and invites another vault to it,
+ * or (given a shareId) invites another vault to a folder that is already shared.
+ */
+
+import { Modal, Notice } from "obsidian";
+import type { App } from "obsidian";
+import type { SyncEngine } from "../sync/sync-engine";
+
+export class ShareFolderModal extends Modal {
+  private engine: SyncEngine;
+  private shareId: string | null;
+  private folderPath: string;
+
+  constructor(app: App, engine: SyncEngine, shareId: string | null = null, folderPath = "") {
+    super(app);
+    this.engine = engine;
+    this.shareId = shareId;
+    this.folderPath = folderPath;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("as-password-modal");
+    this.titleEl.setText(this.shareId ? "Invite to shared folder" : "Share folder");
+    const { contentEl } = this;
+
+    contentEl.createEl("p", {
+      cls: "as-password-note",
+      text: this.shareId
+        ? "The other vault sees the folder once one of its devices accepts the invitation. Inviting a member again changes its role."
+        : "The folder gets an encryption key of its own and moves out of your vault's files into a shared folder. " +
+          "Vaults you invite get that key only, never your vault key. Its files count towards your storage quota.",
+    });
+
+    let folder: HTMLInputElement | null = null;
+    if (!this.shareId) {
+      const folderGroup = contentEl.createDiv("as-field-group");
+      folderGroup.createEl("label", { text: "Folder", cls: "as-field-label" });
+      folder = folderGroup.createEl("input", { type: "text", cls: "as-input", value: this.folderPath });
+      folder.placeholder = "e.g. Projects/Shared";
+    }
+
+    const vaultGroup = contentEl.createDiv("as-field-group");
+    vaultGroup.createEl("label", { text: this.shareId ? "Vault to invite" : "Vault to invite (optional)", cls: "as-field-label" });
+    const vaultId = vaultGroup.createEl("input", { type: "text", cls: "as-input" });
+    vaultId.placeholder = "Name of the vault on this server";
+
+    const roleGroup = contentEl.createDiv("as-field-group");
+    roleGroup.createEl("label", { text: "Access", cls: "as-field-label" });
+    const role = roleGroup.createEl("select", { cls: "dropdown as-vault-select" });
+    role.createEl("option", { text: "Read and write", value: "write" });
+    role.createEl("option", { text: "Read only", value: "read" });
+
+    const error = contentEl.createDiv({ cls: "as-error" });
+    const progress = contentEl.createDiv({ cls: "as-password-progress" });
+
+    const buttons = contentEl.createDiv({ cls: "as-password-buttons" });
+    buttons.createEl("button", { text: "Cancel" }).onclick = () => this.close();
+    const shareBtn = buttons.createEl("button", { text: this.shareId ? "Invite" : "Share", cls: "mod-cta" });
+    shareBtn.onclick = async () => {
+      error.setText("");
+      const invitee = vaultId.value.trim();
+      if (this.shareId && !invitee) { error.setText("Enter the name of the vault to invite."); return; }
+
+      shareBtn.disabled = true;
+      let shareId = this.shareId;
+      try {
+        if (!shareId && folder) {
+          progress.setText("Moving the folder's files into the shared folder...");
+          shareId = await this.engine.createShare(folder.value);
+          this.shareId = shareId;
+        }
+        if (shareId && invitee) {
+          progress.setText(`Inviting "${invitee}"...`);
+          await this.engine.inviteToShare(shareId, invitee, role.value === "read" ? "read" : "write");
+        }
+        new Notice(invitee ? `Advanced Sync: Invited "${invitee}" to the shared folder.` : "Advanced Sync: Folder shared.");
+        this.close();
+      } catch (err: any) {
+        progress.setText("");
+        // A folder shared before the invitation failed stays shared; retrying only invites
+        error.setText(shareId ? `Not invited: ${err.message}` : `Not shared: ${err.message}`);
+        shareBtn.disabled = false;
+      }
+    };
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -13,6 +13,7 @@ const DIRECTION_ICON: Record<string, string> = {
   delete:     "trash-2",
   create:     "plus",
   rename:     "pencil",
+  conflict:   "git-fork",
   connect:    "wifi",
   disconnect: "wifi-off",
   error:      "alert-triangle",
@@ -45,6 +46,7 @@ const STATE_LABELS: Record<string, string> = {
   disconnected:   "Disconnected",
   connecting:     "Connecting...",
   authenticating: "Authenticating...",
+  pending:        "Awaiting approval",
   syncing:        "Syncing...",
   idle:           "Connected",
   error:          "Error",
@@ -202,7 +204,7 @@ export class SyncActivityRenderer {
       return;
     }
 
-    const isFileDirection = (d: string) => ["upload", "download", "delete", "create", "rename"].includes(d);
+    const isFileDirection = (d: string) => ["upload", "download", "delete", "create", "rename", "conflict"].includes(d);
 
     // In-progress items — same row shape as history, grayed out
     for (const item of inProgress) {
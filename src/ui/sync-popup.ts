@@ -6,6 +6,7 @@
 
 import { setIcon } from "obsidian";
 import type { SyncState } from "@vault-sync/shared/types";
+import type { SyncDirection } from "../types";
 
 export interface SyncPopupCallbacks {
   onToggleSync: (enabled: boolean) => void;
@@ -20,6 +21,7 @@ export class SyncPopup {
   private callbacks: SyncPopupCallbacks;
   private getState: () => SyncState;
   private getSyncEnabled: () => boolean;
+  private getDirection: () => SyncDirection;
   private boundClose: (e: MouseEvent) => void;
   private refreshInterval: ReturnType<typeof setInterval> | null = null;
   private statusBadgeEl: HTMLElement | null = null;
@@ -29,11 +31,13 @@ export class SyncPopup {
     callbacks: SyncPopupCallbacks,
     getState: () => SyncState,
     getSyncEnabled: () => boolean,
+    getDirection: () => SyncDirection,
   ) {
     this.anchor = anchor;
     this.callbacks = callbacks;
     this.getState = getState;
     this.getSyncEnabled = getSyncEnabled;
+    this.getDirection = getDirection;
     this.boundClose = (e: MouseEvent) => {
       if (this.el && !this.el.contains(e.target as Node) && e.target !== this.anchor) {
         this.close();
@@ -66,6 +70,19 @@ export class SyncPopup {
     titleRow.createSpan({ text: "Advanced Sync", cls: "as-popup-title" });
     this.statusBadgeEl = titleRow.createDiv("as-popup-status-badge");
 
+    // ── One-way sync notice ──
+    const direction = this.getDirection();
+    if (direction !== "both") {
+      const modeRow = this.el.createDiv(`as-popup-mode as-popup-mode-${direction}`);
+      setIcon(modeRow.createSpan("as-popup-mode-icon"), direction === "send" ? "upload" : "download");
+      const modeText = modeRow.createDiv("as-popup-mode-text");
+      modeText.createDiv({ text: direction === "send" ? "Send only" : "Receive only", cls: "as-popup-mode-label" });
+      modeText.createDiv({
+        text: direction === "send" ? "Changes from other devices are not applied" : "Changes on this device are not uploaded",
+        cls: "as-popup-mode-desc",
+      });
+    }
+
     this.el.createDiv("as-popup-separator");
 
     // ── Syncing toggle ──
@@ -143,6 +160,7 @@ export class SyncPopup {
       disconnected:   "Disconnected",
       connecting:     "Connecting...",
       authenticating: "Authenticating...",
+      pending:        "Awaiting approval",
       syncing:        "Syncing...",
       idle:           "Connected",
       error:          "Error",
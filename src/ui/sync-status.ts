@@ -18,6 +18,7 @@ const STATUS_MAP: Record<SyncState, StatusConfig> = {
   disconnected:   { icon: "wifi-off",       text: "Sync: Off",      cls: "as-status-off" },
   connecting:     { icon: "loader",         text: "Connecting...",  cls: "as-status-connecting" },
   authenticating: { icon: "loader",         text: "Authenticating...", cls: "as-status-connecting" },
+  pending:        { icon: "user-check",     text: "Awaiting approval", cls: "as-status-connecting" },
   syncing:        { icon: "refresh-cw",     text: "Syncing...",     cls: "as-status-syncing" },
   idle:           { icon: "shield-check",   text: "Synced",         cls: "as-status-synced" },
   error:          { icon: "alert-triangle", text: "Sync Error",     cls: "as-status-error" },
@@ -0,0 +1,120 @@
+/**
+ * Deleted Files sidebar view — lists files the server still keeps in its trash
+ * and restores them with one click.
+ */
+
+import { ItemView, WorkspaceLeaf, Notice, setIcon } from "obsidian";
+import type { SyncEngine, TrashedFile } from "../sync/sync-engine";
+
+export const TRASH_VIEW_TYPE = "advanced-sync-trash";
+
+function formatTimeAgo(ts: number): string {
+  const diff = Date.now() - ts;
+  const m = Math.floor(diff / 60000);
+  if (m < 1) return "just now";
+  if (m < 60) return `${m}m ago`;
+  const h = Math.floor(m / 60);
+  if (h < 24) return `${h}h ago`;
+  return new Date(ts).toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+function formatSize(bytes: number): string {
+  if (!bytes) return "0 B";
+  const units = ["B", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return (bytes / Math.pow(1024, i)).toFixed(i > 0 ? 1 : 0) + " " + units[i];
+}
+
+export class TrashView extends ItemView {
+  private engine: SyncEngine;
+  private listEl: HTMLElement | null = null;
+  private loading = false;
+
+  constructor(leaf: WorkspaceLeaf, engine: SyncEngine) {
+    super(leaf);
+    this.engine = engine;
+  }
+
+  getViewType(): string { return TRASH_VIEW_TYPE; }
+  getDisplayText(): string { return "Deleted Files"; }
+  getIcon(): string { return "trash-2"; }
+
+  async onOpen(): Promise<void> {
+    const container = this.containerEl.children[1] as HTMLElement;
+    container.empty();
+    container.addClass("as-history-view");
+
+    const header = container.createDiv("as-history-view-header");
+    header.createSpan({ text: "Deleted Files", cls: "as-history-view-title" });
+
+    const refreshBtn = header.createDiv("as-history-view-eye-btn");
+    setIcon(refreshBtn, "refresh-cw");
+    refreshBtn.setAttribute("aria-label", "Refresh");
+    refreshBtn.addEventListener("click", () => this.refresh());
+
+    this.listEl = container.createDiv("as-history-view-scroll as-trash-list");
+    await this.refresh();
+  }
+
+  async onClose(): Promise<void> {
+    this.listEl = null;
+  }
+
+  /** Reload the trash listing from the server. */
+  async refresh(): Promise<void> {
+    const list = this.listEl;
+    if (!list || this.loading) return;
+    this.loading = true;
+    list.empty();
+    const status = list.createDiv({ cls: "as-trash-empty", text: "Loading deleted files..." });
+
+    try {
+      const files = await this.engine.listTrash();
+      status.remove();
+      if (files.length === 0) {
+        list.createDiv({ cls: "as-trash-empty", text: "The trash is empty." });
+      }
+      for (const file of files) this.renderFile(list, file);
+    } catch (err: any) {
+      status.setText(err.message === "Not connected"
+        ? "Connect to the sync server to see deleted files."
+        : `Could not load deleted files: ${err.message}`);
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  private renderFile(list: HTMLElement, file: TrashedFile): void {
+    const row = list.createDiv("as-trash-row");
+    const info = row.createDiv("as-trash-info");
+
+    const slash = file.path.lastIndexOf("/");
+    info.createDiv({ cls: "as-trash-name", text: file.path.substring(slash + 1) });
+    if (slash > 0) info.createDiv({ cls: "as-trash-folder", text: file.path.substring(0, slash) });
+
+    const details = [`deleted ${formatTimeAgo(file.deletedAt)}`];
+    if (file.deletedBy) details.push(`by ${file.deletedBy}`);
+    details.push(formatSize(file.size));
+    info.createDiv({ cls: "as-trash-meta", text: details.join(" · ") });
+
+    const restoreBtn = row.createEl("button", { text: "Restore" });
+    restoreBtn.onclick = async () => {
+      if (this.app.vault.getAbstractFileByPath(file.path)) {
+        new Notice(`Advanced Sync: ${file.path} already exists — rename it first`);
+        return;
+      }
+      restoreBtn.disabled = true;
+      try {
+        await this.engine.restoreFromTrash(file.fileId, file.shareId);
+        new Notice(`Advanced Sync: Restored ${file.path}`);
+        row.remove();
+        if (!list.querySelector(".as-trash-row")) {
+          list.createDiv({ cls: "as-trash-empty", text: "The trash is empty." });
+        }
+      } catch (err: any) {
+        new Notice(`Advanced Sync: Restore failed — ${err.message}`);
+        restoreBtn.disabled = false;
+      }
+    };
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Version history modal — lists the server's earlier versions of a file,
+ * decrypts them on demand for a preview, and restores one with a click.
+ */
+
+import { Modal, Notice } from "obsidian";
+import type { App } from "obsidian";
+import type { SyncEngine, FileVersion } from "../sync/sync-engine";
+
+/** Extensions whose versions can be previewed as plain text. */
+const TEXT_EXTS = new Set([".md", ".txt", ".canvas", ".json", ".css", ".csv"]);
+const PREVIEW_CHARS = 4000;
+
+function formatTimeAgo(ts: number): string {
+  const diff = Date.now() - ts;
+  const m = Math.floor(diff / 60000);
+  if (m < 1) return "just now";
+  if (m < 60) return `${m}m ago`;
+  const h = Math.floor(m / 60);
+  if (h < 24) return `${h}h ago`;
+  return new Date(ts).toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+function formatSize(bytes: number): string {
+  if (!bytes) return "0 B";
+  const units = ["B", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return (bytes / Math.pow(1024, i)).toFixed(i > 0 ? 1 : 0) + " " + units[i];
+}
+
+export class VersionHistoryModal extends Modal {
+  private engine: SyncEngine;
+  private filePath: string;
+
+  constructor(app: App, engine: SyncEngine, filePath: string) {
+    super(app);
+    this.engine = engine;
+    this.filePath = filePath;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("as-version-modal");
+    this.titleEl.setText(`Version history — ${this.filePath.split("/").pop() ?? this.filePath}`);
+    void this.load();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private async load(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+    const status = contentEl.createDiv({ cls: "as-version-empty", text: "Loading versions..." });
+
+    let versions: FileVersion[];
+    try {
+      versions = await this.engine.listVersions(this.filePath);
+    } catch (err: any) {
+      status.setText(`Could not load versions: ${err.message}`);
+      return;
+    }
+
+    if (versions.length === 0) {
+      status.setText("The server has no earlier versions of this file yet.");
+      return;
+    }
+
+    status.remove();
+    const list = contentEl.createDiv({ cls: "as-version-list" });
+    for (const version of versions) {
+      this.renderVersion(list, version);
+    }
+  }
+
+  private renderVersion(list: HTMLElement, version: FileVersion): void {
+    const item = list.createDiv({ cls: "as-version-item" });
+    const row = item.createDiv({ cls: "as-version-row" });
+
+    const info = row.createDiv({ cls: "as-version-info" });
+    const when = new Date(version.mtime).toLocaleString();
+    info.createDiv({ cls: "as-version-date", text: when });
+    const details = [formatSize(version.size)];
+    if (version.deviceName) details.push(version.deviceName);
+    details.push(`replaced ${formatTimeAgo(version.archivedAt)}`);
+    info.createDiv({ cls: "as-version-meta", text: details.join(" · ") });
+
+    const actions = row.createDiv({ cls: "as-version-actions" });
+    const preview = item.createEl("pre", { cls: "as-version-preview" });
+    preview.hide();
+
+    const dot = this.filePath.lastIndexOf(".");
+    const ext = dot > 0 ? this.filePath.substring(dot).toLowerCase() : "";
+    if (TEXT_EXTS.has(ext)) {
+      const previewBtn = actions.createEl("button", { text: "Preview" });
+      previewBtn.onclick = async () => {
+        if (preview.isShown()) {
+          preview.hide();
+          return;
+        }
+        previewBtn.disabled = true;
+        try {
+          const text = new TextDecoder().decode(await this.engine.loadVersion(this.filePath, version.versionId));
+          preview.setText(text.length > PREVIEW_CHARS ? text.substring(0, PREVIEW_CHARS) + "\n..." : text);
+          preview.show();
+        } catch (err: any) {
+          new Notice(`Advanced Sync: ${err.message}`);
+        } finally {
+          previewBtn.disabled = false;
+        }
+      };
+    }
+
+    const restoreBtn = actions.createEl("button", { text: "Restore", cls: "mod-cta" });
+    restoreBtn.onclick = async () => {
+      if (!window.confirm(`Restore the version from ${when}?\n\nThe current content stays in version history.`)) return;
+      restoreBtn.disabled = true;
+      try {
+        await this.engine.restoreVersion(this.filePath, version.versionId);
+        new Notice(`Advanced Sync: Restored version from ${when}`);
+        this.close();
+      } catch (err: any) {
+        new Notice(`Advanced Sync: Restore failed — ${err.message}`);
+        restoreBtn.disabled = false;
+      }
+    };
+  }
+}
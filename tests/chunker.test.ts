@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { chunkContent, MIN_BLOCK_SIZE, MAX_BLOCK_SIZE } from "../src/sync/chunker";
+import type { Block } from "../src/sync/chunker";
+
+/** Pseudo-random bytes from a fixed seed (xorshift32), so every run cuts the same content. */
+function randomBytes(length: number, seed: number): Uint8Array {
+  const data = new Uint8Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    data[i] = state & 0xff;
+  }
+  return data;
+}
+
+const blockContents = (data: Uint8Array, blocks: Block[]) =>
+  blocks.map(({ offset, length }) => Buffer.from(data.subarray(offset, offset + length)).toString("base64"));
+
+describe("chunkContent", () => {
+  it.each([
+    { name: "empty content", length: 0, blocks: 0 },
+    { name: "one byte", length: 1, blocks: 1 },
+    { name: "content of the minimum block size", length: MIN_BLOCK_SIZE, blocks: 1 },
+  ])("cuts $name into $blocks block(s)", ({ length, blocks }) => {
+    expect(chunkContent(randomBytes(length, 1))).toHaveLength(blocks);
+  });
+
+  it.each([
+    { name: "random bytes", data: randomBytes(8 * 1024 * 1024, 7) },
+    { name: "zeros", data: new Uint8Array(5 * 1024 * 1024) },
+  ])("covers $name end to end with blocks within the size limits", ({ data }) => {
+    const blocks = chunkContent(data);
+    let offset = 0;
+    for (const [i, block] of blocks.entries()) {
+      expect(block.offset).toBe(offset);
+      expect(block.length).toBeLessThanOrEqual(MAX_BLOCK_SIZE);
+      if (i < blocks.length - 1) expect(block.length).toBeGreaterThanOrEqual(MIN_BLOCK_SIZE);
+      offset += block.length;
+    }
+    expect(offset).toBe(data.length);
+  });
+
+  it("cuts the same content at the same places", () => {
+    expect(chunkContent(randomBytes(4 * 1024 * 1024, 3))).toEqual(chunkContent(randomBytes(4 * 1024 * 1024, 3)));
+  });
+
+  it("keeps the blocks away from an insertion", () => {
+    const original = randomBytes(8 * 1024 * 1024, 11);
+    const at = 4 * 1024 * 1024 + 12345;
+    const edited = new Uint8Array(original.length + 100);
+    edited.set(original.subarray(0, at));
+    edited.set(randomBytes(100, 99), at);
+    edited.set(original.subarray(at), at + 100);
+
+    const before = blockContents(original, chunkContent(original));
+    const after = blockContents(edited, chunkContent(edited));
+    const kept = new Set(before);
+    const changed = after.filter((block) => !kept.has(block));
+    expect(before.length).toBeGreaterThan(4);
+    // The block holding the insertion changes; at most its neighbour is cut differently too
+    expect(changed.length).toBeGreaterThanOrEqual(1);
+    expect(changed.length).toBeLessThanOrEqual(2);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { encodeDelta, applyDelta } from "../src/sync/delta";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Header of a delta: the start and length of the range it replaces. */
+const HEADER_SIZE = 8;
+
+describe("encodeDelta / applyDelta", () => {
+  it.each([
+    { name: "no change", base: "Some note\n", target: "Some note\n", inserted: "" },
+    { name: "an appended line", base: "# Log\n- one\n", target: "# Log\n- one\n- two\n", inserted: "- two\n" },
+    { name: "a fixed typo", base: "The quick brwon fox", target: "The quick brown fox", inserted: "ow" },
+    { name: "a removed paragraph", base: "a\n\nremove me\n\nb", target: "a\n\nb", inserted: "" },
+    { name: "a prepended heading", base: "text", target: "# Title\ntext", inserted: "# Title\n" },
+    { name: "a rewrite", base: "old", target: "completely new", inserted: "completely new" },
+    { name: "an emptied note", base: "gone", target: "", inserted: "" },
+    { name: "a new note", base: "", target: "fresh", inserted: "fresh" },
+    { name: "repeated text", base: "aaaa", target: "aaaaaa", inserted: "aa" },
+  ])("round-trips $name with a delta about the size of the change", ({ base, target, inserted }) => {
+    const delta = encodeDelta(encoder.encode(base), encoder.encode(target));
+    expect(delta.length).toBe(HEADER_SIZE + encoder.encode(inserted).length);
+    expect(decoder.decode(applyDelta(encoder.encode(base), delta)!)).toBe(target);
+  });
+
+  it("applies a delta that sits inside a larger buffer", () => {
+    const delta = encodeDelta(encoder.encode("one two"), encoder.encode("one 2 two"));
+    const framed = new Uint8Array(delta.length + 6);
+    framed.set(delta, 3);
+    expect(decoder.decode(applyDelta(encoder.encode("one two"), framed.subarray(3, 3 + delta.length))!)).toBe("one 2 two");
+  });
+
+  it.each([
+    { name: "a delta shorter than its header", base: "abc", delta: new Uint8Array(HEADER_SIZE - 1) },
+    { name: "a delta made against a longer base", base: "short", delta: encodeDelta(encoder.encode("a much longer base"), encoder.encode("a much longer base!")) },
+  ])("rejects $name", ({ base, delta }) => {
+    expect(applyDelta(encoder.encode(base), delta)).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { paddedSize, padContent, unpadContent, MIN_PADDED_SIZE } from "../src/sync/padding";
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+
+describe("paddedSize", () => {
+  it.each([
+    { size: 0, padded: MIN_PADDED_SIZE },
+    { size: 1, padded: MIN_PADDED_SIZE },
+    { size: 4096, padded: 4096 },
+    { size: 4097, padded: 4352 },
+    { size: 5000, padded: 5120 },
+    { size: 65536, padded: 65536 },
+    { size: 1_000_000, padded: 1_015_808 },
+  ])("pads $size bytes to $padded", ({ size, padded }) => {
+    expect(paddedSize(size)).toBe(padded);
+  });
+
+  it("never shrinks a file, grows it by at most 12% and keeps the order of sizes", () => {
+    let previous = 0;
+    for (let size = MIN_PADDED_SIZE; size < 64 * 1024 * 1024; size = Math.ceil(size * 1.07) + 1) {
+      const padded = paddedSize(size);
+      expect(padded).toBeGreaterThanOrEqual(size);
+      expect(padded).toBeLessThanOrEqual(size * 1.12);
+      expect(padded).toBeGreaterThanOrEqual(previous);
+      // Sizes that pad to a bucket stay in it
+      expect(paddedSize(padded)).toBe(padded);
+      previous = padded;
+    }
+  });
+});
+
+describe("padContent / unpadContent", () => {
+  it.each([0, 1, 4096, 4097, 123_456])("round-trips %i bytes", (size) => {
+    const content = bytes(size);
+    const padded = padContent(content.buffer);
+    expect(padded.byteLength).toBe(paddedSize(size));
+    expect(new Uint8Array(padded).subarray(size).every((b) => b === 0)).toBe(true);
+    expect(new Uint8Array(unpadContent(padded, size))).toEqual(content);
+  });
+
+  it.each([
+    { name: "without a size", size: undefined },
+    { name: "with a size larger than the content", size: 200 },
+  ])("leaves content alone $name", ({ size }) => {
+    const content = bytes(100).buffer;
+    expect(unpadContent(content, size)).toBe(content);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { mergeText } from "../src/sync/three-way-merge";
+
+const labels = { local: "this device", remote: "laptop" };
+
+const lines = (...l: string[]) => l.join("\n");
+
+describe("mergeText", () => {
+  const base = lines("# Title", "", "one", "two", "three", "four", "five");
+
+  it.each([
+    {
+      name: "neither side changed",
+      local: base,
+      remote: base,
+      text: base,
+    },
+    {
+      name: "only this device changed",
+      local: lines("# Title", "", "one", "TWO", "three", "four", "five"),
+      remote: base,
+      text: lines("# Title", "", "one", "TWO", "three", "four", "five"),
+    },
+    {
+      name: "only the other device changed",
+      local: base,
+      remote: lines("# Title", "", "one", "two", "three", "four", "five", "six"),
+      text: lines("# Title", "", "one", "two", "three", "four", "five", "six"),
+    },
+    {
+      name: "both sides edited different lines",
+      local: lines("# New title", "", "one", "two", "three", "four", "five"),
+      remote: lines("# Title", "", "one", "two", "three", "four", "FIVE"),
+      text: lines("# New title", "", "one", "two", "three", "four", "FIVE"),
+    },
+    {
+      name: "one side inserted, the other deleted elsewhere",
+      local: lines("# Title", "", "zero", "one", "two", "three", "four", "five"),
+      remote: lines("# Title", "", "one", "two", "three", "five"),
+      text: lines("# Title", "", "zero", "one", "two", "three", "five"),
+    },
+    {
+      name: "both sides made the same change",
+      local: lines("# Title", "", "one", "2", "three", "four", "five"),
+      remote: lines("# Title", "", "one", "2", "three", "four", "five!"),
+      text: lines("# Title", "", "one", "2", "three", "four", "five!"),
+    },
+  ])("merges cleanly when $name", ({ local, remote, text }) => {
+    expect(mergeText(base, local, remote, labels)).toEqual({ text, conflicts: 0 });
+  });
+
+  it("marks the overlapping edits as a conflict and merges the rest", () => {
+    const local = lines("# New title", "", "one", "two (mine)", "three", "four", "five");
+    const remote = lines("# Title", "", "one", "two (theirs)", "three", "four", "five", "six");
+    expect(mergeText(base, local, remote, labels)).toEqual({
+      text: lines(
+        "# New title", "", "one",
+        "<<<<<<< this device", "two (mine)", "=======", "two (theirs)", ">>>>>>> laptop",
+        "three", "four", "five", "six",
+      ),
+      conflicts: 1,
+    });
+  });
+
+  it("counts each conflicting region", () => {
+    const local = lines("# A", "", "one", "two", "three", "four", "5");
+    const remote = lines("# B", "", "one", "two", "three", "four", "V");
+    const { text, conflicts } = mergeText(base, local, remote, labels);
+    expect(conflicts).toBe(2);
+    expect(text.split("\n").filter((l) => l.startsWith("<<<<<<<"))).toHaveLength(2);
+  });
+
+  it("keeps both versions when there is no common ancestor", () => {
+    expect(mergeText("", "mine", "theirs", labels)).toEqual({
+      text: lines("<<<<<<< this device", "mine", "=======", "theirs", ">>>>>>> laptop"),
+      conflicts: 1,
+    });
+  });
+});